@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.20 <=0.8.26;
+
+import { ISwapTokens } from "./ISwapTokens.sol";
+
+/**
+ * @title A Token swapper contract interface for collection-wide offers.
+ * @author The Dark Jester
+ * @notice An ERC721 or ERC1155 acceptor side with the acceptorTokenId type(uint256).max accepts any tokenId of the collection.
+ * @notice The acceptor chooses the tokenId when completing, and the acceptor address can be left empty for ERC721.
+ * @custom:security-contact https://github.com/thedarkjester/P2PSwap/security/advisories/new
+ */
+interface ICollectionSwaps is ISwapTokens {
+  /**
+   * @dev Emitted after SwapComplete when the acceptor chose the tokenId of a collection swap.
+   * @param swapId The ID of the swap.
+   * @param acceptorTokenId The tokenId the acceptor sent.
+   */
+  event AcceptorTokenIdChosen(uint256 indexed swapId, uint256 indexed acceptorTokenId);
+
+  /**
+   * @dev Thrown when a tokenId is chosen for a swap that pins its acceptorTokenId.
+   */
+  error NotCollectionSwap();
+
+  /**
+   * @dev Thrown when a collection swap is completed without choosing the tokenId.
+   */
+  error AcceptorTokenIdNotChosen();
+
+  /**
+   * @notice Completes a collection swap with a tokenId the acceptor chooses.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @param _swapId The ID of the swap.
+   * @param _swap The swap data to use and verify, with the acceptorTokenId type(uint256).max.
+   * @param _acceptorTokenId The tokenId of the collection the acceptor sends.
+   */
+  function completeCollectionSwap(uint256 _swapId, Swap memory _swap, uint256 _acceptorTokenId) external payable;
+}
+/*   
+                                                              
+T H E D A R K J E S T E R . E T H
+
+
+                                        %%##%%%&                                
+                           ,@@@@(     %#%%%%%%%%%&                              
+                          ,&&&&@@@& %##%%%&%    ,#&                             
+                          &&&&%&&&&%%#%#%%&       #                             
+                         *&   %&& @% .% @&%       .,                            
+                         /     & %  @#% @%&%                                    
+                                  /....@/#&&                                    
+                                  .../*@..%&.                                   
+                                 ,    **&@&&                                    
+                           *&#%%&%&&@@&&&&%&@@&@                                
+                       %#####&&&&&&&&&/(&&&&&&&&&&&%%                            
+                     %#######&&&&&&&#//((%&&&&&&&&&@@&&(                         
+ @@# *&*   @&       &%######%&&&&&&////((((&&&&&&&&@@&&&&                        
+ . .%&&&&%%@&*     &%########&&&&//////(((((#&&&&&&@@&@%@#                       
+     &&&@@&@@@@@&&@&#&&%#####&&&////(((())(((&&&&&@@@@@@&                       
+    &*&&&@&%@@@@@@@@@&&%#%###&#((((((()))))))))%&&&&&&@%%%                       
+     &%&&&&@@@@@@@&@&&#*  ##&&#\(((#(((())))))%%&&@@&&&%%@                      
+    % %*&%.%.  .*@&@#  * .#%&&&&//(# T D J ((&&&&@@@ &&&&&&&*                   
+       / %*              , #%&&&&&/////((((/&&&&&&@  @&&&&&&%%%##/#/  .*&&*      
+         .,                 #&&&&&&%///(((/&&&&&&&(    /&%%%&%%%%&%&%%%%@@@@@@@@,
+                             @%#%%%##\%%&/&&@&@@*         &%%&%%%&%%%&%@@@@ #%@@
+                            &#&&@&&&&&\&/@@@@@@@@@             *%&&%&&%&&@@   #@ 
+                           ##&@&&%%%%%&&&@&@&@@&&@               %%&&%#.%  @    
+                          ,#%&@&&&%#%%&&&&&&@@&&@@/             *% *%%( &       
+                          .#%@@@&@%%%%&&&&&&&&&&@@.                 *%          
+                          %#&@@&&@%%%%&&&&&&&&&&&&&.                 (          
+                          ##&@&&&&%%%&&&&&%%&&%%&&&%                            
+                          #%&@&&&&&%%&%&&&%%%%%%%%&%&                           
+                         *#&&@&&&&@#@@%%&&%%%%%%%%%&%&                          
+                         %&&@@&&&&&@@@@%%%%%%%%%%%%%%%&                         
+                         &&&@@&&&&&@@#   %%%%%%%%%%%%%%.                        
+                         &&&@@&&&&&&#     *%%%%%%%%%%%%%                        
+                         .%&@@&&&&&@        %%%%%%%%%%%%%                       
+                          &&@@&@@&&/         ,%%%%%%%%%%%&,                     
+                           &@@@@@@&@           %%%%%%%%%%%%%                    
+                           @@@@@@@@@#           (%%%%%%&%%%%%%                  
+                           (&&@@@@@@@             %%%%%%&%%%%%#                 
+                            @&&@@@@@&@             /%%%%%&%%%%%(                
+                             &&&@@@@@@               %%%%%&&%%%%                
+                             *&&&@@@@@@               %%%%%%&&%%&               
+                              (&&&@@@@&@.               &%%%%%&%%%&             
+                               #&&@@@@@@@                 &%%&%&%&&             
+                                  @@@@@@@&@                  &&&&%%&%           
+                                  &@@&&&&@ .                %&%&&%@%&&%         
+                                 *&@@&&@@&&                 %%%.@&(&&@          
+                             &&@&&&&@@@@@@(                 %(%#&&%(%,          
+                               (#%#,                         ,,&&@&&&,  
+                                                              
+T H E D A R K J E S T E R . E T H
+                
+*/
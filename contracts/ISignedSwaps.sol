@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.20 <=0.8.26;
+
+import { ISwapTokens } from "./ISwapTokens.sol";
+
+/**
+ * @title A Token swapper contract interface for swaps signed off-chain.
+ * @author The Dark Jester
+ * @notice The initiator signs an EIP-712 typed data Swap with a nonce for free, the acceptor fills it on-chain in one transaction.
+ * @notice Only the acceptor can sweeten a signed swap with ETH, as the initiator never sends a transaction.
+ * @custom:security-contact https://github.com/thedarkjester/P2PSwap/security/advisories/new
+ */
+interface ISignedSwaps is ISwapTokens {
+  /**
+   * @dev Emitted when a signed swap is completed by the acceptor.
+   * @param initiator The initiator address.
+   * @param nonce The nonce the initiator signed the swap with.
+   * @param acceptor The acceptor address.
+   * @param swap The full swap data.
+   */
+  event SignedSwapComplete(address indexed initiator, uint256 indexed nonce, address indexed acceptor, Swap swap);
+
+  /**
+   * @dev Emitted when an initiator cancels a nonce, invalidating any swap signed with it.
+   * @param initiator The initiator address.
+   * @param nonce The cancelled nonce.
+   */
+  event SignedSwapNonceCancelled(address indexed initiator, uint256 indexed nonce);
+
+  /**
+   * @dev Thrown when the signature is not the initiator's signature of the swap and nonce.
+   */
+  error InvalidSignature();
+
+  /**
+   * @dev Thrown when the nonce has already been used to complete a swap or has been cancelled.
+   * @param initiator The initiator address.
+   * @param nonce The used nonce.
+   */
+  error SignedSwapNonceUsed(address initiator, uint256 nonce);
+
+  /**
+   * @dev Thrown when a signed swap has an initiator ETH portion, which the initiator cannot send with a signature.
+   */
+  error SignedSwapInitiatorETHDisallowed();
+
+  /**
+   * @notice Completes a swap the initiator signed off-chain.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @dev The swap is validated as initiateSwap would, and the nonce is used up.
+   * @param _swap The full swap data the initiator signed.
+   * @param _nonce The nonce the initiator signed the swap with.
+   * @param _signature The initiator's EIP-712 signature, or ERC-1271 signature for contract wallets.
+   */
+  function completeSignedSwap(Swap calldata _swap, uint256 _nonce, bytes calldata _signature) external payable;
+
+  /**
+   * @notice Cancels a nonce, invalidating any swap msg.sender signed with it.
+   * @param _nonce The nonce to cancel.
+   */
+  function cancelSignedSwapNonce(uint256 _nonce) external;
+
+  /**
+   * @notice Checks if an initiator's nonce was used to complete a swap or cancelled.
+   * @param _initiator The initiator address.
+   * @param _nonce The nonce to check.
+   * @return nonceUsed If the nonce can no longer be used.
+   */
+  function isSignedSwapNonceUsed(address _initiator, uint256 _nonce) external view returns (bool nonceUsed);
+
+  /**
+   * @notice Retrieves the EIP-712 domain separator, unique to the deployment and chain.
+   * @return domainSeparator The domain separator.
+   */
+  function DOMAIN_SEPARATOR() external view returns (bytes32 domainSeparator);
+
+  /**
+   * @notice Computes the EIP-712 digest the initiator signs for a swap and nonce.
+   * @param _swap The full swap data.
+   * @param _nonce The nonce.
+   * @return digest The typed data digest.
+   */
+  function hashSignedSwap(Swap calldata _swap, uint256 _nonce) external view returns (bytes32 digest);
+}
+/*   
+                                                              
+T H E D A R K J E S T E R . E T H
+
+
+                                        %%##%%%&                                
+                           ,@@@@(     %#%%%%%%%%%&                              
+                          ,&&&&@@@& %##%%%&%    ,#&                             
+                          &&&&%&&&&%%#%#%%&       #                             
+                         *&   %&& @% .% @&%       .,                            
+                         /     & %  @#% @%&%                                    
+                                  /....@/#&&                                    
+                                  .../*@..%&.                                   
+                                 ,    **&@&&                                    
+                           *&#%%&%&&@@&&&&%&@@&@                                
+                       %#####&&&&&&&&&/(&&&&&&&&&&&%%                            
+                     %#######&&&&&&&#//((%&&&&&&&&&@@&&(                         
+ @@# *&*   @&       &%######%&&&&&&////((((&&&&&&&&@@&&&&                        
+ . .%&&&&%%@&*     &%########&&&&//////(((((#&&&&&&@@&@%@#                       
+     &&&@@&@@@@@&&@&#&&%#####&&&////(((())(((&&&&&@@@@@@&                       
+    &*&&&@&%@@@@@@@@@&&%#%###&#((((((()))))))))%&&&&&&@%%%                       
+     &%&&&&@@@@@@@&@&&#*  ##&&#\(((#(((())))))%%&&@@&&&%%@                      
+    % %*&%.%.  .*@&@#  * .#%&&&&//(# T D J ((&&&&@@@ &&&&&&&*                   
+       / %*              , #%&&&&&/////((((/&&&&&&@  @&&&&&&%%%##/#/  .*&&*      
+         .,                 #&&&&&&%///(((/&&&&&&&(    /&%%%&%%%%&%&%%%%@@@@@@@@,
+                             @%#%%%##\%%&/&&@&@@*         &%%&%%%&%%%&%@@@@ #%@@
+                            &#&&@&&&&&\&/@@@@@@@@@             *%&&%&&%&&@@   #@ 
+                           ##&@&&%%%%%&&&@&@&@@&&@               %%&&%#.%  @    
+                          ,#%&@&&&%#%%&&&&&&@@&&@@/             *% *%%( &       
+                          .#%@@@&@%%%%&&&&&&&&&&@@.                 *%          
+                          %#&@@&&@%%%%&&&&&&&&&&&&&.                 (          
+                          ##&@&&&&%%%&&&&&%%&&%%&&&%                            
+                          #%&@&&&&&%%&%&&&%%%%%%%%&%&                           
+                         *#&&@&&&&@#@@%%&&%%%%%%%%%&%&                          
+                         %&&@@&&&&&@@@@%%%%%%%%%%%%%%%&                         
+                         &&&@@&&&&&@@#   %%%%%%%%%%%%%%.                        
+                         &&&@@&&&&&&#     *%%%%%%%%%%%%%                        
+                         .%&@@&&&&&@        %%%%%%%%%%%%%                       
+                          &&@@&@@&&/         ,%%%%%%%%%%%&,                     
+                           &@@@@@@&@           %%%%%%%%%%%%%                    
+                           @@@@@@@@@#           (%%%%%%&%%%%%%                  
+                           (&&@@@@@@@             %%%%%%&%%%%%#                 
+                            @&&@@@@@&@             /%%%%%&%%%%%(                
+                             &&&@@@@@@               %%%%%&&%%%%                
+                             *&&&@@@@@@               %%%%%%&&%%&               
+                              (&&&@@@@&@.               &%%%%%&%%%&             
+                               #&&@@@@@@@                 &%%&%&%&&             
+                                  @@@@@@@&@                  &&&&%%&%           
+                                  &@@&&&&@ .                %&%&&%@%&&%         
+                                 *&@@&&@@&&                 %%%.@&(&&@          
+                             &&@&&&&@@@@@@(                 %(%#&&%(%,          
+                               (#%#,                         ,,&&@&&&,  
+                                                              
+T H E D A R K J E S T E R . E T H
+                
+*/
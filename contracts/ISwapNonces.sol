@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.20 <=0.8.26;
+
+import { ISwapTokens } from "./ISwapTokens.sol";
+
+/**
+ * @title A Token swapper contract interface for cancelling all of an initiator's offers in one transaction.
+ * @author The Dark Jester
+ * @notice Raising the minimum nonce cancels every swap signed with a lower nonce and every swap initiated so far.
+ * @notice Cancelled swaps can no longer be completed, but the initiator can still remove them to refund the ETH portion.
+ * @custom:security-contact https://github.com/thedarkjester/P2PSwap/security/advisories/new
+ */
+interface ISwapNonces is ISwapTokens {
+  /**
+   * @dev Emitted when an initiator raises the minimum nonce.
+   * @param initiator The initiator address.
+   * @param minNonce The new minimum nonce, swaps signed with a lower nonce are cancelled.
+   * @param minSwapId The next swap ID at the time, swaps the initiator initiated with a lower ID are cancelled.
+   */
+  event NonceIncremented(address indexed initiator, uint256 minNonce, uint256 minSwapId);
+
+  /**
+   * @dev Thrown when the new minimum nonce is not above the current one.
+   * @param minNonce The current minimum nonce.
+   */
+  error NonceNotIncreased(uint256 minNonce);
+
+  /**
+   * @dev Thrown when the swap was initiated before the initiator raised the minimum nonce.
+   * @param swapId The ID of the cancelled swap.
+   */
+  error SwapCancelled(uint256 swapId);
+
+  /**
+   * @notice Raises msg.sender's minimum nonce by one, cancelling every swap msg.sender initiated so far.
+   * @dev Only swaps signed with the current minimum nonce are cancelled with it, use cancelUpTo for signed swaps.
+   */
+  function incrementNonce() external;
+
+  /**
+   * @notice Raises msg.sender's minimum nonce, cancelling every swap signed with a lower nonce or initiated so far.
+   * @param _minNonce The new minimum nonce, above the current one.
+   */
+  function cancelUpTo(uint256 _minNonce) external;
+
+  /**
+   * @notice Retrieves the minimum nonce an initiator's signed swaps need to be completed.
+   * @param _initiator The initiator address.
+   * @return minNonce The minimum nonce.
+   */
+  function getMinNonce(address _initiator) external view returns (uint256 minNonce);
+
+  /**
+   * @notice Retrieves the minimum swap ID an initiator's initiated swaps need to be completed.
+   * @param _initiator The initiator address.
+   * @return minSwapId The minimum swap ID, zero if the initiator never raised the minimum nonce.
+   */
+  function getMinSwapId(address _initiator) external view returns (uint256 minSwapId);
+}
+/*   
+                                                              
+T H E D A R K J E S T E R . E T H
+
+
+                                        %%##%%%&                                
+                           ,@@@@(     %#%%%%%%%%%&                              
+                          ,&&&&@@@& %##%%%&%    ,#&                             
+                          &&&&%&&&&%%#%#%%&       #                             
+                         *&   %&& @% .% @&%       .,                            
+                         /     & %  @#% @%&%                                    
+                                  /....@/#&&                                    
+                                  .../*@..%&.                                   
+                                 ,    **&@&&                                    
+                           *&#%%&%&&@@&&&&%&@@&@                                
+                       %#####&&&&&&&&&/(&&&&&&&&&&&%%                            
+                     %#######&&&&&&&#//((%&&&&&&&&&@@&&(                         
+ @@# *&*   @&       &%######%&&&&&&////((((&&&&&&&&@@&&&&                        
+ . .%&&&&%%@&*     &%########&&&&//////(((((#&&&&&&@@&@%@#                       
+     &&&@@&@@@@@&&@&#&&%#####&&&////(((())(((&&&&&@@@@@@&                       
+    &*&&&@&%@@@@@@@@@&&%#%###&#((((((()))))))))%&&&&&&@%%%                       
+     &%&&&&@@@@@@@&@&&#*  ##&&#\(((#(((())))))%%&&@@&&&%%@                      
+    % %*&%.%.  .*@&@#  * .#%&&&&//(# T D J ((&&&&@@@ &&&&&&&*                   
+       / %*              , #%&&&&&/////((((/&&&&&&@  @&&&&&&%%%##/#/  .*&&*      
+         .,                 #&&&&&&%///(((/&&&&&&&(    /&%%%&%%%%&%&%%%%@@@@@@@@,
+                             @%#%%%##\%%&/&&@&@@*         &%%&%%%&%%%&%@@@@ #%@@
+                            &#&&@&&&&&\&/@@@@@@@@@             *%&&%&&%&&@@   #@ 
+                           ##&@&&%%%%%&&&@&@&@@&&@               %%&&%#.%  @    
+                          ,#%&@&&&%#%%&&&&&&@@&&@@/             *% *%%( &       
+                          .#%@@@&@%%%%&&&&&&&&&&@@.                 *%          
+                          %#&@@&&@%%%%&&&&&&&&&&&&&.                 (          
+                          ##&@&&&&%%%&&&&&%%&&%%&&&%                            
+                          #%&@&&&&&%%&%&&&%%%%%%%%&%&                           
+                         *#&&@&&&&@#@@%%&&%%%%%%%%%&%&                          
+                         %&&@@&&&&&@@@@%%%%%%%%%%%%%%%&                         
+                         &&&@@&&&&&@@#   %%%%%%%%%%%%%%.                        
+                         &&&@@&&&&&&#     *%%%%%%%%%%%%%                        
+                         .%&@@&&&&&@        %%%%%%%%%%%%%                       
+                          &&@@&@@&&/         ,%%%%%%%%%%%&,                     
+                           &@@@@@@&@           %%%%%%%%%%%%%                    
+                           @@@@@@@@@#           (%%%%%%&%%%%%%                  
+                           (&&@@@@@@@             %%%%%%&%%%%%#                 
+                            @&&@@@@@&@             /%%%%%&%%%%%(                
+                             &&&@@@@@@               %%%%%&&%%%%                
+                             *&&&@@@@@@               %%%%%%&&%%&               
+                              (&&&@@@@&@.               &%%%%%&%%%&             
+                               #&&@@@@@@@                 &%%&%&%&&             
+                                  @@@@@@@&@                  &&&&%%&%           
+                                  &@@&&&&@ .                %&%&&%@%&&%         
+                                 *&@@&&@@&&                 %%%.@&(&&@          
+                             &&@&&&&@@@@@@(                 %(%#&&%(%,          
+                               (#%#,                         ,,&&@&&&,  
+                                                              
+T H E D A R K J E S T E R . E T H
+                
+*/
@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.20 <=0.8.26;
+
+import { ISwapTokens } from "./ISwapTokens.sol";
+
+/**
+ * @title A Token swapper contract interface for swapping baskets of tokens.
+ * @author The Dark Jester
+ * @notice You can use this contract for swaps where each party gives any mix of ERC-721(A), ERC-1155, (x)ERC-20 or ERC-777 tokens.
+ * @notice Any party can sweeten the deal with ETH, but that must be set up by the initiator.
+ * @custom:security-contact https://github.com/thedarkjester/P2PSwap/security/advisories/new
+ */
+interface ISwapTokenBundles is ISwapTokens {
+  /**
+   * @dev Emitted when a new bundle swap is initiated.
+   * @param swapId The unique swapId, shared with single token swaps.
+   * @param initiator The initiator address.
+   * @param acceptor The acceptor address.
+   * @param swap The full bundle swap data.
+   */
+  event BundleSwapInitiated(
+    uint256 indexed swapId,
+    address indexed initiator,
+    address indexed acceptor,
+    BundleSwap swap
+  );
+
+  /**
+   * @dev Emitted when a bundle swap is completed by the acceptor.
+   * @dev Removing a bundle swap emits SwapRemoved as the swapId is shared with single token swaps.
+   * @param swapId The unique swapId.
+   * @param initiator The initiator address.
+   * @param acceptor The acceptor address.
+   * @param swap The full bundle swap data.
+   */
+  event BundleSwapComplete(
+    uint256 indexed swapId,
+    address indexed initiator,
+    address indexed acceptor,
+    BundleSwap swap
+  );
+
+  /**
+   * @dev tokenType The type of token used to determine swap mechanics, NONE is not allowed.
+   * @dev ercContract is the contract address for the token.
+   * @dev tokenId is the NFT Id for ERC721 and ERC1155 tokens.
+   * @dev tokenQuantity is the quantity for ERC20, ERC777 and ERC1155 tokens.
+   */
+  struct BundleItem {
+    TokenType tokenType;
+    address ercContract;
+    uint256 tokenId;
+    uint256 tokenQuantity;
+  }
+
+  /**
+   * @dev expiryDate is the expiration date of when the swap can occur until.
+   * @dev initiator is the address for the account initiating the swap.
+   * @dev acceptor is the address for the account accepting the swap.
+   * @dev initiatorETHPortion is the ETH sweetener offered by the intiator.
+   * @dev acceptorETHPortion is the ETH sweetener to be provided by the acceptor.
+   * @dev initiatorItems are the tokens the initiator gives, empty for an ETH only side.
+   * @dev acceptorItems are the tokens the acceptor gives, empty for an ETH only side.
+   */
+  struct BundleSwap {
+    uint256 expiryDate;
+    address initiator;
+    address acceptor;
+    uint256 initiatorETHPortion;
+    uint256 acceptorETHPortion;
+    BundleItem[] initiatorItems;
+    BundleItem[] acceptorItems;
+  }
+
+  /**
+   * @dev Thrown when a bundle item has the NONE token type, an ETH only side has no items instead.
+   */
+  error NoneTokenTypeInBundle();
+
+  /**
+   * @notice Initiates a swap of two baskets of tokens.
+   * @dev The same rules as initiateSwap apply, with every item validated for its token type.
+   * @dev An ERC721 item on the acceptor side requires the acceptor to be set.
+   * @param _swap The full bundle swap details.
+   */
+  function initiateBundleSwap(BundleSwap calldata _swap) external payable;
+
+  /**
+   * @notice Completes the bundle swap.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @param _swapId The ID of the swap.
+   * @param _swap The full bundle swap data as retrieved from the initiating event.
+   */
+  function completeBundleSwap(uint256 _swapId, BundleSwap calldata _swap) external payable;
+
+  /**
+   * @notice Cancels/Removes the bundle swap if not accepted.
+   * @dev msg.sender is the initiator.
+   * @dev The Initiator ETH portion is added to the initiator balance if exists.
+   * @param _swapId The ID of the swap.
+   * @param _swap The full bundle swap data as retrieved from the initiating event.
+   */
+  function removeBundleSwap(uint256 _swapId, BundleSwap calldata _swap) external;
+
+  /**
+   * @notice Retrieves the token status of a bundle swap.
+   * @dev A side needs to own or approve tokens if any one of its items does.
+   * @param _swapId The ID of the swap.
+   * @param _swap The full bundle swap details.
+   * @return swapStatus The checked ownership and permissions struct for both parties's baskets.
+   */
+  function getBundleSwapStatus(
+    uint256 _swapId,
+    BundleSwap calldata _swap
+  ) external view returns (SwapStatus memory swapStatus);
+}
+/*   
+                                                              
+T H E D A R K J E S T E R . E T H
+
+
+                                        %%##%%%&                                
+                           ,@@@@(     %#%%%%%%%%%&                              
+                          ,&&&&@@@& %##%%%&%    ,#&                             
+                          &&&&%&&&&%%#%#%%&       #                             
+                         *&   %&& @% .% @&%       .,                            
+                         /     & %  @#% @%&%                                    
+                                  /....@/#&&                                    
+                                  .../*@..%&.                                   
+                                 ,    **&@&&                                    
+                           *&#%%&%&&@@&&&&%&@@&@                                
+                       %#####&&&&&&&&&/(&&&&&&&&&&&%%                            
+                     %#######&&&&&&&#//((%&&&&&&&&&@@&&(                         
+ @@# *&*   @&       &%######%&&&&&&////((((&&&&&&&&@@&&&&                        
+ . .%&&&&%%@&*     &%########&&&&//////(((((#&&&&&&@@&@%@#                       
+     &&&@@&@@@@@&&@&#&&%#####&&&////(((())(((&&&&&@@@@@@&                       
+    &*&&&@&%@@@@@@@@@&&%#%###&#((((((()))))))))%&&&&&&@%%%                       
+     &%&&&&@@@@@@@&@&&#*  ##&&#\(((#(((())))))%%&&@@&&&%%@                      
+    % %*&%.%.  .*@&@#  * .#%&&&&//(# T D J ((&&&&@@@ &&&&&&&*                   
+       / %*              , #%&&&&&/////((((/&&&&&&@  @&&&&&&%%%##/#/  .*&&*      
+         .,                 #&&&&&&%///(((/&&&&&&&(    /&%%%&%%%%&%&%%%%@@@@@@@@,
+                             @%#%%%##\%%&/&&@&@@*         &%%&%%%&%%%&%@@@@ #%@@
+                            &#&&@&&&&&\&/@@@@@@@@@             *%&&%&&%&&@@   #@ 
+                           ##&@&&%%%%%&&&@&@&@@&&@               %%&&%#.%  @    
+                          ,#%&@&&&%#%%&&&&&&@@&&@@/             *% *%%( &       
+                          .#%@@@&@%%%%&&&&&&&&&&@@.                 *%          
+                          %#&@@&&@%%%%&&&&&&&&&&&&&.                 (          
+                          ##&@&&&&%%%&&&&&%%&&%%&&&%                            
+                          #%&@&&&&&%%&%&&&%%%%%%%%&%&                           
+                         *#&&@&&&&@#@@%%&&%%%%%%%%%&%&                          
+                         %&&@@&&&&&@@@@%%%%%%%%%%%%%%%&                         
+                         &&&@@&&&&&@@#   %%%%%%%%%%%%%%.                        
+                         &&&@@&&&&&&#     *%%%%%%%%%%%%%                        
+                         .%&@@&&&&&@        %%%%%%%%%%%%%                       
+                          &&@@&@@&&/         ,%%%%%%%%%%%&,                     
+                           &@@@@@@&@           %%%%%%%%%%%%%                    
+                           @@@@@@@@@#           (%%%%%%&%%%%%%                  
+                           (&&@@@@@@@             %%%%%%&%%%%%#                 
+                            @&&@@@@@&@             /%%%%%&%%%%%(                
+                             &&&@@@@@@               %%%%%&&%%%%                
+                             *&&&@@@@@@               %%%%%%&&%%&               
+                              (&&&@@@@&@.               &%%%%%&%%%&             
+                               #&&@@@@@@@                 &%%&%&%&&             
+                                  @@@@@@@&@                  &&&&%%&%           
+                                  &@@&&&&@ .                %&%&&%@%&&%         
+                                 *&@@&&@@&&                 %%%.@&(&&@          
+                             &&@&&&&@@@@@@(                 %(%#&&%(%,          
+                               (#%#,                         ,,&&@&&&,  
+                                                              
+T H E D A R K J E S T E R . E T H
+                
+*/
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.20 <=0.8.26;
+
+import { ICollectionSwaps } from "./ICollectionSwaps.sol";
+
+/**
+ * @title A Token swapper contract interface for offers on a subset of a collection, such as the tokens with a trait.
+ * @author The Dark Jester
+ * @notice A trait swap is a collection swap committing to a Merkle root of the acceptable acceptorTokenIds.
+ * @notice The leaves are keccak256(bytes.concat(keccak256(abi.encode(tokenId)))) with sorted pairs hashed.
+ * @custom:security-contact https://github.com/thedarkjester/P2PSwap/security/advisories/new
+ */
+interface ITraitSwaps is ICollectionSwaps {
+  /**
+   * @dev Emitted after SwapInitiated when a trait swap is initiated.
+   * @param swapId The ID of the swap.
+   * @param tokenIdsRoot The Merkle root of the acceptable acceptorTokenIds.
+   */
+  event TokenIdsRootSet(uint256 indexed swapId, bytes32 tokenIdsRoot);
+
+  /**
+   * @dev Thrown when a trait swap is initiated without a Merkle root.
+   */
+  error EmptyTokenIdsRoot();
+
+  /**
+   * @dev Thrown when the chosen tokenId is not proven to be in the Merkle root of a trait swap.
+   * @param tokenId The chosen tokenId.
+   */
+  error TokenIdNotInRoot(uint256 tokenId);
+
+  /**
+   * @notice Initiates a collection swap only accepting the tokenIds in a Merkle root.
+   * @dev If ETH is sent, it is used as the initiator ETH portion.
+   * @dev msg.sender is validated to be the initiator.
+   * @param _swap The full swap details, with the acceptorTokenId type(uint256).max.
+   * @param _tokenIdsRoot The Merkle root of the acceptable acceptorTokenIds.
+   */
+  function initiateTraitSwap(Swap memory _swap, bytes32 _tokenIdsRoot) external payable;
+
+  /**
+   * @notice Completes a trait swap with a tokenId the acceptor chooses and proves to be acceptable.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @param _swapId The ID of the swap.
+   * @param _swap The swap data to use and verify, with the acceptorTokenId type(uint256).max.
+   * @param _acceptorTokenId The tokenId of the collection the acceptor sends.
+   * @param _tokenIdProof The Merkle proof of the tokenId.
+   */
+  function completeTraitSwap(
+    uint256 _swapId,
+    Swap memory _swap,
+    uint256 _acceptorTokenId,
+    bytes32[] memory _tokenIdProof
+  ) external payable;
+
+  /**
+   * @notice Returns the Merkle root of the acceptable acceptorTokenIds of an open trait swap.
+   * @param _swapId The ID of the swap.
+   * @return tokenIdsRoot The Merkle root, zero for other swaps.
+   */
+  function getTokenIdsRoot(uint256 _swapId) external view returns (bytes32 tokenIdsRoot);
+}
+/*   
+                                                              
+T H E D A R K J E S T E R . E T H
+
+
+                                        %%##%%%&                                
+                           ,@@@@(     %#%%%%%%%%%&                              
+                          ,&&&&@@@& %##%%%&%    ,#&                             
+                          &&&&%&&&&%%#%#%%&       #                             
+                         *&   %&& @% .% @&%       .,                            
+                         /     & %  @#% @%&%                                    
+                                  /....@/#&&                                    
+                                  .../*@..%&.                                   
+                                 ,    **&@&&                                    
+                           *&#%%&%&&@@&&&&%&@@&@                                
+                       %#####&&&&&&&&&/(&&&&&&&&&&&%%                            
+                     %#######&&&&&&&#//((%&&&&&&&&&@@&&(                         
+ @@# *&*   @&       &%######%&&&&&&////((((&&&&&&&&@@&&&&                        
+ . .%&&&&%%@&*     &%########&&&&//////(((((#&&&&&&@@&@%@#                       
+     &&&@@&@@@@@&&@&#&&%#####&&&////(((())(((&&&&&@@@@@@&                       
+    &*&&&@&%@@@@@@@@@&&%#%###&#((((((()))))))))%&&&&&&@%%%                       
+     &%&&&&@@@@@@@&@&&#*  ##&&#\(((#(((())))))%%&&@@&&&%%@                      
+    % %*&%.%.  .*@&@#  * .#%&&&&//(# T D J ((&&&&@@@ &&&&&&&*                   
+       / %*              , #%&&&&&/////((((/&&&&&&@  @&&&&&&%%%##/#/  .*&&*      
+         .,                 #&&&&&&%///(((/&&&&&&&(    /&%%%&%%%%&%&%%%%@@@@@@@@,
+                             @%#%%%##\%%&/&&@&@@*         &%%&%%%&%%%&%@@@@ #%@@
+                            &#&&@&&&&&\&/@@@@@@@@@             *%&&%&&%&&@@   #@ 
+                           ##&@&&%%%%%&&&@&@&@@&&@               %%&&%#.%  @    
+                          ,#%&@&&&%#%%&&&&&&@@&&@@/             *% *%%( &       
+                          .#%@@@&@%%%%&&&&&&&&&&@@.                 *%          
+                          %#&@@&&@%%%%&&&&&&&&&&&&&.                 (          
+                          ##&@&&&&%%%&&&&&%%&&%%&&&%                            
+                          #%&@&&&&&%%&%&&&%%%%%%%%&%&                           
+                         *#&&@&&&&@#@@%%&&%%%%%%%%%&%&                          
+                         %&&@@&&&&&@@@@%%%%%%%%%%%%%%%&                         
+                         &&&@@&&&&&@@#   %%%%%%%%%%%%%%.                        
+                         &&&@@&&&&&&#     *%%%%%%%%%%%%%                        
+                         .%&@@&&&&&@        %%%%%%%%%%%%%                       
+                          &&@@&@@&&/         ,%%%%%%%%%%%&,                     
+                           &@@@@@@&@           %%%%%%%%%%%%%                    
+                           @@@@@@@@@#           (%%%%%%&%%%%%%                  
+                           (&&@@@@@@@             %%%%%%&%%%%%#                 
+                            @&&@@@@@&@             /%%%%%&%%%%%(                
+                             &&&@@@@@@               %%%%%&&%%%%                
+                             *&&&@@@@@@               %%%%%%&&%%&               
+                              (&&&@@@@&@.               &%%%%%&%%%&             
+                               #&&@@@@@@@                 &%%&%&%&&             
+                                  @@@@@@@&@                  &&&&%%&%           
+                                  &@@&&&&@ .                %&%&&%@%&&%         
+                                 *&@@&&@@&&                 %%%.@&(&&@          
+                             &&@&&&&@@@@@@(                 %(%#&&%(%,          
+                               (#%#,                         ,,&&@&&&,  
+                                                              
+T H E D A R K J E S T E R . E T H
+                
+*/
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+import { IERC1271 } from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+contract ERC1271Wallet is IERC1271 {
+  address private owner;
+
+  constructor(address _owner) {
+    owner = _owner;
+  }
+
+  function approveERC20(IERC20 token, address spender, uint256 amount) external {
+    require(msg.sender == owner, "Not owner");
+    token.approve(spender, amount);
+  }
+
+  function isValidSignature(bytes32 hash, bytes memory signature) external view returns (bytes4) {
+    (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(hash, signature);
+
+    if (error == ECDSA.RecoverError.NoError && recovered == owner) {
+      return IERC1271.isValidSignature.selector;
+    }
+
+    return 0xffffffff;
+  }
+
+  receive() external payable {}
+}
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @dev Mimics USDT, an allowance must be reset to zero before it can be changed.
+ */
+contract ERC20C is ERC20 {
+  error AllowanceNotReset();
+
+  constructor() ERC20("ERC20C", "ERC20C") {}
+
+  function safeMint(address to, uint256 amount) public {
+    _mint(to, amount);
+  }
+
+  function approve(address spender, uint256 value) public virtual override returns (bool) {
+    if (value != 0 && allowance(msg.sender, spender) != 0) {
+      revert AllowanceNotReset();
+    }
+
+    return super.approve(spender, value);
+  }
+}
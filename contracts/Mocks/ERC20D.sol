@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @dev Fee-on-transfer token, 1% of every transfer is burned.
+ */
+contract ERC20D is ERC20 {
+  constructor() ERC20("ERC20D", "ERC20D") {}
+
+  function safeMint(address to, uint256 amount) public {
+    _mint(to, amount);
+  }
+
+  function _update(address from, address to, uint256 value) internal virtual override {
+    if (from == address(0) || to == address(0)) {
+      return super._update(from, to, value);
+    }
+
+    uint256 fee = value / 100;
+
+    super._update(from, address(0), fee);
+    super._update(from, to, value - fee);
+  }
+}
@@ -47,7 +47,81 @@ contract NonCancunTokenSwapper is ReentrancyGuard, TokenSwapperBase {
       isSameContractSwap = IS_NOT_SAME_CONTRACT_SWAP;
     }
 
-    _completeSwap(_swapId, _swap);
+    _completeSwap(_swapId, _swap, _swap.acceptorTokenId, new bytes32[](0));
+
+    isSameContractSwap = DEFAULT_IS_SAME_CONTRACT_SWAP;
+  }
+
+  /**
+   * @notice Completes a collection swap with a tokenId the acceptor chooses.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @param _swapId The ID of the swap.
+   * @param _swap The swap data to use and verify, with the acceptorTokenId type(uint256).max.
+   * @param _acceptorTokenId The tokenId of the collection the acceptor sends.
+   */
+  function completeCollectionSwap(
+    uint256 _swapId,
+    Swap memory _swap,
+    uint256 _acceptorTokenId
+  ) external payable nonReentrant {
+    if (_swap.initiatorERCContract == _swap.acceptorERCContract) {
+      isSameContractSwap = IS_SAME_CONTRACT_SWAP;
+    } else {
+      isSameContractSwap = IS_NOT_SAME_CONTRACT_SWAP;
+    }
+
+    _completeSwap(_swapId, _swap, _acceptorTokenId, new bytes32[](0));
+
+    isSameContractSwap = DEFAULT_IS_SAME_CONTRACT_SWAP;
+  }
+
+  /**
+   * @notice Completes a trait swap with a tokenId the acceptor chooses and proves to be acceptable.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @param _swapId The ID of the swap.
+   * @param _swap The swap data to use and verify, with the acceptorTokenId type(uint256).max.
+   * @param _acceptorTokenId The tokenId of the collection the acceptor sends.
+   * @param _tokenIdProof The Merkle proof of the tokenId.
+   */
+  function completeTraitSwap(
+    uint256 _swapId,
+    Swap memory _swap,
+    uint256 _acceptorTokenId,
+    bytes32[] memory _tokenIdProof
+  ) external payable nonReentrant {
+    if (_swap.initiatorERCContract == _swap.acceptorERCContract) {
+      isSameContractSwap = IS_SAME_CONTRACT_SWAP;
+    } else {
+      isSameContractSwap = IS_NOT_SAME_CONTRACT_SWAP;
+    }
+
+    _completeSwap(_swapId, _swap, _acceptorTokenId, _tokenIdProof);
+
+    isSameContractSwap = DEFAULT_IS_SAME_CONTRACT_SWAP;
+  }
+
+  /**
+   * @notice Completes a swap the initiator signed off-chain.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @param _swap The full swap data the initiator signed.
+   * @param _nonce The nonce the initiator signed the swap with.
+   * @param _signature The initiator's EIP-712 signature, or ERC-1271 signature for contract wallets.
+   */
+  function completeSignedSwap(
+    Swap calldata _swap,
+    uint256 _nonce,
+    bytes calldata _signature
+  ) external payable nonReentrant {
+    if (_swap.initiatorERCContract == _swap.acceptorERCContract) {
+      isSameContractSwap = IS_SAME_CONTRACT_SWAP;
+    } else {
+      isSameContractSwap = IS_NOT_SAME_CONTRACT_SWAP;
+    }
+
+    _completeSignedSwap(_swap, _nonce, _signature);
 
     isSameContractSwap = DEFAULT_IS_SAME_CONTRACT_SWAP;
   }
@@ -2,6 +2,7 @@
 pragma solidity >=0.8.20 <=0.8.26;
 
 import { ISwapTokens } from "./ISwapTokens.sol";
+import { ISwapTokenBundles } from "./ISwapTokenBundles.sol";
 /**
  * @title A helper file for token swapping hashing.
  * @author The Dark Jester
@@ -10,6 +11,18 @@ import { ISwapTokens } from "./ISwapTokens.sol";
  */
 
 library SwapHashing {
+  /// @dev The EIP-712 type of the Swap struct, TokenType enums are encoded as uint8.
+  bytes32 internal constant SWAP_TYPEHASH =
+    keccak256(
+      "Swap(uint256 expiryDate,address initiatorERCContract,address acceptorERCContract,address initiator,uint256 initiatorTokenId,uint256 initiatorTokenQuantity,address acceptor,uint256 acceptorTokenId,uint256 acceptorTokenQuantity,uint256 initiatorETHPortion,uint256 acceptorETHPortion,uint8 initiatorTokenType,uint8 acceptorTokenType)"
+    );
+
+  /// @dev The EIP-712 type an initiator signs, a Swap with the nonce that makes the signature single use.
+  bytes32 internal constant SIGNED_SWAP_TYPEHASH =
+    keccak256(
+      "SignedSwap(Swap swap,uint256 nonce)Swap(uint256 expiryDate,address initiatorERCContract,address acceptorERCContract,address initiator,uint256 initiatorTokenId,uint256 initiatorTokenQuantity,address acceptor,uint256 acceptorTokenId,uint256 acceptorTokenQuantity,uint256 initiatorETHPortion,uint256 acceptorETHPortion,uint8 initiatorTokenType,uint8 acceptorTokenType)"
+    );
+
   /**
    * @notice Gas efficient swap hashing using inline assembly with memory.
    * @dev There are 13 items in the struct, each using 32 bytes in memory when used,
@@ -38,6 +51,34 @@ library SwapHashing {
       mstore(0x40, add(mPtr, 0x1a0))
     }
   }
+
+  /**
+   * @notice EIP-712 struct hashing of a signed swap with calldata.
+   * @dev The Swap struct is static, so abi.encode places its 13 words right after the type hash as hashStruct requires.
+   * @param _swap The full Swap struct.
+   * @param _nonce The nonce the swap is signed with.
+   * @return structHash The EIP-712 struct hash of the signed swap, without the domain.
+   */
+  function _hashSignedSwapCalldata(
+    ISwapTokens.Swap calldata _swap,
+    uint256 _nonce
+  ) internal pure returns (bytes32 structHash) {
+    structHash = keccak256(abi.encode(SIGNED_SWAP_TYPEHASH, keccak256(abi.encode(SWAP_TYPEHASH, _swap)), _nonce));
+  }
+
+  /**
+   * @notice Bundle swap hashing with calldata.
+   * @dev The item arrays make the struct dynamic, so it cannot be hashed over the fixed 0x1a0 layout and the ABI
+   * encoding is hashed instead. An encoded bundle swap is 0x140 bytes plus 0x80 per item, so it never matches the
+   * 0x1a0 bytes of a Swap and the two can share swapHashes.
+   * @param _swap The full BundleSwap struct.
+   * @return swapHash The hash of the bundle swap.
+   */
+  function _hashTokenBundleSwapCalldata(
+    ISwapTokenBundles.BundleSwap calldata _swap
+  ) internal pure returns (bytes32 swapHash) {
+    swapHash = keccak256(abi.encode(_swap));
+  }
 }
 
 /*   
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+import { TransientStorage } from "./TransientStorage.sol";
+import { TokenSwapper } from "./TokenSwapper.sol";
+import { TokenBundleSwapperBase } from "./TokenBundleSwapperBase.sol";
+
+/**
+ * @title A Token swapper contract for single token and bundle swaps with no fee takers.
+ * @author The Dark Jester
+ * @notice You can use this contract for swaps where each party gives one, or any mix of, ERC-721,ERC-1155,ERC-20, xERC-20, ERC-777 tokens.
+ * @notice Any party can sweeten the deal with ETH, but that must be set up by the initiator.
+ * @custom:security-contact https://github.com/thedarkjester/P2PSwap/security/advisories/new
+ */
+contract TokenBundleSwapper is TokenSwapper, TokenBundleSwapperBase {
+  /// @dev This exists purely to drop the deployment cost by a few hundred gas.
+  constructor() payable {}
+
+  /**
+   * @notice Completes the bundle swap.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @dev The ETH portion is added to either the acceptor or the initiator balance.
+   * @dev isSwappingTokensOnSameContract is true if any token contract is on both sides.
+   * @param _swapId The ID of the swap.
+   * @param _swap The bundle swap data to use and verify.
+   */
+  function completeBundleSwap(uint256 _swapId, BundleSwap calldata _swap) external payable nonReentrant {
+    TransientStorage._storeTransientBool(SAME_CONTRACT_SWAP_TRANSIENT_KEY, _isSameContractBundleSwap(_swap));
+
+    _completeBundleSwap(_swapId, _swap);
+
+    TransientStorage._storeTransientBool(SAME_CONTRACT_SWAP_TRANSIENT_KEY, false);
+  }
+
+  /**
+   * @notice Cancels/Removes the bundle swap if not accepted.
+   * @dev msg.sender is the initiator.
+   * @dev The Initiator ETH portion is added to the initiator balance if exists.
+   * @param _swapId The ID of the swap.
+   * @param _swap The bundle swap data to use and verify.
+   */
+  function removeBundleSwap(uint256 _swapId, BundleSwap calldata _swap) external nonReentrant {
+    _removeBundleSwap(_swapId, _swap);
+  }
+}
+/*   
+                                                              
+T H E D A R K J E S T E R . E T H
+
+
+                                        %%##%%%&                                
+                           ,@@@@(     %#%%%%%%%%%&                              
+                          ,&&&&@@@& %##%%%&%    ,#&                             
+                          &&&&%&&&&%%#%#%%&       #                             
+                         *&   %&& @% .% @&%       .,                            
+                         /     & %  @#% @%&%                                    
+                                  /....@/#&&                                    
+                                  .../*@..%&.                                   
+                                 ,    **&@&&                                    
+                           *&#%%&%&&@@&&&&%&@@&@                                
+                       %#####&&&&&&&&&/(&&&&&&&&&&&%%                            
+                     %#######&&&&&&&#//((%&&&&&&&&&@@&&(                         
+ @@# *&*   @&       &%######%&&&&&&////((((&&&&&&&&@@&&&&                        
+ . .%&&&&%%@&*     &%########&&&&//////(((((#&&&&&&@@&@%@#                       
+     &&&@@&@@@@@&&@&#&&%#####&&&////(((())(((&&&&&@@@@@@&                       
+    &*&&&@&%@@@@@@@@@&&%#%###&#((((((()))))))))%&&&&&&@%%%                       
+     &%&&&&@@@@@@@&@&&#*  ##&&#\(((#(((())))))%%&&@@&&&%%@                      
+    % %*&%.%.  .*@&@#  * .#%&&&&//(# T D J ((&&&&@@@ &&&&&&&*                   
+       / %*              , #%&&&&&/////((((/&&&&&&@  @&&&&&&%%%##/#/  .*&&*      
+         .,                 #&&&&&&%///(((/&&&&&&&(    /&%%%&%%%%&%&%%%%@@@@@@@@,
+                             @%#%%%##\%%&/&&@&@@*         &%%&%%%&%%%&%@@@@ #%@@
+                            &#&&@&&&&&\&/@@@@@@@@@             *%&&%&&%&&@@   #@ 
+                           ##&@&&%%%%%&&&@&@&@@&&@               %%&&%#.%  @    
+                          ,#%&@&&&%#%%&&&&&&@@&&@@/             *% *%%( &       
+                          .#%@@@&@%%%%&&&&&&&&&&@@.                 *%          
+                          %#&@@&&@%%%%&&&&&&&&&&&&&.                 (          
+                          ##&@&&&&%%%&&&&&%%&&%%&&&%                            
+                          #%&@&&&&&%%&%&&&%%%%%%%%&%&                           
+                         *#&&@&&&&@#@@%%&&%%%%%%%%%&%&                          
+                         %&&@@&&&&&@@@@%%%%%%%%%%%%%%%&                         
+                         &&&@@&&&&&@@#   %%%%%%%%%%%%%%.                        
+                         &&&@@&&&&&&#     *%%%%%%%%%%%%%                        
+                         .%&@@&&&&&@        %%%%%%%%%%%%%                       
+                          &&@@&@@&&/         ,%%%%%%%%%%%&,                     
+                           &@@@@@@&@           %%%%%%%%%%%%%                    
+                           @@@@@@@@@#           (%%%%%%&%%%%%%                  
+                           (&&@@@@@@@             %%%%%%&%%%%%#                 
+                            @&&@@@@@&@             /%%%%%&%%%%%(                
+                             &&&@@@@@@               %%%%%&&%%%%                
+                             *&&&@@@@@@               %%%%%%&&%%&               
+                              (&&&@@@@&@.               &%%%%%&%%%&             
+                               #&&@@@@@@@                 &%%&%&%&&             
+                                  @@@@@@@&@                  &&&&%%&%           
+                                  &@@&&&&@ .                %&%&&%@%&&%         
+                                 *&@@&&@@&&                 %%%.@&(&&@          
+                             &&@&&&&@@@@@@(                 %(%#&&%(%,          
+                               (#%#,                         ,,&&@&&&,  
+                                                              
+T H E D A R K J E S T E R . E T H
+                
+*/
@@ -0,0 +1,325 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.20 <=0.8.26;
+
+import { ISwapTokenBundles } from "./ISwapTokenBundles.sol";
+import { SwapHashing } from "./SwapHashing.sol";
+import { TokenSwapperBase } from "./TokenSwapperBase.sol";
+
+/**
+ * @title A Token swapper base contract for swapping baskets of tokens with no fee takers.
+ * @author The Dark Jester
+ * @notice You can use this contract for swaps where each party gives any mix of ERC-721, ERC-1155, ERC-20, xERC-20 or ERC-777 tokens.
+ * @notice Any party can sweeten the deal with ETH, but that must be set up by the initiator.
+ * @dev Bundle swaps share swapId and swapHashes with single token swaps, reusing their validators and transferers.
+ * @custom:security-contact https://github.com/thedarkjester/P2PSwap/security/advisories/new
+ */
+abstract contract TokenBundleSwapperBase is TokenSwapperBase, ISwapTokenBundles {
+  /**
+   * @notice Initiates a swap of two baskets of tokens.
+   * @dev The expiryDate only checks for the past and is user/dev dependant on how long a swap should be valid for.
+   * @dev If ETH is sent, it is used as the initiator ETH portion.
+   * @dev NB: Some invariant conditions:
+   * @dev msg.sender is validated to be the initiator.
+   * @dev msg.value must match the _swap.initiatorETHPortion to avoid sneaky exploits.
+   * @dev A side without items is an ETH only side, so there is nothing to normalize before hashing.
+   * @param _swap The full bundle swap details.
+   */
+  function initiateBundleSwap(BundleSwap calldata _swap) external payable {
+    if (_swap.expiryDate < block.timestamp) {
+      revert SwapIsInThePast();
+    }
+
+    /// @dev allow zero address unless an ERC721 is wanted.
+    if (_swap.acceptor == ZERO_ADDRESS && _containsTokenType(_swap.acceptorItems, TokenType.ERC721)) {
+      revert ZeroAddressDisallowed();
+    }
+
+    if (msg.sender != _swap.initiator) {
+      revert InitiatorNotMatched(_swap.initiator, msg.sender);
+    }
+
+    if (msg.value != _swap.initiatorETHPortion) {
+      revert InitiatorEthPortionNotMatched(_swap.initiatorETHPortion, msg.value);
+    }
+
+    if (msg.value > 0 && _swap.acceptorETHPortion > 0) {
+      revert TwoWayEthPortionsDisallowed();
+    }
+
+    if (_swap.initiatorItems.length == 0 && _swap.acceptorItems.length == 0) {
+      revert TwoWayEthPortionsDisallowed();
+    }
+
+    _validateBundleItems(_swap.initiatorItems, _swap.initiatorETHPortion);
+    _validateBundleItems(_swap.acceptorItems, _swap.acceptorETHPortion);
+
+    unchecked {
+      uint256 newSwapId = swapId++;
+
+      // _swap emitted to pass in later when querying, completing or removing
+      emit BundleSwapInitiated(newSwapId, msg.sender, _swap.acceptor, _swap);
+
+      swapHashes[newSwapId] = SwapHashing._hashTokenBundleSwapCalldata(_swap);
+    }
+  }
+
+  /**
+   * @notice Retrieves the token status of a bundle swap.
+   * @dev A side needs to own or approve tokens if any one of its items does.
+   * @param _swapId The ID of the swap.
+   * @param _swap The full bundle swap details.
+   * @return swapStatus The checked ownership and permissions struct for both parties's baskets.
+   */
+  function getBundleSwapStatus(
+    uint256 _swapId,
+    BundleSwap calldata _swap
+  ) external view returns (SwapStatus memory swapStatus) {
+    if (swapHashes[_swapId] != SwapHashing._hashTokenBundleSwapCalldata(_swap)) {
+      revert SwapCompleteOrDoesNotExist();
+    }
+
+    _revertIfSwapCancelled(_swapId, _swap.initiator);
+
+    (swapStatus.initiatorNeedsToOwnToken, swapStatus.initiatorTokenRequiresApproval) = _bundleItemsStatus(
+      _swap.initiatorItems,
+      _swap.initiator
+    );
+
+    (swapStatus.acceptorNeedsToOwnToken, swapStatus.acceptorTokenRequiresApproval) = _bundleItemsStatus(
+      _swap.acceptorItems,
+      _swap.acceptor
+    );
+
+    swapStatus.isReadyForSwapping =
+      !(swapStatus.initiatorNeedsToOwnToken) &&
+      !(swapStatus.initiatorTokenRequiresApproval) &&
+      !(swapStatus.acceptorNeedsToOwnToken) &&
+      !(swapStatus.acceptorTokenRequiresApproval);
+  }
+
+  /**
+   * @notice Cancels/Removes the bundle swap if not accepted.
+   * @dev msg.sender is the initiator.
+   * @dev The Initiator ETH portion is added to the initiator balance if exists.
+   * @param _swapId The ID of the swap.
+   * @param _swap The full bundle swap data.
+   */
+  function _removeBundleSwap(uint256 _swapId, BundleSwap calldata _swap) internal {
+    if (swapHashes[_swapId] != SwapHashing._hashTokenBundleSwapCalldata(_swap)) {
+      revert SwapCompleteOrDoesNotExist();
+    }
+
+    if (_swap.initiator != msg.sender) {
+      revert NotInitiator();
+    }
+
+    delete swapHashes[_swapId];
+
+    if (_swap.initiatorETHPortion > 0) {
+      _sendEthPortion(msg.sender, _swap.initiatorETHPortion);
+    }
+
+    emit SwapRemoved(_swapId, msg.sender);
+  }
+
+  /**
+   * @notice Completes the bundle swap.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @dev The ETH portion is added to either the acceptor or the initiator balance.
+   * @param _swapId The ID of the swap.
+   * @param _swap The bundle swap data to use and verify.
+   */
+  function _completeBundleSwap(uint256 _swapId, BundleSwap calldata _swap) internal {
+    if (block.timestamp > _swap.expiryDate) {
+      revert SwapHasExpired();
+    }
+
+    if (swapHashes[_swapId] != SwapHashing._hashTokenBundleSwapCalldata(_swap)) {
+      revert SwapCompleteOrDoesNotExist();
+    }
+
+    _revertIfSwapCancelled(_swapId, _swap.initiator);
+
+    /// @dev allow anyone to accept if the acceptor address is empty.
+    if (_swap.acceptor != ZERO_ADDRESS && _swap.acceptor != msg.sender) {
+      revert NotAcceptor();
+    }
+
+    if (_swap.initiatorETHPortion > 0 && msg.value > 0) {
+      revert TwoWayEthPortionsDisallowed();
+    }
+
+    if (_swap.acceptorETHPortion != msg.value) {
+      revert IncorrectOrMissingAcceptorETH(_swap.acceptorETHPortion);
+    }
+
+    /// @dev Doing this prevents reentry.
+    delete swapHashes[_swapId];
+
+    if (msg.value > 0) {
+      _sendEthPortion(_swap.initiator, msg.value);
+    }
+
+    address realAcceptor = _swap.acceptor == ZERO_ADDRESS ? msg.sender : _swap.acceptor;
+
+    if (_swap.initiatorETHPortion > 0) {
+      _sendEthPortion(realAcceptor, _swap.initiatorETHPortion);
+    }
+
+    emit BundleSwapComplete(_swapId, _swap.initiator, realAcceptor, _swap);
+
+    _transferBundleItems(_swap.initiatorItems, _swap.initiator, realAcceptor);
+    _transferBundleItems(_swap.acceptorItems, realAcceptor, _swap.initiator);
+  }
+
+  /**
+   * @notice Checks if any token contract is on both sides of the bundle swap.
+   * @param _swap The bundle swap data.
+   * @return isSameContractSwap If tokens are swapped between two parties on the same contract.
+   */
+  function _isSameContractBundleSwap(BundleSwap calldata _swap) internal pure returns (bool isSameContractSwap) {
+    for (uint256 i; i < _swap.initiatorItems.length; i++) {
+      for (uint256 j; j < _swap.acceptorItems.length; j++) {
+        if (_swap.initiatorItems[i].ercContract == _swap.acceptorItems[j].ercContract) {
+          return true;
+        }
+      }
+    }
+  }
+
+  /**
+   * @notice Validates one side's items with the validator for each item's token type.
+   * @dev A side without items is validated as the NONE token type, requiring an ETH portion.
+   * @param _items The items of the side.
+   * @param _ethPortion The ETH portion of the side.
+   */
+  function _validateBundleItems(BundleItem[] calldata _items, uint256 _ethPortion) internal pure {
+    if (_items.length == 0) {
+      _validateNoTokenTypeSwapParameters(ZERO_ADDRESS, _ethPortion, 0);
+    }
+
+    for (uint256 i; i < _items.length; i++) {
+      if (_items[i].tokenType == TokenType.NONE) {
+        revert NoneTokenTypeInBundle();
+      }
+
+      _getTokenTypeValidator(_items[i].tokenType)(_items[i].ercContract, _ethPortion, _items[i].tokenQuantity);
+    }
+  }
+
+  /**
+   * @notice Checks if any item of a side has the token type.
+   * @param _items The items of the side.
+   * @param _tokenType The token type to look for.
+   * @return containsTokenType If an item has the token type.
+   */
+  function _containsTokenType(
+    BundleItem[] calldata _items,
+    TokenType _tokenType
+  ) internal pure returns (bool containsTokenType) {
+    for (uint256 i; i < _items.length; i++) {
+      if (_items[i].tokenType == _tokenType) {
+        return true;
+      }
+    }
+  }
+
+  /**
+   * @notice Retrieves the combined status of one side's items.
+   * @param _items The items of the side.
+   * @param _tokenOwner The owner of the items.
+   * @return needsToOwnToken Does the user need to own any of the tokens.
+   * @return tokenRequiresApproval Does the user need to grant approval for any of the tokens.
+   */
+  function _bundleItemsStatus(
+    BundleItem[] calldata _items,
+    address _tokenOwner
+  ) internal view returns (bool needsToOwnToken, bool tokenRequiresApproval) {
+    for (uint256 i; i < _items.length; i++) {
+      (bool itemNeedsToOwnToken, bool itemRequiresApproval) = _getTokenSwapStatusFunction(_items[i].tokenType)(
+        _items[i].ercContract,
+        _items[i].tokenId,
+        _items[i].tokenQuantity,
+        _tokenOwner
+      );
+
+      needsToOwnToken = needsToOwnToken || itemNeedsToOwnToken;
+      tokenRequiresApproval = tokenRequiresApproval || itemRequiresApproval;
+    }
+  }
+
+  /**
+   * @notice Transfers one side's items.
+   * @param _items The items to transfer.
+   * @param _tokenOwner The owner of the items.
+   * @param _recipient The recipient of the items.
+   */
+  function _transferBundleItems(BundleItem[] calldata _items, address _tokenOwner, address _recipient) internal {
+    for (uint256 i; i < _items.length; i++) {
+      _getTokenTransferer(_items[i].tokenType)(
+        _items[i].ercContract,
+        _items[i].tokenId,
+        _items[i].tokenQuantity,
+        _tokenOwner,
+        _recipient
+      );
+    }
+  }
+}
+/*   
+                                                              
+T H E D A R K J E S T E R . E T H
+
+
+                                        %%##%%%&                                
+                           ,@@@@(     %#%%%%%%%%%&                              
+                          ,&&&&@@@& %##%%%&%    ,#&                             
+                          &&&&%&&&&%%#%#%%&       #                             
+                         *&   %&& @% .% @&%       .,                            
+                         /     & %  @#% @%&%                                    
+                                  /....@/#&&                                    
+                                  .../*@..%&.                                   
+                                 ,    **&@&&                                    
+                           *&#%%&%&&@@&&&&%&@@&@                                
+                       %#####&&&&&&&&&/(&&&&&&&&&&&%%                            
+                     %#######&&&&&&&#//((%&&&&&&&&&@@&&(                         
+ @@# *&*   @&       &%######%&&&&&&////((((&&&&&&&&@@&&&&                        
+ . .%&&&&%%@&*     &%########&&&&//////(((((#&&&&&&@@&@%@#                       
+     &&&@@&@@@@@&&@&#&&%#####&&&////(((())(((&&&&&@@@@@@&                       
+    &*&&&@&%@@@@@@@@@&&%#%###&#((((((()))))))))%&&&&&&@%%%                       
+     &%&&&&@@@@@@@&@&&#*  ##&&#\(((#(((())))))%%&&@@&&&%%@                      
+    % %*&%.%.  .*@&@#  * .#%&&&&//(# T D J ((&&&&@@@ &&&&&&&*                   
+       / %*              , #%&&&&&/////((((/&&&&&&@  @&&&&&&%%%##/#/  .*&&*      
+         .,                 #&&&&&&%///(((/&&&&&&&(    /&%%%&%%%%&%&%%%%@@@@@@@@,
+                             @%#%%%##\%%&/&&@&@@*         &%%&%%%&%%%&%@@@@ #%@@
+                            &#&&@&&&&&\&/@@@@@@@@@             *%&&%&&%&&@@   #@ 
+                           ##&@&&%%%%%&&&@&@&@@&&@               %%&&%#.%  @    
+                          ,#%&@&&&%#%%&&&&&&@@&&@@/             *% *%%( &       
+                          .#%@@@&@%%%%&&&&&&&&&&@@.                 *%          
+                          %#&@@&&@%%%%&&&&&&&&&&&&&.                 (          
+                          ##&@&&&&%%%&&&&&%%&&%%&&&%                            
+                          #%&@&&&&&%%&%&&&%%%%%%%%&%&                           
+                         *#&&@&&&&@#@@%%&&%%%%%%%%%&%&                          
+                         %&&@@&&&&&@@@@%%%%%%%%%%%%%%%&                         
+                         &&&@@&&&&&@@#   %%%%%%%%%%%%%%.                        
+                         &&&@@&&&&&&#     *%%%%%%%%%%%%%                        
+                         .%&@@&&&&&@        %%%%%%%%%%%%%                       
+                          &&@@&@@&&/         ,%%%%%%%%%%%&,                     
+                           &@@@@@@&@           %%%%%%%%%%%%%                    
+                           @@@@@@@@@#           (%%%%%%&%%%%%%                  
+                           (&&@@@@@@@             %%%%%%&%%%%%#                 
+                            @&&@@@@@&@             /%%%%%&%%%%%(                
+                             &&&@@@@@@               %%%%%&&%%%%                
+                             *&&&@@@@@@               %%%%%%&&%%&               
+                              (&&&@@@@&@.               &%%%%%&%%%&             
+                               #&&@@@@@@@                 &%%&%&%&&             
+                                  @@@@@@@&@                  &&&&%%&%           
+                                  &@@&&&&@ .                %&%&&%@%&&%         
+                                 *&@@&&@@&&                 %%%.@&(&&@          
+                             &&@&&&&@@@@@@(                 %(%#&&%(%,          
+                               (#%#,                         ,,&&@&&&,  
+                                                              
+T H E D A R K J E S T E R . E T H
+                
+*/
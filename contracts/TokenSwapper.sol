@@ -19,7 +19,7 @@ import { TokenSwapperBase } from "./TokenSwapperBase.sol";
  */
 contract TokenSwapper is TokenSwapperBase {
   /// @custom:storage-location erc7201:tokenswapper.sameswap.transient.key
-  bytes32 private constant SAME_CONTRACT_SWAP_TRANSIENT_KEY =
+  bytes32 internal constant SAME_CONTRACT_SWAP_TRANSIENT_KEY =
     bytes32(uint256(keccak256("tokenswapper.sameswap.transient.key")) - 1) & ~bytes32(uint256(0xff));
 
   /// @custom:storage-location erc7201:tokenswapper.reentry.transient.key
@@ -60,7 +60,78 @@ contract TokenSwapper is TokenSwapperBase {
       _swap.acceptorERCContract == _swap.initiatorERCContract
     );
 
-    _completeSwap(_swapId, _swap);
+    _completeSwap(_swapId, _swap, _swap.acceptorTokenId, new bytes32[](0));
+
+    TransientStorage._storeTransientBool(SAME_CONTRACT_SWAP_TRANSIENT_KEY, false);
+  }
+
+  /**
+   * @notice Completes a collection swap with a tokenId the acceptor chooses.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @param _swapId The ID of the swap.
+   * @param _swap The swap data to use and verify, with the acceptorTokenId type(uint256).max.
+   * @param _acceptorTokenId The tokenId of the collection the acceptor sends.
+   */
+  function completeCollectionSwap(
+    uint256 _swapId,
+    Swap memory _swap,
+    uint256 _acceptorTokenId
+  ) external payable nonReentrant {
+    TransientStorage._storeTransientBool(
+      SAME_CONTRACT_SWAP_TRANSIENT_KEY,
+      _swap.acceptorERCContract == _swap.initiatorERCContract
+    );
+
+    _completeSwap(_swapId, _swap, _acceptorTokenId, new bytes32[](0));
+
+    TransientStorage._storeTransientBool(SAME_CONTRACT_SWAP_TRANSIENT_KEY, false);
+  }
+
+  /**
+   * @notice Completes a trait swap with a tokenId the acceptor chooses and proves to be acceptable.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @param _swapId The ID of the swap.
+   * @param _swap The swap data to use and verify, with the acceptorTokenId type(uint256).max.
+   * @param _acceptorTokenId The tokenId of the collection the acceptor sends.
+   * @param _tokenIdProof The Merkle proof of the tokenId.
+   */
+  function completeTraitSwap(
+    uint256 _swapId,
+    Swap memory _swap,
+    uint256 _acceptorTokenId,
+    bytes32[] memory _tokenIdProof
+  ) external payable nonReentrant {
+    TransientStorage._storeTransientBool(
+      SAME_CONTRACT_SWAP_TRANSIENT_KEY,
+      _swap.acceptorERCContract == _swap.initiatorERCContract
+    );
+
+    _completeSwap(_swapId, _swap, _acceptorTokenId, _tokenIdProof);
+
+    TransientStorage._storeTransientBool(SAME_CONTRACT_SWAP_TRANSIENT_KEY, false);
+  }
+
+  /**
+   * @notice Completes a swap the initiator signed off-chain.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @param _swap The full swap data the initiator signed.
+   * @param _nonce The nonce the initiator signed the swap with.
+   * @param _signature The initiator's EIP-712 signature, or ERC-1271 signature for contract wallets.
+   */
+  function completeSignedSwap(
+    Swap calldata _swap,
+    uint256 _nonce,
+    bytes calldata _signature
+  ) external payable nonReentrant {
+    TransientStorage._storeTransientBool(
+      SAME_CONTRACT_SWAP_TRANSIENT_KEY,
+      _swap.acceptorERCContract == _swap.initiatorERCContract
+    );
+
+    _completeSignedSwap(_swap, _nonce, _signature);
 
     TransientStorage._storeTransientBool(SAME_CONTRACT_SWAP_TRANSIENT_KEY, false);
   }
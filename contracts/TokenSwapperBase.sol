@@ -6,7 +6,14 @@ import { IERC721 } from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import { IERC1155 } from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import { MessageHashUtils } from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import { SignatureChecker } from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import { MerkleProof } from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 import { ISwapTokens } from "./ISwapTokens.sol";
+import { ISignedSwaps } from "./ISignedSwaps.sol";
+import { ISwapNonces } from "./ISwapNonces.sol";
+import { ICollectionSwaps } from "./ICollectionSwaps.sol";
+import { ITraitSwaps } from "./ITraitSwaps.sol";
 import { SwapHashing } from "./SwapHashing.sol";
 
 /**
@@ -16,11 +23,46 @@ import { SwapHashing } from "./SwapHashing.sol";
  * @notice Any party can sweeten the deal with ETH, but that must be set up by the initiator.
  * @custom:security-contact https://github.com/thedarkjester/P2PSwap/security/advisories/new
  */
-abstract contract TokenSwapperBase is ISwapTokens {
+abstract contract TokenSwapperBase is ISwapTokens, ISignedSwaps, ISwapNonces, ICollectionSwaps, ITraitSwaps {
   using Address for *;
 
   address internal constant ZERO_ADDRESS = address(0);
 
+  /// @dev The acceptorTokenId of a collection swap, the acceptor chooses the tokenId when completing.
+  uint256 internal constant ANY_TOKEN_ID = type(uint256).max;
+
+  bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+    keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+  bytes32 private constant EIP712_NAME_HASH = keccak256("TokenSwapper");
+
+  bytes32 private constant EIP712_VERSION_HASH = keccak256("1");
+
+  /// @custom:storage-location erc7201:tokenswapper.signedswap.storage
+  struct SignedSwapStorage {
+    mapping(address initiator => mapping(uint256 nonce => bool used)) usedNonces;
+    mapping(address initiator => uint256 minNonce) minNonces;
+    mapping(address initiator => uint256 minSwapId) minSwapIds;
+  }
+
+  /**
+   * @dev bytes32(uint256(keccak256("tokenswapper.signedswap.storage")) - 1) & ~bytes32(uint256(0xff)).
+   * @dev Namespaced so the layout of the existing storage, which the SDK reads to detect the variant, is unchanged.
+   */
+  bytes32 private constant SIGNED_SWAP_STORAGE_LOCATION =
+    0x996735caec887beeae3801053d022977aa8827fd51aa413124f3942607c0ff00;
+
+  /// @custom:storage-location erc7201:tokenswapper.traitswap.storage
+  struct TraitSwapStorage {
+    mapping(uint256 swapId => bytes32 tokenIdsRoot) tokenIdsRoots;
+  }
+
+  /**
+   * @dev bytes32(uint256(keccak256("tokenswapper.traitswap.storage")) - 1) & ~bytes32(uint256(0xff)).
+   */
+  bytes32 private constant TRAIT_SWAP_STORAGE_LOCATION =
+    0x8979252e9237b353d59ac38ef2950d86edf207f8d0cc06a64a77883a9346a100;
+
   // Deployer pays for the slot vs. the first swapper. Being kind.
   uint256 public swapId = 1;
 
@@ -36,12 +78,210 @@ abstract contract TokenSwapperBase is ISwapTokens {
    * @param _swap The full swap details.
    */
   function initiateSwap(Swap memory _swap) external payable {
+    _initiateSwap(_swap);
+  }
+
+  /**
+   * @notice Initiates a collection swap only accepting the tokenIds in a Merkle root.
+   * @dev The swap follows the initiateSwap rules, and its root is removed once completed or removed.
+   * @param _swap The full swap details, with the acceptorTokenId type(uint256).max.
+   * @param _tokenIdsRoot The Merkle root of the acceptable acceptorTokenIds.
+   */
+  function initiateTraitSwap(Swap memory _swap, bytes32 _tokenIdsRoot) external payable {
+    if (_tokenIdsRoot == bytes32(0)) {
+      revert EmptyTokenIdsRoot();
+    }
+
+    if (!_isCollectionSide(_swap.acceptorTokenType, _swap.acceptorTokenId)) {
+      revert NotCollectionSwap();
+    }
+
+    uint256 newSwapId = _initiateSwap(_swap);
+
+    _getTraitSwapStorage().tokenIdsRoots[newSwapId] = _tokenIdsRoot;
+
+    emit TokenIdsRootSet(newSwapId, _tokenIdsRoot);
+  }
+
+  /**
+   * @notice Retrieves the Swap status.
+   * @param _swapId The ID of the swap.
+   * @param _swap The swap details.
+   * @return swapStatus The checked ownership and permissions struct for both parties's NFTs.
+   */
+  function getSwapStatus(
+    uint256 _swapId,
+    ISwapTokens.Swap memory _swap
+  ) external view returns (ISwapTokens.SwapStatus memory swapStatus) {
+    if (swapHashes[_swapId] != SwapHashing._hashTokenSwap(_swap)) {
+      revert ISwapTokens.SwapCompleteOrDoesNotExist();
+    }
+
+    _revertIfSwapCancelled(_swapId, _swap.initiator);
+
+    (bool initiatorNeedsToOwnToken, bool initiatorTokenRequiresApproval) = _getTokenSwapStatusFunction(
+      _swap.initiatorTokenType
+    )(_swap.initiatorERCContract, _swap.initiatorTokenId, _swap.initiatorTokenQuantity, _swap.initiator);
+
+    swapStatus.initiatorNeedsToOwnToken = initiatorNeedsToOwnToken;
+    swapStatus.initiatorTokenRequiresApproval = initiatorTokenRequiresApproval;
+
+    (bool acceptorNeedsToOwnToken, bool acceptorTokenRequiresApproval) = _getTokenSwapStatusFunction(
+      _swap.acceptorTokenType
+    )(_swap.acceptorERCContract, _swap.acceptorTokenId, _swap.acceptorTokenQuantity, _swap.acceptor);
+
+    swapStatus.acceptorNeedsToOwnToken = acceptorNeedsToOwnToken;
+    swapStatus.acceptorTokenRequiresApproval = acceptorTokenRequiresApproval;
+
+    swapStatus.isReadyForSwapping =
+      !(swapStatus.initiatorNeedsToOwnToken) &&
+      !(swapStatus.initiatorTokenRequiresApproval) &&
+      !(swapStatus.acceptorNeedsToOwnToken) &&
+      !(swapStatus.acceptorTokenRequiresApproval);
+  }
+
+  /**
+   * @notice Cancels a nonce, invalidating any swap msg.sender signed with it.
+   * @param _nonce The nonce to cancel.
+   */
+  function cancelSignedSwapNonce(uint256 _nonce) external {
+    SignedSwapStorage storage $ = _getSignedSwapStorage();
+
+    if ($.usedNonces[msg.sender][_nonce] || _nonce < $.minNonces[msg.sender]) {
+      revert SignedSwapNonceUsed(msg.sender, _nonce);
+    }
+
+    $.usedNonces[msg.sender][_nonce] = true;
+
+    emit SignedSwapNonceCancelled(msg.sender, _nonce);
+  }
+
+  /**
+   * @notice Checks if an initiator's nonce was used to complete a swap or cancelled.
+   * @dev Nonces below the initiator's minimum nonce are cancelled.
+   * @param _initiator The initiator address.
+   * @param _nonce The nonce to check.
+   * @return nonceUsed If the nonce can no longer be used.
+   */
+  function isSignedSwapNonceUsed(address _initiator, uint256 _nonce) external view returns (bool nonceUsed) {
+    SignedSwapStorage storage $ = _getSignedSwapStorage();
+
+    nonceUsed = $.usedNonces[_initiator][_nonce] || _nonce < $.minNonces[_initiator];
+  }
+
+  /**
+   * @notice Raises msg.sender's minimum nonce by one, cancelling every swap msg.sender initiated so far.
+   * @dev Only swaps signed with the current minimum nonce are cancelled with it, use cancelUpTo for signed swaps.
+   */
+  function incrementNonce() external {
+    unchecked {
+      _cancelUpTo(_getSignedSwapStorage().minNonces[msg.sender] + 1);
+    }
+  }
+
+  /**
+   * @notice Raises msg.sender's minimum nonce, cancelling every swap signed with a lower nonce or initiated so far.
+   * @param _minNonce The new minimum nonce, above the current one.
+   */
+  function cancelUpTo(uint256 _minNonce) external {
+    _cancelUpTo(_minNonce);
+  }
+
+  /**
+   * @notice Retrieves the minimum nonce an initiator's signed swaps need to be completed.
+   * @param _initiator The initiator address.
+   * @return minNonce The minimum nonce.
+   */
+  function getMinNonce(address _initiator) external view returns (uint256 minNonce) {
+    minNonce = _getSignedSwapStorage().minNonces[_initiator];
+  }
+
+  /**
+   * @notice Retrieves the minimum swap ID an initiator's initiated swaps need to be completed.
+   * @param _initiator The initiator address.
+   * @return minSwapId The minimum swap ID, zero if the initiator never raised the minimum nonce.
+   */
+  function getMinSwapId(address _initiator) external view returns (uint256 minSwapId) {
+    minSwapId = _getSignedSwapStorage().minSwapIds[_initiator];
+  }
+
+  /**
+   * @notice Returns the Merkle root of the acceptable acceptorTokenIds of an open trait swap.
+   * @param _swapId The ID of the swap.
+   * @return tokenIdsRoot The Merkle root, zero for other swaps.
+   */
+  function getTokenIdsRoot(uint256 _swapId) external view returns (bytes32 tokenIdsRoot) {
+    tokenIdsRoot = _getTraitSwapStorage().tokenIdsRoots[_swapId];
+  }
+
+  /**
+   * @notice Computes the EIP-712 digest the initiator signs for a swap and nonce.
+   * @param _swap The full swap data.
+   * @param _nonce The nonce.
+   * @return digest The typed data digest.
+   */
+  function hashSignedSwap(Swap calldata _swap, uint256 _nonce) external view returns (bytes32 digest) {
+    digest = _hashSignedSwap(_swap, _nonce);
+  }
+
+  /**
+   * @notice Retrieves the EIP-712 domain separator, unique to the deployment and chain.
+   * @dev Computed on every call so it follows the chain id after a fork.
+   * @return domainSeparator The domain separator.
+   */
+  function DOMAIN_SEPARATOR() public view returns (bytes32 domainSeparator) {
+    domainSeparator = keccak256(
+      abi.encode(EIP712_DOMAIN_TYPEHASH, EIP712_NAME_HASH, EIP712_VERSION_HASH, block.chainid, address(this))
+    );
+  }
+
+  /**
+   * @notice Raises msg.sender's minimum nonce and cancels the swaps msg.sender initiated so far.
+   * @dev swapId is the ID the next swap gets, so every swap msg.sender initiated has a lower one.
+   * @param _minNonce The new minimum nonce.
+   */
+  function _cancelUpTo(uint256 _minNonce) internal {
+    SignedSwapStorage storage $ = _getSignedSwapStorage();
+
+    if (_minNonce <= $.minNonces[msg.sender]) {
+      revert NonceNotIncreased($.minNonces[msg.sender]);
+    }
+
+    $.minNonces[msg.sender] = _minNonce;
+    $.minSwapIds[msg.sender] = swapId;
+
+    emit NonceIncremented(msg.sender, _minNonce, swapId);
+  }
+
+  /**
+   * @notice Reverts if the initiator cancelled the swap by raising the minimum nonce.
+   * @dev Removing a cancelled swap is still allowed, so the initiator ETH portion can be refunded.
+   * @param _swapId The ID of the swap.
+   * @param _initiator The swap initiator.
+   */
+  function _revertIfSwapCancelled(uint256 _swapId, address _initiator) internal view {
+    if (_swapId < _getSignedSwapStorage().minSwapIds[_initiator]) {
+      revert SwapCancelled(_swapId);
+    }
+  }
+
+  /**
+   * @notice Initiates a swap of two tokens.
+   * @dev msg.sender is validated to be the initiator and msg.value to match the _swap.initiatorETHPortion.
+   * @param _swap The full swap details.
+   * @return newSwapId The ID of the swap.
+   */
+  function _initiateSwap(Swap memory _swap) internal returns (uint256 newSwapId) {
     if (_swap.expiryDate < block.timestamp) {
       revert SwapIsInThePast();
     }
 
-    /// @dev allow zero address for any but ERC721.
-    if (_swap.acceptor == ZERO_ADDRESS && _swap.acceptorTokenType == TokenType.ERC721) {
+    /// @dev allow zero address for any but ERC721, unless any tokenId of the collection is accepted.
+    if (
+      _swap.acceptor == ZERO_ADDRESS &&
+      _swap.acceptorTokenType == TokenType.ERC721 &&
+      _swap.acceptorTokenId != ANY_TOKEN_ID
+    ) {
       revert ZeroAddressDisallowed();
     }
 
@@ -86,7 +326,7 @@ abstract contract TokenSwapperBase is ISwapTokens {
     }
 
     unchecked {
-      uint256 newSwapId = swapId++;
+      newSwapId = swapId++;
 
       // _swap emitted to pass in later when querying, completing or removing
       emit SwapInitiated(newSwapId, msg.sender, _swap.acceptor, _swap);
@@ -95,41 +335,6 @@ abstract contract TokenSwapperBase is ISwapTokens {
     }
   }
 
-  /**
-   * @notice Retrieves the Swap status.
-   * @param _swapId The ID of the swap.
-   * @param _swap The swap details.
-   * @return swapStatus The checked ownership and permissions struct for both parties's NFTs.
-   */
-  function getSwapStatus(
-    uint256 _swapId,
-    ISwapTokens.Swap memory _swap
-  ) external view returns (ISwapTokens.SwapStatus memory swapStatus) {
-    if (swapHashes[_swapId] != SwapHashing._hashTokenSwap(_swap)) {
-      revert ISwapTokens.SwapCompleteOrDoesNotExist();
-    }
-
-    (bool initiatorNeedsToOwnToken, bool initiatorTokenRequiresApproval) = _getTokenSwapStatusFunction(
-      _swap.initiatorTokenType
-    )(_swap.initiatorERCContract, _swap.initiatorTokenId, _swap.initiatorTokenQuantity, _swap.initiator);
-
-    swapStatus.initiatorNeedsToOwnToken = initiatorNeedsToOwnToken;
-    swapStatus.initiatorTokenRequiresApproval = initiatorTokenRequiresApproval;
-
-    (bool acceptorNeedsToOwnToken, bool acceptorTokenRequiresApproval) = _getTokenSwapStatusFunction(
-      _swap.acceptorTokenType
-    )(_swap.acceptorERCContract, _swap.acceptorTokenId, _swap.acceptorTokenQuantity, _swap.acceptor);
-
-    swapStatus.acceptorNeedsToOwnToken = acceptorNeedsToOwnToken;
-    swapStatus.acceptorTokenRequiresApproval = acceptorTokenRequiresApproval;
-
-    swapStatus.isReadyForSwapping =
-      !(swapStatus.initiatorNeedsToOwnToken) &&
-      !(swapStatus.initiatorTokenRequiresApproval) &&
-      !(swapStatus.acceptorNeedsToOwnToken) &&
-      !(swapStatus.acceptorTokenRequiresApproval);
-  }
-
   /**
    * @notice Cancels/Removes the swap if not accepted.
    * @dev msg.sender is the initiator.
@@ -147,6 +352,10 @@ abstract contract TokenSwapperBase is ISwapTokens {
 
     delete swapHashes[_swapId];
 
+    if (_swap.acceptorTokenId == ANY_TOKEN_ID) {
+      delete _getTraitSwapStorage().tokenIdsRoots[_swapId];
+    }
+
     if (_swap.initiatorETHPortion > 0) {
       _sendEthPortion(msg.sender, _swap.initiatorETHPortion);
     }
@@ -173,16 +382,33 @@ abstract contract TokenSwapperBase is ISwapTokens {
    * @dev The ETH portion is added to either the acceptor or the initiator balance.
    * @param _swapId The ID of the swap.
    * @param _swap The swap data to use and verify.
+   * @param _acceptorTokenId The tokenId the acceptor sends, only differing from _swap.acceptorTokenId for a collection swap.
+   * @param _tokenIdProof The Merkle proof of _acceptorTokenId for a trait swap, empty otherwise.
    */
-  function _completeSwap(uint256 _swapId, Swap memory _swap) internal {
+  function _completeSwap(
+    uint256 _swapId,
+    Swap memory _swap,
+    uint256 _acceptorTokenId,
+    bytes32[] memory _tokenIdProof
+  ) internal {
     if (block.timestamp > _swap.expiryDate) {
       revert SwapHasExpired();
     }
 
+    if (_acceptorTokenId != _swap.acceptorTokenId && _swap.acceptorTokenId != ANY_TOKEN_ID) {
+      revert NotCollectionSwap();
+    }
+
+    if (_isCollectionSide(_swap.acceptorTokenType, _acceptorTokenId)) {
+      revert AcceptorTokenIdNotChosen();
+    }
+
     if (swapHashes[_swapId] != SwapHashing._hashTokenSwap(_swap)) {
       revert SwapCompleteOrDoesNotExist();
     }
 
+    _revertIfSwapCancelled(_swapId, _swap.initiator);
+
     /// @dev allow anyone to accept if the acceptor address is empty.
     if (_swap.acceptor != ZERO_ADDRESS && _swap.acceptor != msg.sender) {
       revert NotAcceptor();
@@ -196,6 +422,10 @@ abstract contract TokenSwapperBase is ISwapTokens {
       revert IncorrectOrMissingAcceptorETH(_swap.acceptorETHPortion);
     }
 
+    if (_swap.acceptorTokenId == ANY_TOKEN_ID) {
+      _useTokenIdsRoot(_swapId, _acceptorTokenId, _tokenIdProof);
+    }
+
     /// @dev Doing this prevents reentry.
     delete swapHashes[_swapId];
 
@@ -211,6 +441,98 @@ abstract contract TokenSwapperBase is ISwapTokens {
 
     emit SwapComplete(_swapId, _swap.initiator, realAcceptor, _swap);
 
+    if (_acceptorTokenId != _swap.acceptorTokenId) {
+      emit AcceptorTokenIdChosen(_swapId, _acceptorTokenId);
+    }
+
+    _getTokenTransferer(_swap.initiatorTokenType)(
+      _swap.initiatorERCContract,
+      _swap.initiatorTokenId,
+      _swap.initiatorTokenQuantity,
+      _swap.initiator,
+      realAcceptor
+    );
+
+    _getTokenTransferer(_swap.acceptorTokenType)(
+      _swap.acceptorERCContract,
+      _acceptorTokenId,
+      _swap.acceptorTokenQuantity,
+      realAcceptor,
+      _swap.initiator
+    );
+  }
+
+  /**
+   * @notice Completes a swap the initiator signed off-chain.
+   * @dev If ETH is sent, it is used as the acceptor ETH portion.
+   * @dev msg.sender is the acceptor.
+   * @dev The swap never went through initiateSwap, so its rules are checked here instead of msg.sender being the
+   * initiator, which the signature proves.
+   * @param _swap The full swap data the initiator signed.
+   * @param _nonce The nonce the initiator signed the swap with.
+   * @param _signature The initiator's EIP-712 signature, or ERC-1271 signature for contract wallets.
+   */
+  function _completeSignedSwap(Swap calldata _swap, uint256 _nonce, bytes calldata _signature) internal {
+    if (block.timestamp > _swap.expiryDate) {
+      revert SwapHasExpired();
+    }
+
+    if (_swap.initiatorETHPortion > 0) {
+      revert SignedSwapInitiatorETHDisallowed();
+    }
+
+    /// @dev allow zero address for any but ERC721.
+    if (_swap.acceptor == ZERO_ADDRESS && _swap.acceptorTokenType == TokenType.ERC721) {
+      revert ZeroAddressDisallowed();
+    }
+
+    /// @dev signed swaps have no collection mode, the acceptor has no way to choose the tokenId.
+    if (_isCollectionSide(_swap.acceptorTokenType, _swap.acceptorTokenId)) {
+      revert AcceptorTokenIdNotChosen();
+    }
+
+    _getTokenTypeValidator(_swap.initiatorTokenType)(
+      _swap.initiatorERCContract,
+      _swap.initiatorETHPortion,
+      _swap.initiatorTokenQuantity
+    );
+
+    _getTokenTypeValidator(_swap.acceptorTokenType)(
+      _swap.acceptorERCContract,
+      _swap.acceptorETHPortion,
+      _swap.acceptorTokenQuantity
+    );
+
+    /// @dev allow anyone to accept if the acceptor address is empty.
+    if (_swap.acceptor != ZERO_ADDRESS && _swap.acceptor != msg.sender) {
+      revert NotAcceptor();
+    }
+
+    if (_swap.acceptorETHPortion != msg.value) {
+      revert IncorrectOrMissingAcceptorETH(_swap.acceptorETHPortion);
+    }
+
+    SignedSwapStorage storage $ = _getSignedSwapStorage();
+
+    if ($.usedNonces[_swap.initiator][_nonce] || _nonce < $.minNonces[_swap.initiator]) {
+      revert SignedSwapNonceUsed(_swap.initiator, _nonce);
+    }
+
+    if (!SignatureChecker.isValidSignatureNow(_swap.initiator, _hashSignedSwap(_swap, _nonce), _signature)) {
+      revert InvalidSignature();
+    }
+
+    /// @dev Doing this prevents replay and reentry.
+    $.usedNonces[_swap.initiator][_nonce] = true;
+
+    if (msg.value > 0) {
+      _sendEthPortion(_swap.initiator, msg.value);
+    }
+
+    address realAcceptor = _swap.acceptor == ZERO_ADDRESS ? msg.sender : _swap.acceptor;
+
+    emit SignedSwapComplete(_swap.initiator, _nonce, realAcceptor, _swap);
+
     _getTokenTransferer(_swap.initiatorTokenType)(
       _swap.initiatorERCContract,
       _swap.initiatorTokenId,
@@ -228,6 +550,75 @@ abstract contract TokenSwapperBase is ISwapTokens {
     );
   }
 
+  /**
+   * @notice Computes the EIP-712 digest of a signed swap for this deployment and chain.
+   * @param _swap The full swap data.
+   * @param _nonce The nonce.
+   * @return digest The typed data digest.
+   */
+  function _hashSignedSwap(Swap calldata _swap, uint256 _nonce) internal view returns (bytes32 digest) {
+    digest = MessageHashUtils.toTypedDataHash(DOMAIN_SEPARATOR(), SwapHashing._hashSignedSwapCalldata(_swap, _nonce));
+  }
+
+  /**
+   * @notice Checks the chosen tokenId of a collection swap against its Merkle root, if a trait swap, and removes it.
+   * @param _swapId The ID of the swap.
+   * @param _acceptorTokenId The chosen tokenId.
+   * @param _tokenIdProof The Merkle proof of the tokenId.
+   */
+  function _useTokenIdsRoot(uint256 _swapId, uint256 _acceptorTokenId, bytes32[] memory _tokenIdProof) internal {
+    TraitSwapStorage storage $ = _getTraitSwapStorage();
+    bytes32 tokenIdsRoot = $.tokenIdsRoots[_swapId];
+
+    if (tokenIdsRoot == bytes32(0)) {
+      return;
+    }
+
+    /// @dev double hashed leaves, so no inner node of the tree is a valid leaf.
+    bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(_acceptorTokenId))));
+
+    if (!MerkleProof.verify(_tokenIdProof, tokenIdsRoot, leaf)) {
+      revert TokenIdNotInRoot(_acceptorTokenId);
+    }
+
+    delete $.tokenIdsRoots[_swapId];
+  }
+
+  /**
+   * @notice Retrieves the namespaced trait swap storage.
+   * @return $ The trait swap storage.
+   */
+  function _getTraitSwapStorage() private pure returns (TraitSwapStorage storage $) {
+    assembly {
+      $.slot := TRAIT_SWAP_STORAGE_LOCATION
+    }
+  }
+
+  /**
+   * @notice Retrieves the namespaced signed swap storage.
+   * @return $ The signed swap storage.
+   */
+  function _getSignedSwapStorage() private pure returns (SignedSwapStorage storage $) {
+    assembly {
+      $.slot := SIGNED_SWAP_STORAGE_LOCATION
+    }
+  }
+
+  /**
+   * @notice Checks if a side accepts any tokenId of its ERC721 or ERC1155 collection.
+   * @param _tokenType The token type of the side.
+   * @param _tokenId The tokenId of the side.
+   * @return isCollectionSide If the tokenId is still to be chosen.
+   */
+  function _isCollectionSide(
+    ISwapTokens.TokenType _tokenType,
+    uint256 _tokenId
+  ) internal pure returns (bool isCollectionSide) {
+    isCollectionSide =
+      _tokenId == ANY_TOKEN_ID &&
+      (_tokenType == ISwapTokens.TokenType.ERC721 || _tokenType == ISwapTokens.TokenType.ERC1155);
+  }
+
   /**
    * @notice Returns dynamic token type validator.
    * @dev We don't care about tokenId being zero anywhere because 721s and 1155s can have id==0.
@@ -352,6 +743,7 @@ abstract contract TokenSwapperBase is ISwapTokens {
 
   /**
    * @notice Retrieves the function to determine a swap's status based on ERC721 token type.
+   * @dev For any tokenId of a collection, owning any token and approval for all are checked, as no single token is known.
    * @param _tokenAddress The token address being checked.
    * @param _tokenId The token Id being swapped.
    * @param _tokenOwner The expected owber of the token(s).
@@ -366,6 +758,14 @@ abstract contract TokenSwapperBase is ISwapTokens {
   ) internal view returns (bool needsToOwnToken, bool tokenRequiresApproval) {
     IERC721 erc721Token = IERC721(_tokenAddress);
 
+    if (_tokenId == ANY_TOKEN_ID) {
+      /// @dev an open acceptor is not known yet, and balanceOf reverts for the zero address.
+      needsToOwnToken = _tokenOwner == ZERO_ADDRESS || erc721Token.balanceOf(_tokenOwner) == 0;
+      tokenRequiresApproval = !erc721Token.isApprovedForAll(_tokenOwner, address(this));
+
+      return (needsToOwnToken, tokenRequiresApproval);
+    }
+
     needsToOwnToken = erc721Token.ownerOf(_tokenId) != _tokenOwner;
     tokenRequiresApproval =
       erc721Token.getApproved(_tokenId) != address(this) &&
@@ -374,6 +774,7 @@ abstract contract TokenSwapperBase is ISwapTokens {
 
   /**
    * @notice Retrieves the function to determine a swap's status based on ERC1155 token type.
+   * @dev For any tokenId of a collection only the approval is checked, ERC1155 balances cannot be summed across ids.
    * @param _tokenAddress The token address being checked.
    * @param _tokenId The token Id being swapped.
    * @param _tokenQuantity The token quantity being swapped.
@@ -389,7 +790,7 @@ abstract contract TokenSwapperBase is ISwapTokens {
   ) internal view returns (bool needsToOwnToken, bool tokenRequiresApproval) {
     IERC1155 erc1155Token = IERC1155(_tokenAddress);
 
-    needsToOwnToken = erc1155Token.balanceOf(_tokenOwner, _tokenId) < _tokenQuantity;
+    needsToOwnToken = _tokenId != ANY_TOKEN_ID && erc1155Token.balanceOf(_tokenOwner, _tokenId) < _tokenQuantity;
     tokenRequiresApproval = !erc1155Token.isApprovedForAll(_tokenOwner, address(this));
   }
 
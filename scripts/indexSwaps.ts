@@ -0,0 +1,33 @@
+import { ethers } from "hardhat";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { SqliteSwapStore } from "../sdk/SqliteSwapStore";
+import { SwapState } from "../sdk/SwapStore";
+
+async function main() {
+  const swapperAddress = process.env.SWAPPER_ADDRESS;
+
+  if (!swapperAddress) {
+    throw new Error("SWAPPER_ADDRESS is required");
+  }
+
+  const store = new SqliteSwapStore(process.env.SWAP_INDEX_PATH ?? "swapIndex.db");
+
+  const indexer = new SwapIndexer(ethers.provider, swapperAddress, store, {
+    deploymentBlock: Number(process.env.DEPLOYMENT_BLOCK ?? 0),
+  });
+
+  const lastIndexedBlock = await indexer.sync();
+
+  console.log(`Indexed swaps up to block ${lastIndexedBlock}`);
+
+  for (const state of Object.values(SwapState)) {
+    console.log(`${state}: ${(await indexer.getSwaps(state)).length}`);
+  }
+
+  store.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
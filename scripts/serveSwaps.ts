@@ -0,0 +1,49 @@
+import { ethers } from "hardhat";
+import { SqliteSwapStore } from "../sdk/SqliteSwapStore";
+import { SwapApiServer } from "../sdk/SwapApiServer";
+import { SwapFeed } from "../sdk/SwapFeed";
+import { SwapFeedServer } from "../sdk/SwapFeedServer";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { TokenSwapperClient } from "../sdk/TokenSwapperClient";
+
+async function main() {
+  const swapperAddress = process.env.SWAPPER_ADDRESS;
+
+  if (!swapperAddress) {
+    throw new Error("SWAPPER_ADDRESS is required");
+  }
+
+  const deploymentBlock = Number(process.env.DEPLOYMENT_BLOCK ?? 0);
+  const store = new SqliteSwapStore(process.env.SWAP_INDEX_PATH ?? "swapIndex.db");
+  const indexer = new SwapIndexer(ethers.provider, swapperAddress, store, { deploymentBlock });
+  const client = await TokenSwapperClient.connect(swapperAddress, ethers.provider, { deploymentBlock });
+
+  await indexer.sync();
+
+  const syncInterval = Number(process.env.SYNC_INTERVAL ?? 15000);
+  const apiServer = new SwapApiServer(store, client);
+  const feed = new SwapFeed(ethers.provider, swapperAddress, { store });
+
+  new SwapFeedServer(feed, apiServer.server, (error) => console.error(error));
+
+  const port = await apiServer.listen(Number(process.env.PORT ?? 3000));
+
+  console.log(`Serving ${client.variant} swaps at http://127.0.0.1:${port} and ws://127.0.0.1:${port}`);
+
+  feed.start(syncInterval);
+
+  // The next sync is only scheduled once the previous one finished, so slow RPCs never sync the same range twice
+  const sync = () => {
+    indexer
+      .sync()
+      .catch((error) => console.error(error))
+      .finally(() => setTimeout(sync, syncInterval));
+  };
+
+  setTimeout(sync, syncInterval);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
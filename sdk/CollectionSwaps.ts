@@ -0,0 +1,153 @@
+import { BigNumberish, MaxUint256, Provider, getAddress, toBigInt } from "ethers";
+import { IERC1155__factory, IERC721__factory } from "../typechain-types";
+import { toSwap } from "./SwapHashing";
+import { SwapLike, TokenType } from "./types";
+
+/**
+ * @notice The acceptorTokenId of a collection swap, matching TokenSwapperBase.ANY_TOKEN_ID.
+ * @dev The acceptor chooses the tokenId with completeCollectionSwap.
+ */
+export const ANY_TOKEN_ID = MaxUint256;
+
+export type OwnedTokenOptions = {
+  /**
+   * @notice The block to scan the token transfers from, defaults to the first block.
+   */
+  fromBlock?: number;
+  /**
+   * @notice The minimum ERC1155 balance of a tokenId, defaults to 1.
+   */
+  quantity?: BigNumberish;
+};
+
+export type ChooseTokenIdOptions = Omit<OwnedTokenOptions, "quantity"> & {
+  /**
+   * @notice Only chooses among these tokenIds, such as the tokenIds of a trait swap.
+   */
+  acceptableTokenIds?: BigNumberish[];
+};
+
+/**
+ * @notice Checks if the acceptor side of a swap accepts any tokenId of its ERC721 or ERC1155 collection.
+ * @param swap The swap.
+ */
+export function isCollectionSwap(swap: SwapLike): boolean {
+  const { acceptorTokenType, acceptorTokenId } = toSwap(swap);
+
+  return (
+    acceptorTokenId === ANY_TOKEN_ID &&
+    (acceptorTokenType === TokenType.ERC721 || acceptorTokenType === TokenType.ERC1155)
+  );
+}
+
+/**
+ * @notice Finds the tokenIds of an ERC721 or ERC1155 collection an account holds.
+ * @dev The tokenIds are collected from the transfers to the account and checked against its current ownership or
+ * balance, so collections without ERC721Enumerable are supported.
+ * @param provider The provider to query.
+ * @param tokenType ERC721 or ERC1155.
+ * @param ercContract The collection.
+ * @param owner The account.
+ * @param options The block to scan from and the minimum ERC1155 balance.
+ * @return The held tokenIds in ascending order.
+ */
+export async function findOwnedTokenIds(
+  provider: Provider,
+  tokenType: TokenType,
+  ercContract: string,
+  owner: string,
+  options: OwnedTokenOptions = {},
+): Promise<bigint[]> {
+  const fromBlock = options.fromBlock ?? 0;
+  const candidateIds = new Set<bigint>();
+
+  if (tokenType === TokenType.ERC721) {
+    const token = IERC721__factory.connect(ercContract, provider);
+
+    for (const event of await token.queryFilter(token.filters.Transfer(undefined, owner), fromBlock)) {
+      candidateIds.add(event.args.tokenId);
+    }
+
+    const owners = await Promise.all([...candidateIds].map((tokenId) => token.ownerOf(tokenId).catch(() => undefined)));
+
+    return sortTokenIds([...candidateIds].filter((_, index) => owners[index] === getAddress(owner)));
+  }
+
+  if (tokenType === TokenType.ERC1155) {
+    const token = IERC1155__factory.connect(ercContract, provider);
+    const quantity = toBigInt(options.quantity ?? 1n);
+
+    for (const event of await token.queryFilter(token.filters.TransferSingle(undefined, undefined, owner), fromBlock)) {
+      candidateIds.add(event.args.id);
+    }
+
+    for (const event of await token.queryFilter(token.filters.TransferBatch(undefined, undefined, owner), fromBlock)) {
+      event.args.ids.forEach((id) => candidateIds.add(id));
+    }
+
+    const ids = [...candidateIds];
+    const balances = await token.balanceOfBatch(
+      ids.map(() => owner),
+      ids,
+    );
+
+    return sortTokenIds(ids.filter((_, index) => balances[index] >= quantity));
+  }
+
+  throw new Error(`Token type ${TokenType[tokenType]} has no tokenIds`);
+}
+
+/**
+ * @notice Chooses the tokenId an acceptor fulfils a collection swap with.
+ * @dev Tokens the swapper is already approved for are preferred, then the lowest tokenId.
+ * @param provider The provider to query.
+ * @param swapperAddress The swapper the swap is completed on.
+ * @param swap The collection swap.
+ * @param acceptor The account completing the swap.
+ * @param options The block to scan the transfers from and the acceptable tokenIds.
+ * @return The tokenId, undefined if the acceptor holds none of the collection.
+ */
+export async function chooseAcceptorTokenId(
+  provider: Provider,
+  swapperAddress: string,
+  swap: SwapLike,
+  acceptor: string,
+  options: ChooseTokenIdOptions = {},
+): Promise<bigint | undefined> {
+  const { acceptorTokenType, acceptorERCContract, acceptorTokenQuantity } = toSwap(swap);
+
+  if (!isCollectionSwap(swap)) {
+    throw new Error("The swap accepts a single tokenId, use completeSwap");
+  }
+
+  const { acceptableTokenIds, ...ownedTokenOptions } = options;
+  const acceptable = acceptableTokenIds && new Set(acceptableTokenIds.map((tokenId) => toBigInt(tokenId)));
+  const ownedTokenIds = (
+    await findOwnedTokenIds(provider, acceptorTokenType, acceptorERCContract, acceptor, {
+      ...ownedTokenOptions,
+      quantity: acceptorTokenQuantity,
+    })
+  ).filter((tokenId) => !acceptable || acceptable.has(tokenId));
+
+  if (ownedTokenIds.length === 0 || acceptorTokenType === TokenType.ERC1155) {
+    return ownedTokenIds[0];
+  }
+
+  const token = IERC721__factory.connect(acceptorERCContract, provider);
+
+  if (await token.isApprovedForAll(acceptor, swapperAddress)) {
+    return ownedTokenIds[0];
+  }
+
+  for (const tokenId of ownedTokenIds) {
+    if (getAddress(await token.getApproved(tokenId)) === getAddress(swapperAddress)) {
+      return tokenId;
+    }
+  }
+
+  return ownedTokenIds[0];
+}
+
+function sortTokenIds(tokenIds: bigint[]): bigint[] {
+  return tokenIds.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
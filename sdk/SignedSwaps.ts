@@ -0,0 +1,229 @@
+import {
+  BigNumberish,
+  Provider,
+  Signer,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  getAddress,
+  toBigInt,
+  verifyTypedData,
+} from "ethers";
+import { IERC1271__factory, TokenSwapperBase__factory } from "../typechain-types";
+import { SWAP_FIELDS, normalizeSwap, toSwap } from "./SwapHashing";
+import { SwapValidationError, validateSignedSwap } from "./SwapValidation";
+import { Swap, SwapLike } from "./types";
+
+/**
+ * @notice The EIP-712 domain name and version of every swapper deployment.
+ * @dev The chainId and verifyingContract complete the domain, so a signature is only valid on one deployment.
+ */
+export const SIGNED_SWAP_DOMAIN_NAME = "TokenSwapper";
+export const SIGNED_SWAP_DOMAIN_VERSION = "1";
+
+/**
+ * @notice The EIP-712 types an initiator signs, matching SwapHashing.SIGNED_SWAP_TYPEHASH.
+ * @dev TokenType enums are signed as uint8.
+ */
+export const SIGNED_SWAP_TYPES: Record<string, TypedDataField[]> = {
+  SignedSwap: [
+    { name: "swap", type: "Swap" },
+    { name: "nonce", type: "uint256" },
+  ],
+  Swap: SWAP_FIELDS.map(([name, type]) => ({ name, type })),
+};
+
+/**
+ * @notice A swap the initiator signed off-chain, with the deployment it can be completed on.
+ */
+export type SignedSwap = {
+  chainId: bigint;
+  swapperAddress: string;
+  swap: Swap;
+  nonce: bigint;
+  signature: string;
+};
+
+/**
+ * @notice A SignedSwap with any supported representation of its values.
+ */
+export type SignedSwapLike = {
+  chainId: BigNumberish;
+  swapperAddress: string;
+  swap: SwapLike;
+  nonce: BigNumberish;
+  signature: string;
+};
+
+/**
+ * @notice Whether a signed swap can still be completed.
+ * @dev nonceUsed covers both a completed swap and a cancelled nonce, the contract does not tell them apart.
+ */
+export type SignedSwapStatus = "fillable" | "invalidSignature" | "wrongChain" | "expired" | "nonceUsed";
+
+/**
+ * @notice The value an ERC-1271 contract wallet returns for a signature it accepts.
+ */
+const ERC1271_MAGIC_VALUE = IERC1271__factory.createInterface().getFunction("isValidSignature").selector;
+
+/**
+ * @notice Builds the EIP-712 domain of a swapper deployment.
+ * @param chainId The chain the swapper is deployed on.
+ * @param swapperAddress The swapper address.
+ */
+export function getSignedSwapDomain(chainId: BigNumberish, swapperAddress: string): TypedDataDomain {
+  return {
+    name: SIGNED_SWAP_DOMAIN_NAME,
+    version: SIGNED_SWAP_DOMAIN_VERSION,
+    chainId: toBigInt(chainId),
+    verifyingContract: getAddress(swapperAddress),
+  };
+}
+
+/**
+ * @notice Computes the digest the initiator signs, matching hashSignedSwap on the swapper.
+ * @param chainId The chain the swapper is deployed on.
+ * @param swapperAddress The swapper address.
+ * @param swap The swap as it will be submitted.
+ * @param nonce The nonce.
+ */
+export function hashSignedSwap(
+  chainId: BigNumberish,
+  swapperAddress: string,
+  swap: SwapLike,
+  nonce: BigNumberish,
+): string {
+  return TypedDataEncoder.hash(getSignedSwapDomain(chainId, swapperAddress), SIGNED_SWAP_TYPES, {
+    swap: toSwap(swap),
+    nonce: toBigInt(nonce),
+  });
+}
+
+/**
+ * @notice Signs a swap for completeSignedSwap without sending a transaction.
+ * @dev The swap is normalized the way initiateSwap would and validated for the signer, throwing a SwapValidationError
+ * instead of signing a swap that could never be completed. Any unused nonce works, they do not need to be sequential.
+ * @param signer The initiator.
+ * @param swapperAddress The swapper the swap can be completed on.
+ * @param swap The full swap details.
+ * @param nonce The nonce, cancel it with cancelSignedSwapNonce to withdraw the offer.
+ */
+export async function signSwap(
+  signer: Signer,
+  swapperAddress: string,
+  swap: SwapLike,
+  nonce: BigNumberish,
+): Promise<SignedSwap> {
+  const provider = getProvider(signer);
+  const normalizedSwap = normalizeSwap(swap);
+  const latestBlock = await provider.getBlock("latest");
+  const violations = validateSignedSwap(normalizedSwap, await signer.getAddress(), latestBlock?.timestamp);
+
+  if (violations.length > 0) {
+    throw new SwapValidationError(violations);
+  }
+
+  const { chainId } = await provider.getNetwork();
+  const signature = await signer.signTypedData(getSignedSwapDomain(chainId, swapperAddress), SIGNED_SWAP_TYPES, {
+    swap: normalizedSwap,
+    nonce: toBigInt(nonce),
+  });
+
+  return {
+    chainId,
+    swapperAddress: getAddress(swapperAddress),
+    swap: normalizedSwap,
+    nonce: toBigInt(nonce),
+    signature,
+  };
+}
+
+/**
+ * @notice Converts a loosely typed signed swap, e.g. parsed from JSON, to a SignedSwap.
+ * @param signedSwap The signed swap to convert.
+ */
+export function toSignedSwap(signedSwap: SignedSwapLike): SignedSwap {
+  return {
+    chainId: toBigInt(signedSwap.chainId),
+    swapperAddress: getAddress(signedSwap.swapperAddress),
+    swap: toSwap(signedSwap.swap),
+    nonce: toBigInt(signedSwap.nonce),
+    signature: signedSwap.signature,
+  };
+}
+
+/**
+ * @notice Recovers the account that signed a swap.
+ * @dev Only EOA signatures can be recovered, getSignedSwapStatus also checks ERC-1271 contract wallet signatures.
+ * @param signedSwap The signed swap.
+ * @return The signer, which must be the swap initiator for the swap to be completed.
+ */
+export function recoverSwapSigner(signedSwap: SignedSwapLike): string {
+  const { chainId, swapperAddress, swap, nonce, signature } = toSignedSwap(signedSwap);
+
+  return verifyTypedData(getSignedSwapDomain(chainId, swapperAddress), SIGNED_SWAP_TYPES, { swap, nonce }, signature);
+}
+
+/**
+ * @notice Checks whether a signed swap can still be completed, before the acceptor spends gas on it.
+ * @dev A signature the initiator did not sign as an EOA is checked with isValidSignature if the initiator is a
+ * contract, the way completeSignedSwap checks it. Token ownership and approvals are not checked.
+ * @param provider The provider of the chain the swap is to be completed on.
+ * @param signedSwap The signed swap.
+ */
+export async function getSignedSwapStatus(provider: Provider, signedSwap: SignedSwapLike): Promise<SignedSwapStatus> {
+  const { chainId, swapperAddress, swap, nonce } = toSignedSwap(signedSwap);
+
+  if ((await provider.getNetwork()).chainId !== chainId) {
+    return "wrongChain";
+  }
+
+  if (!(await isSignedByInitiator(provider, signedSwap))) {
+    return "invalidSignature";
+  }
+
+  const latestBlock = await provider.getBlock("latest");
+
+  if (swap.expiryDate < BigInt(latestBlock?.timestamp ?? Math.floor(Date.now() / 1000))) {
+    return "expired";
+  }
+
+  if (await TokenSwapperBase__factory.connect(swapperAddress, provider).isSignedSwapNonceUsed(swap.initiator, nonce)) {
+    return "nonceUsed";
+  }
+
+  return "fillable";
+}
+
+async function isSignedByInitiator(provider: Provider, signedSwap: SignedSwapLike): Promise<boolean> {
+  const { chainId, swapperAddress, swap, nonce, signature } = toSignedSwap(signedSwap);
+
+  try {
+    if (recoverSwapSigner(signedSwap) === swap.initiator) {
+      return true;
+    }
+  } catch {
+    // Not an EOA signature, a contract wallet may still accept it.
+  }
+
+  if ((await provider.getCode(swap.initiator)) === "0x") {
+    return false;
+  }
+
+  try {
+    const wallet = IERC1271__factory.connect(swap.initiator, provider);
+    const digest = hashSignedSwap(chainId, swapperAddress, swap, nonce);
+
+    return (await wallet.isValidSignature(digest, signature)) === ERC1271_MAGIC_VALUE;
+  } catch {
+    return false;
+  }
+}
+
+function getProvider(signer: Signer): Provider {
+  if (!signer.provider) {
+    throw new Error("A provider is required to sign swaps for its chain");
+  }
+
+  return signer.provider;
+}
@@ -0,0 +1,579 @@
+import Database from "better-sqlite3";
+import { ZeroAddress, getAddress, toBeHex } from "ethers";
+import { getSwapState } from "./SwapIndexer";
+import { EthPortionTransfer, IndexedBundleSwap, IndexedSwap, SwapState, SwapStore } from "./SwapStore";
+import { BundleItem, TokenType } from "./types";
+
+/**
+ * @notice Filters for querying indexed swaps, all given filters must match.
+ * @dev acceptor matches either the acceptor set by the initiator or the real acceptor from SwapComplete.
+ * @dev ercContract and tokenId match on either side of the swap, on the same side when both are given. tokenId also
+ * matches the tokenId chosen to complete a collection or trait swap.
+ * @dev tokenType matches either side, openToAnyone matches swaps whose acceptor is the zero address.
+ * @dev expiresAfter and expiresBefore are inclusive bounds on the expiryDate.
+ */
+export type SwapQuery = {
+  initiator?: string;
+  acceptor?: string;
+  ercContract?: string;
+  tokenId?: bigint;
+  tokenType?: TokenType;
+  openToAnyone?: boolean;
+  expiresAfter?: bigint;
+  expiresBefore?: bigint;
+  state?: SwapState;
+};
+
+type SwapRow = {
+  swap_id: string;
+  expiry_date: string;
+  initiator_erc_contract: string;
+  acceptor_erc_contract: string;
+  initiator: string;
+  initiator_token_id: string;
+  initiator_token_quantity: string;
+  acceptor: string;
+  acceptor_token_id: string;
+  acceptor_token_quantity: string;
+  initiator_eth_portion: string;
+  acceptor_eth_portion: string;
+  initiator_token_type: number;
+  acceptor_token_type: number;
+  state: SwapState;
+  block_number: number;
+  transaction_hash: string;
+  real_acceptor: string | null;
+  closed_block_number: number | null;
+  closed_transaction_hash: string | null;
+  chosen_acceptor_token_id: string | null;
+  token_ids_root: string | null;
+};
+
+type BundleSwapRow = {
+  swap_id: string;
+  expiry_date: string;
+  initiator: string;
+  acceptor: string;
+  initiator_eth_portion: string;
+  acceptor_eth_portion: string;
+  state: SwapState;
+  block_number: number;
+  transaction_hash: string;
+  real_acceptor: string | null;
+  closed_block_number: number | null;
+  closed_transaction_hash: string | null;
+};
+
+type BundleItemRow = {
+  swap_id: string;
+  side: "initiator" | "acceptor";
+  position: number;
+  token_type: number;
+  erc_contract: string;
+  token_id: string;
+  token_quantity: string;
+};
+
+type EthPortionTransferRow = {
+  swap_id: string;
+  user: string;
+  amount: string;
+  block_number: number;
+  transaction_hash: string;
+};
+
+/**
+ * @notice Schema migrations, applied in order and tracked with PRAGMA user_version.
+ * @dev uint256 values are stored as 0x prefixed, 64 character hex so text ordering and comparison matches numeric
+ * order.
+ */
+export const SWAP_STORE_MIGRATIONS: string[] = [
+  `
+  CREATE TABLE swaps (
+    swap_id TEXT PRIMARY KEY,
+    expiry_date TEXT NOT NULL,
+    initiator_erc_contract TEXT NOT NULL,
+    acceptor_erc_contract TEXT NOT NULL,
+    initiator TEXT NOT NULL,
+    initiator_token_id TEXT NOT NULL,
+    initiator_token_quantity TEXT NOT NULL,
+    acceptor TEXT NOT NULL,
+    acceptor_token_id TEXT NOT NULL,
+    acceptor_token_quantity TEXT NOT NULL,
+    initiator_eth_portion TEXT NOT NULL,
+    acceptor_eth_portion TEXT NOT NULL,
+    initiator_token_type INTEGER NOT NULL,
+    acceptor_token_type INTEGER NOT NULL,
+    state TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    real_acceptor TEXT,
+    closed_block_number INTEGER,
+    closed_transaction_hash TEXT
+  );
+
+  CREATE INDEX swaps_initiator ON swaps (initiator);
+  CREATE INDEX swaps_acceptor ON swaps (acceptor);
+  CREATE INDEX swaps_real_acceptor ON swaps (real_acceptor);
+  CREATE INDEX swaps_initiator_erc_contract ON swaps (initiator_erc_contract, initiator_token_id);
+  CREATE INDEX swaps_acceptor_erc_contract ON swaps (acceptor_erc_contract, acceptor_token_id);
+  CREATE INDEX swaps_state_expiry_date ON swaps (state, expiry_date);
+
+  CREATE TABLE eth_portion_transfers (
+    swap_id TEXT NOT NULL REFERENCES swaps (swap_id),
+    position INTEGER NOT NULL,
+    user TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    PRIMARY KEY (swap_id, position)
+  );
+
+  CREATE TABLE checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    block_number INTEGER NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE bundle_swaps (
+    swap_id TEXT PRIMARY KEY,
+    expiry_date TEXT NOT NULL,
+    initiator TEXT NOT NULL,
+    acceptor TEXT NOT NULL,
+    initiator_eth_portion TEXT NOT NULL,
+    acceptor_eth_portion TEXT NOT NULL,
+    state TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    real_acceptor TEXT,
+    closed_block_number INTEGER,
+    closed_transaction_hash TEXT
+  );
+
+  CREATE TABLE bundle_items (
+    swap_id TEXT NOT NULL REFERENCES bundle_swaps (swap_id),
+    side TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    token_type INTEGER NOT NULL,
+    erc_contract TEXT NOT NULL,
+    token_id TEXT NOT NULL,
+    token_quantity TEXT NOT NULL,
+    PRIMARY KEY (swap_id, side, position)
+  );
+
+  CREATE TABLE bundle_eth_portion_transfers (
+    swap_id TEXT NOT NULL REFERENCES bundle_swaps (swap_id),
+    position INTEGER NOT NULL,
+    user TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    PRIMARY KEY (swap_id, position)
+  );
+  `,
+  `
+  ALTER TABLE swaps ADD COLUMN chosen_acceptor_token_id TEXT;
+  `,
+  `
+  ALTER TABLE swaps ADD COLUMN token_ids_root TEXT;
+  `,
+  `
+  CREATE INDEX bundle_swaps_initiator ON bundle_swaps (initiator);
+  `,
+];
+
+/**
+ * @notice Persists indexed swaps to SQLite and exposes queries over them.
+ * @param path The database file, or ":memory:".
+ */
+export class SqliteSwapStore implements SwapStore {
+  readonly database: Database.Database;
+
+  constructor(path: string) {
+    this.database = new Database(path);
+    this.database.pragma("journal_mode = WAL");
+    this.migrate();
+  }
+
+  /**
+   * @notice Applies any migrations the database has not yet had.
+   */
+  private migrate(): void {
+    const version = this.database.pragma("user_version", { simple: true }) as number;
+
+    for (let migration = version; migration < SWAP_STORE_MIGRATIONS.length; migration++) {
+      this.database.transaction(() => {
+        this.database.exec(SWAP_STORE_MIGRATIONS[migration]);
+        this.database.pragma(`user_version = ${migration + 1}`);
+      })();
+    }
+  }
+
+  async getCheckpoint(): Promise<number | undefined> {
+    const row = this.database.prepare("SELECT block_number FROM checkpoint WHERE id = 1").get() as
+      | { block_number: number }
+      | undefined;
+
+    return row?.block_number;
+  }
+
+  async getSwap(swapId: bigint): Promise<IndexedSwap | undefined> {
+    const row = this.database.prepare("SELECT * FROM swaps WHERE swap_id = ?").get(toUint256(swapId)) as
+      | SwapRow
+      | undefined;
+
+    return row && this.toIndexedSwap(row);
+  }
+
+  async getSwaps(): Promise<IndexedSwap[]> {
+    return this.querySwaps({});
+  }
+
+  async getBundleSwap(swapId: bigint): Promise<IndexedBundleSwap | undefined> {
+    const row = this.database.prepare("SELECT * FROM bundle_swaps WHERE swap_id = ?").get(toUint256(swapId)) as
+      | BundleSwapRow
+      | undefined;
+
+    return row && this.toIndexedBundleSwap(row);
+  }
+
+  async getBundleSwaps(): Promise<IndexedBundleSwap[]> {
+    const rows = this.database.prepare("SELECT * FROM bundle_swaps ORDER BY swap_id").all() as BundleSwapRow[];
+
+    return rows.map((row) => this.toIndexedBundleSwap(row));
+  }
+
+  async getOpenSwapsOf(initiator: string): Promise<IndexedSwap[]> {
+    const rows = this.database
+      .prepare("SELECT * FROM swaps WHERE initiator = ? AND state = ? ORDER BY swap_id")
+      .all(getAddress(initiator), SwapState.Open) as SwapRow[];
+
+    return rows.map((row) => this.toIndexedSwap(row));
+  }
+
+  async getOpenBundleSwapsOf(initiator: string): Promise<IndexedBundleSwap[]> {
+    const rows = this.database
+      .prepare("SELECT * FROM bundle_swaps WHERE initiator = ? AND state = ? ORDER BY swap_id")
+      .all(getAddress(initiator), SwapState.Open) as BundleSwapRow[];
+
+    return rows.map((row) => this.toIndexedBundleSwap(row));
+  }
+
+  async saveSwaps(swaps: IndexedSwap[], checkpoint: number, bundleSwaps: IndexedBundleSwap[] = []): Promise<void> {
+    const upsertSwap = this.database.prepare(`
+      INSERT OR REPLACE INTO swaps VALUES (
+        @swap_id, @expiry_date, @initiator_erc_contract, @acceptor_erc_contract, @initiator, @initiator_token_id,
+        @initiator_token_quantity, @acceptor, @acceptor_token_id, @acceptor_token_quantity, @initiator_eth_portion,
+        @acceptor_eth_portion, @initiator_token_type, @acceptor_token_type, @state, @block_number, @transaction_hash,
+        @real_acceptor, @closed_block_number, @closed_transaction_hash, @chosen_acceptor_token_id, @token_ids_root
+      )
+    `);
+    const deleteTransfers = this.database.prepare("DELETE FROM eth_portion_transfers WHERE swap_id = ?");
+    const insertTransfer = this.database.prepare(
+      "INSERT INTO eth_portion_transfers VALUES (@swap_id, @position, @user, @amount, @block_number, @transaction_hash)",
+    );
+    const upsertBundleSwap = this.database.prepare(`
+      INSERT OR REPLACE INTO bundle_swaps VALUES (
+        @swap_id, @expiry_date, @initiator, @acceptor, @initiator_eth_portion, @acceptor_eth_portion, @state,
+        @block_number, @transaction_hash, @real_acceptor, @closed_block_number, @closed_transaction_hash
+      )
+    `);
+    const deleteBundleItems = this.database.prepare("DELETE FROM bundle_items WHERE swap_id = ?");
+    const insertBundleItem = this.database.prepare(
+      "INSERT INTO bundle_items VALUES (@swap_id, @side, @position, @token_type, @erc_contract, @token_id, @token_quantity)",
+    );
+    const deleteBundleTransfers = this.database.prepare("DELETE FROM bundle_eth_portion_transfers WHERE swap_id = ?");
+    const insertBundleTransfer = this.database.prepare(
+      "INSERT INTO bundle_eth_portion_transfers VALUES (@swap_id, @position, @user, @amount, @block_number, @transaction_hash)",
+    );
+    const upsertCheckpoint = this.database.prepare("INSERT OR REPLACE INTO checkpoint VALUES (1, ?)");
+
+    this.database.transaction(() => {
+      for (const indexedSwap of swaps) {
+        const swapId = toUint256(indexedSwap.swapId);
+
+        upsertSwap.run(toSwapRow(indexedSwap));
+        deleteTransfers.run(swapId);
+
+        indexedSwap.ethPortionTransfers.forEach((transfer, position) =>
+          insertTransfer.run({
+            swap_id: swapId,
+            position,
+            user: transfer.user,
+            amount: toUint256(transfer.amount),
+            block_number: transfer.blockNumber,
+            transaction_hash: transfer.transactionHash,
+          }),
+        );
+      }
+
+      for (const indexedBundleSwap of bundleSwaps) {
+        const swapId = toUint256(indexedBundleSwap.swapId);
+
+        upsertBundleSwap.run(toBundleSwapRow(indexedBundleSwap));
+        deleteBundleItems.run(swapId);
+        deleteBundleTransfers.run(swapId);
+
+        for (const side of ["initiator", "acceptor"] as const) {
+          indexedBundleSwap.swap[`${side}Items`].forEach((item, position) =>
+            insertBundleItem.run({
+              swap_id: swapId,
+              side,
+              position,
+              token_type: item.tokenType,
+              erc_contract: item.ercContract,
+              token_id: toUint256(item.tokenId),
+              token_quantity: toUint256(item.tokenQuantity),
+            }),
+          );
+        }
+
+        indexedBundleSwap.ethPortionTransfers.forEach((transfer, position) =>
+          insertBundleTransfer.run({
+            swap_id: swapId,
+            position,
+            user: transfer.user,
+            amount: toUint256(transfer.amount),
+            block_number: transfer.blockNumber,
+            transaction_hash: transfer.transactionHash,
+          }),
+        );
+      }
+
+      upsertCheckpoint.run(checkpoint);
+    })();
+  }
+
+  /**
+   * @notice Queries indexed swaps ordered by swapId.
+   * @param query The filters to apply.
+   * @param timestamp The timestamp open swaps expire against, defaults to now.
+   */
+  async querySwaps(query: SwapQuery, timestamp: number = Math.floor(Date.now() / 1000)): Promise<IndexedSwap[]> {
+    const conditions: string[] = [];
+    const parameters: Record<string, string | number> = {};
+
+    if (query.initiator !== undefined) {
+      conditions.push("initiator = @initiator");
+      parameters.initiator = getAddress(query.initiator);
+    }
+
+    if (query.acceptor !== undefined) {
+      conditions.push("(acceptor = @acceptor OR real_acceptor = @acceptor)");
+      parameters.acceptor = getAddress(query.acceptor);
+    }
+
+    if (query.ercContract !== undefined && query.tokenId !== undefined) {
+      conditions.push(
+        "((initiator_erc_contract = @ercContract AND initiator_token_id = @tokenId AND initiator_token_type IN (@erc721, @erc1155))" +
+          " OR (acceptor_erc_contract = @ercContract AND (acceptor_token_id = @tokenId OR chosen_acceptor_token_id = @tokenId)" +
+          " AND acceptor_token_type IN (@erc721, @erc1155)))",
+      );
+    } else if (query.ercContract !== undefined) {
+      conditions.push("(initiator_erc_contract = @ercContract OR acceptor_erc_contract = @ercContract)");
+    } else if (query.tokenId !== undefined) {
+      conditions.push(
+        "((initiator_token_id = @tokenId AND initiator_token_type IN (@erc721, @erc1155))" +
+          " OR ((acceptor_token_id = @tokenId OR chosen_acceptor_token_id = @tokenId) AND acceptor_token_type IN (@erc721, @erc1155)))",
+      );
+    }
+
+    if (query.ercContract !== undefined) {
+      parameters.ercContract = getAddress(query.ercContract);
+    }
+
+    if (query.tokenId !== undefined) {
+      parameters.tokenId = toUint256(query.tokenId);
+      parameters.erc721 = TokenType.ERC721;
+      parameters.erc1155 = TokenType.ERC1155;
+    }
+
+    if (query.tokenType !== undefined) {
+      conditions.push("(initiator_token_type = @tokenType OR acceptor_token_type = @tokenType)");
+      parameters.tokenType = query.tokenType;
+    }
+
+    if (query.openToAnyone !== undefined) {
+      conditions.push(query.openToAnyone ? "acceptor = @zeroAddress" : "acceptor != @zeroAddress");
+      parameters.zeroAddress = ZeroAddress;
+    }
+
+    if (query.expiresAfter !== undefined) {
+      conditions.push("expiry_date >= @expiresAfter");
+      parameters.expiresAfter = toUint256(query.expiresAfter);
+    }
+
+    if (query.expiresBefore !== undefined) {
+      conditions.push("expiry_date <= @expiresBefore");
+      parameters.expiresBefore = toUint256(query.expiresBefore);
+    }
+
+    if (query.state === SwapState.Open) {
+      conditions.push("state = @open AND expiry_date >= @timestamp");
+    } else if (query.state === SwapState.Expired) {
+      conditions.push("state = @open AND expiry_date < @timestamp");
+    } else if (query.state !== undefined) {
+      conditions.push("state = @state");
+      parameters.state = query.state;
+    }
+
+    if (query.state === SwapState.Open || query.state === SwapState.Expired) {
+      parameters.open = SwapState.Open;
+      parameters.timestamp = toUint256(BigInt(timestamp));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const rows = this.database.prepare(`SELECT * FROM swaps ${where} ORDER BY swap_id`).all(parameters) as SwapRow[];
+
+    return rows.map((row) => {
+      const indexedSwap = this.toIndexedSwap(row);
+
+      return { ...indexedSwap, state: getSwapState(indexedSwap, timestamp) };
+    });
+  }
+
+  /**
+   * @notice Closes the underlying database.
+   */
+  close(): void {
+    this.database.close();
+  }
+
+  private toIndexedSwap(row: SwapRow): IndexedSwap {
+    const transferRows = this.database
+      .prepare("SELECT * FROM eth_portion_transfers WHERE swap_id = ? ORDER BY position")
+      .all(row.swap_id) as EthPortionTransferRow[];
+
+    const ethPortionTransfers: EthPortionTransfer[] = transferRows.map((transferRow) => ({
+      user: transferRow.user,
+      amount: BigInt(transferRow.amount),
+      blockNumber: transferRow.block_number,
+      transactionHash: transferRow.transaction_hash,
+    }));
+
+    return {
+      swapId: BigInt(row.swap_id),
+      swap: {
+        expiryDate: BigInt(row.expiry_date),
+        initiatorERCContract: row.initiator_erc_contract,
+        acceptorERCContract: row.acceptor_erc_contract,
+        initiator: row.initiator,
+        initiatorTokenId: BigInt(row.initiator_token_id),
+        initiatorTokenQuantity: BigInt(row.initiator_token_quantity),
+        acceptor: row.acceptor,
+        acceptorTokenId: BigInt(row.acceptor_token_id),
+        acceptorTokenQuantity: BigInt(row.acceptor_token_quantity),
+        initiatorETHPortion: BigInt(row.initiator_eth_portion),
+        acceptorETHPortion: BigInt(row.acceptor_eth_portion),
+        initiatorTokenType: row.initiator_token_type as TokenType,
+        acceptorTokenType: row.acceptor_token_type as TokenType,
+      },
+      state: row.state,
+      blockNumber: row.block_number,
+      transactionHash: row.transaction_hash,
+      acceptor: row.real_acceptor ?? undefined,
+      acceptorTokenId: row.chosen_acceptor_token_id === null ? undefined : BigInt(row.chosen_acceptor_token_id),
+      tokenIdsRoot: row.token_ids_root ?? undefined,
+      closedBlockNumber: row.closed_block_number ?? undefined,
+      closedTransactionHash: row.closed_transaction_hash ?? undefined,
+      ethPortionTransfers,
+    };
+  }
+
+  private toIndexedBundleSwap(row: BundleSwapRow): IndexedBundleSwap {
+    const itemRows = this.database
+      .prepare("SELECT * FROM bundle_items WHERE swap_id = ? ORDER BY position")
+      .all(row.swap_id) as BundleItemRow[];
+    const transferRows = this.database
+      .prepare("SELECT * FROM bundle_eth_portion_transfers WHERE swap_id = ? ORDER BY position")
+      .all(row.swap_id) as EthPortionTransferRow[];
+
+    const toBundleItems = (side: BundleItemRow["side"]): BundleItem[] =>
+      itemRows
+        .filter((itemRow) => itemRow.side === side)
+        .map((itemRow) => ({
+          tokenType: itemRow.token_type as TokenType,
+          ercContract: itemRow.erc_contract,
+          tokenId: BigInt(itemRow.token_id),
+          tokenQuantity: BigInt(itemRow.token_quantity),
+        }));
+
+    return {
+      swapId: BigInt(row.swap_id),
+      swap: {
+        expiryDate: BigInt(row.expiry_date),
+        initiator: row.initiator,
+        acceptor: row.acceptor,
+        initiatorETHPortion: BigInt(row.initiator_eth_portion),
+        acceptorETHPortion: BigInt(row.acceptor_eth_portion),
+        initiatorItems: toBundleItems("initiator"),
+        acceptorItems: toBundleItems("acceptor"),
+      },
+      state: row.state,
+      blockNumber: row.block_number,
+      transactionHash: row.transaction_hash,
+      acceptor: row.real_acceptor ?? undefined,
+      closedBlockNumber: row.closed_block_number ?? undefined,
+      closedTransactionHash: row.closed_transaction_hash ?? undefined,
+      ethPortionTransfers: transferRows.map((transferRow) => ({
+        user: transferRow.user,
+        amount: BigInt(transferRow.amount),
+        blockNumber: transferRow.block_number,
+        transactionHash: transferRow.transaction_hash,
+      })),
+    };
+  }
+}
+
+function toUint256(value: bigint): string {
+  return toBeHex(value, 32);
+}
+
+function toSwapRow(indexedSwap: IndexedSwap): SwapRow {
+  const { swap } = indexedSwap;
+
+  return {
+    swap_id: toUint256(indexedSwap.swapId),
+    expiry_date: toUint256(swap.expiryDate),
+    initiator_erc_contract: swap.initiatorERCContract,
+    acceptor_erc_contract: swap.acceptorERCContract,
+    initiator: swap.initiator,
+    initiator_token_id: toUint256(swap.initiatorTokenId),
+    initiator_token_quantity: toUint256(swap.initiatorTokenQuantity),
+    acceptor: swap.acceptor,
+    acceptor_token_id: toUint256(swap.acceptorTokenId),
+    acceptor_token_quantity: toUint256(swap.acceptorTokenQuantity),
+    initiator_eth_portion: toUint256(swap.initiatorETHPortion),
+    acceptor_eth_portion: toUint256(swap.acceptorETHPortion),
+    initiator_token_type: swap.initiatorTokenType,
+    acceptor_token_type: swap.acceptorTokenType,
+    state: indexedSwap.state,
+    block_number: indexedSwap.blockNumber,
+    transaction_hash: indexedSwap.transactionHash,
+    real_acceptor: indexedSwap.acceptor ?? null,
+    closed_block_number: indexedSwap.closedBlockNumber ?? null,
+    closed_transaction_hash: indexedSwap.closedTransactionHash ?? null,
+    chosen_acceptor_token_id: indexedSwap.acceptorTokenId === undefined ? null : toUint256(indexedSwap.acceptorTokenId),
+    token_ids_root: indexedSwap.tokenIdsRoot ?? null,
+  };
+}
+
+function toBundleSwapRow(indexedBundleSwap: IndexedBundleSwap): BundleSwapRow {
+  const { swap } = indexedBundleSwap;
+
+  return {
+    swap_id: toUint256(indexedBundleSwap.swapId),
+    expiry_date: toUint256(swap.expiryDate),
+    initiator: swap.initiator,
+    acceptor: swap.acceptor,
+    initiator_eth_portion: toUint256(swap.initiatorETHPortion),
+    acceptor_eth_portion: toUint256(swap.acceptorETHPortion),
+    state: indexedBundleSwap.state,
+    block_number: indexedBundleSwap.blockNumber,
+    transaction_hash: indexedBundleSwap.transactionHash,
+    real_acceptor: indexedBundleSwap.acceptor ?? null,
+    closed_block_number: indexedBundleSwap.closedBlockNumber ?? null,
+    closed_transaction_hash: indexedBundleSwap.closedTransactionHash ?? null,
+  };
+}
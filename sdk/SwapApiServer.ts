@@ -0,0 +1,268 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { AddressInfo } from "net";
+import { isAddress } from "ethers";
+import { SqliteSwapStore, SwapQuery } from "./SqliteSwapStore";
+import { SwapGraphQL, isUnexpectedError } from "./SwapGraphQL";
+import { getLatestTimestamp, getSwapState } from "./SwapIndexer";
+import { SwapState } from "./SwapStore";
+import { TokenSwapperClient } from "./TokenSwapperClient";
+
+export type ApiResponse = {
+  status: number;
+  body: unknown;
+};
+
+/**
+ * @notice An error returned to the caller with its HTTP status code.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * @notice Serializes API responses, uint256 values are sent as decimal strings as they exceed the JSON number range.
+ */
+export function stringifyJson(value: unknown): string {
+  return JSON.stringify(value, (_key, field) => (typeof field === "bigint" ? field.toString() : field));
+}
+
+/**
+ * @notice Read only HTTP API over the indexed swaps.
+ * @dev GET /health, GET /swaps, GET /swaps/:id and GET /swaps/:id/status. Swap states are derived from the latest
+ * block timestamp, the status endpoint proxies getSwapStatus for the indexed swap.
+ * @dev POST /graphql executes { query, variables } against the SwapGraphQL schema.
+ */
+export class SwapApiServer {
+  readonly store: SqliteSwapStore;
+  readonly client: TokenSwapperClient;
+  readonly graphql: SwapGraphQL;
+  readonly server: Server;
+
+  constructor(store: SqliteSwapStore, client: TokenSwapperClient) {
+    this.store = store;
+    this.client = client;
+    this.graphql = new SwapGraphQL(store, client);
+    this.server = createServer((request, response) =>
+      this.respond(request, response).catch(() => {
+        // handle answers its own errors, this catches reading the body failing, e.g. on an aborted request
+        if (response.headersSent) {
+          response.destroy();
+          return;
+        }
+
+        response.writeHead(500, { "Content-Type": "application/json" });
+        response.end(stringifyJson({ error: "Internal server error" }));
+      }),
+    );
+  }
+
+  /**
+   * @notice Starts listening for requests.
+   * @param port The port to listen on, 0 picks a free port.
+   * @param host The host to bind to.
+   * @return The port the server is listening on.
+   */
+  listen(port: number = 0, host: string = "127.0.0.1"): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve((this.server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * @notice Stops accepting requests and waits for open connections to finish.
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * @notice Routes a request without going through the HTTP server.
+   * @param method The HTTP method.
+   * @param url The request path and query string.
+   * @param body The request body.
+   */
+  async handle(method: string, url: string, body: string = ""): Promise<ApiResponse> {
+    try {
+      const { pathname, searchParams } = new URL(url, "http://localhost");
+      const segments = pathname.split("/").filter((segment) => segment !== "");
+
+      if (segments.length === 1 && segments[0] === "graphql") {
+        if (method !== "POST") {
+          throw new ApiError(405, `Method ${method} not allowed`);
+        }
+
+        return { status: 200, body: await this.executeGraphQL(body) };
+      }
+
+      if (method !== "GET") {
+        throw new ApiError(405, `Method ${method} not allowed`);
+      }
+
+      if (segments.length === 1 && segments[0] === "health") {
+        return { status: 200, body: await this.getHealth() };
+      }
+
+      if (segments[0] === "swaps") {
+        if (segments.length === 1) {
+          return { status: 200, body: await this.getSwaps(searchParams) };
+        }
+
+        if (segments.length === 2) {
+          return { status: 200, body: await this.getSwap(parseSwapId(segments[1])) };
+        }
+
+        if (segments.length === 3 && segments[2] === "status") {
+          return { status: 200, body: await this.getSwapStatus(parseSwapId(segments[1])) };
+        }
+      }
+
+      throw new ApiError(404, `Route ${pathname} not found`);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return { status: error.status, body: { error: error.message } };
+      }
+
+      // Provider errors can include RPC URLs and internals, so they are only logged
+      console.error(error);
+
+      return { status: 500, body: { error: "Internal server error" } };
+    }
+  }
+
+  private async respond(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of request) {
+      chunks.push(chunk);
+    }
+
+    const { status, body } = await this.handle(
+      request.method ?? "GET",
+      request.url ?? "/",
+      Buffer.concat(chunks).toString("utf8"),
+    );
+
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(stringifyJson(body));
+  }
+
+  private async executeGraphQL(body: string) {
+    let request: { query?: unknown; variables?: Record<string, unknown> };
+
+    try {
+      request = JSON.parse(body);
+    } catch {
+      throw new ApiError(400, "Request body must be JSON");
+    }
+
+    if (typeof request?.query !== "string") {
+      throw new ApiError(400, "query is required");
+    }
+
+    const result = await this.graphql.execute(request.query, request.variables);
+
+    // Masked like the unexpected errors of the other routes, the original errors are only logged
+    result.errors?.filter(isUnexpectedError).forEach(({ originalError }) => console.error(originalError));
+
+    return result;
+  }
+
+  private async getHealth() {
+    return { checkpoint: (await this.store.getCheckpoint()) ?? null, timestamp: await this.getLatestTimestamp() };
+  }
+
+  private async getSwaps(searchParams: URLSearchParams) {
+    const query: SwapQuery = {};
+
+    const initiator = searchParams.get("initiator");
+    const acceptor = searchParams.get("acceptor");
+    const collection = searchParams.get("collection");
+    const tokenId = searchParams.get("tokenId");
+    const status = searchParams.get("status");
+
+    if (initiator !== null) {
+      query.initiator = parseAddress("initiator", initiator);
+    }
+
+    if (acceptor !== null) {
+      query.acceptor = parseAddress("acceptor", acceptor);
+    }
+
+    if (collection !== null) {
+      query.ercContract = parseAddress("collection", collection);
+    }
+
+    if (tokenId !== null) {
+      query.tokenId = parseUint("tokenId", tokenId);
+    }
+
+    if (status !== null) {
+      if (!Object.values(SwapState).includes(status as SwapState)) {
+        throw new ApiError(400, `Invalid status: ${status}`);
+      }
+
+      query.state = status as SwapState;
+    }
+
+    return this.store.querySwaps(query, await this.getLatestTimestamp());
+  }
+
+  private async getSwap(swapId: bigint) {
+    const indexedSwap = await this.store.getSwap(swapId);
+
+    if (!indexedSwap) {
+      throw new ApiError(404, `Swap ${swapId} not found`);
+    }
+
+    return { ...indexedSwap, state: getSwapState(indexedSwap, await this.getLatestTimestamp()) };
+  }
+
+  private async getSwapStatus(swapId: bigint) {
+    const indexedSwap = await this.getSwap(swapId);
+
+    // getSwapStatus reverts with SwapCompleteOrDoesNotExist once the swap hash is deleted, and with SwapCancelled.
+    if (
+      indexedSwap.state === SwapState.Completed ||
+      indexedSwap.state === SwapState.Removed ||
+      indexedSwap.state === SwapState.Cancelled
+    ) {
+      throw new ApiError(409, `Swap ${swapId} is ${indexedSwap.state}`);
+    }
+
+    return this.client.getSwapStatus(swapId, indexedSwap.swap);
+  }
+
+  private getLatestTimestamp(): Promise<number> {
+    return getLatestTimestamp(this.client.contract.runner?.provider);
+  }
+}
+
+function parseSwapId(value: string): bigint {
+  return parseUint("swap id", value);
+}
+
+function parseUint(name: string, value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new ApiError(400, `Invalid ${name}: ${value}`);
+  }
+
+  return BigInt(value);
+}
+
+function parseAddress(name: string, value: string): string {
+  if (!isAddress(value)) {
+    throw new ApiError(400, `Invalid ${name}: ${value}`);
+  }
+
+  return value;
+}
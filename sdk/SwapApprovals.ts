@@ -0,0 +1,248 @@
+import { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, Signer, ZeroAddress } from "ethers";
+import { IERC1155__factory, IERC20__factory, IERC721__factory } from "../typechain-types";
+import { ANY_TOKEN_ID } from "./CollectionSwaps";
+import { toSwap } from "./SwapHashing";
+import { SwapSide } from "./SwapValidation";
+import { SwapLike, TokenType } from "./types";
+
+export type EnsureApprovalsOptions = {
+  /**
+   * @dev For tokens like USDT that revert when changing a non zero allowance, approve zero first.
+   */
+  resetToZeroFirst?: boolean;
+  /**
+   * @dev Use setApprovalForAll for ERC721 instead of approving the single tokenId.
+   */
+  approveAll?: boolean;
+};
+
+/**
+ * @notice One side of ISwapTokens.SwapStatus.
+ */
+export type SideStatus = {
+  needsToOwnToken: boolean;
+  tokenRequiresApproval: boolean;
+};
+
+/**
+ * @notice The approvals sent by ensureApprovals.
+ * @dev revoke withdraws the approvals still in place, a consumed ERC20 allowance or an ERC721 approval cleared by the
+ * transfer needs no transaction. The ERC20 approval replaces any prior allowance and revoke zeroes it, the prior
+ * allowance is not restored.
+ */
+export type ApprovalResult = {
+  receipts: ContractTransactionReceipt[];
+  revoke: () => Promise<ContractTransactionReceipt[]>;
+};
+
+type SideToken = {
+  tokenType: TokenType;
+  contract: string;
+  tokenId: bigint;
+  quantity: bigint;
+  party: string;
+};
+
+function getSideToken(swap: SwapLike, side: SwapSide): SideToken {
+  const normalizedSwap = toSwap(swap);
+
+  return side === "initiator"
+    ? {
+        tokenType: normalizedSwap.initiatorTokenType,
+        contract: normalizedSwap.initiatorERCContract,
+        tokenId: normalizedSwap.initiatorTokenId,
+        quantity: normalizedSwap.initiatorTokenQuantity,
+        party: normalizedSwap.initiator,
+      }
+    : {
+        tokenType: normalizedSwap.acceptorTokenType,
+        contract: normalizedSwap.acceptorERCContract,
+        tokenId: normalizedSwap.acceptorTokenId,
+        quantity: normalizedSwap.acceptorTokenQuantity,
+        party: normalizedSwap.acceptor,
+      };
+}
+
+/**
+ * @notice Reads one side's ownership and approval the way _erc20Status, _erc721Status and _erc1155Status do.
+ * @dev ERC777 is checked as ERC20, as the contract does. A collection or trait side, with the ANY_TOKEN_ID tokenId,
+ * only needs any token of the collection and approval for all.
+ * @param swapperAddress The swapper the approval is for.
+ * @param swap The full swap details.
+ * @param side The side to check.
+ * @param owner The expected owner, needed for the acceptor side of a swap anyone can accept.
+ * @param runner The provider or signer to read with.
+ */
+export async function getSideStatus(
+  swapperAddress: string,
+  swap: SwapLike,
+  side: SwapSide,
+  owner: string,
+  runner: ContractRunner,
+): Promise<SideStatus> {
+  const { tokenType, contract, tokenId, quantity } = getSideToken(swap, side);
+
+  switch (tokenType) {
+    case TokenType.ERC20:
+    case TokenType.ERC777: {
+      const erc20Token = IERC20__factory.connect(contract, runner);
+
+      return {
+        needsToOwnToken: (await erc20Token.balanceOf(owner)) < quantity,
+        tokenRequiresApproval: (await erc20Token.allowance(owner, swapperAddress)) < quantity,
+      };
+    }
+    case TokenType.ERC721: {
+      const erc721Token = IERC721__factory.connect(contract, runner);
+
+      if (tokenId === ANY_TOKEN_ID) {
+        return {
+          // balanceOf reverts for the zero address of a swap anyone can accept.
+          needsToOwnToken: owner === ZeroAddress || (await erc721Token.balanceOf(owner)) === 0n,
+          tokenRequiresApproval: !(await erc721Token.isApprovedForAll(owner, swapperAddress)),
+        };
+      }
+
+      return {
+        needsToOwnToken: (await erc721Token.ownerOf(tokenId)) !== owner,
+        tokenRequiresApproval:
+          (await erc721Token.getApproved(tokenId)) !== swapperAddress &&
+          !(await erc721Token.isApprovedForAll(owner, swapperAddress)),
+      };
+    }
+    case TokenType.ERC1155: {
+      const erc1155Token = IERC1155__factory.connect(contract, runner);
+
+      return {
+        needsToOwnToken: tokenId !== ANY_TOKEN_ID && (await erc1155Token.balanceOf(owner, tokenId)) < quantity,
+        tokenRequiresApproval: !(await erc1155Token.isApprovedForAll(owner, swapperAddress)),
+      };
+    }
+    default:
+      return { needsToOwnToken: false, tokenRequiresApproval: false };
+  }
+}
+
+/**
+ * @notice Sends the minimal approval one side needs for the swapper to transfer its token.
+ * @dev ERC20 and ERC777 are approved for the exact quantity, ERC721 for the single tokenId unless approveAll is set
+ * or the side accepts any tokenId of the collection, and ERC1155 with setApprovalForAll, the only approval it has.
+ * Nothing is sent when the approval is already in place.
+ * @param swapperAddress The swapper the approval is for.
+ * @param swap The full swap details.
+ * @param side The side to approve.
+ * @param signer The side's party, any account for the acceptor side of a swap anyone can accept.
+ * @param options The USDT and ERC721 approval options.
+ */
+export async function ensureApprovals(
+  swapperAddress: string,
+  swap: SwapLike,
+  side: SwapSide,
+  signer: Signer,
+  options: EnsureApprovalsOptions = {},
+): Promise<ApprovalResult> {
+  const { tokenType, contract, tokenId, quantity, party } = getSideToken(swap, side);
+  const owner = await signer.getAddress();
+
+  if (party !== ZeroAddress && party !== owner) {
+    throw new Error(`Signer ${owner} is not the ${side} ${party}`);
+  }
+
+  const receipts: ContractTransactionReceipt[] = [];
+  const revocations: (() => Promise<ContractTransactionReceipt | undefined>)[] = [];
+
+  const { tokenRequiresApproval } = await getSideStatus(swapperAddress, swap, side, owner, signer);
+
+  if (tokenRequiresApproval) {
+    switch (tokenType) {
+      case TokenType.ERC20:
+      case TokenType.ERC777: {
+        const erc20Token = IERC20__factory.connect(contract, signer);
+
+        if (options.resetToZeroFirst && (await erc20Token.allowance(owner, swapperAddress)) > 0n) {
+          receipts.push(await waitForReceipt(erc20Token.approve(swapperAddress, 0n)));
+        }
+
+        receipts.push(await waitForReceipt(erc20Token.approve(swapperAddress, quantity)));
+
+        revocations.push(async () => {
+          if ((await erc20Token.allowance(owner, swapperAddress)) > 0n) {
+            return waitForReceipt(erc20Token.approve(swapperAddress, 0n));
+          }
+        });
+        break;
+      }
+      case TokenType.ERC721: {
+        const erc721Token = IERC721__factory.connect(contract, signer);
+
+        if (options.approveAll || tokenId === ANY_TOKEN_ID) {
+          receipts.push(await waitForReceipt(erc721Token.setApprovalForAll(swapperAddress, true)));
+
+          revocations.push(async () => {
+            if (await erc721Token.isApprovedForAll(owner, swapperAddress)) {
+              return waitForReceipt(erc721Token.setApprovalForAll(swapperAddress, false));
+            }
+          });
+        } else {
+          receipts.push(await waitForReceipt(erc721Token.approve(swapperAddress, tokenId)));
+
+          revocations.push(async () => {
+            if (
+              (await erc721Token.ownerOf(tokenId)) === owner &&
+              (await erc721Token.getApproved(tokenId)) === swapperAddress
+            ) {
+              return waitForReceipt(erc721Token.approve(ZeroAddress, tokenId));
+            }
+          });
+        }
+        break;
+      }
+      case TokenType.ERC1155: {
+        const erc1155Token = IERC1155__factory.connect(contract, signer);
+
+        receipts.push(await waitForReceipt(erc1155Token.setApprovalForAll(swapperAddress, true)));
+
+        revocations.push(async () => {
+          if (await erc1155Token.isApprovedForAll(owner, swapperAddress)) {
+            return waitForReceipt(erc1155Token.setApprovalForAll(swapperAddress, false));
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  return {
+    receipts,
+    revoke: async () => {
+      const revokeReceipts: ContractTransactionReceipt[] = [];
+
+      for (const revocation of revocations) {
+        const receipt = await revocation();
+
+        if (receipt) {
+          revokeReceipts.push(receipt);
+        }
+      }
+
+      return revokeReceipts;
+    },
+  };
+}
+
+/**
+ * @notice Waits for a sent transaction to be mined.
+ * @param transaction The pending transaction, or the promise of sending it.
+ * @return The receipt, throwing if none is returned.
+ */
+export async function waitForReceipt(
+  transaction: ContractTransactionResponse | Promise<ContractTransactionResponse>,
+): Promise<ContractTransactionReceipt> {
+  const receipt = await (await transaction).wait();
+
+  if (!receipt) {
+    throw new Error("Transaction receipt was not returned");
+  }
+
+  return receipt;
+}
@@ -0,0 +1,376 @@
+import { BigNumberish, ZeroAddress, getAddress, toBigInt } from "ethers";
+import { ANY_TOKEN_ID } from "./CollectionSwaps";
+import { normalizeSwap } from "./SwapHashing";
+import { SwapSide, SwapValidationError, validateBundleSwap, validateSwap } from "./SwapValidation";
+import { BundleItem, BundleSwap, Swap, TokenType } from "./types";
+
+/**
+ * @notice A swap ready to send to initiateSwap with msg.value.
+ */
+export type BuiltSwap = {
+  swap: Swap;
+  value: bigint;
+};
+
+/**
+ * @notice A bundle swap ready to send to initiateBundleSwap with msg.value.
+ */
+export type BuiltBundleSwap = {
+  swap: BundleSwap;
+  value: bigint;
+};
+
+/**
+ * @notice Thrown when the builder is used out of order or is missing a field the swap cannot default.
+ */
+export class SwapBuilderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SwapBuilderError";
+  }
+}
+
+type SideFields = {
+  ercContract: string;
+  tokenType: TokenType;
+  tokenId: bigint;
+  tokenQuantity: bigint;
+  ethPortion: bigint;
+};
+
+const DURATION_UNITS: Record<string, bigint> = { s: 1n, m: 60n, h: 3600n, d: 86400n, w: 604800n };
+
+/**
+ * @notice The fluent methods shared by the single token and bundle swap builders.
+ * @dev give() selects the initiator side and want() the acceptor side, the token and ETH methods then set the selected
+ * side.
+ */
+abstract class SwapTermsBuilder {
+  protected side?: SwapSide;
+  protected initiator?: string;
+  protected acceptor: string = ZeroAddress;
+  private expiryDate?: bigint;
+  private expiresInSeconds?: bigint;
+
+  /**
+   * @notice Selects the initiator side, what pI gives.
+   */
+  give(): this {
+    this.side = "initiator";
+
+    return this;
+  }
+
+  /**
+   * @notice Selects the acceptor side, what pA gives in return.
+   */
+  want(): this {
+    this.side = "acceptor";
+
+    return this;
+  }
+
+  /**
+   * @notice Gives or wants a quantity of ERC20, or ERC20 variant, tokens on the selected side.
+   */
+  erc20(ercContract: string, quantity: BigNumberish): this {
+    return this.setToken(TokenType.ERC20, ercContract, 0n, quantity);
+  }
+
+  /**
+   * @notice Gives or wants a quantity of ERC777 tokens on the selected side.
+   */
+  erc777(ercContract: string, quantity: BigNumberish): this {
+    return this.setToken(TokenType.ERC777, ercContract, 0n, quantity);
+  }
+
+  /**
+   * @notice Gives or wants a single ERC721 token on the selected side.
+   */
+  erc721(ercContract: string, tokenId: BigNumberish): this {
+    return this.setToken(TokenType.ERC721, ercContract, tokenId, 0n);
+  }
+
+  /**
+   * @notice Gives or wants a quantity of an ERC1155 token on the selected side.
+   */
+  erc1155(ercContract: string, tokenId: BigNumberish, quantity: BigNumberish): this {
+    return this.setToken(TokenType.ERC1155, ercContract, tokenId, quantity);
+  }
+
+  /**
+   * @notice Sets pI, the account that will send initiateSwap or initiateBundleSwap.
+   */
+  from(initiator: string): this {
+    this.initiator = getAddress(initiator);
+
+    return this;
+  }
+
+  /**
+   * @notice Restricts the swap to pA, by default anyone can accept.
+   * @dev An ERC721 acceptor side requires an acceptor unless it accepts any tokenId, which build() enforces.
+   */
+  to(acceptor: string): this {
+    this.acceptor = getAddress(acceptor);
+
+    return this;
+  }
+
+  /**
+   * @notice Sets the expiry relative to the timestamp passed to build().
+   * @param duration Seconds, or a whole number followed by s, m, h, d or w, e.g. "2d".
+   */
+  expiresIn(duration: string | BigNumberish): this {
+    this.expiryDate = undefined;
+    this.expiresInSeconds = parseDuration(duration);
+
+    return this;
+  }
+
+  /**
+   * @notice Sets the expiry as a timestamp in seconds.
+   */
+  expiresAt(expiryDate: BigNumberish): this {
+    this.expiryDate = toBigInt(expiryDate);
+    this.expiresInSeconds = undefined;
+
+    return this;
+  }
+
+  protected abstract setToken(
+    tokenType: TokenType,
+    ercContract: string,
+    tokenId: BigNumberish,
+    tokenQuantity: BigNumberish,
+  ): this;
+
+  /**
+   * @notice Resolves the initiator and expiry build() needs, neither can be defaulted.
+   */
+  protected resolveTerms(blockTimestamp: BigNumberish): { initiator: string; expiryDate: bigint } {
+    if (this.initiator === undefined) {
+      throw new SwapBuilderError("from() must set the initiator");
+    }
+
+    if (this.expiryDate === undefined && this.expiresInSeconds === undefined) {
+      throw new SwapBuilderError("expiresIn() or expiresAt() must set the expiry");
+    }
+
+    return {
+      initiator: this.initiator,
+      expiryDate: this.expiryDate ?? toBigInt(blockTimestamp) + (this.expiresInSeconds as bigint),
+    };
+  }
+
+  protected selectedSide(method: string): SwapSide {
+    if (this.side === undefined) {
+      throw new SwapBuilderError(`give() or want() must be called before ${method}()`);
+    }
+
+    return this.side;
+  }
+}
+
+/**
+ * @notice Fluent builder for every supported swap flavour.
+ * @dev The token methods replace the token of the selected side, e.g. new SwapBuilder().give().erc721(collection, 1n)
+ * .plusEth(x).want().erc20(token, 100n).from(pI).expiresIn("2d"). build() checks the swap against every initiateSwap
+ * rule, so a built swap never reverts on them.
+ */
+export class SwapBuilder extends SwapTermsBuilder {
+  private readonly sides: Record<SwapSide, SideFields> = { initiator: emptySide(), acceptor: emptySide() };
+
+  /**
+   * @notice Sets the selected side to ETH only, clearing any token.
+   * @param amount The ETH portion in wei.
+   */
+  eth(amount: BigNumberish): this {
+    Object.assign(this.sides[this.selectedSide("eth")], emptySide(), { ethPortion: toBigInt(amount) });
+
+    return this;
+  }
+
+  /**
+   * @notice Sweetens the token of the selected side with ETH.
+   * @dev Only one side can provide ETH, which build() enforces.
+   * @param amount The ETH portion in wei.
+   */
+  plusEth(amount: BigNumberish): this {
+    this.sides[this.selectedSide("plusEth")].ethPortion = toBigInt(amount);
+
+    return this;
+  }
+
+  /**
+   * @notice Wants any token of an ERC721 collection, the acceptor chooses which with completeCollectionSwap.
+   */
+  anyErc721(ercContract: string): this {
+    this.requireWantSide("anyErc721");
+
+    return this.erc721(ercContract, ANY_TOKEN_ID);
+  }
+
+  /**
+   * @notice Wants a quantity of any tokenId of an ERC1155 collection, the acceptor chooses which with
+   * completeCollectionSwap.
+   */
+  anyErc1155(ercContract: string, quantity: BigNumberish): this {
+    this.requireWantSide("anyErc1155");
+
+    return this.erc1155(ercContract, ANY_TOKEN_ID, quantity);
+  }
+
+  /**
+   * @notice Builds the swap and the msg.value to send with initiateSwap.
+   * @dev The swap is normalized the way initiateSwap rewrites it, so it hashes to what the contract stores.
+   * Throws a SwapValidationError listing every initiateSwap rule the swap breaks.
+   * @param blockTimestamp The timestamp expiresIn() is relative to and expiry is checked against, defaults to now.
+   */
+  build(blockTimestamp: BigNumberish = Math.floor(Date.now() / 1000)): BuiltSwap {
+    const { initiator: initiatorAddress, expiryDate } = this.resolveTerms(blockTimestamp);
+    const { initiator, acceptor } = this.sides;
+
+    const swap = normalizeSwap({
+      expiryDate,
+      initiatorERCContract: initiator.ercContract,
+      acceptorERCContract: acceptor.ercContract,
+      initiator: initiatorAddress,
+      initiatorTokenId: initiator.tokenId,
+      initiatorTokenQuantity: initiator.tokenQuantity,
+      acceptor: this.acceptor,
+      acceptorTokenId: acceptor.tokenId,
+      acceptorTokenQuantity: acceptor.tokenQuantity,
+      initiatorETHPortion: initiator.ethPortion,
+      acceptorETHPortion: acceptor.ethPortion,
+      initiatorTokenType: initiator.tokenType,
+      acceptorTokenType: acceptor.tokenType,
+    });
+
+    const violations = validateSwap(swap, swap.initiator, swap.initiatorETHPortion, blockTimestamp);
+
+    if (violations.length > 0) {
+      throw new SwapValidationError(violations);
+    }
+
+    return { swap, value: swap.initiatorETHPortion };
+  }
+
+  protected setToken(
+    tokenType: TokenType,
+    ercContract: string,
+    tokenId: BigNumberish,
+    tokenQuantity: BigNumberish,
+  ): this {
+    Object.assign(this.sides[this.selectedSide(TokenType[tokenType].toLowerCase())], {
+      tokenType,
+      ercContract: getAddress(ercContract),
+      tokenId: toBigInt(tokenId),
+      tokenQuantity: toBigInt(tokenQuantity),
+    });
+
+    return this;
+  }
+
+  private requireWantSide(method: string): void {
+    if (this.selectedSide(method) !== "acceptor") {
+      throw new SwapBuilderError(`${method}() only applies to the want() side, the initiator gives specific tokens`);
+    }
+  }
+}
+
+/**
+ * @notice Fluent builder for bundle swaps, where each side is a basket of tokens.
+ * @dev The token methods add an item to the selected side, e.g. new BundleSwapBuilder().give().erc721(collection, 1n)
+ * .erc20(token, 100n).want().erc1155(game, 7n, 3n).from(pI).to(pA).expiresIn("2d"). build() checks the swap against
+ * every initiateBundleSwap rule, so a built bundle swap never reverts on them.
+ */
+export class BundleSwapBuilder extends SwapTermsBuilder {
+  private readonly items: Record<SwapSide, BundleItem[]> = { initiator: [], acceptor: [] };
+  private readonly ethPortions: Record<SwapSide, bigint> = { initiator: 0n, acceptor: 0n };
+
+  /**
+   * @notice Sets the selected side to ETH only, clearing any items.
+   * @param amount The ETH portion in wei.
+   */
+  eth(amount: BigNumberish): this {
+    const side = this.selectedSide("eth");
+
+    this.items[side] = [];
+    this.ethPortions[side] = toBigInt(amount);
+
+    return this;
+  }
+
+  /**
+   * @notice Sweetens the items of the selected side with ETH.
+   * @dev Only one side can provide ETH, which build() enforces.
+   * @param amount The ETH portion in wei.
+   */
+  plusEth(amount: BigNumberish): this {
+    this.ethPortions[this.selectedSide("plusEth")] = toBigInt(amount);
+
+    return this;
+  }
+
+  /**
+   * @notice Builds the bundle swap and the msg.value to send with initiateBundleSwap.
+   * @dev Throws a SwapValidationError listing every initiateBundleSwap rule the swap breaks.
+   * @param blockTimestamp The timestamp expiresIn() is relative to and expiry is checked against, defaults to now.
+   */
+  build(blockTimestamp: BigNumberish = Math.floor(Date.now() / 1000)): BuiltBundleSwap {
+    const { initiator, expiryDate } = this.resolveTerms(blockTimestamp);
+
+    const swap: BundleSwap = {
+      expiryDate,
+      initiator,
+      acceptor: this.acceptor,
+      initiatorETHPortion: this.ethPortions.initiator,
+      acceptorETHPortion: this.ethPortions.acceptor,
+      initiatorItems: this.items.initiator.map((item) => ({ ...item })),
+      acceptorItems: this.items.acceptor.map((item) => ({ ...item })),
+    };
+
+    const violations = validateBundleSwap(swap, swap.initiator, swap.initiatorETHPortion, blockTimestamp);
+
+    if (violations.length > 0) {
+      throw new SwapValidationError(violations);
+    }
+
+    return { swap, value: swap.initiatorETHPortion };
+  }
+
+  protected setToken(
+    tokenType: TokenType,
+    ercContract: string,
+    tokenId: BigNumberish,
+    tokenQuantity: BigNumberish,
+  ): this {
+    this.items[this.selectedSide(TokenType[tokenType].toLowerCase())].push({
+      tokenType,
+      ercContract: getAddress(ercContract),
+      tokenId: toBigInt(tokenId),
+      tokenQuantity: toBigInt(tokenQuantity),
+    });
+
+    return this;
+  }
+}
+
+function emptySide(): SideFields {
+  return { ercContract: ZeroAddress, tokenType: TokenType.NONE, tokenId: 0n, tokenQuantity: 0n, ethPortion: 0n };
+}
+
+function parseDuration(duration: string | BigNumberish): bigint {
+  if (typeof duration !== "string" || /^\d+$/.test(duration)) {
+    return toBigInt(duration);
+  }
+
+  const match = /^(\d+)([smhdw])$/.exec(duration.trim());
+
+  if (!match) {
+    throw new SwapBuilderError(`Unknown duration ${duration}, use seconds or a number followed by s, m, h, d or w`);
+  }
+
+  return BigInt(match[1]) * DURATION_UNITS[match[2]];
+}
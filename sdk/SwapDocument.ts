@@ -0,0 +1,221 @@
+import { BigNumberish, MaxUint256, getAddress, isAddress, toBigInt } from "ethers";
+import SWAP_DOCUMENT_SCHEMA from "./SwapDocument.schema.json";
+import { SWAP_FIELDS, toSwap } from "./SwapHashing";
+import { Swap, SwapLike, TokenType } from "./types";
+
+export { SWAP_DOCUMENT_SCHEMA };
+
+export const SWAP_DOCUMENT_VERSION = 1;
+
+/**
+ * @notice A Swap as stored in a swap document, see SwapDocument.schema.json.
+ */
+export type SwapDocumentSwap = {
+  [Field in keyof Swap]: Swap[Field] extends TokenType ? keyof typeof TokenType : string;
+};
+
+/**
+ * @notice The JSON representation of a swap and where it lives, see SwapDocument.schema.json.
+ * @dev uint256 values are decimal strings as they exceed the JSON number range.
+ */
+export type SwapDocument = {
+  version: typeof SWAP_DOCUMENT_VERSION;
+  chainId: string;
+  swapper: string;
+  swapId?: string;
+  swap: SwapDocumentSwap;
+};
+
+/**
+ * @notice A swap and where it lives, the swapId is absent until the swap is initiated.
+ */
+export type SwapDocumentContents = {
+  chainId: bigint;
+  swapperAddress: string;
+  swapId?: bigint;
+  swap: Swap;
+};
+
+/**
+ * @notice SwapDocumentContents with any supported representation of its values.
+ */
+export type SwapDocumentContentsLike = {
+  chainId: BigNumberish;
+  swapperAddress: string;
+  swapId?: BigNumberish;
+  swap: SwapLike;
+};
+
+/**
+ * @notice Thrown when a swap document is not valid JSON or does not conform to the schema.
+ */
+export class SwapDocumentError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Swap document is invalid: ${issues.join(", ")}`);
+    this.name = "SwapDocumentError";
+    this.issues = issues;
+  }
+}
+
+const UINT256_PATTERN = new RegExp(SWAP_DOCUMENT_SCHEMA.$defs.uint256.pattern);
+const ADDRESS_PATTERN = new RegExp(SWAP_DOCUMENT_SCHEMA.$defs.address.pattern);
+
+/**
+ * @notice Converts a swap and where it lives to its canonical document.
+ * @dev Addresses are checksummed, uint256 values are decimal strings and token types their symbolic names. Keys are
+ * in schema order with the swap fields in ISwapTokens.Swap order, so equal swaps serialize to identical JSON.
+ * @param contents The chain, swapper, optional swapId and swap.
+ */
+export function toSwapDocument(contents: SwapDocumentContentsLike): SwapDocument {
+  const swap = toSwap(contents.swap);
+
+  return {
+    version: SWAP_DOCUMENT_VERSION,
+    chainId: toBigInt(contents.chainId).toString(),
+    swapper: getAddress(contents.swapperAddress),
+    ...(contents.swapId === undefined ? {} : { swapId: toBigInt(contents.swapId).toString() }),
+    swap: Object.fromEntries(
+      SWAP_FIELDS.map(([field, abiType]) => [
+        field,
+        abiType === "uint8" ? TokenType[swap[field] as TokenType] : swap[field].toString(),
+      ]),
+    ) as SwapDocumentSwap,
+  };
+}
+
+/**
+ * @notice Converts a document back to the swap and where it lives, the swap matching ISwapTokens.SwapStruct.
+ * @dev Throws a SwapDocumentError listing every schema violation.
+ * @param document The parsed JSON document.
+ */
+export function fromSwapDocument(document: unknown): SwapDocumentContents {
+  const issues = validateSwapDocument(document);
+
+  if (issues.length > 0) {
+    throw new SwapDocumentError(issues);
+  }
+
+  const { chainId, swapper, swapId, swap } = document as SwapDocument;
+
+  return {
+    chainId: toBigInt(chainId),
+    swapperAddress: getAddress(swapper),
+    ...(swapId === undefined ? {} : { swapId: toBigInt(swapId) }),
+    swap: toSwap(swap),
+  };
+}
+
+/**
+ * @notice Serializes a swap and where it lives as canonical JSON, two space indented with a trailing newline.
+ * @param contents The chain, swapper, optional swapId and swap.
+ */
+export function stringifySwapDocument(contents: SwapDocumentContentsLike): string {
+  return `${JSON.stringify(toSwapDocument(contents), null, 2)}\n`;
+}
+
+/**
+ * @notice Parses and validates a swap document.
+ * @param json The document JSON, e.g. read from a swap file.
+ */
+export function parseSwapDocument(json: string): SwapDocumentContents {
+  let document: unknown;
+
+  try {
+    document = JSON.parse(json);
+  } catch (error) {
+    throw new SwapDocumentError([(error as Error).message]);
+  }
+
+  return fromSwapDocument(document);
+}
+
+/**
+ * @notice Checks a value against SwapDocument.schema.json.
+ * @dev Also rejects uint256 strings above 2^256 - 1, which the schema pattern cannot express.
+ * @param document The parsed JSON document.
+ * @return Every violation as a JSON pointer and message, empty if the document is valid.
+ */
+export function validateSwapDocument(document: unknown): string[] {
+  if (!isObject(document)) {
+    return ["/ must be an object"];
+  }
+
+  const { properties, $defs } = SWAP_DOCUMENT_SCHEMA;
+
+  const issues = checkProperties(document, "", Object.keys(properties), SWAP_DOCUMENT_SCHEMA.required);
+
+  if ("version" in document && document.version !== SWAP_DOCUMENT_VERSION) {
+    issues.push(`/version must be ${SWAP_DOCUMENT_VERSION}`);
+  }
+
+  issues.push(
+    ...checkUint256(document, "", "chainId"),
+    ...checkAddress(document, "", "swapper"),
+    ...checkUint256(document, "", "swapId"),
+  );
+
+  if (!("swap" in document)) {
+    return issues;
+  }
+
+  if (!isObject(document.swap)) {
+    return [...issues, "/swap must be an object"];
+  }
+
+  const swap = document.swap;
+
+  issues.push(...checkProperties(swap, "/swap", Object.keys($defs.swap.properties), $defs.swap.required));
+
+  for (const [field, abiType] of SWAP_FIELDS) {
+    if (abiType === "uint256") {
+      issues.push(...checkUint256(swap, "/swap", field));
+    } else if (abiType === "address") {
+      issues.push(...checkAddress(swap, "/swap", field));
+    } else if (field in swap && !$defs.tokenType.enum.includes(swap[field] as string)) {
+      issues.push(`/swap/${field} must be one of ${$defs.tokenType.enum.join(", ")}`);
+    }
+  }
+
+  return issues;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkProperties(value: Record<string, unknown>, path: string, known: string[], required: string[]): string[] {
+  return [
+    ...required.filter((key) => !(key in value)).map((key) => `${path}/${key} is required`),
+    ...Object.keys(value)
+      .filter((key) => !known.includes(key))
+      .map((key) => `${path}/${key} is not allowed`),
+  ];
+}
+
+function checkUint256(value: Record<string, unknown>, path: string, key: string): string[] {
+  const field = value[key];
+
+  if (field === undefined) {
+    return [];
+  }
+
+  return typeof field === "string" && UINT256_PATTERN.test(field) && BigInt(field) <= MaxUint256
+    ? []
+    : [`${path}/${key} must be a uint256 decimal string`];
+}
+
+function checkAddress(value: Record<string, unknown>, path: string, key: string): string[] {
+  const field = value[key];
+
+  if (field === undefined) {
+    return [];
+  }
+
+  if (typeof field !== "string" || !ADDRESS_PATTERN.test(field)) {
+    return [`${path}/${key} must be an address`];
+  }
+
+  return isAddress(field) ? [] : [`${path}/${key} has an invalid checksum`];
+}
@@ -0,0 +1,358 @@
+import { BytesLike, Interface, ZeroAddress, dataSlice, formatEther, hexlify, isBytesLike } from "ethers";
+import {
+  ICollectionSwaps__factory,
+  ISignedSwaps__factory,
+  ISwapNonces__factory,
+  ISwapTokenBundles__factory,
+  ISwapTokens__factory,
+  ITraitSwaps__factory,
+} from "../typechain-types";
+import { toSwap } from "./SwapHashing";
+import { Swap, SwapLike, TokenType } from "./types";
+
+/**
+ * @notice A revert decoded to its error, with what it means and how to get past it.
+ * @dev args holds the decoded error arguments by name, and by position for unnamed ones.
+ */
+export type DecodedSwapError = {
+  name: string;
+  signature: string;
+  selector: string;
+  args: Record<string, unknown>;
+  explanation: string;
+  suggestion: string;
+};
+
+/**
+ * @dev The errors the swapper can revert with besides its own: OpenZeppelin's ReentrancyGuard on the non Cancun
+ * variant, Address.sendValue for ETH portions, SafeERC20 for ERC20 transfers and the ERC-6093 errors OpenZeppelin
+ * tokens bubble up through the transfers.
+ */
+const DEPENDENCY_ERRORS = [
+  "error ReentrancyGuardReentrantCall()",
+  "error AddressEmptyCode(address target)",
+  "error InsufficientBalance(uint256 balance, uint256 needed)",
+  "error FailedCall()",
+  "error SafeERC20FailedOperation(address token)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC721NonexistentToken(uint256 tokenId)",
+  "error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)",
+  "error ERC721InsufficientApproval(address operator, uint256 tokenId)",
+  "error ERC721InvalidReceiver(address receiver)",
+  "error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)",
+  "error ERC1155MissingApprovalForAll(address operator, address owner)",
+  "error ERC1155InvalidReceiver(address receiver)",
+];
+
+/**
+ * @dev The errors of the swapper interfaces. Each extends ISwapTokens, so an error shared through it is kept once.
+ */
+const SWAPPER_ERRORS = [
+  ISwapTokens__factory.abi,
+  ISignedSwaps__factory.abi,
+  ISwapTokenBundles__factory.abi,
+  ISwapNonces__factory.abi,
+  ICollectionSwaps__factory.abi,
+  ITraitSwaps__factory.abi,
+]
+  .flatMap((abi) => abi.filter((fragment) => fragment.type === "error"))
+  .filter((fragment, index, fragments) => fragments.findIndex(({ name }) => name === fragment.name) === index);
+
+/**
+ * @notice Every error decodeSwapError recognises, the swapper interface errors and those of its dependencies.
+ */
+export const SWAP_ERRORS_INTERFACE = new Interface([...SWAPPER_ERRORS, ...DEPENDENCY_ERRORS]);
+
+type ErrorDescriber = (args: Record<string, unknown>, swap?: Swap) => { explanation: string; suggestion: string };
+
+const ERROR_DESCRIPTIONS: Record<string, ErrorDescriber> = {
+  ZeroAddressDisallowed: () => ({
+    explanation: "An ERC721 acceptor side requires an acceptor address, the acceptor is the zero address.",
+    suggestion: "Set acceptor to the address accepting the swap, or ask for any tokenId of the collection.",
+  }),
+  NoneTokenTypeInBundle: () => ({
+    explanation: "A bundle item has the NONE token type.",
+    suggestion: "Remove the item, an ETH only side has no items.",
+  }),
+  TwoWayEthPortionsDisallowed: () => ({
+    explanation: "Both the initiator and the acceptor ETH portions are set.",
+    suggestion: "Set only one of initiatorETHPortion and acceptorETHPortion.",
+  }),
+  SwapCompleteOrDoesNotExist: () => ({
+    explanation: "No open swap matches the swapId and swap details, it was completed, removed or never initiated.",
+    suggestion: "Use the swap exactly as emitted in its SwapInitiated event and check it is still open.",
+  }),
+  EmptyWithdrawDisallowed: () => ({
+    explanation: "There is no ETH balance to withdraw.",
+    suggestion: "Nothing to withdraw.",
+  }),
+  NotAcceptor: () => ({
+    explanation: "The swap names a different acceptor than the sender.",
+    suggestion: "Complete the swap from the acceptor account.",
+  }),
+  NotInitiator: () => ({
+    explanation: "Only the initiator can remove the swap.",
+    suggestion: "Remove the swap from the initiator account.",
+  }),
+  ValueOrTokenMissing: () => ({
+    explanation: "One side of the swap offers neither a token nor ETH.",
+    suggestion: "Give each side a token or an ETH portion.",
+  }),
+  ZeroAddressSetForValidTokenType: () => ({
+    explanation: "A token type is set but its ERC contract is the zero address.",
+    suggestion: "Set the ERC contract of the side, or its token type to NONE.",
+  }),
+  TokenQuantityMissing: () => ({
+    explanation: "An ERC20, ERC777 or ERC1155 side has a zero token quantity.",
+    suggestion: "Set the token quantity of the side.",
+  }),
+  IncorrectOrMissingAcceptorETH: ({ expectedETHPortion }) => ({
+    explanation: `The ETH sent does not match the acceptor ETH portion of ${formatEther(
+      expectedETHPortion as bigint,
+    )} ETH.`,
+    suggestion: `Send exactly ${expectedETHPortion} wei with completeSwap.`,
+  }),
+  ETHSendingFailed: () => ({
+    explanation: "The recipient of an ETH portion rejected the transfer.",
+    suggestion: "Make sure the receiving account or contract accepts ETH.",
+  }),
+  NoReentry: () => ({
+    explanation: "A token contract called back into the swapper during the swap.",
+    suggestion: "Use a token contract that does not call the swapper from its transfer hooks.",
+  }),
+  ReentrancyGuardReentrantCall: () => ({
+    explanation: "A token contract called back into the swapper during the swap.",
+    suggestion: "Use a token contract that does not call the swapper from its transfer hooks.",
+  }),
+  SwapHasExpired: () => ({
+    explanation: "The swap is past its expiry date and can no longer be completed.",
+    suggestion: "Ask the initiator to remove it and initiate a new swap.",
+  }),
+  SwapIsInThePast: () => ({
+    explanation: "The expiry date is before the current block timestamp.",
+    suggestion: "Set expiryDate to a future timestamp in seconds.",
+  }),
+  InitiatorNotMatched: ({ expected, actual }) => ({
+    explanation: `The swap initiator ${expected} is not the sender ${actual}.`,
+    suggestion: `Initiate the swap from ${expected}, or set initiator to ${actual}.`,
+  }),
+  InitiatorEthPortionNotMatched: ({ expected, actual }) => ({
+    explanation: `The ETH sent (${actual} wei) does not match the initiator ETH portion (${expected} wei).`,
+    suggestion: `Send exactly ${expected} wei with initiateSwap.`,
+  }),
+  InvalidSignature: () => ({
+    explanation: "The signature is not the initiator's signature of the swap and nonce.",
+    suggestion: "Use the swap, nonce and signature exactly as the initiator signed them for this swapper.",
+  }),
+  SignedSwapNonceUsed: ({ initiator, nonce }) => ({
+    explanation: `Nonce ${nonce} of ${initiator} was already used to complete a swap or was cancelled.`,
+    suggestion: "Ask the initiator to sign the swap again with an unused nonce.",
+  }),
+  SignedSwapInitiatorETHDisallowed: () => ({
+    explanation: "A signed swap has an initiator ETH portion, which the initiator cannot send with a signature.",
+    suggestion: "Set initiatorETHPortion to zero, or initiate the swap on-chain.",
+  }),
+  NonceNotIncreased: ({ minNonce }) => ({
+    explanation: `The new minimum nonce is not above the current minimum nonce ${minNonce}.`,
+    suggestion: `Cancel up to a nonce above ${minNonce}, or call incrementNonce.`,
+  }),
+  SwapCancelled: ({ swapId }) => ({
+    explanation: `Swap ${swapId} was initiated before the initiator raised the minimum nonce, which cancelled it.`,
+    suggestion: "Ask the initiator to initiate the swap again, they can still remove it to refund the ETH portion.",
+  }),
+  NotCollectionSwap: () => ({
+    explanation: "The swap asks for a specific acceptorTokenId, not any tokenId of the collection.",
+    suggestion:
+      "Complete the swap with completeSwap, or set acceptorTokenId to the maximum uint256 for a collection swap.",
+  }),
+  AcceptorTokenIdNotChosen: () => ({
+    explanation: "The swap asks for any tokenId of the collection, but none was chosen.",
+    suggestion: "Choose the tokenId with completeCollectionSwap, a signed swap cannot ask for any tokenId.",
+  }),
+  EmptyTokenIdsRoot: () => ({
+    explanation: "A trait swap was initiated without a Merkle root of the acceptable tokenIds.",
+    suggestion: "Pass the Merkle root of the tokenIds with the trait, or initiate a collection swap.",
+  }),
+  TokenIdNotInRoot: ({ tokenId }) => ({
+    explanation: `TokenId ${tokenId} is not proven to be one of the tokenIds the trait swap accepts.`,
+    suggestion: `Send the Merkle proof of tokenId ${tokenId} from the initiator's tree, or choose an accepted tokenId.`,
+  }),
+  AddressEmptyCode: ({ target }) => ({
+    explanation: `There is no contract deployed at ${target}.`,
+    suggestion: "Check the ERC contract addresses of the swap.",
+  }),
+  InsufficientBalance: ({ balance, needed }) => ({
+    explanation: `The swapper holds ${balance} wei but needs to send ${needed} wei.`,
+    suggestion: "Check the ETH portions of the swap.",
+  }),
+  FailedCall: () => ({
+    explanation: "Sending an ETH portion failed without a reason.",
+    suggestion: "Make sure the receiving account or contract accepts ETH.",
+  }),
+  SafeERC20FailedOperation: ({ token }) => ({
+    explanation: `The ERC20 transfer on ${token} returned false, the token refused it.`,
+    suggestion: `Check the balance, allowance and any transfer restrictions of token ${token}.`,
+  }),
+  ERC20InsufficientBalance: ({ sender, balance, needed }, swap) => ({
+    explanation: `${sender} holds ${balance} of ${describeToken(swap, [
+      TokenType.ERC20,
+      TokenType.ERC777,
+    ])} but the swap transfers ${needed}.`,
+    suggestion: `Top up ${sender} before completing the swap.`,
+  }),
+  ERC20InsufficientAllowance: ({ spender, allowance, needed }, swap) => ({
+    explanation: `The swapper ${spender} is allowed ${allowance} but the swap transfers ${needed}.`,
+    suggestion: `Approve swapper for ${describeToken(swap, [
+      TokenType.ERC20,
+      TokenType.ERC777,
+    ])} with at least ${needed}.`,
+  }),
+  ERC721NonexistentToken: ({ tokenId }, swap) => ({
+    explanation: `Token #${tokenId} of ${describeToken(swap, [TokenType.ERC721], tokenId as bigint)} does not exist.`,
+    suggestion: "Check the tokenId of the swap.",
+  }),
+  ERC721IncorrectOwner: ({ sender, tokenId, owner }, swap) => ({
+    explanation: `Token #${tokenId} of ${describeToken(
+      swap,
+      [TokenType.ERC721],
+      tokenId as bigint,
+    )} is owned by ${owner}, not ${sender}.`,
+    suggestion: `Transfer token #${tokenId} back to ${sender} or remove the swap.`,
+  }),
+  ERC721InsufficientApproval: ({ operator, tokenId }, swap) => ({
+    explanation: `The swapper ${operator} is not approved for token #${tokenId}.`,
+    suggestion: `Approve swapper for token #${tokenId} of ${describeToken(
+      swap,
+      [TokenType.ERC721],
+      tokenId as bigint,
+    )}.`,
+  }),
+  ERC721InvalidReceiver: ({ receiver }) => ({
+    explanation: `${receiver} is a contract that does not accept ERC721 tokens.`,
+    suggestion: "Swap from an account that implements onERC721Received.",
+  }),
+  ERC1155InsufficientBalance: ({ sender, balance, needed, tokenId }, swap) => ({
+    explanation: `${sender} holds ${balance} of token #${tokenId} of ${describeToken(
+      swap,
+      [TokenType.ERC1155],
+      tokenId as bigint,
+    )} but the swap transfers ${needed}.`,
+    suggestion: `Top up ${sender} before completing the swap.`,
+  }),
+  ERC1155MissingApprovalForAll: ({ operator, owner }, swap) => ({
+    explanation: `${owner} has not approved the swapper ${operator}.`,
+    suggestion: `Approve swapper for ${describeToken(swap, [TokenType.ERC1155])} with setApprovalForAll.`,
+  }),
+  ERC1155InvalidReceiver: ({ receiver }) => ({
+    explanation: `${receiver} is a contract that does not accept ERC1155 tokens.`,
+    suggestion: "Swap from an account that implements onERC1155Received.",
+  }),
+  Error: ({ 0: reason }) => ({
+    explanation: `Reverted with the reason "${reason}".`,
+    suggestion: "Check the token contracts of the swap for the reason.",
+  }),
+  Panic: ({ 0: code }) => ({
+    explanation: `Panicked with code 0x${(code as bigint).toString(16)}.`,
+    suggestion: "Check the token contracts of the swap, a panic is never raised by the swapper itself.",
+  }),
+};
+
+/**
+ * @notice Names the token of the swap an error most likely refers to, from its type and tokenId.
+ * @dev Without the swap, or when both sides match, the token cannot be told apart and a generic name is returned.
+ */
+function describeToken(swap: Swap | undefined, tokenTypes: TokenType[], tokenId?: bigint): string {
+  if (!swap) {
+    return "the token";
+  }
+
+  const contracts = [
+    [swap.initiatorERCContract, swap.initiatorTokenType, swap.initiatorTokenId] as const,
+    [swap.acceptorERCContract, swap.acceptorTokenType, swap.acceptorTokenId] as const,
+  ]
+    .filter(([, tokenType, sideTokenId]) => tokenTypes.includes(tokenType) && (tokenId ?? sideTokenId) === sideTokenId)
+    .map(([contract]) => contract);
+
+  return contracts.length === 1 && contracts[0] !== ZeroAddress ? `token ${contracts[0]}` : "the token";
+}
+
+/**
+ * @notice Decodes revert data to the swapper error or dependency error it encodes.
+ * @param data The revert data.
+ * @param swap The swap that was sent, used to name the token in token errors.
+ * @return The decoded error, or undefined for empty or unrecognised revert data.
+ */
+export function decodeSwapError(data: BytesLike, swap?: SwapLike): DecodedSwapError | undefined {
+  const revertData = hexlify(data);
+
+  if (revertData.length < 10) {
+    return undefined;
+  }
+
+  const error = SWAP_ERRORS_INTERFACE.parseError(revertData);
+
+  if (!error) {
+    return undefined;
+  }
+
+  const args: Record<string, unknown> = {};
+
+  error.fragment.inputs.forEach((input, index) => {
+    args[input.name || `${index}`] = error.args[index];
+  });
+
+  const { explanation, suggestion } = ERROR_DESCRIPTIONS[error.name]?.(args, swap && toSwap(swap)) ?? {
+    explanation: `Reverted with ${error.signature}.`,
+    suggestion: "No suggestion is known for this error.",
+  };
+
+  return {
+    name: error.name,
+    signature: error.signature,
+    selector: dataSlice(revertData, 0, 4),
+    args,
+    explanation,
+    suggestion,
+  };
+}
+
+/**
+ * @notice Finds the revert data in an error thrown by ethers or the Hardhat provider and decodes it.
+ * @param error The thrown error.
+ * @param swap The swap that was sent, used to name the token in token errors.
+ */
+export function decodeSwapErrorFrom(error: unknown, swap?: SwapLike): DecodedSwapError | undefined {
+  const revertData = findRevertData(error);
+
+  return revertData === undefined ? undefined : decodeSwapError(revertData, swap);
+}
+
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (error === null || typeof error !== "object" || depth > 4) {
+    return undefined;
+  }
+
+  const { data } = error as { data?: unknown };
+
+  if (isBytesLike(data)) {
+    return hexlify(data);
+  }
+
+  for (const key of ["data", "error", "info", "cause"]) {
+    const revertData = findRevertData((error as Record<string, unknown>)[key], depth + 1);
+
+    if (revertData !== undefined) {
+      return revertData;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * @notice Formats a decoded error as a single line for the command line.
+ */
+export function formatSwapError(error: DecodedSwapError): string {
+  return `${error.name}: ${error.explanation} ${error.suggestion}`;
+}
@@ -0,0 +1,468 @@
+import { Block, Log, LogDescription, Provider, getAddress } from "ethers";
+import { ISwapTokens__factory } from "../typechain-types";
+import { toSwap } from "./SwapHashing";
+import { getSwapState } from "./SwapIndexer";
+import { SwapState, SwapStore } from "./SwapStore";
+import { Swap } from "./types";
+
+export type SwapFeedOptions = {
+  fromBlock?: number;
+  batchSize?: number;
+  reorgDepth?: number;
+  store?: SwapStore;
+};
+
+type FeedMessageBase = {
+  id: string;
+  swapId?: bigint;
+  swap?: Swap;
+  blockNumber: number;
+  blockHash: string;
+};
+
+export type InitiatedMessage = FeedMessageBase & {
+  type: "initiated";
+  swapId: bigint;
+  swap: Swap;
+  transactionHash: string;
+};
+
+export type CompletedMessage = FeedMessageBase & {
+  type: "completed";
+  swapId: bigint;
+  swap: Swap;
+  acceptor: string;
+  transactionHash: string;
+};
+
+export type RemovedMessage = FeedMessageBase & {
+  type: "removed";
+  swapId: bigint;
+  transactionHash: string;
+};
+
+export type ExpiredMessage = FeedMessageBase & {
+  type: "expired";
+  swapId: bigint;
+  swap: Swap;
+};
+
+export type EthTransferredMessage = FeedMessageBase & {
+  type: "ethTransferred";
+  user: string;
+  amount: bigint;
+  transactionHash: string;
+};
+
+/**
+ * @notice A swap lifecycle event.
+ * @dev swap is only missing on removed and ethTransferred messages for swaps initiated before the feed started.
+ */
+export type SwapEventMessage =
+  | InitiatedMessage
+  | CompletedMessage
+  | RemovedMessage
+  | ExpiredMessage
+  | EthTransferredMessage;
+
+/**
+ * @notice Withdraws a previously sent message whose block has been orphaned by a reorg.
+ */
+export type RetractedMessage = {
+  type: "retracted";
+  id: string;
+  message: SwapEventMessage;
+};
+
+export type SwapFeedMessage = SwapEventMessage | RetractedMessage;
+
+/**
+ * @notice Matches messages with all of the given fields.
+ * @dev address matches the initiator, the set or real acceptor and ETH recipients, collection matches either side.
+ */
+export type SwapFeedFilter = {
+  address?: string;
+  collection?: string;
+  swapId?: bigint;
+};
+
+export type SwapFeedListener = (message: SwapFeedMessage) => void;
+
+type TrackedBlock = {
+  number: number;
+  hash: string;
+  messages: SwapEventMessage[];
+};
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_REORG_DEPTH = 64;
+
+/**
+ * @notice Turns the swapper events into a stream of normalized lifecycle messages.
+ * @dev Blocks with messages and the last polled block are tracked for reorgDepth blocks. When a tracked block hash
+ * changes, the messages of every orphaned block are retracted newest first and the new branch is read again.
+ * @dev Expiry is checked against the timestamp of the polled head, so an expired message is sent once per open swap.
+ * @dev Swaps are only kept until they are completed or removed, retracting the message that closed one restores it.
+ */
+export class SwapFeed {
+  readonly provider: Provider;
+  readonly swapperAddress: string;
+
+  private readonly fromBlock?: number;
+  private readonly batchSize: number;
+  private readonly reorgDepth: number;
+  private readonly store?: SwapStore;
+  private readonly listeners = new Set<SwapFeedListener>();
+  private readonly swapperInterface = ISwapTokens__factory.createInterface();
+
+  private firstBlock = 0;
+  private nextBlock: number | undefined;
+  private trackedBlocks: TrackedBlock[] = [];
+  private swaps = new Map<bigint, Swap>();
+  private openSwapIds = new Set<bigint>();
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(provider: Provider, swapperAddress: string, options: SwapFeedOptions = {}) {
+    this.provider = provider;
+    this.swapperAddress = swapperAddress;
+    this.fromBlock = options.fromBlock;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+    this.store = options.store;
+  }
+
+  /**
+   * @notice Registers a listener for every message.
+   * @return A function removing the listener.
+   */
+  subscribe(listener: SwapFeedListener): () => void {
+    this.listeners.add(listener);
+
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * @notice Polls for new blocks on an interval until stopped.
+   * @param interval The polling interval in milliseconds.
+   */
+  start(interval: number): void {
+    const poll = () => {
+      this.poll()
+        .catch((error) => console.error(error))
+        .finally(() => {
+          if (this.timer) {
+            this.timer = setTimeout(poll, interval);
+          }
+        });
+    };
+
+    this.timer = setTimeout(poll, 0);
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * @notice Retracts orphaned blocks, then reads the blocks up to the latest one.
+   * @dev The first poll starts from fromBlock, or after the store checkpoint, or at the next block. Open swaps in the
+   * store are loaded so their expiry and removal can be reported.
+   * @return The messages sent to the listeners.
+   */
+  async poll(): Promise<SwapFeedMessage[]> {
+    const messages: SwapFeedMessage[] = [];
+    const head = (await this.provider.getBlock("latest")) as Block;
+
+    if (this.nextBlock === undefined) {
+      const storeNextBlock = await this.loadStore(head.timestamp);
+
+      this.nextBlock = this.fromBlock ?? storeNextBlock ?? head.number + 1;
+      this.firstBlock = this.nextBlock;
+    }
+
+    messages.push(...(await this.retractOrphanedBlocks()));
+
+    for (let fromBlock = this.nextBlock; fromBlock <= head.number; fromBlock = this.nextBlock) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, head.number);
+
+      const logs = await this.provider.getLogs({
+        address: this.swapperAddress,
+        fromBlock,
+        toBlock,
+        topics: [
+          [
+            this.swapperInterface.getEvent("SwapInitiated").topicHash,
+            this.swapperInterface.getEvent("SwapComplete").topicHash,
+            this.swapperInterface.getEvent("SwapRemoved").topicHash,
+            this.swapperInterface.getEvent("EthPortionTransferred").topicHash,
+          ],
+        ],
+      });
+
+      messages.push(...this.applyLogs(logs));
+
+      this.nextBlock = toBlock + 1;
+    }
+
+    const headBlock = this.trackBlock(head.number, head.hash as string);
+
+    for (const swapId of [...this.openSwapIds]) {
+      const swap = this.swaps.get(swapId) as Swap;
+
+      if (swap.expiryDate < BigInt(head.timestamp)) {
+        const message: ExpiredMessage = {
+          type: "expired",
+          id: `${head.hash}-expired-${swapId}`,
+          swapId,
+          swap,
+          blockNumber: head.number,
+          blockHash: head.hash as string,
+        };
+
+        this.openSwapIds.delete(swapId);
+        headBlock.messages.push(message);
+        messages.push(message);
+      }
+    }
+
+    this.trackedBlocks = this.trackedBlocks.filter(
+      (trackedBlock) => trackedBlock.number > head.number - this.reorgDepth,
+    );
+
+    for (const message of messages) {
+      this.listeners.forEach((listener) => listener(message));
+    }
+
+    return messages;
+  }
+
+  /**
+   * @notice Loads the indexed swaps, skipping swaps that expired before the feed started.
+   * @return The block after the store checkpoint.
+   */
+  private async loadStore(timestamp: number): Promise<number | undefined> {
+    if (!this.store) {
+      return undefined;
+    }
+
+    for (const indexedSwap of await this.store.getSwaps()) {
+      this.swaps.set(indexedSwap.swapId, indexedSwap.swap);
+
+      if (getSwapState(indexedSwap, timestamp) === SwapState.Open) {
+        this.openSwapIds.add(indexedSwap.swapId);
+      }
+    }
+
+    const checkpoint = await this.store.getCheckpoint();
+
+    return checkpoint === undefined ? undefined : checkpoint + 1;
+  }
+
+  /**
+   * @notice Finds the newest tracked block still on the canonical chain and retracts everything tracked above it.
+   * @dev The untracked blocks in between had no messages, so the new branch is read again from the block after the
+   * canonical one, or from the start of the reorgDepth window when every tracked block was orphaned.
+   */
+  private async retractOrphanedBlocks(): Promise<RetractedMessage[]> {
+    const orphanedBlocks: TrackedBlock[] = [];
+
+    for (let index = this.trackedBlocks.length - 1; index >= 0; index--) {
+      const trackedBlock = this.trackedBlocks[index];
+      const canonicalBlock = await this.provider.getBlock(trackedBlock.number);
+
+      if (canonicalBlock?.hash === trackedBlock.hash) {
+        break;
+      }
+
+      orphanedBlocks.push(trackedBlock);
+    }
+
+    if (orphanedBlocks.length === 0) {
+      return [];
+    }
+
+    const retractedMessages: RetractedMessage[] = [];
+
+    for (const orphanedBlock of orphanedBlocks) {
+      for (const message of [...orphanedBlock.messages].reverse()) {
+        this.revertMessage(message);
+        retractedMessages.push({ type: "retracted", id: message.id, message });
+      }
+    }
+
+    this.trackedBlocks = this.trackedBlocks.slice(0, this.trackedBlocks.length - orphanedBlocks.length);
+
+    const canonicalBlock = this.trackedBlocks[this.trackedBlocks.length - 1];
+
+    this.nextBlock = canonicalBlock
+      ? canonicalBlock.number + 1
+      : Math.max(this.firstBlock, orphanedBlocks[0].number - this.reorgDepth + 1);
+
+    return retractedMessages;
+  }
+
+  private revertMessage(message: SwapEventMessage): void {
+    switch (message.type) {
+      case "initiated":
+        this.openSwapIds.delete(message.swapId);
+        this.swaps.delete(message.swapId);
+        break;
+      case "completed":
+      case "removed":
+      case "expired":
+        if (message.swap) {
+          this.swaps.set(message.swapId, message.swap);
+          this.openSwapIds.add(message.swapId);
+        }
+        break;
+    }
+  }
+
+  private trackBlock(number: number, hash: string): TrackedBlock {
+    const lastBlock = this.trackedBlocks[this.trackedBlocks.length - 1];
+
+    if (lastBlock?.number === number) {
+      return lastBlock;
+    }
+
+    const trackedBlock = { number, hash, messages: [] };
+    this.trackedBlocks.push(trackedBlock);
+
+    return trackedBlock;
+  }
+
+  /**
+   * @notice Converts a batch of logs into messages in chain order.
+   * @dev EthPortionTransferred carries no swapId, the transfers are sent after the SwapComplete or SwapRemoved that
+   * follows them in the same transaction so they can be attributed to the swap.
+   */
+  private applyLogs(logs: Log[]): SwapEventMessage[] {
+    const messages: SwapEventMessage[] = [];
+    const pendingTransfers = new Map<string, EthTransferredMessage[]>();
+
+    const sortedLogs = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    for (const log of sortedLogs) {
+      const event = this.swapperInterface.parseLog(log) as LogDescription;
+      const base = { id: `${log.blockHash}-${log.index}`, blockNumber: log.blockNumber, blockHash: log.blockHash };
+      const blockMessages: SwapEventMessage[] = [];
+
+      switch (event.name) {
+        case "SwapInitiated": {
+          const swap = toSwap(event.args.swap);
+
+          this.swaps.set(event.args.swapId, swap);
+          this.openSwapIds.add(event.args.swapId);
+
+          blockMessages.push({
+            ...base,
+            type: "initiated",
+            swapId: event.args.swapId,
+            swap,
+            transactionHash: log.transactionHash,
+          });
+          break;
+        }
+        case "EthPortionTransferred": {
+          const transfers = pendingTransfers.get(log.transactionHash) ?? [];
+
+          transfers.push({
+            ...base,
+            type: "ethTransferred",
+            user: getAddress(event.args.user),
+            amount: event.args.amount,
+            transactionHash: log.transactionHash,
+          });
+
+          pendingTransfers.set(log.transactionHash, transfers);
+          break;
+        }
+        case "SwapComplete":
+        case "SwapRemoved": {
+          const swapId: bigint = event.args.swapId;
+          const transfers = pendingTransfers.get(log.transactionHash) ?? [];
+          pendingTransfers.delete(log.transactionHash);
+
+          if (event.name === "SwapComplete") {
+            const swap = toSwap(event.args.swap);
+
+            this.swaps.set(swapId, swap);
+            blockMessages.push({
+              ...base,
+              type: "completed",
+              swapId,
+              swap,
+              acceptor: getAddress(event.args.acceptor),
+              transactionHash: log.transactionHash,
+            });
+          } else {
+            blockMessages.push({
+              ...base,
+              type: "removed",
+              swapId,
+              swap: this.swaps.get(swapId),
+              transactionHash: log.transactionHash,
+            });
+          }
+
+          this.openSwapIds.delete(swapId);
+
+          for (const transfer of transfers) {
+            blockMessages.push({ ...transfer, swapId, swap: this.swaps.get(swapId) });
+          }
+
+          this.swaps.delete(swapId);
+          break;
+        }
+      }
+
+      if (blockMessages.length > 0) {
+        this.trackBlock(log.blockNumber, log.blockHash).messages.push(...blockMessages);
+        messages.push(...blockMessages);
+      }
+    }
+
+    return messages;
+  }
+}
+
+/**
+ * @notice Checks if a message matches a filter, retractions match as the message they retract.
+ */
+export function matchesFilter(message: SwapFeedMessage, filter: SwapFeedFilter): boolean {
+  const eventMessage = message.type === "retracted" ? message.message : message;
+
+  if (filter.swapId !== undefined && eventMessage.swapId !== filter.swapId) {
+    return false;
+  }
+
+  if (filter.collection !== undefined) {
+    const collection = getAddress(filter.collection);
+
+    if (
+      eventMessage.swap?.initiatorERCContract !== collection &&
+      eventMessage.swap?.acceptorERCContract !== collection
+    ) {
+      return false;
+    }
+  }
+
+  if (filter.address !== undefined) {
+    const addresses = [eventMessage.swap?.initiator, eventMessage.swap?.acceptor];
+
+    if (eventMessage.type === "completed") {
+      addresses.push(eventMessage.acceptor);
+    }
+
+    if (eventMessage.type === "ethTransferred") {
+      addresses.push(eventMessage.user);
+    }
+
+    if (!addresses.includes(getAddress(filter.address))) {
+      return false;
+    }
+  }
+
+  return true;
+}
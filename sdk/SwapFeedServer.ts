@@ -0,0 +1,166 @@
+import { Server, createServer } from "http";
+import { AddressInfo } from "net";
+import { isAddress } from "ethers";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+import { stringifyJson } from "./SwapApiServer";
+import { SwapFeed, SwapFeedFilter, SwapFeedMessage, matchesFilter } from "./SwapFeed";
+
+type ClientRequest = {
+  type?: unknown;
+  id?: unknown;
+  filter?: Record<string, unknown>;
+};
+
+/**
+ * @notice Pushes SwapFeed messages to WebSocket clients.
+ * @dev Clients send { type: "subscribe", id, filter } and { type: "unsubscribe", id }. Each matching message is sent
+ * once per client with the ids of the subscriptions it matched. An empty filter matches every message.
+ * @dev Pass the SwapApiServer http server to serve the feed on the same port.
+ */
+export class SwapFeedServer {
+  readonly feed: SwapFeed;
+  readonly server: Server;
+  readonly webSocketServer: WebSocketServer;
+
+  private readonly ownsServer: boolean;
+  private readonly subscriptions = new Map<WebSocket, Map<string, SwapFeedFilter>>();
+  private readonly unsubscribeFeed: () => void;
+
+  /**
+   * @param feed The feed to push to clients.
+   * @param server The http server to serve the feed on, a new one is created when omitted.
+   * @param onError Called with client connection and server errors, a client is disconnected on its errors.
+   */
+  constructor(feed: SwapFeed, server?: Server, onError: (error: Error) => void = () => undefined) {
+    this.feed = feed;
+    this.server = server ?? createServer();
+    this.ownsServer = server === undefined;
+    this.webSocketServer = new WebSocketServer({ server: this.server });
+
+    this.webSocketServer.on("error", onError);
+    this.webSocketServer.on("connection", (socket) => {
+      this.subscriptions.set(socket, new Map());
+
+      socket.on("message", (data) => this.receive(socket, data));
+      socket.on("close", () => this.subscriptions.delete(socket));
+      socket.on("error", (error) => {
+        socket.terminate();
+        onError(error);
+      });
+    });
+
+    this.unsubscribeFeed = feed.subscribe((message) => this.broadcast(message));
+  }
+
+  /**
+   * @notice Starts listening for connections, only needed when no server was passed in.
+   * @param port The port to listen on, 0 picks a free port.
+   * @param host The host to bind to.
+   * @return The port the server is listening on.
+   */
+  listen(port: number = 0, host: string = "127.0.0.1"): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve((this.server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * @notice Disconnects all clients and stops listening to the feed.
+   */
+  async close(): Promise<void> {
+    this.unsubscribeFeed();
+
+    for (const socket of this.subscriptions.keys()) {
+      socket.terminate();
+    }
+
+    await new Promise<void>((resolve, reject) =>
+      this.webSocketServer.close((error) => (error ? reject(error) : resolve())),
+    );
+
+    if (this.ownsServer && this.server.listening) {
+      await new Promise<void>((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+    }
+  }
+
+  private broadcast(message: SwapFeedMessage): void {
+    for (const [socket, filters] of this.subscriptions) {
+      const matchedIds = [...filters].filter(([, filter]) => matchesFilter(message, filter)).map(([id]) => id);
+
+      if (matchedIds.length > 0) {
+        send(socket, { ...message, subscriptions: matchedIds });
+      }
+    }
+  }
+
+  private receive(socket: WebSocket, data: RawData): void {
+    let request: ClientRequest;
+
+    try {
+      request = JSON.parse(data.toString());
+    } catch {
+      send(socket, { type: "error", message: "Messages must be JSON" });
+      return;
+    }
+
+    if (typeof request?.id !== "string") {
+      send(socket, { type: "error", message: "id is required" });
+      return;
+    }
+
+    const filters = this.subscriptions.get(socket) as Map<string, SwapFeedFilter>;
+
+    switch (request.type) {
+      case "subscribe": {
+        try {
+          filters.set(request.id, toFilter(request.filter ?? {}));
+          send(socket, { type: "subscribed", id: request.id });
+        } catch (error) {
+          send(socket, { type: "error", id: request.id, message: (error as Error).message });
+        }
+        break;
+      }
+      case "unsubscribe": {
+        filters.delete(request.id);
+        send(socket, { type: "unsubscribed", id: request.id });
+        break;
+      }
+      default:
+        send(socket, { type: "error", id: request.id, message: `Unknown request type: ${request.type}` });
+    }
+  }
+}
+
+function send(socket: WebSocket, value: unknown): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(stringifyJson(value));
+  }
+}
+
+function toFilter(value: Record<string, unknown>): SwapFeedFilter {
+  const filter: SwapFeedFilter = {};
+
+  for (const field of ["address", "collection"] as const) {
+    if (value[field] !== undefined) {
+      if (typeof value[field] !== "string" || !isAddress(value[field])) {
+        throw new Error(`Invalid ${field}: ${value[field]}`);
+      }
+
+      filter[field] = value[field] as string;
+    }
+  }
+
+  if (value.swapId !== undefined) {
+    if (!/^\d+$/.test(String(value.swapId))) {
+      throw new Error(`Invalid swapId: ${value.swapId}`);
+    }
+
+    filter.swapId = BigInt(String(value.swapId));
+  }
+
+  return filter;
+}
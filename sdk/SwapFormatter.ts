@@ -0,0 +1,271 @@
+import { BigNumberish, Contract, ContractRunner, ZeroAddress, formatUnits, toBeHex, toBigInt } from "ethers";
+import { IERC1155MetadataURI__factory, IERC20Metadata__factory, IERC721Metadata__factory } from "../typechain-types";
+import { ANY_TOKEN_ID } from "./CollectionSwaps";
+import { toSwap } from "./SwapHashing";
+import { Swap, SwapLike, TokenType } from "./types";
+
+/**
+ * @notice The metadata of one side's token, fields are absent when the contract does not implement them.
+ * @dev uri is the ERC1155 uri with the {id} placeholder substituted as the standard specifies.
+ */
+export type TokenMetadata = {
+  contract: string;
+  tokenType: TokenType;
+  tokenId: bigint;
+  name?: string;
+  symbol?: string;
+  decimals?: bigint;
+  tokenURI?: string;
+  uri?: string;
+};
+
+/**
+ * @notice A side rendered as text along with the token metadata it was rendered from.
+ */
+export type SideDescription = {
+  text: string;
+  token?: TokenMetadata;
+  ethPortion: bigint;
+};
+
+/**
+ * @notice A swap rendered as a sentence, with its parts for callers laying them out differently.
+ */
+export type SwapDescription = {
+  text: string;
+  initiator: string;
+  gives: SideDescription;
+  wants: SideDescription;
+  expiry: string;
+  acceptance: string;
+};
+
+export type DescribeSwapOptions = {
+  /**
+   * @notice The time expiry is relative to in seconds, defaults to now, pass the block timestamp on a local node.
+   */
+  now?: BigNumberish;
+  /**
+   * @notice Shared across calls to only fetch the metadata of each token once, e.g. in a long running bot.
+   */
+  cache?: Map<string, Promise<TokenMetadata>>;
+};
+
+const nameInterface = ["function name() view returns (string)"];
+
+const DURATION_UNITS: [string, bigint][] = [
+  ["day", 86400n],
+  ["hour", 3600n],
+  ["minute", 60n],
+  ["second", 1n],
+];
+
+/**
+ * @notice Renders a swap as a sentence, e.g. "0x7099…79C8 gives 3000 DAI + 1 ETH for Pudgy Penguins #123, expires in
+ * 2 days, open to anyone".
+ * @dev Resolves ERC20 and ERC777 symbol and decimals, ERC721 name and tokenURI and ERC1155 name and uri. Calls that
+ * revert fall back to the short contract address, so any contract can be described.
+ * @param runner The provider or signer to read the token contracts with.
+ * @param swap The swap as emitted in the SwapInitiated event.
+ * @param options The time to render expiry against and a metadata cache.
+ */
+export async function describeSwap(
+  runner: ContractRunner,
+  swap: SwapLike,
+  options: DescribeSwapOptions = {},
+): Promise<SwapDescription> {
+  const fullSwap = toSwap(swap);
+  const cache = options.cache ?? new Map<string, Promise<TokenMetadata>>();
+
+  const [initiatorToken, acceptorToken] = await Promise.all([
+    fetchCachedMetadata(
+      runner,
+      cache,
+      fullSwap.initiatorERCContract,
+      fullSwap.initiatorTokenType,
+      fullSwap.initiatorTokenId,
+    ),
+    fetchCachedMetadata(
+      runner,
+      cache,
+      fullSwap.acceptorERCContract,
+      fullSwap.acceptorTokenType,
+      fullSwap.acceptorTokenId,
+    ),
+  ]);
+
+  return formatSwap(fullSwap, initiatorToken, acceptorToken, options.now);
+}
+
+/**
+ * @notice Renders a swap as a sentence from already fetched token metadata.
+ * @param swap The swap as emitted in the SwapInitiated event.
+ * @param initiatorToken The initiator token metadata, undefined for an ETH only side.
+ * @param acceptorToken The acceptor token metadata, undefined for an ETH only side.
+ * @param now The time expiry is relative to in seconds, defaults to now.
+ */
+export function formatSwap(
+  swap: SwapLike,
+  initiatorToken?: TokenMetadata,
+  acceptorToken?: TokenMetadata,
+  now: BigNumberish = Math.floor(Date.now() / 1000),
+): SwapDescription {
+  const fullSwap = toSwap(swap);
+
+  const initiator = shortAddress(fullSwap.initiator);
+  const gives = describeSide(fullSwap, "initiator", initiatorToken);
+  const wants = describeSide(fullSwap, "acceptor", acceptorToken);
+  const expiry = formatExpiry(fullSwap.expiryDate, toBigInt(now));
+  const acceptance =
+    fullSwap.acceptor === ZeroAddress ? "open to anyone" : `only ${shortAddress(fullSwap.acceptor)} can accept`;
+
+  return {
+    text: `${initiator} gives ${gives.text} for ${wants.text}, ${expiry}, ${acceptance}`,
+    initiator,
+    gives,
+    wants,
+    expiry,
+    acceptance,
+  };
+}
+
+/**
+ * @notice Reads the metadata a description needs for one token.
+ * @param runner The provider or signer to read the token contract with.
+ * @param contract The token contract.
+ * @param tokenType The declared token type.
+ * @param tokenId The ERC721 or ERC1155 tokenId.
+ */
+export async function fetchTokenMetadata(
+  runner: ContractRunner,
+  contract: string,
+  tokenType: TokenType,
+  tokenId: BigNumberish,
+): Promise<TokenMetadata> {
+  const metadata: TokenMetadata = { contract, tokenType, tokenId: toBigInt(tokenId) };
+
+  switch (tokenType) {
+    case TokenType.ERC20:
+    case TokenType.ERC777: {
+      const token = IERC20Metadata__factory.connect(contract, runner);
+
+      [metadata.symbol, metadata.decimals] = await Promise.all([tryCall(token.symbol()), tryCall(token.decimals())]);
+      break;
+    }
+    case TokenType.ERC721: {
+      const token = IERC721Metadata__factory.connect(contract, runner);
+
+      [metadata.name, metadata.tokenURI] = await Promise.all([
+        tryCall(token.name()),
+        tryCall(token.tokenURI(metadata.tokenId)),
+      ]);
+      break;
+    }
+    case TokenType.ERC1155: {
+      const token = IERC1155MetadataURI__factory.connect(contract, runner);
+      const nameContract = new Contract(contract, nameInterface, runner);
+
+      const [name, uri] = await Promise.all([
+        tryCall<string>(nameContract.name()),
+        tryCall(token.uri(metadata.tokenId)),
+      ]);
+
+      metadata.name = name;
+      metadata.uri = uri?.replace(/\{id\}/g, toBeHex(metadata.tokenId, 32).slice(2));
+      break;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * @notice Shortens an address to its first 4 and last 4 hex characters, e.g. 0x7099…79C8.
+ */
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function fetchCachedMetadata(
+  runner: ContractRunner,
+  cache: Map<string, Promise<TokenMetadata>>,
+  contract: string,
+  tokenType: TokenType,
+  tokenId: bigint,
+): Promise<TokenMetadata | undefined> {
+  if (tokenType === TokenType.NONE) {
+    return Promise.resolve(undefined);
+  }
+
+  const key = `${contract}:${tokenType}:${tokenId}`;
+
+  if (!cache.has(key)) {
+    cache.set(key, fetchTokenMetadata(runner, contract, tokenType, tokenId));
+  }
+
+  return cache.get(key) as Promise<TokenMetadata>;
+}
+
+function describeSide(swap: Swap, side: "initiator" | "acceptor", token?: TokenMetadata): SideDescription {
+  const ethPortion = side === "initiator" ? swap.initiatorETHPortion : swap.acceptorETHPortion;
+  const tokenType = side === "initiator" ? swap.initiatorTokenType : swap.acceptorTokenType;
+  const quantity = side === "initiator" ? swap.initiatorTokenQuantity : swap.acceptorTokenQuantity;
+
+  const parts = tokenType === TokenType.NONE || !token ? [] : [describeToken(token, quantity)];
+
+  if (ethPortion > 0n || parts.length === 0) {
+    parts.push(`${trimDecimals(formatUnits(ethPortion, 18))} ETH`);
+  }
+
+  return { text: parts.join(" + "), token, ethPortion };
+}
+
+function describeToken(token: TokenMetadata, quantity: bigint): string {
+  const label = shortAddress(token.contract);
+
+  switch (token.tokenType) {
+    case TokenType.ERC721:
+      return describeTokenId(token, label);
+    case TokenType.ERC1155:
+      return `${quantity} × ${describeTokenId(token, label)}`;
+    default:
+      return `${trimDecimals(formatUnits(quantity, token.decimals ?? 0n))} ${token.symbol || label}`;
+  }
+}
+
+function describeTokenId(token: TokenMetadata, label: string): string {
+  return token.tokenId === ANY_TOKEN_ID ? `any ${token.name || label}` : `${token.name || label} #${token.tokenId}`;
+}
+
+/**
+ * @dev completeSwap accepts a swap until block.timestamp passes the expiryDate, so it is still open at the expiryDate.
+ */
+function formatExpiry(expiryDate: bigint, now: bigint): string {
+  if (expiryDate < now) {
+    return `expired ${formatDuration(now - expiryDate)} ago`;
+  }
+
+  return `expires in ${formatDuration(expiryDate - now)}`;
+}
+
+/**
+ * @dev Rounds down to the largest whole unit, a swap expiring in 47 hours expires in 1 day.
+ */
+function formatDuration(seconds: bigint): string {
+  const [unit, unitSeconds] = DURATION_UNITS.find(([, unitSeconds]) => seconds >= unitSeconds) ?? ["second", 1n];
+  const count = seconds / unitSeconds;
+
+  return `${count} ${unit}${count === 1n ? "" : "s"}`;
+}
+
+function trimDecimals(amount: string): string {
+  return amount.replace(/\.0$/, "");
+}
+
+async function tryCall<T>(call: Promise<T>): Promise<T | undefined> {
+  try {
+    return await call;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,333 @@
+import { ExecutionResult, GraphQLError, GraphQLScalarType, GraphQLSchema, Kind, buildSchema, graphql } from "graphql";
+import { ZeroAddress, getAddress } from "ethers";
+import { SqliteSwapStore, SwapQuery } from "./SqliteSwapStore";
+import { getLatestTimestamp, getSwapState } from "./SwapIndexer";
+import { IndexedSwap, SwapState } from "./SwapStore";
+import { TokenSwapperClient } from "./TokenSwapperClient";
+import { TokenType } from "./types";
+
+/**
+ * @notice The GraphQL schema over the indexed swaps.
+ * @dev uint256 values use the Uint256 scalar, sent as decimal strings and accepted as strings or integers.
+ */
+export const SWAP_TYPE_DEFS = `
+  scalar Uint256
+
+  enum TokenType {
+    NONE
+    ERC20
+    ERC777
+    ERC721
+    ERC1155
+  }
+
+  enum SwapState {
+    OPEN
+    COMPLETED
+    REMOVED
+    EXPIRED
+    CANCELLED
+  }
+
+  "One side of a swap as set by the initiator."
+  type SwapSide {
+    tokenType: TokenType!
+    contract: String!
+    tokenId: Uint256!
+    quantity: Uint256!
+    ethPortion: Uint256!
+  }
+
+  "Mirrors ISwapTokens.SwapStatus."
+  type SwapStatus {
+    initiatorNeedsToOwnToken: Boolean!
+    acceptorNeedsToOwnToken: Boolean!
+    initiatorTokenRequiresApproval: Boolean!
+    acceptorTokenRequiresApproval: Boolean!
+    isReadyForSwapping: Boolean!
+  }
+
+  type EthPortionTransfer {
+    recipient: Participant!
+    amount: Uint256!
+    blockNumber: Int!
+    transactionHash: String!
+  }
+
+  type Swap {
+    id: Uint256!
+    expiryDate: Uint256!
+    state: SwapState!
+    initiator: Participant!
+    "The acceptor set by the initiator, null when anyone can accept."
+    acceptor: Participant
+    "The account that completed the swap."
+    completedBy: Participant
+    initiatorSide: SwapSide!
+    acceptorSide: SwapSide!
+    "The tokenId the acceptor chose to complete a collection or trait swap."
+    chosenTokenId: Uint256
+    "The Merkle root of the tokenIds a trait swap accepts."
+    tokenIdsRoot: String
+    blockNumber: Int!
+    transactionHash: String!
+    closedBlockNumber: Int
+    closedTransactionHash: String
+    ethPortionTransfers: [EthPortionTransfer!]!
+    "The live getSwapStatus result, null once the swap is completed or removed."
+    status: SwapStatus
+  }
+
+  type Participant {
+    address: String!
+    swapsAsInitiator(filter: SwapFilter, first: Int = 50, after: String): SwapConnection!
+    "Swaps the participant was set as acceptor on or completed."
+    swapsAsAcceptor(filter: SwapFilter, first: Int = 50, after: String): SwapConnection!
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    endCursor: String
+  }
+
+  type SwapConnection {
+    totalCount: Int!
+    nodes: [Swap!]!
+    pageInfo: PageInfo!
+  }
+
+  "All given filters must match. tokenType, collection and tokenId match either side of the swap."
+  input SwapFilter {
+    initiator: String
+    acceptor: String
+    collection: String
+    tokenId: Uint256
+    tokenType: TokenType
+    "Only swaps whose acceptor is the zero address."
+    openToAnyone: Boolean
+    expiresAfter: Uint256
+    expiresBefore: Uint256
+    state: SwapState
+  }
+
+  type Query {
+    swap(id: Uint256!): Swap
+    swaps(filter: SwapFilter, first: Int = 50, after: String): SwapConnection!
+    participant(address: String!): Participant!
+  }
+`;
+
+type SwapFilter = {
+  initiator?: string;
+  acceptor?: string;
+  collection?: string;
+  tokenId?: bigint;
+  tokenType?: keyof typeof TokenType;
+  openToAnyone?: boolean;
+  expiresAfter?: bigint;
+  expiresBefore?: bigint;
+  state?: string;
+};
+
+type ConnectionArgs = {
+  filter?: SwapFilter | null;
+  first: number;
+  after?: string | null;
+};
+
+type SwapContext = {
+  timestamp: Promise<number>;
+};
+
+/**
+ * @notice Builds the executable schema, resolvers are supplied per execution through the root value.
+ */
+export function createSwapSchema(): GraphQLSchema {
+  const schema = buildSchema(SWAP_TYPE_DEFS);
+  const uint256 = schema.getType("Uint256") as GraphQLScalarType;
+
+  uint256.serialize = (value) => (value as bigint).toString();
+  uint256.parseValue = (value) => parseUint256(value);
+  uint256.parseLiteral = (ast) => {
+    if (ast.kind !== Kind.STRING && ast.kind !== Kind.INT) {
+      throw new GraphQLError("Uint256 must be a string or integer", { nodes: ast });
+    }
+
+    return parseUint256(ast.value);
+  };
+
+  return schema;
+}
+
+/**
+ * @notice GraphQL queries over the indexed swaps.
+ * @dev Swap states are derived from the latest block timestamp, read once per execution. getSwapStatus is only
+ * called for the swaps whose status field is selected.
+ */
+export class SwapGraphQL {
+  readonly store: SqliteSwapStore;
+  readonly client: TokenSwapperClient;
+  readonly schema: GraphQLSchema;
+
+  constructor(store: SqliteSwapStore, client: TokenSwapperClient) {
+    this.store = store;
+    this.client = client;
+    this.schema = createSwapSchema();
+  }
+
+  /**
+   * @notice Executes a query.
+   * @dev Errors not thrown as a GraphQLError, e.g. provider errors that can include RPC URLs, are returned as an
+   * internal error. The error thrown is kept as its originalError to be logged, it is not serialized.
+   * @param source The query document.
+   * @param variableValues The query variables.
+   */
+  async execute(source: string, variableValues?: Record<string, unknown>): Promise<ExecutionResult> {
+    const contextValue: SwapContext = { timestamp: getLatestTimestamp(this.client.contract.runner?.provider) };
+    const result = await graphql({
+      schema: this.schema,
+      source,
+      rootValue: this.createRootValue(),
+      contextValue,
+      variableValues,
+    });
+
+    return result.errors ? { ...result, errors: result.errors.map(maskUnexpectedError) } : result;
+  }
+
+  private createRootValue() {
+    return {
+      swap: async ({ id }: { id: bigint }, context: SwapContext) => {
+        const indexedSwap = await this.store.getSwap(id);
+
+        return indexedSwap && this.toSwapNode(indexedSwap, await context.timestamp);
+      },
+      swaps: (args: ConnectionArgs, context: SwapContext) => this.getSwapConnection(args, {}, context),
+      participant: ({ address }: { address: string }) => this.toParticipantNode(toAddress(address)),
+    };
+  }
+
+  private async getSwapConnection(args: ConnectionArgs, scope: SwapQuery, context: SwapContext) {
+    const timestamp = await context.timestamp;
+    const indexedSwaps = await this.store.querySwaps({ ...toSwapQuery(args.filter ?? {}), ...scope }, timestamp);
+
+    const after = args.after ? parseUint256(args.after) : undefined;
+    const start = after === undefined ? 0 : indexedSwaps.findIndex((indexedSwap) => indexedSwap.swapId > after);
+    const page = start === -1 ? [] : indexedSwaps.slice(start, start + args.first);
+
+    return {
+      totalCount: indexedSwaps.length,
+      nodes: page.map((indexedSwap) => this.toSwapNode(indexedSwap, timestamp)),
+      pageInfo: {
+        hasNextPage: start !== -1 && start + args.first < indexedSwaps.length,
+        endCursor: page.length > 0 ? page[page.length - 1].swapId.toString() : null,
+      },
+    };
+  }
+
+  private toSwapNode(indexedSwap: IndexedSwap, timestamp: number) {
+    const { swapId, swap } = indexedSwap;
+    const state = getSwapState(indexedSwap, timestamp);
+
+    return {
+      id: swapId,
+      expiryDate: swap.expiryDate,
+      state: state.toUpperCase(),
+      initiator: this.toParticipantNode(swap.initiator),
+      acceptor: swap.acceptor === ZeroAddress ? null : this.toParticipantNode(swap.acceptor),
+      completedBy: indexedSwap.acceptor ? this.toParticipantNode(indexedSwap.acceptor) : null,
+      initiatorSide: {
+        tokenType: TokenType[swap.initiatorTokenType],
+        contract: swap.initiatorERCContract,
+        tokenId: swap.initiatorTokenId,
+        quantity: swap.initiatorTokenQuantity,
+        ethPortion: swap.initiatorETHPortion,
+      },
+      acceptorSide: {
+        tokenType: TokenType[swap.acceptorTokenType],
+        contract: swap.acceptorERCContract,
+        tokenId: swap.acceptorTokenId,
+        quantity: swap.acceptorTokenQuantity,
+        ethPortion: swap.acceptorETHPortion,
+      },
+      chosenTokenId: indexedSwap.acceptorTokenId ?? null,
+      tokenIdsRoot: indexedSwap.tokenIdsRoot ?? null,
+      blockNumber: indexedSwap.blockNumber,
+      transactionHash: indexedSwap.transactionHash,
+      closedBlockNumber: indexedSwap.closedBlockNumber ?? null,
+      closedTransactionHash: indexedSwap.closedTransactionHash ?? null,
+      ethPortionTransfers: indexedSwap.ethPortionTransfers.map((transfer) => ({
+        recipient: this.toParticipantNode(transfer.user),
+        amount: transfer.amount,
+        blockNumber: transfer.blockNumber,
+        transactionHash: transfer.transactionHash,
+      })),
+      // getSwapStatus reverts with SwapCompleteOrDoesNotExist once the swap hash is deleted, and with SwapCancelled.
+      status: () =>
+        state === SwapState.Completed || state === SwapState.Removed || state === SwapState.Cancelled
+          ? null
+          : this.client.getSwapStatus(swapId, swap),
+    };
+  }
+
+  private toParticipantNode(address: string) {
+    return {
+      address,
+      swapsAsInitiator: (args: ConnectionArgs, context: SwapContext) =>
+        this.getSwapConnection(args, { initiator: address }, context),
+      swapsAsAcceptor: (args: ConnectionArgs, context: SwapContext) =>
+        this.getSwapConnection(args, { acceptor: address }, context),
+    };
+  }
+}
+
+function toSwapQuery(filter: SwapFilter): SwapQuery {
+  return {
+    initiator: filter.initiator ? toAddress(filter.initiator) : undefined,
+    acceptor: filter.acceptor ? toAddress(filter.acceptor) : undefined,
+    ercContract: filter.collection ? toAddress(filter.collection) : undefined,
+    tokenId: filter.tokenId ?? undefined,
+    tokenType: filter.tokenType ? TokenType[filter.tokenType] : undefined,
+    openToAnyone: filter.openToAnyone ?? undefined,
+    expiresAfter: filter.expiresAfter ?? undefined,
+    expiresBefore: filter.expiresBefore ?? undefined,
+    state: filter.state ? (filter.state.toLowerCase() as SwapState) : undefined,
+  };
+}
+
+function toAddress(value: string): string {
+  try {
+    return getAddress(value);
+  } catch {
+    throw new GraphQLError(`Invalid address: ${value}`);
+  }
+}
+
+/**
+ * @notice Checks if an error was thrown by a resolver without being a GraphQLError.
+ */
+export function isUnexpectedError(error: GraphQLError): boolean {
+  return error.originalError !== undefined && !(error.originalError instanceof GraphQLError);
+}
+
+function maskUnexpectedError(error: GraphQLError): GraphQLError {
+  if (!isUnexpectedError(error)) {
+    return error;
+  }
+
+  return new GraphQLError("Internal server error", {
+    nodes: error.nodes,
+    source: error.source,
+    positions: error.positions,
+    path: error.path,
+    originalError: error.originalError,
+  });
+}
+
+function parseUint256(value: unknown): bigint {
+  if ((typeof value !== "string" && typeof value !== "number") || !/^\d+$/.test(value.toString())) {
+    throw new GraphQLError(`Invalid Uint256: ${value}`);
+  }
+
+  return BigInt(value);
+}
@@ -0,0 +1,212 @@
+import { AbiCoder, AddressLike, BigNumberish, ZeroAddress, ZeroHash, getAddress, keccak256, toBigInt } from "ethers";
+import { TokenSwapperBase } from "../typechain-types";
+import {
+  BundleItem,
+  BundleItemLike,
+  BundleSwap,
+  BundleSwapLike,
+  Swap,
+  SwapLike,
+  TokenType,
+  TokenTypeLike,
+} from "./types";
+
+/**
+ * @notice The Swap struct fields in declaration order with their ABI types.
+ * @dev SwapHashing._hashTokenSwap hashes the 13 in-memory words (0x1a0 bytes) of the struct, which is byte for byte
+ * the ABI encoding of these fields in this order. The order must never change without changing ISwapTokens.Swap.
+ */
+export const SWAP_FIELDS = [
+  ["expiryDate", "uint256"],
+  ["initiatorERCContract", "address"],
+  ["acceptorERCContract", "address"],
+  ["initiator", "address"],
+  ["initiatorTokenId", "uint256"],
+  ["initiatorTokenQuantity", "uint256"],
+  ["acceptor", "address"],
+  ["acceptorTokenId", "uint256"],
+  ["acceptorTokenQuantity", "uint256"],
+  ["initiatorETHPortion", "uint256"],
+  ["acceptorETHPortion", "uint256"],
+  ["initiatorTokenType", "uint8"],
+  ["acceptorTokenType", "uint8"],
+] as const satisfies ReadonlyArray<readonly [keyof Swap, string]>;
+
+/**
+ * @notice The ISwapTokenBundles.BundleSwap struct as an ABI tuple type.
+ * @dev SwapHashing._hashTokenBundleSwapCalldata hashes abi.encode of the struct, which is the encoding of this tuple.
+ */
+export const BUNDLE_SWAP_ABI_TYPE =
+  "tuple(uint256 expiryDate, address initiator, address acceptor, uint256 initiatorETHPortion, " +
+  "uint256 acceptorETHPortion, tuple(uint8 tokenType, address ercContract, uint256 tokenId, uint256 tokenQuantity)[] " +
+  "initiatorItems, tuple(uint8 tokenType, address ercContract, uint256 tokenId, uint256 tokenQuantity)[] acceptorItems)";
+
+/**
+ * @notice Converts any supported token type representation to the TokenType enum.
+ * @param tokenType The enum value, symbolic name (e.g. "ERC721") or numeric value.
+ */
+export function toTokenType(tokenType: TokenTypeLike): TokenType {
+  if (typeof tokenType === "string" && typeof TokenType[tokenType as keyof typeof TokenType] === "number") {
+    return TokenType[tokenType as keyof typeof TokenType];
+  }
+
+  const tokenTypeValue = toBigInt(tokenType as BigNumberish);
+
+  if (tokenTypeValue < 0n || tokenTypeValue > BigInt(TokenType.ERC1155)) {
+    throw new Error(`Unknown token type: ${tokenType}`);
+  }
+
+  return Number(tokenTypeValue) as TokenType;
+}
+
+/**
+ * @notice Converts a loosely typed swap, or a decoded event struct, to a plain Swap.
+ * @dev Addresses are checksummed and token types are converted to the TokenType enum.
+ * @param swap The swap to convert.
+ */
+export function toSwap(swap: SwapLike): Swap {
+  return {
+    expiryDate: toBigInt(swap.expiryDate),
+    initiatorERCContract: toAddress(swap.initiatorERCContract),
+    acceptorERCContract: toAddress(swap.acceptorERCContract),
+    initiator: toAddress(swap.initiator),
+    initiatorTokenId: toBigInt(swap.initiatorTokenId),
+    initiatorTokenQuantity: toBigInt(swap.initiatorTokenQuantity),
+    acceptor: toAddress(swap.acceptor),
+    acceptorTokenId: toBigInt(swap.acceptorTokenId),
+    acceptorTokenQuantity: toBigInt(swap.acceptorTokenQuantity),
+    initiatorETHPortion: toBigInt(swap.initiatorETHPortion),
+    acceptorETHPortion: toBigInt(swap.acceptorETHPortion),
+    initiatorTokenType: toTokenType(swap.initiatorTokenType),
+    acceptorTokenType: toTokenType(swap.acceptorTokenType),
+  };
+}
+
+/**
+ * @notice Converts a loosely typed bundle item, or a decoded event struct, to a plain BundleItem.
+ * @param item The item to convert.
+ */
+export function toBundleItem(item: BundleItemLike): BundleItem {
+  return {
+    tokenType: toTokenType(item.tokenType),
+    ercContract: toAddress(item.ercContract),
+    tokenId: toBigInt(item.tokenId),
+    tokenQuantity: toBigInt(item.tokenQuantity),
+  };
+}
+
+/**
+ * @notice Converts a loosely typed bundle swap, or a decoded event struct, to a plain BundleSwap.
+ * @param swap The bundle swap to convert.
+ */
+export function toBundleSwap(swap: BundleSwapLike): BundleSwap {
+  return {
+    expiryDate: toBigInt(swap.expiryDate),
+    initiator: toAddress(swap.initiator),
+    acceptor: toAddress(swap.acceptor),
+    initiatorETHPortion: toBigInt(swap.initiatorETHPortion),
+    acceptorETHPortion: toBigInt(swap.acceptorETHPortion),
+    initiatorItems: Array.from(swap.initiatorItems, toBundleItem),
+    acceptorItems: Array.from(swap.acceptorItems, toBundleItem),
+  };
+}
+
+/**
+ * @notice Applies the same rewriting initiateSwap does before hashing and emitting the swap.
+ * @dev A NONE side has its tokenId, ERC contract and quantity zeroed, so a swap kept as submitted would not match
+ * swapHashes.
+ * @param swap The swap as submitted to initiateSwap.
+ * @return The swap as emitted in the SwapInitiated event.
+ */
+export function normalizeSwap(swap: SwapLike): Swap {
+  const normalizedSwap = toSwap(swap);
+
+  if (normalizedSwap.initiatorTokenType === TokenType.NONE) {
+    normalizedSwap.initiatorTokenId = 0n;
+    normalizedSwap.initiatorERCContract = ZeroAddress;
+    normalizedSwap.initiatorTokenQuantity = 0n;
+  }
+
+  if (normalizedSwap.acceptorTokenType === TokenType.NONE) {
+    normalizedSwap.acceptorTokenId = 0n;
+    normalizedSwap.acceptorERCContract = ZeroAddress;
+    normalizedSwap.acceptorTokenQuantity = 0n;
+  }
+
+  return normalizedSwap;
+}
+
+/**
+ * @notice Computes the hash stored in swapHashes for a swap, matching SwapHashing._hashTokenSwap.
+ * @dev The swap is hashed as given, use normalizeSwap first for a swap kept as submitted.
+ * @param swap The swap exactly as emitted in the SwapInitiated event.
+ * @return The keccak256 hash of the swap.
+ */
+export function hashSwap(swap: SwapLike): string {
+  const canonicalSwap = toSwap(swap);
+
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      SWAP_FIELDS.map(([, abiType]) => abiType),
+      SWAP_FIELDS.map(([fieldName]) => canonicalSwap[fieldName]),
+    ),
+  );
+}
+
+/**
+ * @notice Computes the hash stored in swapHashes for a bundle swap, matching SwapHashing._hashTokenBundleSwapCalldata.
+ * @dev initiateBundleSwap does not rewrite the swap, so a bundle swap kept as submitted hashes as emitted.
+ * @param swap The bundle swap.
+ * @return The keccak256 hash of the bundle swap.
+ */
+export function hashBundleSwap(swap: BundleSwapLike): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode([BUNDLE_SWAP_ABI_TYPE], [toBundleSwap(swap)]));
+}
+
+/**
+ * @notice Checks a locally held swap against the swap hash stored on-chain.
+ * @dev Returns false if the swap was completed, removed, never existed or any field differs.
+ * @param swapper The swapper contract to read swapHashes from.
+ * @param swapId The ID of the swap.
+ * @param swap The locally held swap.
+ * @return If the swap is live on-chain and matches the local swap.
+ */
+export async function verifySwapAgainstChain(
+  swapper: Pick<TokenSwapperBase, "swapHashes">,
+  swapId: BigNumberish,
+  swap: SwapLike,
+): Promise<boolean> {
+  const onChainHash = await swapper.swapHashes(swapId);
+
+  return onChainHash !== ZeroHash && onChainHash === hashSwap(swap);
+}
+
+/**
+ * @notice Checks a locally held bundle swap against the swap hash stored on-chain.
+ * @dev Returns false if the swap was completed, removed, never existed or any field or item differs.
+ * @param swapper The bundle swapper contract to read swapHashes from.
+ * @param swapId The ID of the swap.
+ * @param swap The locally held bundle swap.
+ * @return If the bundle swap is live on-chain and matches the local bundle swap.
+ */
+export async function verifyBundleSwapAgainstChain(
+  swapper: Pick<TokenSwapperBase, "swapHashes">,
+  swapId: BigNumberish,
+  swap: BundleSwapLike,
+): Promise<boolean> {
+  const onChainHash = await swapper.swapHashes(swapId);
+
+  return onChainHash !== ZeroHash && onChainHash === hashBundleSwap(swap);
+}
+
+/**
+ * @notice Checksums a swap address, which SwapLike requires to be resolved to a string already.
+ * @param address The address.
+ */
+export function toAddress(address: AddressLike): string {
+  if (typeof address !== "string") {
+    throw new Error("Swap addresses must be resolved to strings");
+  }
+
+  return getAddress(address);
+}
@@ -0,0 +1,351 @@
+import { Log, LogDescription, Provider } from "ethers";
+import { ISwapTokenBundles__factory, TokenSwapperBase__factory } from "../typechain-types";
+import { toBundleSwap, toSwap } from "./SwapHashing";
+import { NonceIncrement, isSwapCancelledBy } from "./SwapNonces";
+import { EthPortionTransfer, IndexedBundleSwap, IndexedSwap, SwapState, SwapStore } from "./SwapStore";
+
+export type SwapIndexerOptions = {
+  deploymentBlock?: number;
+  batchSize?: number;
+  confirmations?: number;
+};
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+/**
+ * @notice Derives the lifecycle state of an indexed swap at a point in time.
+ * @dev An open swap past its expiry can no longer be completed, only removed by the initiator.
+ * @param indexedSwap The indexed swap.
+ * @param timestamp The timestamp to check expiry against, usually the latest block timestamp.
+ */
+export function getSwapState(indexedSwap: IndexedSwap | IndexedBundleSwap, timestamp: number): SwapState {
+  if (indexedSwap.state === SwapState.Open && indexedSwap.swap.expiryDate < BigInt(timestamp)) {
+    return SwapState.Expired;
+  }
+
+  return indexedSwap.state;
+}
+
+/**
+ * @notice Reads the latest block timestamp, falling back to the local clock without a provider.
+ * @param provider The provider to query.
+ */
+export async function getLatestTimestamp(provider: Provider | null | undefined): Promise<number> {
+  const latestBlock = await provider?.getBlock("latest");
+
+  return latestBlock?.timestamp ?? Math.floor(Date.now() / 1000);
+}
+
+/**
+ * @notice Rebuilds swap state from the swapper events, as only the swap hashes are kept on-chain.
+ * @dev Each sync resumes from the store checkpoint, so the indexer can be stopped and restarted at any time.
+ * @dev The bundle swaps of a TokenBundleSwapper are indexed alongside its single token swaps.
+ */
+export class SwapIndexer {
+  readonly provider: Provider;
+  readonly swapperAddress: string;
+  readonly store: SwapStore;
+
+  private readonly deploymentBlock: number;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+  private readonly swapperInterface = TokenSwapperBase__factory.createInterface();
+  private readonly bundleSwapperInterface = ISwapTokenBundles__factory.createInterface();
+  private readonly singleSwaps: SwapKind<IndexedSwap> = {
+    initiatedEvent: "SwapInitiated",
+    completeEvent: "SwapComplete",
+    toOpenSwap: (event, log) => toOpenSwap(event, log, toSwap(event.args.swap)),
+    getSwap: (swapId) => this.store.getSwap(swapId),
+    getOpenSwapsOf: (initiator) => this.store.getOpenSwapsOf(initiator),
+  };
+  private readonly bundleSwaps: SwapKind<IndexedBundleSwap> = {
+    initiatedEvent: "BundleSwapInitiated",
+    completeEvent: "BundleSwapComplete",
+    toOpenSwap: (event, log) => toOpenSwap(event, log, toBundleSwap(event.args.swap)),
+    getSwap: (swapId) => this.store.getBundleSwap(swapId),
+    getOpenSwapsOf: (initiator) => this.store.getOpenBundleSwapsOf(initiator),
+  };
+
+  constructor(provider: Provider, swapperAddress: string, store: SwapStore, options: SwapIndexerOptions = {}) {
+    this.provider = provider;
+    this.swapperAddress = swapperAddress;
+    this.store = store;
+    this.deploymentBlock = options.deploymentBlock ?? 0;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.confirmations = options.confirmations ?? 0;
+  }
+
+  /**
+   * @notice Indexes all events from the checkpoint up to the latest confirmed block.
+   * @return The last indexed block, undefined if nothing has been indexed yet.
+   */
+  async sync(): Promise<number | undefined> {
+    const latestBlock = (await this.provider.getBlockNumber()) - this.confirmations;
+    const checkpoint = await this.store.getCheckpoint();
+
+    let fromBlock = checkpoint === undefined ? this.deploymentBlock : checkpoint + 1;
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, latestBlock);
+
+      const logs = await this.provider.getLogs({
+        address: this.swapperAddress,
+        fromBlock,
+        toBlock,
+        topics: [
+          [
+            this.swapperInterface.getEvent("SwapInitiated").topicHash,
+            this.swapperInterface.getEvent("SwapComplete").topicHash,
+            this.swapperInterface.getEvent("SwapRemoved").topicHash,
+            this.swapperInterface.getEvent("EthPortionTransferred").topicHash,
+            this.swapperInterface.getEvent("NonceIncremented").topicHash,
+            this.swapperInterface.getEvent("AcceptorTokenIdChosen").topicHash,
+            this.swapperInterface.getEvent("TokenIdsRootSet").topicHash,
+            this.bundleSwapperInterface.getEvent("BundleSwapInitiated").topicHash,
+            this.bundleSwapperInterface.getEvent("BundleSwapComplete").topicHash,
+          ],
+        ],
+      });
+
+      const events = [...logs]
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+        .flatMap((log): IndexedEvent[] => {
+          const event = this.swapperInterface.parseLog(log) ?? this.bundleSwapperInterface.parseLog(log);
+
+          return event ? [{ log, event }] : [];
+        });
+
+      await this.store.saveSwaps(
+        await this.applyLogs(events, this.singleSwaps),
+        toBlock,
+        await this.applyLogs(events, this.bundleSwaps),
+      );
+
+      fromBlock = toBlock + 1;
+    }
+
+    return this.store.getCheckpoint();
+  }
+
+  /**
+   * @notice Retrieves an indexed swap with its state as of the latest block.
+   * @param swapId The ID of the swap.
+   */
+  async getSwap(swapId: bigint): Promise<IndexedSwap | undefined> {
+    const indexedSwap = await this.store.getSwap(swapId);
+
+    if (!indexedSwap) {
+      return undefined;
+    }
+
+    return { ...indexedSwap, state: getSwapState(indexedSwap, await getLatestTimestamp(this.provider)) };
+  }
+
+  /**
+   * @notice Retrieves all indexed swaps with their state as of the latest block.
+   * @param state Optionally only return swaps in this state.
+   */
+  async getSwaps(state?: SwapState): Promise<IndexedSwap[]> {
+    const timestamp = await getLatestTimestamp(this.provider);
+
+    return (await this.store.getSwaps())
+      .map((indexedSwap) => ({ ...indexedSwap, state: getSwapState(indexedSwap, timestamp) }))
+      .filter((indexedSwap) => state === undefined || indexedSwap.state === state);
+  }
+
+  /**
+   * @notice Retrieves an indexed bundle swap with its state as of the latest block.
+   * @param swapId The ID of the bundle swap.
+   */
+  async getBundleSwap(swapId: bigint): Promise<IndexedBundleSwap | undefined> {
+    const bundleSwap = await this.store.getBundleSwap(swapId);
+
+    if (!bundleSwap) {
+      return undefined;
+    }
+
+    return { ...bundleSwap, state: getSwapState(bundleSwap, await getLatestTimestamp(this.provider)) };
+  }
+
+  /**
+   * @notice Retrieves all indexed bundle swaps with their state as of the latest block.
+   * @param state Optionally only return bundle swaps in this state.
+   */
+  async getBundleSwaps(state?: SwapState): Promise<IndexedBundleSwap[]> {
+    const timestamp = await getLatestTimestamp(this.provider);
+
+    return (await this.store.getBundleSwaps())
+      .map((bundleSwap) => ({ ...bundleSwap, state: getSwapState(bundleSwap, timestamp) }))
+      .filter((bundleSwap) => state === undefined || bundleSwap.state === state);
+  }
+
+  /**
+   * @notice Applies a batch of logs in chain order to the swaps of one kind.
+   * @dev EthPortionTransferred carries no swapId, so transfers are attributed to the next SwapComplete or SwapRemoved
+   * in the same transaction, which the contract always emits after sending the ETH portions. NonceIncremented cancels
+   * the open swaps of the initiator below its minSwapId, cancelled swaps are still removed later to refund ETH.
+   * @dev SwapRemoved, TokenIdsRootSet and AcceptorTokenIdChosen are shared by both kinds, only the IDs of the swaps
+   * of the kind apply as swap IDs are never reused.
+   * @return The swaps changed by the batch.
+   */
+  private async applyLogs<T extends IndexedSwap | IndexedBundleSwap>(
+    events: IndexedEvent[],
+    kind: SwapKind<T>,
+  ): Promise<T[]> {
+    const changedSwaps = new Map<bigint, T>();
+    const pendingTransfers = new Map<string, EthPortionTransfer[]>();
+
+    const findSwap = async (swapId: bigint): Promise<T | undefined> => {
+      const changedSwap = changedSwaps.get(swapId);
+
+      if (changedSwap) {
+        return changedSwap;
+      }
+
+      const storedSwap = await kind.getSwap(swapId);
+
+      return storedSwap && structuredClone(storedSwap);
+    };
+
+    const takeTransfers = (transactionHash: string): EthPortionTransfer[] => {
+      const transfers = pendingTransfers.get(transactionHash) ?? [];
+      pendingTransfers.delete(transactionHash);
+      return transfers;
+    };
+
+    for (const { log, event } of events) {
+      switch (event.name) {
+        case kind.initiatedEvent: {
+          changedSwaps.set(event.args.swapId, kind.toOpenSwap(event, log));
+          break;
+        }
+        case "EthPortionTransferred": {
+          const transfers = pendingTransfers.get(log.transactionHash) ?? [];
+
+          transfers.push({
+            user: event.args.user,
+            amount: event.args.amount,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+          });
+
+          pendingTransfers.set(log.transactionHash, transfers);
+          break;
+        }
+        case kind.completeEvent: {
+          // The initiation predates the deployment block, the complete event carries the full swap regardless.
+          const indexedSwap = (await findSwap(event.args.swapId)) ?? kind.toOpenSwap(event, log);
+
+          indexedSwap.state = SwapState.Completed;
+          indexedSwap.acceptor = event.args.acceptor;
+          indexedSwap.closedBlockNumber = log.blockNumber;
+          indexedSwap.closedTransactionHash = log.transactionHash;
+          indexedSwap.ethPortionTransfers.push(...takeTransfers(log.transactionHash));
+
+          changedSwaps.set(indexedSwap.swapId, indexedSwap);
+          break;
+        }
+        case "TokenIdsRootSet": {
+          // Emitted right after SwapInitiated, so the swap is only unknown before the deployment block.
+          const indexedSwap = await findSwap(event.args.swapId);
+
+          if (indexedSwap) {
+            indexedSwap.tokenIdsRoot = event.args.tokenIdsRoot;
+            changedSwaps.set(indexedSwap.swapId, indexedSwap);
+          }
+          break;
+        }
+        case "AcceptorTokenIdChosen": {
+          // Emitted right after SwapComplete in the same transaction, which records the swap in this batch.
+          const indexedSwap = changedSwaps.get(event.args.swapId);
+
+          if (indexedSwap) {
+            indexedSwap.acceptorTokenId = event.args.acceptorTokenId;
+          }
+          break;
+        }
+        case "SwapRemoved": {
+          const indexedSwap = await findSwap(event.args.swapId);
+          const transfers = takeTransfers(log.transactionHash);
+
+          // A swap of the other kind, or initiated before the deployment block so its details are unknown.
+          if (!indexedSwap) {
+            break;
+          }
+
+          indexedSwap.state = SwapState.Removed;
+          indexedSwap.closedBlockNumber = log.blockNumber;
+          indexedSwap.closedTransactionHash = log.transactionHash;
+          indexedSwap.ethPortionTransfers.push(...transfers);
+
+          changedSwaps.set(indexedSwap.swapId, indexedSwap);
+          break;
+        }
+        case "NonceIncremented": {
+          const increment = toNonceIncrement(event);
+
+          // The swaps changed earlier in the batch are newer than their stored version.
+          const latestSwaps = new Map([
+            ...(await kind.getOpenSwapsOf(increment.initiator)).map((storedSwap): [bigint, T] => [
+              storedSwap.swapId,
+              storedSwap,
+            ]),
+            ...changedSwaps,
+          ]);
+
+          for (const latestSwap of latestSwaps.values()) {
+            if (
+              latestSwap.state === SwapState.Open &&
+              isSwapCancelledBy(increment, latestSwap.swapId, latestSwap.swap.initiator)
+            ) {
+              const indexedSwap = changedSwaps.get(latestSwap.swapId) ?? structuredClone(latestSwap);
+
+              indexedSwap.state = SwapState.Cancelled;
+              indexedSwap.closedBlockNumber = log.blockNumber;
+              indexedSwap.closedTransactionHash = log.transactionHash;
+
+              changedSwaps.set(indexedSwap.swapId, indexedSwap);
+            }
+          }
+          break;
+        }
+      }
+    }
+
+    return [...changedSwaps.values()];
+  }
+}
+
+/**
+ * @notice A parsed swapper log.
+ */
+type IndexedEvent = {
+  log: Log;
+  event: LogDescription;
+};
+
+/**
+ * @notice The events and store accessors of single token or bundle swaps, which SwapIndexer.applyLogs is run for.
+ */
+type SwapKind<T extends IndexedSwap | IndexedBundleSwap> = {
+  initiatedEvent: string;
+  completeEvent: string;
+  toOpenSwap: (event: LogDescription, log: Log) => T;
+  getSwap: (swapId: bigint) => Promise<T | undefined>;
+  getOpenSwapsOf: (initiator: string) => Promise<T[]>;
+};
+
+function toOpenSwap<S>(event: LogDescription, log: Log, swap: S): Omit<IndexedSwap, "swap"> & { swap: S } {
+  return {
+    swapId: event.args.swapId,
+    swap,
+    state: SwapState.Open,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    ethPortionTransfers: [],
+  };
+}
+
+function toNonceIncrement(event: LogDescription): Pick<NonceIncrement, "initiator" | "minSwapId"> {
+  return { initiator: event.args.initiator, minSwapId: event.args.minSwapId };
+}
@@ -0,0 +1,143 @@
+import { BigNumberish, ContractTransactionReceipt, Signer, getAddress } from "ethers";
+import { SwapIndexer } from "./SwapIndexer";
+import { SwapState } from "./SwapStore";
+import { TokenSwapperClient } from "./TokenSwapperClient";
+import { Swap } from "./types";
+
+export type SwapKeeperOptions = {
+  /**
+   * @notice Only report the swaps that would be removed.
+   */
+  dryRun?: boolean;
+  /**
+   * @notice Also remove expired and cancelled swaps without an initiator ETH portion, which only clears them from the
+   * swapper.
+   */
+  includeWithoutEth?: boolean;
+  gasLimit?: BigNumberish;
+  maxFeePerGas?: BigNumberish;
+  maxPriorityFeePerGas?: BigNumberish;
+};
+
+/**
+ * @notice An expired or cancelled swap the keeper removed, or would remove in dry run mode.
+ * @dev error is set instead of receipt when the removal failed, the keeper carries on with the other swaps.
+ */
+export type KeeperRemoval = {
+  swapId: bigint;
+  swap: Swap;
+  refund: bigint;
+  receipt?: ContractTransactionReceipt;
+  error?: Error;
+};
+
+/**
+ * @notice Removes the expired swaps of one wallet, refunding their initiator ETH portion.
+ * @dev The ETH portion of an expired swap stays in the swapper until the initiator calls removeSwap, which sends it
+ * back through _sendEthPortion. Each run syncs the indexer, so swaps removed by earlier runs or elsewhere are skipped.
+ * @dev Swaps cancelled by incrementNonce or cancelUpTo hold their ETH portion the same way and are removed too.
+ */
+export class SwapKeeper {
+  readonly indexer: SwapIndexer;
+  readonly client: TokenSwapperClient;
+
+  private readonly options: SwapKeeperOptions;
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<void> | undefined;
+
+  /**
+   * @param indexer The indexer of the swapper the client is connected to.
+   * @param client The client connected with the wallet whose swaps are kept.
+   * @param options Dry run, which swaps to remove and the removal transaction gas settings.
+   */
+  constructor(indexer: SwapIndexer, client: TokenSwapperClient, options: SwapKeeperOptions = {}) {
+    this.indexer = indexer;
+    this.client = client;
+    this.options = options;
+  }
+
+  /**
+   * @notice Finds the expired and cancelled swaps the wallet initiated that the keeper removes.
+   * @dev Expiry is checked against the latest block timestamp, as the indexer does.
+   */
+  async findExpiredSwaps(): Promise<KeeperRemoval[]> {
+    await this.indexer.sync();
+
+    const wallet = await (this.client.contract.runner as Signer).getAddress();
+
+    return (await this.indexer.getSwaps())
+      .filter(({ state }) => state === SwapState.Expired || state === SwapState.Cancelled)
+      .filter(({ swap }) => getAddress(swap.initiator) === getAddress(wallet))
+      .filter(({ swap }) => this.options.includeWithoutEth || swap.initiatorETHPortion > 0n)
+      .map(({ swapId, swap }) => ({ swapId, swap, refund: swap.initiatorETHPortion }));
+  }
+
+  /**
+   * @notice Removes every expired and cancelled swap of the wallet once.
+   * @return The removals, without receipts in dry run mode.
+   */
+  async run(): Promise<KeeperRemoval[]> {
+    const removals = await this.findExpiredSwaps();
+
+    if (this.options.dryRun) {
+      return removals;
+    }
+
+    const { gasLimit, maxFeePerGas, maxPriorityFeePerGas } = this.options;
+
+    for (const removal of removals) {
+      try {
+        const result = await this.client.removeSwap(removal.swapId, removal.swap, {
+          gasLimit,
+          maxFeePerGas,
+          maxPriorityFeePerGas,
+        });
+
+        removal.receipt = result.receipt;
+      } catch (error) {
+        removal.error = error as Error;
+      }
+    }
+
+    return removals;
+  }
+
+  /**
+   * @notice Runs on an interval until stopped.
+   * @dev The next run is only scheduled once the previous one finished, a failed run does not stop the keeper.
+   * @param interval The interval between runs in milliseconds.
+   * @param onRun Called with the removals of each run.
+   * @param onError Called with the error of a failed run, e.g. when the indexer cannot sync.
+   */
+  start(
+    interval: number,
+    onRun: (removals: KeeperRemoval[]) => void = () => undefined,
+    onError: (error: Error) => void = () => undefined,
+  ): void {
+    const run = () => {
+      this.running = this.run()
+        .then(onRun)
+        .catch(onError)
+        .finally(() => {
+          this.running = undefined;
+
+          if (this.timer) {
+            this.timer = setTimeout(run, interval);
+          }
+        });
+    };
+
+    this.timer = setTimeout(run, 0);
+  }
+
+  /**
+   * @notice Stops scheduling runs.
+   * @return Resolves once the run in progress, if any, has finished.
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    await this.running;
+  }
+}
@@ -0,0 +1,295 @@
+import {
+  BigNumberish,
+  Provider,
+  ZeroAddress,
+  concat,
+  dataSlice,
+  decodeBase64,
+  encodeBase64,
+  getAddress,
+  getBytes,
+  keccak256,
+  toBeArray,
+  toBigInt,
+  toBeHex,
+} from "ethers";
+import { TokenSwapperBase__factory } from "../typechain-types";
+import { toSwap, verifySwapAgainstChain } from "./SwapHashing";
+import { Swap, SwapLike } from "./types";
+
+/**
+ * @notice Everything needed to find and accept a swap.
+ */
+export type SwapLink = {
+  chainId: bigint;
+  swapperAddress: string;
+  swapId: bigint;
+  swap: Swap;
+};
+
+/**
+ * @notice A SwapLink with any supported representation of its values.
+ */
+export type SwapLinkLike = {
+  chainId: BigNumberish;
+  swapperAddress: string;
+  swapId: BigNumberish;
+  swap: SwapLike;
+};
+
+/**
+ * @notice Thrown when a swap link is malformed, has a bad checksum, or does not match the chain.
+ */
+export class SwapLinkError extends Error {
+  constructor(message: string) {
+    super(`Swap link is invalid: ${message}`);
+    this.name = "SwapLinkError";
+  }
+}
+
+export const SWAP_LINK_VERSION = 1;
+
+/**
+ * @notice The query parameter carrying the encoded swap in a link URL.
+ */
+export const SWAP_LINK_PARAM = "swap";
+
+const CHECKSUM_LENGTH = 4;
+
+/**
+ * @dev The address fields are only written when non zero, a presence bit per field is set in this order.
+ */
+const LINK_ADDRESS_FIELDS = ["initiatorERCContract", "acceptorERCContract", "initiator", "acceptor"] as const;
+
+const LINK_UINT_FIELDS = [
+  "expiryDate",
+  "initiatorTokenId",
+  "initiatorTokenQuantity",
+  "acceptorTokenId",
+  "acceptorTokenQuantity",
+  "initiatorETHPortion",
+  "acceptorETHPortion",
+] as const;
+
+/**
+ * @notice Encodes a swap and where it lives as a compact, URL safe string.
+ * @dev Version 1 layout, uints are a length byte followed by their minimal big endian bytes:
+ * version, chainId, swapper (20 bytes), swapId, token types (initiator << 4 | acceptor), address presence bits,
+ * the present addresses (20 bytes each), the uint fields, then the first 4 bytes of the keccak256 of all of it.
+ * The whole is base64url encoded without padding.
+ * @param link The chain, swapper, swapId and swap as emitted in the SwapInitiated event.
+ */
+export function encodeSwapLink(link: SwapLinkLike): string {
+  const swap = toSwap(link.swap);
+
+  const presentAddresses = LINK_ADDRESS_FIELDS.filter((field) => swap[field] !== ZeroAddress);
+  const presenceBits = LINK_ADDRESS_FIELDS.reduce(
+    (bits, field, index) => (swap[field] !== ZeroAddress ? bits | (1 << index) : bits),
+    0,
+  );
+
+  const payload = concat([
+    new Uint8Array([SWAP_LINK_VERSION]),
+    encodeUint(toBigInt(link.chainId)),
+    getAddress(link.swapperAddress),
+    encodeUint(toBigInt(link.swapId)),
+    new Uint8Array([(swap.initiatorTokenType << 4) | swap.acceptorTokenType, presenceBits]),
+    ...presentAddresses.map((field) => swap[field]),
+    ...LINK_UINT_FIELDS.map((field) => encodeUint(swap[field])),
+  ]);
+
+  return toBase64Url(concat([payload, dataSlice(keccak256(payload), 0, CHECKSUM_LENGTH)]));
+}
+
+/**
+ * @notice Decodes a string from encodeSwapLink, or a URL carrying one in its swap query parameter.
+ * @dev Only the encoding and checksum are checked, use verifySwapLink to check the swap is live on-chain.
+ * @param encoded The encoded swap or link URL.
+ */
+export function decodeSwapLink(encoded: string): SwapLink {
+  const bytes = getBytes(decodeBase64(fromBase64Url(extractEncodedSwap(encoded))));
+
+  if (bytes.length <= CHECKSUM_LENGTH) {
+    throw new SwapLinkError("too short");
+  }
+
+  const payload = bytes.subarray(0, bytes.length - CHECKSUM_LENGTH);
+
+  if (dataSlice(keccak256(payload), 0, CHECKSUM_LENGTH) !== dataSlice(bytes, bytes.length - CHECKSUM_LENGTH)) {
+    throw new SwapLinkError("checksum mismatch, the link was altered or truncated");
+  }
+
+  if (payload[0] !== SWAP_LINK_VERSION) {
+    throw new SwapLinkError(`unsupported version ${payload[0]}`);
+  }
+
+  const reader = new LinkReader(payload, 1);
+
+  const chainId = reader.readUint();
+  const swapperAddress = reader.readAddress();
+  const swapId = reader.readUint();
+  const [tokenTypes, presenceBits] = reader.readBytes(2);
+
+  const [initiatorERCContract, acceptorERCContract, initiator, acceptor] = LINK_ADDRESS_FIELDS.map((_, index) =>
+    presenceBits & (1 << index) ? reader.readAddress() : ZeroAddress,
+  );
+  const [
+    expiryDate,
+    initiatorTokenId,
+    initiatorTokenQuantity,
+    acceptorTokenId,
+    acceptorTokenQuantity,
+    initiatorETHPortion,
+    acceptorETHPortion,
+  ] = LINK_UINT_FIELDS.map(() => reader.readUint());
+
+  if (!reader.isAtEnd()) {
+    throw new SwapLinkError("trailing bytes");
+  }
+
+  let swap: Swap;
+
+  try {
+    swap = toSwap({
+      expiryDate,
+      initiatorERCContract,
+      acceptorERCContract,
+      initiator,
+      initiatorTokenId,
+      initiatorTokenQuantity,
+      acceptor,
+      acceptorTokenId,
+      acceptorTokenQuantity,
+      initiatorETHPortion,
+      acceptorETHPortion,
+      initiatorTokenType: tokenTypes >> 4,
+      acceptorTokenType: tokenTypes & 0x0f,
+    });
+  } catch (error) {
+    throw new SwapLinkError((error as Error).message);
+  }
+
+  return { chainId, swapperAddress, swapId, swap };
+}
+
+/**
+ * @notice Builds a link URL with the encoded swap in its swap query parameter.
+ * @param baseUrl The page that accepts swaps, e.g. https://example.com/accept.
+ * @param link The chain, swapper, swapId and swap.
+ */
+export function toSwapLinkUrl(baseUrl: string, link: SwapLinkLike): string {
+  const url = new URL(baseUrl);
+
+  url.searchParams.set(SWAP_LINK_PARAM, encodeSwapLink(link));
+
+  return url.toString();
+}
+
+/**
+ * @notice Decodes a link and checks it against the chain the provider is connected to.
+ * @dev Throws a SwapLinkError if the chain differs, or the swap is completed, removed or was altered.
+ * @param encoded The encoded swap or link URL.
+ * @param provider The provider for the chain the link is expected on.
+ * @return The decoded link, safe to accept.
+ */
+export async function verifySwapLink(encoded: string, provider: Provider): Promise<SwapLink> {
+  const link = decodeSwapLink(encoded);
+  const { chainId } = await provider.getNetwork();
+
+  if (chainId !== link.chainId) {
+    throw new SwapLinkError(`it is for chain ${link.chainId}, connected to chain ${chainId}`);
+  }
+
+  const swapper = TokenSwapperBase__factory.connect(link.swapperAddress, provider);
+
+  if (!(await verifySwapAgainstChain(swapper, link.swapId, link.swap))) {
+    throw new SwapLinkError(`swap ${link.swapId} is not open on ${link.swapperAddress} or does not match swapHashes`);
+  }
+
+  return link;
+}
+
+function extractEncodedSwap(encoded: string): string {
+  if (!encoded.includes("://")) {
+    return encoded.trim();
+  }
+
+  let url: URL;
+
+  try {
+    url = new URL(encoded);
+  } catch {
+    throw new SwapLinkError("malformed URL");
+  }
+
+  const swapParam = url.searchParams.get(SWAP_LINK_PARAM);
+
+  if (!swapParam) {
+    throw new SwapLinkError(`no ${SWAP_LINK_PARAM} parameter in the URL`);
+  }
+
+  return swapParam;
+}
+
+function encodeUint(value: bigint): Uint8Array {
+  const bytes = value === 0n ? new Uint8Array() : toBeArray(value);
+
+  return getBytes(concat([new Uint8Array([bytes.length]), bytes]));
+}
+
+function toBase64Url(data: string): string {
+  return encodeBase64(data).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(encoded)) {
+    throw new SwapLinkError("not base64url");
+  }
+
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+
+  return base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+}
+
+/**
+ * @dev Reads the payload front to back, throwing a SwapLinkError when it runs out.
+ */
+class LinkReader {
+  private readonly bytes: Uint8Array;
+  private offset: number;
+
+  constructor(bytes: Uint8Array, offset: number) {
+    this.bytes = bytes;
+    this.offset = offset;
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new SwapLinkError("truncated");
+    }
+
+    const bytes = this.bytes.subarray(this.offset, this.offset + length);
+
+    this.offset += length;
+
+    return bytes;
+  }
+
+  readUint(): bigint {
+    const [length] = this.readBytes(1);
+
+    if (length > 32) {
+      throw new SwapLinkError("uint longer than 32 bytes");
+    }
+
+    return length === 0 ? 0n : toBigInt(this.readBytes(length));
+  }
+
+  readAddress(): string {
+    return getAddress(toBeHex(toBigInt(this.readBytes(20)), 20));
+  }
+
+  isAtEnd(): boolean {
+    return this.offset === this.bytes.length;
+  }
+}
@@ -0,0 +1,68 @@
+import { getAddress } from "ethers";
+import { SignedSwap, SignedSwapLike, toSignedSwap } from "./SignedSwaps";
+
+/**
+ * @notice A NonceIncremented event, raising an initiator's minimum nonce with incrementNonce or cancelUpTo.
+ * @dev Swaps signed with a nonce below minNonce and swaps initiated with an ID below minSwapId are cancelled.
+ */
+export type NonceIncrement = {
+  initiator: string;
+  minNonce: bigint;
+  minSwapId: bigint;
+  blockNumber: number;
+  transactionHash: string;
+};
+
+/**
+ * @notice The offers of a wallet a nonce increment cancelled.
+ * @dev Cancelled swaps keep their initiator ETH portion in the swapper until they are removed.
+ */
+export type InvalidatedOffers<T extends { swapId: bigint; swap: { initiator: string } }> = {
+  swaps: T[];
+  signedSwaps: SignedSwap[];
+};
+
+/**
+ * @notice Checks if a nonce increment cancelled an initiated swap, single token or bundle.
+ * @param increment The nonce increment.
+ * @param swapId The ID of the swap.
+ * @param initiator The swap initiator.
+ */
+export function isSwapCancelledBy(
+  increment: Pick<NonceIncrement, "initiator" | "minSwapId">,
+  swapId: bigint,
+  initiator: string,
+): boolean {
+  return getAddress(initiator) === getAddress(increment.initiator) && swapId < increment.minSwapId;
+}
+
+/**
+ * @notice Checks if a nonce increment cancelled a signed swap.
+ * @param increment The nonce increment.
+ * @param signedSwap The signed swap.
+ */
+export function isSignedSwapCancelledBy(
+  increment: Pick<NonceIncrement, "initiator" | "minNonce">,
+  signedSwap: SignedSwapLike,
+): boolean {
+  const { swap, nonce } = toSignedSwap(signedSwap);
+
+  return getAddress(swap.initiator) === getAddress(increment.initiator) && nonce < increment.minNonce;
+}
+
+/**
+ * @notice Picks the offers a nonce increment cancelled, e.g. to update an order book after cancelUpTo.
+ * @param increment The nonce increment.
+ * @param offers The initiated swaps, such as indexed swaps, and the signed swaps to check.
+ */
+export function getInvalidatedOffers<T extends { swapId: bigint; swap: { initiator: string } }>(
+  increment: Pick<NonceIncrement, "initiator" | "minNonce" | "minSwapId">,
+  offers: { swaps?: T[]; signedSwaps?: SignedSwapLike[] },
+): InvalidatedOffers<T> {
+  return {
+    swaps: (offers.swaps ?? []).filter(({ swapId, swap }) => isSwapCancelledBy(increment, swapId, swap.initiator)),
+    signedSwaps: (offers.signedSwaps ?? [])
+      .filter((signedSwap) => isSignedSwapCancelledBy(increment, signedSwap))
+      .map(toSignedSwap),
+  };
+}
@@ -0,0 +1,242 @@
+import {
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+  ZeroAddress,
+  getAddress,
+} from "ethers";
+import { IERC1155__factory, IERC20__factory, IERC721__factory } from "../typechain-types";
+import { waitForReceipt } from "./SwapApprovals";
+import { IndexedSwap, SwapState } from "./SwapStore";
+import { TokenType } from "./types";
+
+/**
+ * @notice The kind of approval a wallet has granted the swapper.
+ * @dev allowance covers ERC20 and ERC777, tokenApproval is an ERC721 approve of a single tokenId.
+ */
+export enum ApprovalKind {
+  Allowance = "allowance",
+  TokenApproval = "tokenApproval",
+  ApprovalForAll = "approvalForAll",
+}
+
+/**
+ * @notice An approval the wallet currently grants the swapper.
+ * @dev For an allowance, amount is the current allowance and neededAmount the sum the wallet's open swaps transfer,
+ * a stale allowance is lowered to neededAmount rather than always zero.
+ * @dev neededBy lists the open swaps in which the wallet's side relies on the approval.
+ */
+export type GrantedApproval = {
+  kind: ApprovalKind;
+  contract: string;
+  tokenType: TokenType;
+  tokenId?: bigint;
+  amount?: bigint;
+  neededAmount?: bigint;
+  neededBy: bigint[];
+  stale: boolean;
+};
+
+type WalletToken = {
+  contract: string;
+  tokenType: TokenType;
+  tokenIds: Set<bigint>;
+};
+
+/**
+ * @notice Scans the approvals a wallet grants the swapper on every contract seen in its indexed swaps.
+ * @dev An approval is stale when no open swap needs it. Expired swaps can only be removed, so they need none.
+ * @param swapperAddress The swapper the approvals are for.
+ * @param wallet The wallet to scan.
+ * @param swaps The indexed swaps with their state as of the latest block, as returned by SwapIndexer.getSwaps.
+ * @param runner The provider or signer to read with.
+ */
+export async function scanApprovals(
+  swapperAddress: string,
+  wallet: string,
+  swaps: IndexedSwap[],
+  runner: ContractRunner,
+): Promise<GrantedApproval[]> {
+  const owner = getAddress(wallet);
+  const tokens = new Map<string, WalletToken>();
+  const openSides: { swapId: bigint; contract: string; tokenType: TokenType; tokenId: bigint; quantity: bigint }[] = [];
+
+  for (const { swapId, swap, state, acceptor } of swaps) {
+    const isInitiator = swap.initiator === owner;
+    const isAcceptor = swap.acceptor === owner || acceptor === owner;
+
+    if (!isInitiator && !isAcceptor) {
+      continue;
+    }
+
+    const sides = [
+      {
+        contract: swap.initiatorERCContract,
+        tokenType: swap.initiatorTokenType,
+        tokenId: swap.initiatorTokenId,
+        quantity: swap.initiatorTokenQuantity,
+        isOwn: isInitiator,
+      },
+      {
+        contract: swap.acceptorERCContract,
+        tokenType: swap.acceptorTokenType,
+        tokenId: swap.acceptorTokenId,
+        quantity: swap.acceptorTokenQuantity,
+        isOwn: swap.acceptor === owner,
+      },
+    ];
+
+    for (const { contract, tokenType, tokenId, quantity, isOwn } of sides) {
+      if (tokenType === TokenType.NONE) {
+        continue;
+      }
+
+      const key = `${contract}:${tokenType}`;
+      const token = tokens.get(key) ?? { contract, tokenType, tokenIds: new Set<bigint>() };
+
+      if (tokenType === TokenType.ERC721) {
+        token.tokenIds.add(tokenId);
+      }
+
+      tokens.set(key, token);
+
+      if (isOwn && state === SwapState.Open) {
+        openSides.push({ swapId, contract, tokenType, tokenId, quantity });
+      }
+    }
+  }
+
+  const approvals: GrantedApproval[] = [];
+
+  for (const { contract, tokenType, tokenIds } of tokens.values()) {
+    const needingSides = openSides.filter((side) => side.contract === contract && side.tokenType === tokenType);
+    const neededBy = needingSides.map((side) => side.swapId);
+
+    switch (tokenType) {
+      case TokenType.ERC20:
+      case TokenType.ERC777: {
+        const amount = await IERC20__factory.connect(contract, runner).allowance(owner, swapperAddress);
+        const neededAmount = needingSides.reduce((sum, side) => sum + side.quantity, 0n);
+
+        if (amount > 0n) {
+          approvals.push({
+            kind: ApprovalKind.Allowance,
+            contract,
+            tokenType,
+            amount,
+            neededAmount,
+            neededBy,
+            stale: amount > neededAmount,
+          });
+        }
+        break;
+      }
+      case TokenType.ERC721: {
+        const erc721Token = IERC721__factory.connect(contract, runner);
+
+        if (await erc721Token.isApprovedForAll(owner, swapperAddress)) {
+          approvals.push({
+            kind: ApprovalKind.ApprovalForAll,
+            contract,
+            tokenType,
+            neededBy,
+            stale: neededBy.length === 0,
+          });
+        }
+
+        for (const tokenId of tokenIds) {
+          // A transfer clears the approval, so only a token the wallet still owns can still carry one.
+          const tokenOwner = await erc721Token.ownerOf(tokenId).catch(() => ZeroAddress);
+
+          if (tokenOwner !== owner || (await erc721Token.getApproved(tokenId)) !== swapperAddress) {
+            continue;
+          }
+
+          const tokenNeededBy = needingSides.filter((side) => side.tokenId === tokenId).map((side) => side.swapId);
+
+          approvals.push({
+            kind: ApprovalKind.TokenApproval,
+            contract,
+            tokenType,
+            tokenId,
+            neededBy: tokenNeededBy,
+            stale: tokenNeededBy.length === 0,
+          });
+        }
+        break;
+      }
+      case TokenType.ERC1155: {
+        if (await IERC1155__factory.connect(contract, runner).isApprovedForAll(owner, swapperAddress)) {
+          approvals.push({
+            kind: ApprovalKind.ApprovalForAll,
+            contract,
+            tokenType,
+            neededBy,
+            stale: neededBy.length === 0,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return approvals;
+}
+
+/**
+ * @notice Revokes every stale approval, lowering stale allowances to what the open swaps still need.
+ * @dev The transactions are all sent before any is awaited so they land together, approvals still needed are skipped.
+ * @param swapperAddress The swapper the approvals are for.
+ * @param approvals The approvals from scanApprovals.
+ * @param signer The wallet the approvals were scanned for.
+ * @param resetToZeroFirst For tokens like USDT, zero a stale allowance before lowering it to a non zero amount.
+ * @return The revocation receipts in the order the approvals were given.
+ */
+export async function revokeApprovals(
+  swapperAddress: string,
+  approvals: GrantedApproval[],
+  signer: Signer,
+  resetToZeroFirst = false,
+): Promise<ContractTransactionReceipt[]> {
+  const transactions: ContractTransactionResponse[] = [];
+
+  for (const approval of approvals) {
+    if (!approval.stale) {
+      continue;
+    }
+
+    switch (approval.kind) {
+      case ApprovalKind.Allowance: {
+        const erc20Token = IERC20__factory.connect(approval.contract, signer);
+        const neededAmount = approval.neededAmount ?? 0n;
+
+        if (resetToZeroFirst && neededAmount > 0n) {
+          transactions.push(await erc20Token.approve(swapperAddress, 0n));
+        }
+
+        transactions.push(await erc20Token.approve(swapperAddress, neededAmount));
+        break;
+      }
+      case ApprovalKind.TokenApproval:
+        transactions.push(
+          await IERC721__factory.connect(approval.contract, signer).approve(ZeroAddress, approval.tokenId ?? 0n),
+        );
+        break;
+      case ApprovalKind.ApprovalForAll:
+        // ERC721 and ERC1155 share the setApprovalForAll signature.
+        transactions.push(
+          await IERC1155__factory.connect(approval.contract, signer).setApprovalForAll(swapperAddress, false),
+        );
+        break;
+    }
+  }
+
+  const receipts: ContractTransactionReceipt[] = [];
+
+  for (const transaction of transactions) {
+    receipts.push(await waitForReceipt(transaction));
+  }
+
+  return receipts;
+}
@@ -0,0 +1,424 @@
+import {
+  AbiCoder,
+  Interface,
+  Provider,
+  ZeroAddress,
+  dataLength,
+  dataSlice,
+  getAddress,
+  getBytes,
+  hexlify,
+  toBeHex,
+  toQuantity,
+} from "ethers";
+import { IERC20__factory, ISwapTokens__factory } from "../typechain-types";
+import { decodeSwapErrorFrom } from "./SwapErrors";
+import { toSwap } from "./SwapHashing";
+import { SwapSide } from "./SwapValidation";
+import { Swap, SwapLike, TokenType } from "./types";
+
+export enum RiskLevel {
+  Info = "info",
+  Medium = "medium",
+  High = "high",
+}
+
+/**
+ * @notice Why a token contract is risky to swap.
+ */
+export enum RiskCode {
+  NoBytecode = "NoBytecode",
+  NoERC165 = "NoERC165",
+  InterfaceMismatch = "InterfaceMismatch",
+  NoBoolReturn = "NoBoolReturn",
+  TransferReturnsFalse = "TransferReturnsFalse",
+  TransferReverts = "TransferReverts",
+  FeeOnTransfer = "FeeOnTransfer",
+  CallsSwapper = "CallsSwapper",
+}
+
+export type RiskFinding = {
+  level: RiskLevel;
+  code: RiskCode;
+  message: string;
+};
+
+/**
+ * @notice The checks run on the token contract of one side.
+ * @dev Checks that do not apply or could not run are left undefined, feeOnTransfer needs the snapshot option.
+ */
+export type TokenRiskReport = {
+  side: SwapSide;
+  contract: string;
+  tokenType: TokenType;
+  hasBytecode: boolean;
+  supportsERC165?: boolean;
+  interfaceMatches?: boolean;
+  returnsBool?: boolean;
+  feeOnTransfer?: boolean;
+  callsSwapper: boolean;
+  findings: RiskFinding[];
+};
+
+/**
+ * @notice The risk report of a swap, level is the highest level of any finding.
+ */
+export type SwapRiskReport = {
+  level?: RiskLevel;
+  initiator?: TokenRiskReport;
+  acceptor?: TokenRiskReport;
+};
+
+export type RiskScanOptions = {
+  /**
+   * @dev Transfer the swap quantity between the parties on a Hardhat snapshot to detect fee-on-transfer tokens.
+   */
+  snapshot?: boolean;
+};
+
+const ERC165_INTERFACE_ID = "0x01ffc9a7";
+const INVALID_INTERFACE_ID = "0xffffffff";
+const ERC721_INTERFACE_ID = "0x80ac58cd";
+const ERC1155_INTERFACE_ID = "0xd9b67a26";
+
+/**
+ * @dev bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+ */
+const EIP1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/**
+ * @dev Stands in for a party the swap leaves open, the zero address is refused by most tokens.
+ */
+const PROBE_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+
+const PUSH1 = 0x60;
+const PUSH4 = 0x63;
+const PUSH32 = 0x7f;
+const SHL = 0x1b;
+
+const UINT256_MAX = (1n << 256n) - 1n;
+const SELECTOR_ALIGNMENT = 1n << 224n;
+
+const LEVEL_ORDER = [RiskLevel.Info, RiskLevel.Medium, RiskLevel.High];
+
+const erc165Interface = new Interface(["function supportsInterface(bytes4 interfaceId) view returns (bool)"]);
+
+const swapperSelectors = new Set<string>();
+ISwapTokens__factory.createInterface().forEachFunction((fragment) => swapperSelectors.add(fragment.selector));
+
+/**
+ * @notice Checks the token contracts of both sides of a swap.
+ * @dev The declared TokenType is never checked on-chain, so a wrong one only shows when the swap fails or misbehaves.
+ * @param provider The provider to read with, the snapshot option needs a Hardhat node or fork.
+ * @param swapperAddress The swapper the swap is for.
+ * @param swap The full swap details.
+ * @param options The optional fee-on-transfer check.
+ */
+export async function scanSwapRisks(
+  provider: Provider,
+  swapperAddress: string,
+  swap: SwapLike,
+  options: RiskScanOptions = {},
+): Promise<SwapRiskReport> {
+  const normalizedSwap = toSwap(swap);
+  const report: SwapRiskReport = {};
+
+  for (const side of ["initiator", "acceptor"] as const) {
+    const tokenType = side === "initiator" ? normalizedSwap.initiatorTokenType : normalizedSwap.acceptorTokenType;
+
+    if (tokenType === TokenType.NONE) {
+      continue;
+    }
+
+    const tokenReport = await scanToken(provider, swapperAddress, normalizedSwap, side, options);
+
+    report[side] = tokenReport;
+
+    for (const { level } of tokenReport.findings) {
+      if (report.level === undefined || LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(report.level)) {
+        report.level = level;
+      }
+    }
+  }
+
+  return report;
+}
+
+async function scanToken(
+  provider: Provider,
+  swapperAddress: string,
+  swap: Swap,
+  side: SwapSide,
+  options: RiskScanOptions,
+): Promise<TokenRiskReport> {
+  const isInitiator = side === "initiator";
+  const contract = isInitiator ? swap.initiatorERCContract : swap.acceptorERCContract;
+  const tokenType = isInitiator ? swap.initiatorTokenType : swap.acceptorTokenType;
+  const quantity = isInitiator ? swap.initiatorTokenQuantity : swap.acceptorTokenQuantity;
+  const holder = orProbe(isInitiator ? swap.initiator : swap.acceptor);
+  const recipient = orProbe(isInitiator ? swap.acceptor : swap.initiator);
+
+  const bytecode = await provider.getCode(contract);
+
+  const report: TokenRiskReport = {
+    side,
+    contract,
+    tokenType,
+    hasBytecode: bytecode !== "0x",
+    callsSwapper: false,
+    findings: [],
+  };
+
+  if (!report.hasBytecode) {
+    report.findings.push({
+      level: RiskLevel.High,
+      code: RiskCode.NoBytecode,
+      message: `No contract is deployed at ${contract}.`,
+    });
+
+    return report;
+  }
+
+  report.supportsERC165 =
+    (await supportsInterface(provider, contract, ERC165_INTERFACE_ID)) === true &&
+    (await supportsInterface(provider, contract, INVALID_INTERFACE_ID)) === false;
+
+  const isERC721 = report.supportsERC165 && (await supportsInterface(provider, contract, ERC721_INTERFACE_ID));
+  const isERC1155 = report.supportsERC165 && (await supportsInterface(provider, contract, ERC1155_INTERFACE_ID));
+
+  if (tokenType === TokenType.ERC721 || tokenType === TokenType.ERC1155) {
+    const declaredInterface = tokenType === TokenType.ERC721 ? isERC721 : isERC1155;
+
+    if (!report.supportsERC165) {
+      report.findings.push({
+        level: RiskLevel.Medium,
+        code: RiskCode.NoERC165,
+        message: `${contract} does not implement ERC165, so it cannot confirm it is ${TokenType[tokenType]}.`,
+      });
+    } else {
+      report.interfaceMatches = declaredInterface === true;
+    }
+  } else {
+    report.interfaceMatches = !isERC721 && !isERC1155;
+  }
+
+  if (report.interfaceMatches === false) {
+    const detected = isERC721 ? "ERC721" : isERC1155 ? "ERC1155" : "neither ERC721 nor ERC1155";
+
+    report.findings.push({
+      level: RiskLevel.High,
+      code: RiskCode.InterfaceMismatch,
+      message: `${contract} is declared ${TokenType[tokenType]} but reports ${detected} through ERC165.`,
+    });
+  }
+
+  if (tokenType === TokenType.ERC20 || tokenType === TokenType.ERC777) {
+    await checkTransferReturn(provider, swapperAddress, contract, holder, recipient, swap, report);
+
+    if (options.snapshot && holder !== PROBE_ADDRESS) {
+      await checkFeeOnTransfer(provider, contract, holder, recipient, quantity, report);
+    }
+  }
+
+  const implementation = await getImplementation(provider, contract);
+  const implementationCode = implementation ? await provider.getCode(implementation) : "0x";
+
+  report.callsSwapper = pushesSwapperSelector(bytecode) || pushesSwapperSelector(implementationCode);
+
+  if (report.callsSwapper) {
+    report.findings.push({
+      level: RiskLevel.Medium,
+      code: RiskCode.CallsSwapper,
+      message: `${contract} references swapper functions, its transfers may call back into the swapper.`,
+    });
+  }
+
+  return report;
+}
+
+function orProbe(address: string): string {
+  return address === ZeroAddress ? PROBE_ADDRESS : address;
+}
+
+async function supportsInterface(
+  provider: Provider,
+  contract: string,
+  interfaceId: string,
+): Promise<boolean | undefined> {
+  try {
+    const result = await provider.call({
+      to: contract,
+      data: erc165Interface.encodeFunctionData("supportsInterface", [interfaceId]),
+    });
+
+    return dataLength(result) === 32 ? BigInt(result) === 1n : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @notice Calls a zero transferFrom as the swapper, the way SafeERC20 transfers the swap quantity.
+ */
+async function checkTransferReturn(
+  provider: Provider,
+  swapperAddress: string,
+  contract: string,
+  holder: string,
+  recipient: string,
+  swap: Swap,
+  report: TokenRiskReport,
+): Promise<void> {
+  let result: string;
+
+  try {
+    result = await provider.call({
+      from: swapperAddress,
+      to: contract,
+      data: IERC20__factory.createInterface().encodeFunctionData("transferFrom", [holder, recipient, 0n]),
+    });
+  } catch (error) {
+    const decoded = decodeSwapErrorFrom(error, swap);
+
+    report.findings.push({
+      level: RiskLevel.Medium,
+      code: RiskCode.TransferReverts,
+      message: `A zero transferFrom on ${contract} reverts${decoded ? ` with ${decoded.name}` : ""}.`,
+    });
+
+    return;
+  }
+
+  report.returnsBool = dataLength(result) >= 32;
+
+  if (!report.returnsBool) {
+    report.findings.push({
+      level: RiskLevel.Info,
+      code: RiskCode.NoBoolReturn,
+      message: `transferFrom on ${contract} returns nothing, SafeERC20 accepts this.`,
+    });
+  } else if (!AbiCoder.defaultAbiCoder().decode(["bool"], dataSlice(result, 0, 32))[0]) {
+    report.findings.push({
+      level: RiskLevel.High,
+      code: RiskCode.TransferReturnsFalse,
+      message: `transferFrom on ${contract} from ${holder} to ${recipient} returns false, the swap would revert.`,
+    });
+  }
+}
+
+/**
+ * @notice Transfers the swap quantity from the holder on a snapshot and compares what the recipient receives.
+ */
+async function checkFeeOnTransfer(
+  provider: Provider,
+  contract: string,
+  holder: string,
+  recipient: string,
+  quantity: bigint,
+  report: TokenRiskReport,
+): Promise<void> {
+  if (!("send" in provider)) {
+    throw new Error("The snapshot option needs a JSON-RPC provider");
+  }
+
+  const rpcProvider = provider as Provider & { send(method: string, params: unknown[]): Promise<unknown> };
+  const token = IERC20__factory.connect(contract, provider);
+  const amount = [quantity, await token.balanceOf(holder)].reduce((a, b) => (a < b ? a : b));
+
+  if (amount === 0n) {
+    return;
+  }
+
+  const snapshotId = await rpcProvider.send("evm_snapshot", []);
+
+  try {
+    await rpcProvider.send("hardhat_impersonateAccount", [holder]);
+    await rpcProvider.send("hardhat_setBalance", [holder, toQuantity(10n ** 18n)]);
+
+    const balanceBefore = await token.balanceOf(recipient);
+
+    await rpcProvider.send("eth_sendTransaction", [
+      {
+        from: holder,
+        to: contract,
+        data: IERC20__factory.createInterface().encodeFunctionData("transfer", [recipient, amount]),
+      },
+    ]);
+
+    const received = (await token.balanceOf(recipient)) - balanceBefore;
+
+    report.feeOnTransfer = received !== amount;
+
+    if (report.feeOnTransfer) {
+      report.findings.push({
+        level: RiskLevel.High,
+        code: RiskCode.FeeOnTransfer,
+        message: `Transferring ${amount} of ${contract} delivers ${received}, the counterparty receives less than the swap states.`,
+      });
+    }
+  } catch {
+    // A transfer the token refuses is reported by the transferFrom check, the fee is then left unknown.
+  } finally {
+    try {
+      await rpcProvider.send("hardhat_stopImpersonatingAccount", [holder]);
+    } finally {
+      await rpcProvider.send("evm_revert", [snapshotId]);
+    }
+  }
+}
+
+async function getImplementation(provider: Provider, contract: string): Promise<string | undefined> {
+  const slot = await provider.getStorage(contract, EIP1967_IMPLEMENTATION_SLOT);
+
+  return BigInt(slot) === 0n ? undefined : getAddress(dataSlice(slot, 12));
+}
+
+/**
+ * @notice Walks the bytecode and reports if any constant is an ISwapTokens selector.
+ * @dev Selectors are pushed as is, left aligned in 32 bytes, or as a smaller constant shifted left into place
+ * (PUSH value, PUSH1 shift, SHL) which the optimizer prefers when the selector has trailing zero bits.
+ * @dev Push data is skipped while walking so bytes inside other constants are never read as opcodes.
+ */
+function pushesSwapperSelector(bytecode: string): boolean {
+  const bytes = getBytes(bytecode);
+
+  for (let index = 0; index < bytes.length; index++) {
+    const opcode = bytes[index];
+
+    if (opcode < PUSH1 || opcode > PUSH32) {
+      continue;
+    }
+
+    // A PUSH ending the bytecode, such as in appended metadata, has no data to read
+    if (index + 1 >= bytes.length) {
+      break;
+    }
+
+    const size = opcode - PUSH1 + 1;
+    let value = BigInt(hexlify(bytes.subarray(index + 1, index + 1 + size)));
+
+    index += size;
+
+    if (opcode === PUSH4 && swapperSelectors.has(toSelector(value))) {
+      return true;
+    }
+
+    if (bytes[index + 1] === PUSH1 && bytes[index + 3] === SHL) {
+      value = (value << BigInt(bytes[index + 2])) & UINT256_MAX;
+    }
+
+    if (
+      value !== 0n &&
+      value % SELECTOR_ALIGNMENT === 0n &&
+      swapperSelectors.has(toSelector(value / SELECTOR_ALIGNMENT))
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function toSelector(value: bigint): string {
+  return toBeHex(value, 4);
+}
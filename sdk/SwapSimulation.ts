@@ -0,0 +1,361 @@
+import {
+  BigNumberish,
+  Interface,
+  LogDescription,
+  Provider,
+  TransactionReceipt,
+  ZeroAddress,
+  getAddress,
+  toBigInt,
+  toQuantity,
+} from "ethers";
+import { IERC1155__factory, IERC20__factory, IERC721__factory, ITraitSwaps__factory } from "../typechain-types";
+import { ANY_TOKEN_ID } from "./CollectionSwaps";
+import { DecodedSwapError, decodeSwapErrorFrom } from "./SwapErrors";
+import { normalizeSwap } from "./SwapHashing";
+import { Swap, SwapLike, TokenType } from "./types";
+
+/**
+ * @notice How a completeSwap is simulated.
+ * @dev Call runs completeSwap with eth_call and predicts the deltas from the swap. Snapshot sends it from the
+ * impersonated acceptor on a Hardhat node or fork, measures the real deltas and events, then reverts the snapshot.
+ */
+export enum SimulationMode {
+  Call = "call",
+  Snapshot = "snapshot",
+}
+
+/**
+ * @notice A change in one account's balance of one asset.
+ * @dev ETH is reported with TokenType.NONE and the zero address as contract, the acceptor gas cost excluded.
+ * @dev ERC721 amounts are 1 or -1 for the tokenId changing owner.
+ */
+export type BalanceDelta = {
+  account: string;
+  tokenType: TokenType;
+  contract: string;
+  tokenId: bigint;
+  amount: bigint;
+};
+
+export type SimulatedEthPortionTransfer = {
+  user: string;
+  amount: bigint;
+};
+
+/**
+ * @notice The outcome of a simulated completeSwap.
+ * @dev On a revert error holds the decoded error and reason the raw message, deltas and transfers are then empty.
+ */
+export type CompleteSimulation = {
+  mode: SimulationMode;
+  success: boolean;
+  initiator: string;
+  acceptor: string;
+  deltas: BalanceDelta[];
+  ethPortionTransfers: SimulatedEthPortionTransfer[];
+  gasUsed?: bigint;
+  error?: DecodedSwapError;
+  reason?: string;
+};
+
+/**
+ * @dev A provider that can send raw JSON-RPC requests, like the Hardhat and ethers JSON-RPC providers.
+ */
+type RpcProvider = Provider & { send(method: string, params: unknown[]): Promise<unknown> };
+
+type Asset = {
+  tokenType: TokenType;
+  contract: string;
+  tokenId: bigint;
+};
+
+const swapperInterface: Interface = ITraitSwaps__factory.createInterface();
+
+/**
+ * @notice Simulates an acceptor completing a swap and reports what would move for both parties.
+ * @dev Reverts from the token contracts are surfaced like the swapper's own, e.g. SafeERC20FailedOperation for an
+ * ERC20 transferFrom returning false.
+ * @dev With an acceptorTokenId the swap is completed with completeCollectionSwap, or completeTraitSwap when a proof is
+ * given too, and the deltas are those of the chosen tokenId.
+ * @param provider The provider to simulate on, Snapshot mode needs a Hardhat node or fork.
+ * @param swapperAddress The swapper address.
+ * @param swapId The ID of the swap.
+ * @param swap The full swap data as retrieved from the initiating event.
+ * @param acceptor The account completing the swap.
+ * @param mode The simulation mode, defaults to Call.
+ * @param acceptorTokenId The tokenId chosen to complete a collection or trait swap.
+ * @param proof The Merkle proof of the chosen tokenId for a trait swap.
+ */
+export async function simulateComplete(
+  provider: Provider,
+  swapperAddress: string,
+  swapId: BigNumberish,
+  swap: SwapLike,
+  acceptor: string,
+  mode: SimulationMode = SimulationMode.Call,
+  acceptorTokenId?: BigNumberish,
+  proof?: string[],
+): Promise<CompleteSimulation> {
+  const normalizedSwap = normalizeSwap(swap);
+  const from = getAddress(acceptor);
+  const realAcceptor = normalizedSwap.acceptor === ZeroAddress ? from : normalizedSwap.acceptor;
+
+  if (proof !== undefined && acceptorTokenId === undefined) {
+    throw new Error("A proof is only used with the acceptorTokenId it proves");
+  }
+
+  // The swap as it would be transferred, with the chosen tokenId in place of ANY_TOKEN_ID.
+  const completedSwap =
+    acceptorTokenId === undefined ? normalizedSwap : { ...normalizedSwap, acceptorTokenId: toBigInt(acceptorTokenId) };
+
+  const transaction = {
+    from,
+    to: swapperAddress,
+    data: encodeComplete(swapId, normalizedSwap, acceptorTokenId, proof),
+    value: normalizedSwap.acceptorETHPortion,
+  };
+
+  const simulation: CompleteSimulation = {
+    mode,
+    success: false,
+    initiator: normalizedSwap.initiator,
+    acceptor: realAcceptor,
+    deltas: [],
+    ethPortionTransfers: [],
+  };
+
+  if (mode === SimulationMode.Call) {
+    try {
+      await provider.call(transaction);
+    } catch (error) {
+      return withRevert(simulation, error, normalizedSwap);
+    }
+
+    return {
+      ...simulation,
+      success: true,
+      deltas: predictDeltas(completedSwap, realAcceptor),
+      ethPortionTransfers: predictEthPortionTransfers(completedSwap, realAcceptor),
+    };
+  }
+
+  if (!("send" in provider)) {
+    throw new Error("Snapshot simulation needs a JSON-RPC provider");
+  }
+
+  const rpcProvider = provider as RpcProvider;
+  const accounts = [normalizedSwap.initiator, realAcceptor];
+  const assets = getAssets(completedSwap);
+  const snapshotId = await rpcProvider.send("evm_snapshot", []);
+
+  try {
+    await rpcProvider.send("hardhat_impersonateAccount", [from]);
+
+    const balancesBefore = await readBalances(provider, accounts, assets);
+
+    let receipt: TransactionReceipt | null;
+
+    try {
+      const hash = (await rpcProvider.send("eth_sendTransaction", [
+        { ...transaction, value: toQuantity(transaction.value) },
+      ])) as string;
+
+      receipt = await provider.getTransactionReceipt(hash);
+    } catch (error) {
+      return withRevert(simulation, error, normalizedSwap);
+    }
+
+    if (!receipt) {
+      throw new Error("Snapshot simulation needs a node that mines transactions immediately");
+    }
+
+    const balancesAfter = await readBalances(provider, accounts, assets);
+    const deltas: BalanceDelta[] = [];
+
+    accounts.forEach((account, accountIndex) => {
+      assets.forEach((asset, assetIndex) => {
+        let amount = balancesAfter[accountIndex][assetIndex] - balancesBefore[accountIndex][assetIndex];
+
+        if (asset.tokenType === TokenType.NONE && account === from) {
+          amount += receipt.fee;
+        }
+
+        if (amount !== 0n) {
+          deltas.push({ account, ...asset, amount });
+        }
+      });
+    });
+
+    const ethPortionTransfers = receipt.logs
+      .filter((log) => getAddress(log.address) === getAddress(swapperAddress))
+      .map((log) => swapperInterface.parseLog(log))
+      .filter((parsedLog): parsedLog is LogDescription => parsedLog?.name === "EthPortionTransferred")
+      .map((parsedLog) => ({ user: parsedLog.args.user as string, amount: parsedLog.args.amount as bigint }));
+
+    return { ...simulation, success: true, deltas, ethPortionTransfers, gasUsed: receipt.gasUsed };
+  } finally {
+    // The snapshot is reverted even if stopping the impersonation fails, leaving no simulated state behind.
+    try {
+      await rpcProvider.send("hardhat_stopImpersonatingAccount", [from]);
+    } finally {
+      await rpcProvider.send("evm_revert", [snapshotId]);
+    }
+  }
+}
+
+/**
+ * @notice Encodes the complete function matching how the acceptorTokenId is chosen.
+ */
+function encodeComplete(swapId: BigNumberish, swap: Swap, acceptorTokenId?: BigNumberish, proof?: string[]): string {
+  if (acceptorTokenId === undefined) {
+    return swapperInterface.encodeFunctionData("completeSwap", [swapId, swap]);
+  }
+
+  if (proof === undefined) {
+    return swapperInterface.encodeFunctionData("completeCollectionSwap", [swapId, swap, acceptorTokenId]);
+  }
+
+  return swapperInterface.encodeFunctionData("completeTraitSwap", [swapId, swap, acceptorTokenId, proof]);
+}
+
+function withRevert(simulation: CompleteSimulation, error: unknown, swap: Swap): CompleteSimulation {
+  return {
+    ...simulation,
+    error: decodeSwapErrorFrom(error, swap),
+    reason: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * @notice The assets a swap moves, ETH first when either side has an ETH portion.
+ */
+function getAssets(swap: Swap): Asset[] {
+  const assets: Asset[] = [];
+
+  if (swap.initiatorETHPortion > 0n || swap.acceptorETHPortion > 0n) {
+    assets.push({ tokenType: TokenType.NONE, contract: ZeroAddress, tokenId: 0n });
+  }
+
+  for (const [tokenType, contract, tokenId] of [
+    [swap.initiatorTokenType, swap.initiatorERCContract, swap.initiatorTokenId] as const,
+    [swap.acceptorTokenType, swap.acceptorERCContract, swap.acceptorTokenId] as const,
+  ]) {
+    if (tokenType === TokenType.NONE) {
+      continue;
+    }
+
+    const isNft = tokenType === TokenType.ERC721 || tokenType === TokenType.ERC1155;
+
+    // Without a chosen tokenId a collection side never transfers, completeSwap reverts with AcceptorTokenIdNotChosen.
+    if (isNft && tokenId === ANY_TOKEN_ID) {
+      continue;
+    }
+
+    // ERC20 and ERC777 balances do not depend on the tokenId, which the swap may leave at any value.
+    const assetTokenId = isNft ? tokenId : 0n;
+
+    if (!assets.some((asset) => asset.contract === contract && asset.tokenId === assetTokenId)) {
+      assets.push({ tokenType, contract, tokenId: assetTokenId });
+    }
+  }
+
+  return assets;
+}
+
+async function readBalances(provider: Provider, accounts: string[], assets: Asset[]): Promise<bigint[][]> {
+  const balances: bigint[][] = [];
+
+  for (const account of accounts) {
+    const accountBalances: bigint[] = [];
+
+    for (const { tokenType, contract, tokenId } of assets) {
+      switch (tokenType) {
+        case TokenType.NONE:
+          accountBalances.push(await provider.getBalance(account));
+          break;
+        case TokenType.ERC20:
+        case TokenType.ERC777:
+          accountBalances.push(await IERC20__factory.connect(contract, provider).balanceOf(account));
+          break;
+        case TokenType.ERC721: {
+          const tokenOwner = await IERC721__factory.connect(contract, provider).ownerOf(tokenId);
+
+          accountBalances.push(tokenOwner === account ? 1n : 0n);
+          break;
+        }
+        case TokenType.ERC1155:
+          accountBalances.push(await IERC1155__factory.connect(contract, provider).balanceOf(account, tokenId));
+          break;
+      }
+    }
+
+    balances.push(accountBalances);
+  }
+
+  return balances;
+}
+
+/**
+ * @notice Predicts the deltas of a successful completeSwap from the swap alone.
+ * @dev The initiator ETH portion was paid into the swapper on initiation, so only the acceptor receives it now.
+ */
+function predictDeltas(swap: Swap, acceptor: string): BalanceDelta[] {
+  const deltas: BalanceDelta[] = [];
+
+  if (swap.acceptorETHPortion > 0n) {
+    const eth = { tokenType: TokenType.NONE, contract: ZeroAddress, tokenId: 0n };
+
+    deltas.push({ account: swap.initiator, ...eth, amount: swap.acceptorETHPortion });
+    deltas.push({ account: acceptor, ...eth, amount: -swap.acceptorETHPortion });
+  }
+
+  if (swap.initiatorETHPortion > 0n) {
+    deltas.push({
+      account: acceptor,
+      tokenType: TokenType.NONE,
+      contract: ZeroAddress,
+      tokenId: 0n,
+      amount: swap.initiatorETHPortion,
+    });
+  }
+
+  const sides = [
+    [swap.initiatorTokenType, swap.initiatorERCContract, swap.initiatorTokenId, swap.initiatorTokenQuantity] as const,
+    [swap.acceptorTokenType, swap.acceptorERCContract, swap.acceptorTokenId, swap.acceptorTokenQuantity] as const,
+  ];
+
+  sides.forEach(([tokenType, contract, tokenId, quantity], side) => {
+    if (tokenType === TokenType.NONE) {
+      return;
+    }
+
+    const sender = side === 0 ? swap.initiator : acceptor;
+    const recipient = side === 0 ? acceptor : swap.initiator;
+    const amount = tokenType === TokenType.ERC721 ? 1n : quantity;
+    const asset = {
+      tokenType,
+      contract,
+      tokenId: tokenType === TokenType.ERC721 || tokenType === TokenType.ERC1155 ? tokenId : 0n,
+    };
+
+    deltas.push({ account: sender, ...asset, amount: -amount });
+    deltas.push({ account: recipient, ...asset, amount });
+  });
+
+  return deltas;
+}
+
+function predictEthPortionTransfers(swap: Swap, acceptor: string): SimulatedEthPortionTransfer[] {
+  const transfers: SimulatedEthPortionTransfer[] = [];
+
+  if (swap.acceptorETHPortion > 0n) {
+    transfers.push({ user: swap.initiator, amount: swap.acceptorETHPortion });
+  }
+
+  if (swap.initiatorETHPortion > 0n) {
+    transfers.push({ user: acceptor, amount: swap.initiatorETHPortion });
+  }
+
+  return transfers;
+}
@@ -0,0 +1,182 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { getAddress } from "ethers";
+import { BundleSwap, Swap } from "./types";
+
+/**
+ * @notice The lifecycle state of an indexed swap.
+ * @dev Expired is never stored, it is derived from an open swap's expiryDate when read. Cancelled swaps were open when
+ * the initiator raised the minimum nonce, they can only be removed.
+ */
+export enum SwapState {
+  Open = "open",
+  Completed = "completed",
+  Removed = "removed",
+  Expired = "expired",
+  Cancelled = "cancelled",
+}
+
+/**
+ * @notice An EthPortionTransferred event attributed to the swap completed or removed in the same transaction.
+ */
+export type EthPortionTransfer = {
+  user: string;
+  amount: bigint;
+  blockNumber: number;
+  transactionHash: string;
+};
+
+/**
+ * @notice A swap rebuilt from its SwapInitiated, SwapComplete, SwapRemoved and NonceIncremented events.
+ * @dev acceptor is the real acceptor from SwapComplete, which differs from swap.acceptor for open swaps.
+ * @dev acceptorTokenId is the tokenId chosen from AcceptorTokenIdChosen when a collection or trait swap is completed,
+ * tokenIdsRoot the Merkle root of the tokenIds a trait swap accepts from TokenIdsRootSet.
+ * @dev Stores only ever hold the Open, Completed, Removed and Cancelled states.
+ */
+export type IndexedSwap = {
+  swapId: bigint;
+  swap: Swap;
+  state: SwapState;
+  blockNumber: number;
+  transactionHash: string;
+  acceptor?: string;
+  acceptorTokenId?: bigint;
+  tokenIdsRoot?: string;
+  closedBlockNumber?: number;
+  closedTransactionHash?: string;
+  ethPortionTransfers: EthPortionTransfer[];
+};
+
+/**
+ * @notice A bundle swap rebuilt from its BundleSwapInitiated, BundleSwapComplete and SwapRemoved events.
+ */
+export type IndexedBundleSwap = Omit<IndexedSwap, "swap"> & { swap: BundleSwap };
+
+/**
+ * @notice Persistence used by the SwapIndexer.
+ * @dev saveSwaps and the checkpoint are written together so a restart never skips or double counts a block range.
+ * @dev Swap IDs are shared between single token and bundle swaps, so an ID is only ever in one of the two.
+ */
+export interface SwapStore {
+  getCheckpoint(): Promise<number | undefined>;
+  getSwap(swapId: bigint): Promise<IndexedSwap | undefined>;
+  getSwaps(): Promise<IndexedSwap[]>;
+  getBundleSwap(swapId: bigint): Promise<IndexedBundleSwap | undefined>;
+  getBundleSwaps(): Promise<IndexedBundleSwap[]>;
+  /**
+   * @notice Retrieves the swaps of an initiator stored as open, expired ones included, which a nonce raise cancels.
+   */
+  getOpenSwapsOf(initiator: string): Promise<IndexedSwap[]>;
+  getOpenBundleSwapsOf(initiator: string): Promise<IndexedBundleSwap[]>;
+  saveSwaps(swaps: IndexedSwap[], checkpoint: number, bundleSwaps?: IndexedBundleSwap[]): Promise<void>;
+}
+
+/**
+ * @notice Keeps indexed swaps in memory only.
+ */
+export class MemorySwapStore implements SwapStore {
+  protected swaps = new Map<bigint, IndexedSwap>();
+  protected bundleSwaps = new Map<bigint, IndexedBundleSwap>();
+  protected checkpoint: number | undefined;
+
+  async getCheckpoint(): Promise<number | undefined> {
+    return this.checkpoint;
+  }
+
+  async getSwap(swapId: bigint): Promise<IndexedSwap | undefined> {
+    return this.swaps.get(swapId);
+  }
+
+  async getSwaps(): Promise<IndexedSwap[]> {
+    return [...this.swaps.values()].sort((a, b) => (a.swapId < b.swapId ? -1 : 1));
+  }
+
+  async getBundleSwap(swapId: bigint): Promise<IndexedBundleSwap | undefined> {
+    return this.bundleSwaps.get(swapId);
+  }
+
+  async getBundleSwaps(): Promise<IndexedBundleSwap[]> {
+    return [...this.bundleSwaps.values()].sort((a, b) => (a.swapId < b.swapId ? -1 : 1));
+  }
+
+  async getOpenSwapsOf(initiator: string): Promise<IndexedSwap[]> {
+    return (await this.getSwaps()).filter((indexedSwap) => isOpenSwapOf(indexedSwap, initiator));
+  }
+
+  async getOpenBundleSwapsOf(initiator: string): Promise<IndexedBundleSwap[]> {
+    return (await this.getBundleSwaps()).filter((bundleSwap) => isOpenSwapOf(bundleSwap, initiator));
+  }
+
+  async saveSwaps(swaps: IndexedSwap[], checkpoint: number, bundleSwaps: IndexedBundleSwap[] = []): Promise<void> {
+    for (const swap of swaps) {
+      this.swaps.set(swap.swapId, swap);
+    }
+
+    for (const bundleSwap of bundleSwaps) {
+      this.bundleSwaps.set(bundleSwap.swapId, bundleSwap);
+    }
+
+    this.checkpoint = checkpoint;
+  }
+}
+
+/**
+ * @notice Keeps indexed swaps in memory and persists them to a JSON file so indexing resumes after a restart.
+ * @dev The file is written to a temporary path and renamed so a crash mid-write leaves the last checkpoint intact.
+ */
+export class JsonFileSwapStore extends MemorySwapStore {
+  private readonly path: string;
+
+  constructor(path: string) {
+    super();
+    this.path = path;
+
+    if (existsSync(path)) {
+      // Files written before bundle swaps were indexed have no bundleSwaps.
+      const {
+        checkpoint,
+        swaps,
+        bundleSwaps = [],
+      } = JSON.parse(readFileSync(path, "utf8"), reviveBigInt) as {
+        checkpoint: number;
+        swaps: IndexedSwap[];
+        bundleSwaps?: IndexedBundleSwap[];
+      };
+
+      this.checkpoint = checkpoint;
+      this.swaps = new Map(swaps.map((swap) => [swap.swapId, swap]));
+      this.bundleSwaps = new Map(bundleSwaps.map((bundleSwap) => [bundleSwap.swapId, bundleSwap]));
+    }
+  }
+
+  async saveSwaps(swaps: IndexedSwap[], checkpoint: number, bundleSwaps: IndexedBundleSwap[] = []): Promise<void> {
+    await super.saveSwaps(swaps, checkpoint, bundleSwaps);
+
+    const temporaryPath = `${this.path}.tmp`;
+
+    writeFileSync(
+      temporaryPath,
+      JSON.stringify(
+        { checkpoint: this.checkpoint, swaps: await this.getSwaps(), bundleSwaps: await this.getBundleSwaps() },
+        replaceBigInt,
+        2,
+      ),
+    );
+    renameSync(temporaryPath, this.path);
+  }
+}
+
+function isOpenSwapOf(indexedSwap: IndexedSwap | IndexedBundleSwap, initiator: string): boolean {
+  return indexedSwap.state === SwapState.Open && getAddress(indexedSwap.swap.initiator) === getAddress(initiator);
+}
+
+function replaceBigInt(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? { $bigint: value.toString() } : value;
+}
+
+function reviveBigInt(_key: string, value: unknown): unknown {
+  if (value !== null && typeof value === "object" && "$bigint" in value) {
+    return BigInt((value as { $bigint: string }).$bigint);
+  }
+
+  return value;
+}
@@ -0,0 +1,452 @@
+import { BigNumberish, ZeroAddress, ZeroHash, getAddress, toBigInt } from "ethers";
+import { ANY_TOKEN_ID } from "./CollectionSwaps";
+import { toAddress, toTokenType } from "./SwapHashing";
+import { BundleItemLike, BundleSwapLike, SwapLike, TokenType, TokenTypeLike } from "./types";
+
+/**
+ * @notice The ISwapTokens errors initiateSwap can revert with, and the errors initiateBundleSwap, completeSignedSwap and
+ * initiateTraitSwap add.
+ * @dev InvalidTokenType is not a custom error, the ABI decoder reverts without data on an out of range enum instead.
+ */
+export type SwapViolationError =
+  | "SwapIsInThePast"
+  | "ZeroAddressDisallowed"
+  | "InitiatorNotMatched"
+  | "InitiatorEthPortionNotMatched"
+  | "TwoWayEthPortionsDisallowed"
+  | "ZeroAddressSetForValidTokenType"
+  | "TokenQuantityMissing"
+  | "ValueOrTokenMissing"
+  | "NoneTokenTypeInBundle"
+  | "SignedSwapInitiatorETHDisallowed"
+  | "AcceptorTokenIdNotChosen"
+  | "EmptyTokenIdsRoot"
+  | "NotCollectionSwap"
+  | "InvalidTokenType";
+
+export type SwapSide = "initiator" | "acceptor";
+
+/**
+ * @notice A single rule initiateSwap would revert on.
+ * @dev args match the custom error arguments so they can be compared with a decoded revert.
+ * @dev item is the index of the offending item of a bundle swap side.
+ */
+export type SwapViolation = {
+  error: SwapViolationError;
+  side?: SwapSide;
+  item?: number;
+  args: unknown[];
+  message: string;
+};
+
+/**
+ * @notice Thrown before sending a transaction that initiateSwap would revert.
+ */
+export class SwapValidationError extends Error {
+  readonly violations: SwapViolation[];
+
+  constructor(violations: SwapViolation[]) {
+    super(`Swap is invalid: ${violations.map((violation) => violation.message).join(" ")}`);
+    this.name = "SwapValidationError";
+    this.violations = violations;
+  }
+}
+
+/**
+ * @notice Validates a swap against every rule initiateSwap enforces.
+ * @dev Violations are listed in the order the contract checks them, so the first is the error the contract reverts with.
+ * @param swap The swap to validate.
+ * @param sender The account that will send initiateSwap.
+ * @param msgValue The ETH value that will be sent.
+ * @param blockTimestamp The timestamp to check expiry against, defaults to now.
+ * @return All violations, empty if the swap would be accepted.
+ */
+export function validateSwap(
+  swap: SwapLike,
+  sender: string,
+  msgValue: BigNumberish,
+  blockTimestamp: BigNumberish = Math.floor(Date.now() / 1000),
+): SwapViolation[] {
+  const violations: SwapViolation[] = [];
+
+  const initiator = toAddress(swap.initiator);
+  const acceptor = toAddress(swap.acceptor);
+  const value = toBigInt(msgValue);
+  const initiatorETHPortion = toBigInt(swap.initiatorETHPortion);
+  const acceptorETHPortion = toBigInt(swap.acceptorETHPortion);
+  const initiatorTokenType = toValidTokenType(swap.initiatorTokenType);
+  const acceptorTokenType = toValidTokenType(swap.acceptorTokenType);
+
+  for (const [side, tokenType, rawTokenType] of [
+    ["initiator", initiatorTokenType, swap.initiatorTokenType],
+    ["acceptor", acceptorTokenType, swap.acceptorTokenType],
+  ] as const) {
+    if (tokenType === undefined) {
+      violations.push({
+        error: "InvalidTokenType",
+        side,
+        args: [rawTokenType],
+        message: `The ${side} token type ${rawTokenType} is not a valid TokenType.`,
+      });
+    }
+  }
+
+  if (toBigInt(swap.expiryDate) < toBigInt(blockTimestamp)) {
+    violations.push({
+      error: "SwapIsInThePast",
+      args: [],
+      message: "The expiry date is in the past.",
+    });
+  }
+
+  if (
+    acceptor === ZeroAddress &&
+    acceptorTokenType === TokenType.ERC721 &&
+    toBigInt(swap.acceptorTokenId) !== ANY_TOKEN_ID
+  ) {
+    violations.push({
+      error: "ZeroAddressDisallowed",
+      side: "acceptor",
+      args: [],
+      message: "An ERC721 acceptor side requires an acceptor address.",
+    });
+  }
+
+  if (getAddress(sender) !== initiator) {
+    violations.push({
+      error: "InitiatorNotMatched",
+      side: "initiator",
+      args: [initiator, getAddress(sender)],
+      message: `The initiator ${initiator} is not the sender ${getAddress(sender)}.`,
+    });
+  }
+
+  if (value !== initiatorETHPortion) {
+    violations.push({
+      error: "InitiatorEthPortionNotMatched",
+      side: "initiator",
+      args: [initiatorETHPortion, value],
+      message: `The initiator ETH portion ${initiatorETHPortion} does not match the value ${value}.`,
+    });
+  }
+
+  if (value > 0n && acceptorETHPortion > 0n) {
+    violations.push({
+      error: "TwoWayEthPortionsDisallowed",
+      args: [],
+      message: "Only one side can provide ETH.",
+    });
+  }
+
+  if (initiatorTokenType === TokenType.NONE && acceptorTokenType === TokenType.NONE) {
+    violations.push({
+      error: "TwoWayEthPortionsDisallowed",
+      args: [],
+      message: "Both sides cannot be ETH only.",
+    });
+  }
+
+  if (initiatorTokenType !== undefined) {
+    violations.push(
+      ...validateSide(
+        "initiator",
+        initiatorTokenType,
+        toAddress(swap.initiatorERCContract),
+        initiatorETHPortion,
+        toBigInt(swap.initiatorTokenQuantity),
+      ),
+    );
+  }
+
+  if (acceptorTokenType !== undefined) {
+    violations.push(
+      ...validateSide(
+        "acceptor",
+        acceptorTokenType,
+        toAddress(swap.acceptorERCContract),
+        acceptorETHPortion,
+        toBigInt(swap.acceptorTokenQuantity),
+      ),
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * @notice Validates a trait swap against every rule initiateTraitSwap enforces.
+ * @dev The root and the collection side are checked ahead of the initiateSwap rules, as the contract does.
+ * @param swap The swap to validate.
+ * @param tokenIdsRoot The Merkle root of the acceptable acceptorTokenIds.
+ * @param sender The account that will send initiateTraitSwap.
+ * @param msgValue The ETH value that will be sent.
+ * @param blockTimestamp The timestamp to check expiry against, defaults to now.
+ * @return All violations, empty if the trait swap would be accepted.
+ */
+export function validateTraitSwap(
+  swap: SwapLike,
+  tokenIdsRoot: string,
+  sender: string,
+  msgValue: BigNumberish,
+  blockTimestamp: BigNumberish = Math.floor(Date.now() / 1000),
+): SwapViolation[] {
+  const violations: SwapViolation[] = [];
+
+  if (tokenIdsRoot === ZeroHash) {
+    violations.push({
+      error: "EmptyTokenIdsRoot",
+      args: [],
+      message: "A trait swap requires a Merkle root of tokenIds.",
+    });
+  }
+
+  const acceptorTokenType = toValidTokenType(swap.acceptorTokenType);
+
+  if (
+    toBigInt(swap.acceptorTokenId) !== ANY_TOKEN_ID ||
+    (acceptorTokenType !== TokenType.ERC721 && acceptorTokenType !== TokenType.ERC1155)
+  ) {
+    violations.push({
+      error: "NotCollectionSwap",
+      side: "acceptor",
+      args: [],
+      message: "A trait swap must accept any tokenId of an ERC721 or ERC1155 collection.",
+    });
+  }
+
+  return [...violations, ...validateSwap(swap, sender, msgValue, blockTimestamp)];
+}
+
+/**
+ * @notice Validates a swap about to be signed against the initiateSwap rules completeSignedSwap enforces.
+ * @dev The initiator never sends ETH with a signed swap, so an initiator ETH portion is reported on its own. The acceptor
+ * cannot choose the tokenId of a signed swap, so collection swaps are reported too.
+ * @param swap The swap to validate.
+ * @param signer The account signing the swap.
+ * @param blockTimestamp The timestamp to check expiry against, defaults to now.
+ * @return All violations, empty if the signed swap could be completed.
+ */
+export function validateSignedSwap(
+  swap: SwapLike,
+  signer: string,
+  blockTimestamp: BigNumberish = Math.floor(Date.now() / 1000),
+): SwapViolation[] {
+  const violations: SwapViolation[] = validateSwap(swap, signer, 0n, blockTimestamp).map((violation) =>
+    violation.error === "InitiatorEthPortionNotMatched"
+      ? {
+          error: "SignedSwapInitiatorETHDisallowed",
+          side: "initiator",
+          args: [],
+          message: "A signed swap cannot have an initiator ETH portion.",
+        }
+      : violation,
+  );
+
+  const acceptorTokenType = toValidTokenType(swap.acceptorTokenType);
+
+  if (
+    toBigInt(swap.acceptorTokenId) === ANY_TOKEN_ID &&
+    (acceptorTokenType === TokenType.ERC721 || acceptorTokenType === TokenType.ERC1155)
+  ) {
+    violations.push({
+      error: "AcceptorTokenIdNotChosen",
+      side: "acceptor",
+      args: [],
+      message: "A signed swap cannot accept any tokenId of a collection.",
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * @notice Validates a bundle swap against every rule initiateBundleSwap enforces.
+ * @dev Violations are listed in the order the contract checks them, so the first is the error the contract reverts with.
+ * @param swap The bundle swap to validate.
+ * @param sender The account that will send initiateBundleSwap.
+ * @param msgValue The ETH value that will be sent.
+ * @param blockTimestamp The timestamp to check expiry against, defaults to now.
+ * @return All violations, empty if the bundle swap would be accepted.
+ */
+export function validateBundleSwap(
+  swap: BundleSwapLike,
+  sender: string,
+  msgValue: BigNumberish,
+  blockTimestamp: BigNumberish = Math.floor(Date.now() / 1000),
+): SwapViolation[] {
+  const violations: SwapViolation[] = [];
+
+  const initiator = toAddress(swap.initiator);
+  const acceptor = toAddress(swap.acceptor);
+  const value = toBigInt(msgValue);
+  const initiatorETHPortion = toBigInt(swap.initiatorETHPortion);
+  const acceptorETHPortion = toBigInt(swap.acceptorETHPortion);
+
+  for (const [side, items] of [
+    ["initiator", swap.initiatorItems],
+    ["acceptor", swap.acceptorItems],
+  ] as const) {
+    items.forEach(({ tokenType }, item) => {
+      if (toValidTokenType(tokenType) === undefined) {
+        violations.push({
+          error: "InvalidTokenType",
+          side,
+          item,
+          args: [tokenType],
+          message: `The ${side} item ${item} token type ${tokenType} is not a valid TokenType.`,
+        });
+      }
+    });
+  }
+
+  if (toBigInt(swap.expiryDate) < toBigInt(blockTimestamp)) {
+    violations.push({
+      error: "SwapIsInThePast",
+      args: [],
+      message: "The expiry date is in the past.",
+    });
+  }
+
+  if (
+    acceptor === ZeroAddress &&
+    swap.acceptorItems.some(({ tokenType }) => toValidTokenType(tokenType) === TokenType.ERC721)
+  ) {
+    violations.push({
+      error: "ZeroAddressDisallowed",
+      side: "acceptor",
+      args: [],
+      message: "An ERC721 acceptor item requires an acceptor address.",
+    });
+  }
+
+  if (getAddress(sender) !== initiator) {
+    violations.push({
+      error: "InitiatorNotMatched",
+      side: "initiator",
+      args: [initiator, getAddress(sender)],
+      message: `The initiator ${initiator} is not the sender ${getAddress(sender)}.`,
+    });
+  }
+
+  if (value !== initiatorETHPortion) {
+    violations.push({
+      error: "InitiatorEthPortionNotMatched",
+      side: "initiator",
+      args: [initiatorETHPortion, value],
+      message: `The initiator ETH portion ${initiatorETHPortion} does not match the value ${value}.`,
+    });
+  }
+
+  if (value > 0n && acceptorETHPortion > 0n) {
+    violations.push({
+      error: "TwoWayEthPortionsDisallowed",
+      args: [],
+      message: "Only one side can provide ETH.",
+    });
+  }
+
+  if (swap.initiatorItems.length === 0 && swap.acceptorItems.length === 0) {
+    violations.push({
+      error: "TwoWayEthPortionsDisallowed",
+      args: [],
+      message: "Both sides cannot be ETH only.",
+    });
+  }
+
+  violations.push(...validateBundleSide("initiator", swap.initiatorItems, initiatorETHPortion));
+  violations.push(...validateBundleSide("acceptor", swap.acceptorItems, acceptorETHPortion));
+
+  return violations;
+}
+
+/**
+ * @notice Mirrors _validateBundleItems, validating each item of one side of a bundle swap as a single token side.
+ */
+function validateBundleSide(side: SwapSide, items: BundleItemLike[], ethPortion: bigint): SwapViolation[] {
+  if (items.length === 0) {
+    return validateSide(side, TokenType.NONE, ZeroAddress, ethPortion, 0n);
+  }
+
+  return items.flatMap((bundleItem, item) => {
+    const tokenType = toValidTokenType(bundleItem.tokenType);
+
+    if (tokenType === undefined) {
+      return [];
+    }
+
+    if (tokenType === TokenType.NONE) {
+      return [
+        {
+          error: "NoneTokenTypeInBundle" as const,
+          side,
+          item,
+          args: [],
+          message: `The ${side} item ${item} has the NONE token type.`,
+        },
+      ];
+    }
+
+    return validateSide(
+      side,
+      tokenType,
+      toAddress(bundleItem.ercContract),
+      ethPortion,
+      toBigInt(bundleItem.tokenQuantity),
+    ).map((violation) => ({ ...violation, item, message: violation.message.replace(side, `${side} item ${item}`) }));
+  });
+}
+
+/**
+ * @notice Mirrors _getTokenTypeValidator and the per token type validators for one side of the swap.
+ * @dev The contract stops at the zero address check, both are reported here as each needs fixing.
+ */
+function validateSide(
+  side: SwapSide,
+  tokenType: TokenType,
+  ercContract: string,
+  ethPortion: bigint,
+  tokenQuantity: bigint,
+): SwapViolation[] {
+  const violations: SwapViolation[] = [];
+
+  if (tokenType === TokenType.NONE) {
+    if (ethPortion === 0n) {
+      violations.push({
+        error: "ValueOrTokenMissing",
+        side,
+        args: [],
+        message: `The ${side} side has no token and no ETH portion.`,
+      });
+    }
+
+    return violations;
+  }
+
+  if (ercContract === ZeroAddress) {
+    violations.push({
+      error: "ZeroAddressSetForValidTokenType",
+      side,
+      args: [],
+      message: `The ${side} token contract is the zero address.`,
+    });
+  }
+
+  if (tokenType !== TokenType.ERC721 && tokenQuantity === 0n) {
+    violations.push({
+      error: "TokenQuantityMissing",
+      side,
+      args: [],
+      message: `The ${side} token quantity is zero.`,
+    });
+  }
+
+  return violations;
+}
+
+function toValidTokenType(tokenType: TokenTypeLike): TokenType | undefined {
+  try {
+    return toTokenType(tokenType);
+  } catch {
+    return undefined;
+  }
+}
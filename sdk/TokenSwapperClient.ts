@@ -0,0 +1,581 @@
+import { BigNumberish, ContractRunner, ContractTransactionReceipt, LogDescription, Provider, Signer } from "ethers";
+import {
+  NonCancunTokenSwapper,
+  NonCancunTokenSwapper__factory,
+  TokenSwapper,
+  TokenSwapper__factory,
+} from "../typechain-types";
+import { NonPayableOverrides } from "../typechain-types/common";
+import { OwnedTokenOptions, chooseAcceptorTokenId } from "./CollectionSwaps";
+import { SignedSwap, SignedSwapLike, signSwap, toSignedSwap } from "./SignedSwaps";
+import { ApprovalResult, EnsureApprovalsOptions, ensureApprovals, waitForReceipt } from "./SwapApprovals";
+import { normalizeSwap, toSwap, verifySwapAgainstChain } from "./SwapHashing";
+import { NonceIncrement } from "./SwapNonces";
+import { CompleteSimulation, SimulationMode, simulateComplete } from "./SwapSimulation";
+import { SwapSide, SwapValidationError, SwapViolation, validateSwap, validateTraitSwap } from "./SwapValidation";
+import { TokenIdMerkleTree } from "./TraitSwaps";
+import { Swap, SwapLike, SwapStatus } from "./types";
+
+export enum SwapperVariant {
+  TokenSwapper = "TokenSwapper",
+  NonCancunTokenSwapper = "NonCancunTokenSwapper",
+}
+
+/**
+ * @dev NonCancunTokenSwapper inherits ReentrancyGuard ahead of TokenSwapperBase, which places isSameContractSwap
+ * in slot 3 where it always rests at 1 outside of a completeSwap. TokenSwapper uses transient storage and has
+ * nothing in slot 3.
+ */
+const NON_CANCUN_SAME_CONTRACT_SWAP_SLOT = 3n;
+
+export type TokenSwapperClientOptions = {
+  variant?: SwapperVariant;
+  deploymentBlock?: number;
+};
+
+export type InitiateSwapResult = {
+  swapId: bigint;
+  swap: Swap;
+  receipt: ContractTransactionReceipt;
+};
+
+export type InitiateTraitSwapResult = InitiateSwapResult & {
+  tokenIdsRoot: string;
+};
+
+export type CompleteSwapResult = {
+  swapId: bigint;
+  initiator: string;
+  acceptor: string;
+  swap: Swap;
+  receipt: ContractTransactionReceipt;
+};
+
+export type CompleteCollectionSwapResult = CompleteSwapResult & {
+  acceptorTokenId: bigint;
+};
+
+export type RemoveSwapResult = {
+  swapId: bigint;
+  initiator: string;
+  receipt: ContractTransactionReceipt;
+};
+
+export type CompleteSignedSwapResult = {
+  initiator: string;
+  nonce: bigint;
+  acceptor: string;
+  swap: Swap;
+  receipt: ContractTransactionReceipt;
+};
+
+export type NonceIncrementResult = NonceIncrement & {
+  receipt: ContractTransactionReceipt;
+};
+
+/**
+ * @notice Typed client for either deployed swapper variant.
+ * @dev The two variants share the ISwapTokens ABI, the variant is exposed so callers can reason about gas and chain support.
+ */
+export class TokenSwapperClient {
+  readonly contract: TokenSwapper | NonCancunTokenSwapper;
+  readonly variant: SwapperVariant;
+  readonly deploymentBlock: number;
+
+  private constructor(
+    contract: TokenSwapper | NonCancunTokenSwapper,
+    variant: SwapperVariant,
+    deploymentBlock: number,
+  ) {
+    this.contract = contract;
+    this.variant = variant;
+    this.deploymentBlock = deploymentBlock;
+  }
+
+  /**
+   * @notice Connects to a deployed swapper, detecting the variant unless one is supplied.
+   * @param address The swapper address.
+   * @param runner The signer or provider to send transactions and queries with.
+   * @param options The optional variant and the block to start event queries from.
+   */
+  static async connect(
+    address: string,
+    runner: ContractRunner,
+    options: TokenSwapperClientOptions = {},
+  ): Promise<TokenSwapperClient> {
+    const variant = options.variant ?? (await TokenSwapperClient.detectVariant(address, getProvider(runner)));
+
+    const contract =
+      variant === SwapperVariant.TokenSwapper
+        ? TokenSwapper__factory.connect(address, runner)
+        : NonCancunTokenSwapper__factory.connect(address, runner);
+
+    return new TokenSwapperClient(contract, variant, options.deploymentBlock ?? 0);
+  }
+
+  /**
+   * @notice Detects which swapper variant is deployed at an address.
+   * @param address The swapper address.
+   * @param provider The provider to query code and storage with.
+   */
+  static async detectVariant(address: string, provider: Provider): Promise<SwapperVariant> {
+    if ((await provider.getCode(address)) === "0x") {
+      throw new Error(`No swapper contract deployed at ${address}`);
+    }
+
+    const sameContractSwapSlot = await provider.getStorage(address, NON_CANCUN_SAME_CONTRACT_SWAP_SLOT);
+
+    return BigInt(sameContractSwapSlot) === 0n ? SwapperVariant.TokenSwapper : SwapperVariant.NonCancunTokenSwapper;
+  }
+
+  /**
+   * @notice Finds the block a swapper was deployed in, the first block its code is found at.
+   * @dev Reading code at past blocks needs an archive node.
+   * @param address The swapper address.
+   * @param provider The provider to query code with.
+   */
+  static async findDeploymentBlock(address: string, provider: Provider): Promise<number> {
+    let low = 0;
+    let high = await provider.getBlockNumber();
+
+    if ((await provider.getCode(address, high)) === "0x") {
+      throw new Error(`No swapper contract deployed at ${address}`);
+    }
+
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+
+      if ((await provider.getCode(address, middle)) === "0x") {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
+
+  /**
+   * @notice Checks a swap against the initiateSwap rules for the connected signer without sending a transaction.
+   * @param swap The full swap details.
+   * @return All violations, empty if the swap would be accepted.
+   */
+  async validateSwap(swap: SwapLike): Promise<SwapViolation[]> {
+    const signer = getSigner(this.contract.runner);
+    const latestBlock = await getProvider(signer).getBlock("latest");
+
+    return validateSwap(swap, await signer.getAddress(), swap.initiatorETHPortion, latestBlock?.timestamp);
+  }
+
+  /**
+   * @notice Initiates a swap, sending the initiator ETH portion as the value.
+   * @dev The swap is validated first and a SwapValidationError thrown instead of sending a failing transaction.
+   * @param swap The full swap details.
+   * @return The new swapId and the swap as emitted, which must be used for all later calls.
+   */
+  async initiateSwap(swap: SwapLike): Promise<InitiateSwapResult> {
+    const violations = await this.validateSwap(swap);
+
+    if (violations.length > 0) {
+      throw new SwapValidationError(violations);
+    }
+
+    const receipt = await waitForReceipt(this.contract.initiateSwap(toSwap(swap), { value: swap.initiatorETHPortion }));
+
+    const event = this.findEvent(receipt, "SwapInitiated");
+
+    return {
+      swapId: event.args.swapId,
+      swap: toSwap(event.args.swap),
+      receipt,
+    };
+  }
+
+  /**
+   * @notice Completes a swap, sending the acceptor ETH portion as the value.
+   * @dev The swap is normalized the way initiateSwap did, so a swap kept as submitted still matches.
+   * @param swapId The ID of the swap.
+   * @param swap The full swap data as retrieved from the initiating event.
+   */
+  async completeSwap(swapId: BigNumberish, swap: SwapLike): Promise<CompleteSwapResult> {
+    const receipt = await waitForReceipt(
+      this.contract.completeSwap(swapId, normalizeSwap(swap), { value: swap.acceptorETHPortion }),
+    );
+
+    const event = this.findEvent(receipt, "SwapComplete");
+
+    return {
+      swapId: event.args.swapId,
+      initiator: event.args.initiator,
+      acceptor: event.args.acceptor,
+      swap: toSwap(event.args.swap),
+      receipt,
+    };
+  }
+
+  /**
+   * @notice Completes a collection swap with a tokenId of the collection, sending the acceptor ETH portion as the value.
+   * @dev Without a tokenId, one the connected signer holds is chosen with chooseAcceptorTokenId.
+   * @param swapId The ID of the swap.
+   * @param swap The full swap data as retrieved from the initiating event.
+   * @param acceptorTokenId The tokenId to send, optional.
+   * @param options The block to scan the signer's token transfers from when choosing the tokenId.
+   */
+  async completeCollectionSwap(
+    swapId: BigNumberish,
+    swap: SwapLike,
+    acceptorTokenId?: BigNumberish,
+    options: Omit<OwnedTokenOptions, "quantity"> = {},
+  ): Promise<CompleteCollectionSwapResult> {
+    const signer = getSigner(this.contract.runner);
+    const tokenId =
+      acceptorTokenId ??
+      (await chooseAcceptorTokenId(
+        getProvider(signer),
+        await this.contract.getAddress(),
+        swap,
+        await signer.getAddress(),
+        options,
+      ));
+
+    if (tokenId === undefined) {
+      throw new Error(`${await signer.getAddress()} holds no token of ${swap.acceptorERCContract}`);
+    }
+
+    const receipt = await waitForReceipt(
+      this.contract.completeCollectionSwap(swapId, normalizeSwap(swap), tokenId, { value: swap.acceptorETHPortion }),
+    );
+
+    return this.toCompleteCollectionSwapResult(receipt);
+  }
+
+  /**
+   * @notice Initiates a trait swap only accepting the tokenIds of a Merkle tree, sending the initiator ETH portion.
+   * @dev The swap is validated first and a SwapValidationError thrown instead of sending a failing transaction.
+   * @param swap The full swap details, accepting any tokenId of the collection.
+   * @param tokenIds The tree of the accepted tokenIds, or its root.
+   * @return The new swapId, the swap as emitted and the root. Acceptors need the tokenIds of the tree to complete it.
+   */
+  async initiateTraitSwap(swap: SwapLike, tokenIds: TokenIdMerkleTree | string): Promise<InitiateTraitSwapResult> {
+    const tokenIdsRoot = typeof tokenIds === "string" ? tokenIds : tokenIds.root;
+    const signer = getSigner(this.contract.runner);
+    const latestBlock = await getProvider(signer).getBlock("latest");
+    const violations = validateTraitSwap(
+      swap,
+      tokenIdsRoot,
+      await signer.getAddress(),
+      swap.initiatorETHPortion,
+      latestBlock?.timestamp,
+    );
+
+    if (violations.length > 0) {
+      throw new SwapValidationError(violations);
+    }
+
+    const receipt = await waitForReceipt(
+      this.contract.initiateTraitSwap(toSwap(swap), tokenIdsRoot, { value: swap.initiatorETHPortion }),
+    );
+
+    const event = this.findEvent(receipt, "SwapInitiated");
+
+    return {
+      swapId: event.args.swapId,
+      swap: toSwap(event.args.swap),
+      tokenIdsRoot: this.findEvent(receipt, "TokenIdsRootSet").args.tokenIdsRoot,
+      receipt,
+    };
+  }
+
+  /**
+   * @notice Completes a trait swap with a tokenId of the tree and its proof, sending the acceptor ETH portion as the value.
+   * @dev Without a tokenId, one of the tree the connected signer holds is chosen with chooseAcceptorTokenId.
+   * @param swapId The ID of the swap.
+   * @param swap The full swap data as retrieved from the initiating event.
+   * @param tree The tree of the accepted tokenIds, which must match the root of the swap.
+   * @param acceptorTokenId The tokenId to send, optional.
+   * @param options The block to scan the signer's token transfers from when choosing the tokenId.
+   */
+  async completeTraitSwap(
+    swapId: BigNumberish,
+    swap: SwapLike,
+    tree: TokenIdMerkleTree,
+    acceptorTokenId?: BigNumberish,
+    options: Omit<OwnedTokenOptions, "quantity"> = {},
+  ): Promise<CompleteCollectionSwapResult> {
+    const tokenIdsRoot = await this.getTokenIdsRoot(swapId);
+
+    if (tokenIdsRoot !== tree.root) {
+      throw new Error(`The tree root ${tree.root} does not match the root ${tokenIdsRoot} of swap ${swapId}`);
+    }
+
+    const signer = getSigner(this.contract.runner);
+    const tokenId =
+      acceptorTokenId ??
+      (await chooseAcceptorTokenId(
+        getProvider(signer),
+        await this.contract.getAddress(),
+        swap,
+        await signer.getAddress(),
+        { ...options, acceptableTokenIds: tree.tokenIds },
+      ));
+
+    if (tokenId === undefined) {
+      throw new Error(`${await signer.getAddress()} holds no token of the tree of swap ${swapId}`);
+    }
+
+    const receipt = await waitForReceipt(
+      this.contract.completeTraitSwap(swapId, normalizeSwap(swap), tokenId, tree.getProof(tokenId), {
+        value: swap.acceptorETHPortion,
+      }),
+    );
+
+    return this.toCompleteCollectionSwapResult(receipt);
+  }
+
+  /**
+   * @notice Gets the Merkle root of the accepted tokenIds of an open trait swap.
+   * @param swapId The ID of the swap.
+   * @return The root, the zero hash for other swaps.
+   */
+  async getTokenIdsRoot(swapId: BigNumberish): Promise<string> {
+    return this.contract.getTokenIdsRoot(swapId);
+  }
+
+  /**
+   * @notice Simulates completing a swap without changing chain state, reporting the deltas for both parties.
+   * @param swapId The ID of the swap.
+   * @param swap The full swap data as retrieved from the initiating event.
+   * @param acceptor The account that would complete the swap.
+   * @param mode eth_call with predicted deltas, or a Hardhat snapshot with measured deltas and events.
+   * @param acceptorTokenId The tokenId chosen to complete a collection or trait swap.
+   * @param proof The Merkle proof of the chosen tokenId for a trait swap, see TokenIdMerkleTree.getProof.
+   */
+  async simulateComplete(
+    swapId: BigNumberish,
+    swap: SwapLike,
+    acceptor: string,
+    mode: SimulationMode = SimulationMode.Call,
+    acceptorTokenId?: BigNumberish,
+    proof?: string[],
+  ): Promise<CompleteSimulation> {
+    if (!this.contract.runner) {
+      throw new Error("A signer or provider is required to simulate completing a swap");
+    }
+
+    return simulateComplete(
+      getProvider(this.contract.runner),
+      await this.contract.getAddress(),
+      swapId,
+      swap,
+      acceptor,
+      mode,
+      acceptorTokenId,
+      proof,
+    );
+  }
+
+  /**
+   * @notice Removes a swap, refunding the initiator ETH portion if any.
+   * @dev The swap is normalized the way initiateSwap did, so a swap kept as submitted still matches.
+   * @param swapId The ID of the swap.
+   * @param swap The full swap data as retrieved from the initiating event.
+   * @param overrides Optional transaction overrides such as gasLimit and maxFeePerGas.
+   */
+  async removeSwap(
+    swapId: BigNumberish,
+    swap: SwapLike,
+    overrides: NonPayableOverrides = {},
+  ): Promise<RemoveSwapResult> {
+    const receipt = await waitForReceipt(this.contract.removeSwap(swapId, normalizeSwap(swap), overrides));
+
+    const event = this.findEvent(receipt, "SwapRemoved");
+
+    return {
+      swapId: event.args.swapId,
+      initiator: event.args.initiator,
+      receipt,
+    };
+  }
+
+  /**
+   * @notice Signs a swap with the connected signer for the acceptor to complete, without sending a transaction.
+   * @param swap The full swap details, without an initiator ETH portion.
+   * @param nonce Any unused nonce of the connected signer.
+   */
+  async signSwap(swap: SwapLike, nonce: BigNumberish): Promise<SignedSwap> {
+    return signSwap(getSigner(this.contract.runner), await this.contract.getAddress(), swap, nonce);
+  }
+
+  /**
+   * @notice Completes a signed swap, sending the acceptor ETH portion as the value.
+   * @param signedSwap The swap, nonce and signature from the initiator.
+   */
+  async completeSignedSwap(signedSwap: SignedSwapLike): Promise<CompleteSignedSwapResult> {
+    const { swap, nonce, signature } = toSignedSwap(signedSwap);
+
+    const receipt = await waitForReceipt(
+      this.contract.completeSignedSwap(swap, nonce, signature, { value: swap.acceptorETHPortion }),
+    );
+
+    const event = this.findEvent(receipt, "SignedSwapComplete");
+
+    return {
+      initiator: event.args.initiator,
+      nonce: event.args.nonce,
+      acceptor: event.args.acceptor,
+      swap: toSwap(event.args.swap),
+      receipt,
+    };
+  }
+
+  /**
+   * @notice Cancels a nonce of the connected signer, withdrawing every swap it signed with the nonce.
+   * @param nonce The nonce to cancel.
+   */
+  async cancelSignedSwapNonce(nonce: BigNumberish): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.cancelSignedSwapNonce(nonce));
+  }
+
+  /**
+   * @notice Raises the minimum nonce of the connected signer by one, cancelling every swap it initiated so far.
+   * @dev Initiator ETH portions of the cancelled swaps stay in the swapper until removeSwap is called.
+   */
+  async incrementNonce(): Promise<NonceIncrementResult> {
+    return this.toNonceIncrementResult(await waitForReceipt(this.contract.incrementNonce()));
+  }
+
+  /**
+   * @notice Raises the minimum nonce of the connected signer, cancelling every swap it signed with a lower nonce and
+   * every swap it initiated so far.
+   * @dev Use getInvalidatedOffers from SwapNonces with the result to find the offers it cancelled.
+   * @param minNonce The new minimum nonce, above the current one.
+   */
+  async cancelUpTo(minNonce: BigNumberish): Promise<NonceIncrementResult> {
+    return this.toNonceIncrementResult(await waitForReceipt(this.contract.cancelUpTo(minNonce)));
+  }
+
+  /**
+   * @notice Retrieves the minimum nonce the signed swaps of an initiator need to be completed.
+   * @param initiator The initiator, defaults to the connected signer.
+   */
+  async getMinNonce(initiator?: string): Promise<bigint> {
+    return this.contract.getMinNonce(initiator ?? (await getSigner(this.contract.runner).getAddress()));
+  }
+
+  /**
+   * @notice Retrieves the ownership and approval status of both parties.
+   * @param swapId The ID of the swap.
+   * @param swap The full swap data as retrieved from the initiating event.
+   */
+  async getSwapStatus(swapId: BigNumberish, swap: SwapLike): Promise<SwapStatus> {
+    const swapStatus = await this.contract.getSwapStatus(swapId, normalizeSwap(swap));
+
+    return {
+      initiatorNeedsToOwnToken: swapStatus.initiatorNeedsToOwnToken,
+      acceptorNeedsToOwnToken: swapStatus.acceptorNeedsToOwnToken,
+      initiatorTokenRequiresApproval: swapStatus.initiatorTokenRequiresApproval,
+      acceptorTokenRequiresApproval: swapStatus.acceptorTokenRequiresApproval,
+      isReadyForSwapping: swapStatus.isReadyForSwapping,
+    };
+  }
+
+  /**
+   * @notice Sends the minimal approval one side of a swap needs for this swapper, nothing if it is already in place.
+   * @param swap The full swap details.
+   * @param side The side to approve.
+   * @param signer The signer of the side, defaults to the connected signer.
+   * @param options The USDT and ERC721 approval options.
+   * @return The approval receipts and a revoke function withdrawing what was granted.
+   */
+  async ensureApprovals(
+    swap: SwapLike,
+    side: SwapSide,
+    signer: Signer = getSigner(this.contract.runner),
+    options: EnsureApprovalsOptions = {},
+  ): Promise<ApprovalResult> {
+    return ensureApprovals(await this.contract.getAddress(), swap, side, signer, options);
+  }
+
+  /**
+   * @notice Fetches the swap details from the SwapInitiated event.
+   * @dev The swap is returned even if it has since been completed or removed.
+   * @param swapId The ID of the swap.
+   * @return The swap, or undefined if no swap was initiated with the ID.
+   */
+  async getSwap(swapId: BigNumberish): Promise<Swap | undefined> {
+    const events = await this.contract.queryFilter(
+      this.contract.filters.SwapInitiated(swapId),
+      this.deploymentBlock,
+      "latest",
+    );
+
+    if (events.length === 0) {
+      return undefined;
+    }
+
+    return toSwap(events[0].args.swap);
+  }
+
+  /**
+   * @notice Checks if a locally held swap is still live on-chain and unchanged.
+   * @param swapId The ID of the swap.
+   * @param swap The locally held swap.
+   */
+  async verifySwapAgainstChain(swapId: BigNumberish, swap: SwapLike): Promise<boolean> {
+    return verifySwapAgainstChain(this.contract, swapId, normalizeSwap(swap));
+  }
+
+  private toCompleteCollectionSwapResult(receipt: ContractTransactionReceipt): CompleteCollectionSwapResult {
+    const event = this.findEvent(receipt, "SwapComplete");
+
+    return {
+      swapId: event.args.swapId,
+      initiator: event.args.initiator,
+      acceptor: event.args.acceptor,
+      swap: toSwap(event.args.swap),
+      acceptorTokenId: this.findEvent(receipt, "AcceptorTokenIdChosen").args.acceptorTokenId,
+      receipt,
+    };
+  }
+
+  private toNonceIncrementResult(receipt: ContractTransactionReceipt): NonceIncrementResult {
+    const event = this.findEvent(receipt, "NonceIncremented");
+
+    return {
+      initiator: event.args.initiator,
+      minNonce: event.args.minNonce,
+      minSwapId: event.args.minSwapId,
+      blockNumber: receipt.blockNumber,
+      transactionHash: receipt.hash,
+      receipt,
+    };
+  }
+
+  private findEvent(receipt: ContractTransactionReceipt, eventName: string): LogDescription {
+    for (const log of receipt.logs) {
+      const parsedLog = this.contract.interface.parseLog(log);
+
+      if (parsedLog?.name === eventName) {
+        return parsedLog;
+      }
+    }
+
+    throw new Error(`${eventName} event not found in transaction ${receipt.hash}`);
+  }
+}
+
+function getSigner(runner: ContractRunner | null): Signer {
+  if (!runner || !("getAddress" in runner)) {
+    throw new Error("A signer is required to send transactions");
+  }
+
+  return runner as Signer;
+}
+
+function getProvider(runner: ContractRunner): Provider {
+  if (!runner.provider) {
+    throw new Error("A provider is required to detect the swapper variant");
+  }
+
+  return runner.provider;
+}
@@ -0,0 +1,217 @@
+import { AbiCoder, BigNumberish, Provider, concat, keccak256, toBeHex, toBigInt } from "ethers";
+import { IERC1155MetadataURI__factory, IERC721Metadata__factory } from "../typechain-types";
+import { TokenType } from "./types";
+
+/**
+ * @notice An attribute of ERC721 or ERC1155 metadata JSON, such as { trait_type: "Fur", value: "Gold" }.
+ */
+export type TokenAttribute = {
+  trait_type: string;
+  value: unknown;
+};
+
+/**
+ * @notice The metadata JSON of a token of a collection.
+ */
+export type CollectionTokenMetadata = {
+  tokenId: bigint;
+  name?: string;
+  attributes?: TokenAttribute[];
+};
+
+export type MetadataFilter = (metadata: CollectionTokenMetadata) => boolean;
+
+export type FetchMetadataOptions = {
+  /**
+   * @notice Loads the JSON a token URI points to, defaults to fetch with ipfs:// and data: URIs resolved.
+   */
+  fetchJson?: (uri: string, tokenId: bigint) => Promise<unknown>;
+  /**
+   * @notice The gateway ipfs:// URIs are fetched from, defaults to https://ipfs.io/ipfs/.
+   */
+  ipfsGateway?: string;
+};
+
+/**
+ * @notice Hashes a tokenId into a leaf the way TokenSwapperBase verifies it.
+ * @dev keccak256(bytes.concat(keccak256(abi.encode(tokenId)))), matching the OpenZeppelin standard Merkle tree.
+ * @param tokenId The tokenId.
+ */
+export function hashTokenIdLeaf(tokenId: BigNumberish): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["uint256"], [tokenId])));
+}
+
+/**
+ * @notice Verifies a Merkle proof of a tokenId the way MerkleProof.verify does.
+ * @param tokenIdsRoot The Merkle root of a trait swap.
+ * @param tokenId The tokenId.
+ * @param proof The Merkle proof of the tokenId.
+ */
+export function verifyTokenIdProof(tokenIdsRoot: string, tokenId: BigNumberish, proof: string[]): boolean {
+  return proof.reduce(hashPair, hashTokenIdLeaf(tokenId)) === tokenIdsRoot.toLowerCase();
+}
+
+/**
+ * @notice Merkle tree of the tokenIds a trait swap accepts, committed to with initiateTraitSwap.
+ * @dev Pairs are hashed sorted as MerkleProof expects. The tree only depends on the set of tokenIds, so an acceptor
+ * rebuilds the initiator's root from the published tokenId list.
+ */
+export class TokenIdMerkleTree {
+  readonly tokenIds: bigint[];
+  readonly root: string;
+  private readonly layers: string[][];
+
+  private constructor(tokenIds: bigint[]) {
+    this.tokenIds = tokenIds;
+    this.layers = [tokenIds.map(hashTokenIdLeaf)];
+
+    // An odd node out moves up a layer unhashed, so its proof skips that layer
+    while (this.layers[this.layers.length - 1].length > 1) {
+      const layer = this.layers[this.layers.length - 1];
+
+      this.layers.push(
+        Array.from({ length: Math.ceil(layer.length / 2) }, (_, index) =>
+          2 * index + 1 < layer.length ? hashPair(layer[2 * index], layer[2 * index + 1]) : layer[2 * index],
+        ),
+      );
+    }
+
+    this.root = this.layers[this.layers.length - 1][0];
+  }
+
+  /**
+   * @notice Builds the tree of a tokenId list, duplicates are ignored.
+   * @param tokenIds The accepted tokenIds.
+   */
+  static fromTokenIds(tokenIds: Iterable<BigNumberish>): TokenIdMerkleTree {
+    const uniqueTokenIds = [...new Set([...tokenIds].map((tokenId) => toBigInt(tokenId)))];
+
+    if (uniqueTokenIds.length === 0) {
+      throw new Error("A trait swap must accept at least one tokenId");
+    }
+
+    return new TokenIdMerkleTree(uniqueTokenIds.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)));
+  }
+
+  /**
+   * @notice Builds the tree of the tokens whose metadata matches a filter.
+   * @param metadata The metadata of the collection, see fetchCollectionMetadata.
+   * @param filter The filter, e.g. hasTraits({ Fur: "Gold" }).
+   */
+  static fromMetadata(metadata: CollectionTokenMetadata[], filter: MetadataFilter): TokenIdMerkleTree {
+    return TokenIdMerkleTree.fromTokenIds(metadata.filter(filter).map(({ tokenId }) => tokenId));
+  }
+
+  /**
+   * @notice Checks if the tree accepts a tokenId.
+   * @param tokenId The tokenId.
+   */
+  has(tokenId: BigNumberish): boolean {
+    return this.indexOf(tokenId) !== -1;
+  }
+
+  /**
+   * @notice Returns the Merkle proof of a tokenId to pass to completeTraitSwap.
+   * @param tokenId The tokenId.
+   */
+  getProof(tokenId: BigNumberish): string[] {
+    let index = this.indexOf(tokenId);
+
+    if (index === -1) {
+      throw new Error(`TokenId ${tokenId} is not in the tree`);
+    }
+
+    const proof: string[] = [];
+
+    for (const layer of this.layers.slice(0, -1)) {
+      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+
+      if (siblingIndex < layer.length) {
+        proof.push(layer[siblingIndex]);
+      }
+
+      index = Math.floor(index / 2);
+    }
+
+    return proof;
+  }
+
+  private indexOf(tokenId: BigNumberish): number {
+    return this.tokenIds.indexOf(toBigInt(tokenId));
+  }
+}
+
+/**
+ * @notice Filters the tokens having every trait, e.g. hasTraits({ Fur: "Gold", Eyes: "Laser" }).
+ * @param traits The trait_type and value pairs.
+ */
+export function hasTraits(traits: Record<string, unknown>): MetadataFilter {
+  return ({ attributes = [] }) =>
+    Object.entries(traits).every(([traitType, value]) =>
+      attributes.some((attribute) => attribute.trait_type === traitType && attribute.value === value),
+    );
+}
+
+/**
+ * @notice Fetches the metadata JSON of tokens of an ERC721 or ERC1155 collection.
+ * @dev Reads tokenURI for ERC721 and uri, with {id} substituted, for ERC1155.
+ * @param provider The provider to query.
+ * @param tokenType ERC721 or ERC1155.
+ * @param ercContract The collection.
+ * @param tokenIds The tokenIds to fetch.
+ * @param options How the JSON is loaded.
+ */
+export async function fetchCollectionMetadata(
+  provider: Provider,
+  tokenType: TokenType,
+  ercContract: string,
+  tokenIds: BigNumberish[],
+  options: FetchMetadataOptions = {},
+): Promise<CollectionTokenMetadata[]> {
+  const fetchJson = options.fetchJson ?? ((uri: string) => fetchTokenJson(uri, options.ipfsGateway));
+
+  return Promise.all(
+    tokenIds.map(async (id) => {
+      const tokenId = toBigInt(id);
+      const json = (await fetchJson(await getTokenUri(provider, tokenType, ercContract, tokenId), tokenId)) as Omit<
+        CollectionTokenMetadata,
+        "tokenId"
+      >;
+
+      return { ...json, tokenId };
+    }),
+  );
+}
+
+async function getTokenUri(
+  provider: Provider,
+  tokenType: TokenType,
+  ercContract: string,
+  tokenId: bigint,
+): Promise<string> {
+  if (tokenType === TokenType.ERC721) {
+    return IERC721Metadata__factory.connect(ercContract, provider).tokenURI(tokenId);
+  }
+
+  if (tokenType === TokenType.ERC1155) {
+    const uri = await IERC1155MetadataURI__factory.connect(ercContract, provider).uri(tokenId);
+
+    return uri.replace("{id}", toBeHex(tokenId, 32).slice(2));
+  }
+
+  throw new Error(`Token type ${TokenType[tokenType]} has no metadata`);
+}
+
+async function fetchTokenJson(uri: string, ipfsGateway = "https://ipfs.io/ipfs/"): Promise<unknown> {
+  const response = await fetch(uri.startsWith("ipfs://") ? ipfsGateway + uri.slice("ipfs://".length) : uri);
+
+  if (!response.ok) {
+    throw new Error(`Fetching ${uri} failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+function hashPair(a: string, b: string): string {
+  return keccak256(a < b ? concat([a, b]) : concat([b, a]));
+}
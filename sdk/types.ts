@@ -0,0 +1,114 @@
+import { AddressLike, BigNumberish } from "ethers";
+
+/**
+ * @notice Mirrors ISwapTokens.TokenType, the numeric values must stay in the same order as the enum.
+ */
+export enum TokenType {
+  NONE = 0,
+  ERC20 = 1,
+  ERC777 = 2,
+  ERC721 = 3,
+  ERC1155 = 4,
+}
+
+/**
+ * @notice A fully resolved ISwapTokens.Swap as emitted in the SwapInitiated and SwapComplete events.
+ */
+export type Swap = {
+  expiryDate: bigint;
+  initiatorERCContract: string;
+  acceptorERCContract: string;
+  initiator: string;
+  initiatorTokenId: bigint;
+  initiatorTokenQuantity: bigint;
+  acceptor: string;
+  acceptorTokenId: bigint;
+  acceptorTokenQuantity: bigint;
+  initiatorETHPortion: bigint;
+  acceptorETHPortion: bigint;
+  initiatorTokenType: TokenType;
+  acceptorTokenType: TokenType;
+};
+
+/**
+ * @notice A token type as an enum value, its symbolic name, or its raw numeric value.
+ */
+export type TokenTypeLike = TokenType | keyof typeof TokenType | BigNumberish;
+
+/**
+ * @notice A loosely typed Swap as accepted by the typechain contracts, addresses must already be resolved to strings.
+ */
+export type SwapLike = {
+  expiryDate: BigNumberish;
+  initiatorERCContract: AddressLike;
+  acceptorERCContract: AddressLike;
+  initiator: AddressLike;
+  initiatorTokenId: BigNumberish;
+  initiatorTokenQuantity: BigNumberish;
+  acceptor: AddressLike;
+  acceptorTokenId: BigNumberish;
+  acceptorTokenQuantity: BigNumberish;
+  initiatorETHPortion: BigNumberish;
+  acceptorETHPortion: BigNumberish;
+  initiatorTokenType: TokenTypeLike;
+  acceptorTokenType: TokenTypeLike;
+};
+
+/**
+ * @notice A fully resolved ISwapTokenBundles.BundleItem.
+ */
+export type BundleItem = {
+  tokenType: TokenType;
+  ercContract: string;
+  tokenId: bigint;
+  tokenQuantity: bigint;
+};
+
+/**
+ * @notice A fully resolved ISwapTokenBundles.BundleSwap as emitted in the BundleSwapInitiated and BundleSwapComplete
+ * events.
+ */
+export type BundleSwap = {
+  expiryDate: bigint;
+  initiator: string;
+  acceptor: string;
+  initiatorETHPortion: bigint;
+  acceptorETHPortion: bigint;
+  initiatorItems: BundleItem[];
+  acceptorItems: BundleItem[];
+};
+
+/**
+ * @notice A loosely typed BundleItem as accepted by the typechain contracts.
+ */
+export type BundleItemLike = {
+  tokenType: TokenTypeLike;
+  ercContract: AddressLike;
+  tokenId: BigNumberish;
+  tokenQuantity: BigNumberish;
+};
+
+/**
+ * @notice A loosely typed BundleSwap as accepted by the typechain contracts, addresses must already be resolved to
+ * strings.
+ */
+export type BundleSwapLike = {
+  expiryDate: BigNumberish;
+  initiator: AddressLike;
+  acceptor: AddressLike;
+  initiatorETHPortion: BigNumberish;
+  acceptorETHPortion: BigNumberish;
+  initiatorItems: BundleItemLike[];
+  acceptorItems: BundleItemLike[];
+};
+
+/**
+ * @notice Mirrors ISwapTokens.SwapStatus.
+ */
+export type SwapStatus = {
+  initiatorNeedsToOwnToken: boolean;
+  acceptorNeedsToOwnToken: boolean;
+  initiatorTokenRequiresApproval: boolean;
+  acceptorTokenRequiresApproval: boolean;
+  isReadyForSwapping: boolean;
+};
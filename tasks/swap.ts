@@ -0,0 +1,495 @@
+import { readFileSync, writeFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from "hardhat/types";
+import type { KeeperRemoval } from "../sdk/SwapKeeper";
+import type { TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import type { SwapLike } from "../sdk/types";
+
+// The sdk imports the typechain factories, so it is only loaded once a task runs and the contracts are compiled.
+
+type SwapperArgs = {
+  swapper?: string;
+  signer?: string;
+  fromBlock?: number;
+};
+
+type SwapFieldArgs = {
+  swapFile?: string;
+  expiryDate?: string;
+  initiatorContract?: string;
+  acceptorContract?: string;
+  initiator?: string;
+  initiatorTokenId?: string;
+  initiatorTokenQuantity?: string;
+  acceptor?: string;
+  acceptorTokenId?: string;
+  acceptorTokenQuantity?: string;
+  initiatorEthPortion?: string;
+  acceptorEthPortion?: string;
+  initiatorTokenType?: string;
+  acceptorTokenType?: string;
+};
+
+type SwapIdArgs = SwapperArgs & SwapFieldArgs & { id: string };
+
+type ExportArgs = SwapIdArgs & { out?: string };
+
+type KeeperArgs = SwapperArgs & {
+  index: string;
+  dryRun: boolean;
+  includeWithoutEth: boolean;
+  gasLimit?: string;
+  maxFeePerGas?: string;
+  interval: number;
+};
+
+type RevokeApprovalsArgs = SwapperArgs & { index: string; resetToZeroFirst: boolean; dryRun: boolean };
+
+/**
+ * @dev Maps the task flags to the ISwapTokens.Swap fields they set.
+ */
+const SWAP_FIELD_FLAGS: [keyof SwapFieldArgs, keyof SwapLike, string][] = [
+  ["expiryDate", "expiryDate", "The expiry timestamp in seconds"],
+  ["initiatorContract", "initiatorERCContract", "The initiator token contract"],
+  ["acceptorContract", "acceptorERCContract", "The acceptor token contract"],
+  ["initiator", "initiator", "The initiator address"],
+  ["initiatorTokenId", "initiatorTokenId", "The initiator ERC721 or ERC1155 tokenId"],
+  ["initiatorTokenQuantity", "initiatorTokenQuantity", "The initiator ERC20, ERC777 or ERC1155 quantity"],
+  ["acceptor", "acceptor", "The acceptor address, the zero address lets anyone accept"],
+  ["acceptorTokenId", "acceptorTokenId", "The acceptor ERC721 or ERC1155 tokenId"],
+  ["acceptorTokenQuantity", "acceptorTokenQuantity", "The acceptor ERC20, ERC777 or ERC1155 quantity"],
+  ["initiatorEthPortion", "initiatorETHPortion", "The ETH in wei sent by the initiator"],
+  ["acceptorEthPortion", "acceptorETHPortion", "The ETH in wei sent by the acceptor"],
+  ["initiatorTokenType", "initiatorTokenType", "The initiator TokenType name or number"],
+  ["acceptorTokenType", "acceptorTokenType", "The acceptor TokenType name or number"],
+];
+
+function addSwapperParams(definition: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+  return definition
+    .addOptionalParam("swapper", "The swapper address, defaults to SWAPPER_ADDRESS")
+    .addOptionalParam("signer", "The signer address or index in the configured accounts, defaults to the first")
+    .addOptionalParam(
+      "fromBlock",
+      "The block to search swapper events from, defaults to the swapper's deployment block",
+      undefined,
+      types.int,
+    );
+}
+
+function addSwapParams(definition: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+  definition.addOptionalParam(
+    "swapFile",
+    "A swap document or JSON file with the Swap fields, overridden by the field flags",
+  );
+
+  for (const [flag, , description] of SWAP_FIELD_FLAGS) {
+    definition.addOptionalParam(flag, description);
+  }
+
+  return definition;
+}
+
+async function connectClient(hre: HardhatRuntimeEnvironment, args: SwapperArgs): Promise<TokenSwapperClient> {
+  const { TokenSwapperClient } = await import("../sdk/TokenSwapperClient");
+
+  const swapperAddress = args.swapper ?? process.env.SWAPPER_ADDRESS;
+
+  if (!swapperAddress) {
+    throw new Error("--swapper or SWAPPER_ADDRESS is required");
+  }
+
+  return TokenSwapperClient.connect(swapperAddress, await getSigner(hre, args.signer ?? "0"), {
+    deploymentBlock: await getFromBlock(hre, swapperAddress, args),
+  });
+}
+
+/**
+ * @notice Resolves --from-block, finding the swapper's deployment block when it is not given.
+ */
+async function getFromBlock(hre: HardhatRuntimeEnvironment, swapperAddress: string, args: SwapperArgs) {
+  if (args.fromBlock !== undefined) {
+    return args.fromBlock;
+  }
+
+  const { TokenSwapperClient } = await import("../sdk/TokenSwapperClient");
+
+  try {
+    return await TokenSwapperClient.findDeploymentBlock(swapperAddress, hre.ethers.provider);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : error;
+
+    throw new Error(`Could not find the deployment block of ${swapperAddress}, pass --from-block: ${reason}`);
+  }
+}
+
+async function getSigner(hre: HardhatRuntimeEnvironment, signer: string) {
+  if (!/^\d+$/.test(signer)) {
+    return hre.ethers.getSigner(signer);
+  }
+
+  const signers = await hre.ethers.getSigners();
+
+  if (Number(signer) >= signers.length) {
+    throw new Error(`No account at index ${signer}`);
+  }
+
+  return signers[Number(signer)];
+}
+
+/**
+ * @notice Reads the Swap fields from the swap file and the field flags, the flags taking precedence.
+ * @dev The swap file is either a swap document, which must be for the connected chain and swapper, or a plain JSON
+ * object with the Swap fields.
+ */
+async function readSwapFields(
+  hre: HardhatRuntimeEnvironment,
+  client: TokenSwapperClient,
+  args: SwapFieldArgs,
+): Promise<Partial<SwapLike>> {
+  const fileFields = args.swapFile ? JSON.parse(readFileSync(args.swapFile, "utf8")) : {};
+
+  if (typeof fileFields !== "object" || fileFields === null || Array.isArray(fileFields)) {
+    throw new Error(`The swap file ${args.swapFile} must hold a JSON object`);
+  }
+
+  const fields: Partial<SwapLike> =
+    "version" in fileFields ? await readSwapDocument(hre, client, fileFields) : fileFields;
+
+  for (const [flag, field] of SWAP_FIELD_FLAGS) {
+    if (args[flag] !== undefined) {
+      Object.assign(fields, { [field]: args[flag] });
+    }
+  }
+
+  return fields;
+}
+
+async function readSwapDocument(hre: HardhatRuntimeEnvironment, client: TokenSwapperClient, document: unknown) {
+  const { fromSwapDocument } = await import("../sdk/SwapDocument");
+
+  const { chainId, swapperAddress, swap } = fromSwapDocument(document);
+  const network = await hre.ethers.provider.getNetwork();
+  const connectedSwapper = await client.contract.getAddress();
+
+  if (chainId !== network.chainId) {
+    throw new Error(`The swap file is for chain ${chainId}, connected to chain ${network.chainId}`);
+  }
+
+  if (swapperAddress.toLowerCase() !== connectedSwapper.toLowerCase()) {
+    throw new Error(`The swap file is for swapper ${swapperAddress}, connected to ${connectedSwapper}`);
+  }
+
+  return swap;
+}
+
+/**
+ * @notice Resolves the swap of an existing swapId, from the swap file or else the SwapInitiated event.
+ */
+async function resolveSwap(hre: HardhatRuntimeEnvironment, client: TokenSwapperClient, args: SwapIdArgs) {
+  const { toSwap } = await import("../sdk/SwapHashing");
+
+  const fields = await readSwapFields(hre, client, args);
+
+  if (args.swapFile) {
+    const missingFields = SWAP_FIELD_FLAGS.map(([, field]) => field).filter((field) => fields[field] === undefined);
+
+    if (missingFields.length > 0) {
+      throw new Error(`The swap file is missing ${missingFields.join(", ")}, set them in the file or with their flags`);
+    }
+
+    return toSwap(fields as SwapLike);
+  }
+
+  const initiatedSwap = await client.getSwap(args.id);
+
+  if (!initiatedSwap) {
+    throw new Error(`No SwapInitiated event found for swap ${args.id}, pass --swap-file instead`);
+  }
+
+  return toSwap({ ...initiatedSwap, ...fields });
+}
+
+/**
+ * @notice Rethrows a revert as its decoded swap error, so the command line shows what failed and how to fix it.
+ */
+async function explainRevert<T>(swap: SwapLike, action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    const { decodeSwapErrorFrom, formatSwapError } = await import("../sdk/SwapErrors");
+
+    const decoded = decodeSwapErrorFrom(error, swap);
+
+    throw decoded ? new Error(formatSwapError(decoded)) : error;
+  }
+}
+
+addSwapParams(
+  addSwapperParams(
+    task("swap:initiate", "Initiates a swap from flags or a JSON swap file").setAction(
+      async (args: SwapperArgs & SwapFieldArgs, hre) => {
+        const { ZeroAddress } = await import("ethers");
+
+        const client = await connectClient(hre, args);
+        const signerAddress = await (await getSigner(hre, args.signer ?? "0")).getAddress();
+        const latestBlock = await hre.ethers.provider.getBlock("latest");
+
+        const swap: SwapLike = {
+          expiryDate: BigInt(latestBlock?.timestamp ?? Math.floor(Date.now() / 1000)) + 86400n,
+          initiatorERCContract: ZeroAddress,
+          acceptorERCContract: ZeroAddress,
+          initiator: signerAddress,
+          initiatorTokenId: 0n,
+          initiatorTokenQuantity: 0n,
+          acceptor: ZeroAddress,
+          acceptorTokenId: 0n,
+          acceptorTokenQuantity: 0n,
+          initiatorETHPortion: 0n,
+          acceptorETHPortion: 0n,
+          initiatorTokenType: "NONE",
+          acceptorTokenType: "NONE",
+          ...(await readSwapFields(hre, client, args)),
+        };
+
+        const result = await explainRevert(swap, () => client.initiateSwap(swap));
+
+        console.log(`Initiated swap ${result.swapId} in transaction ${result.receipt.hash}`);
+
+        return result;
+      },
+    ),
+  ),
+);
+
+addSwapParams(
+  addSwapperParams(
+    task("swap:complete", "Completes a swap, reading it from the SwapInitiated event unless a swap file is given")
+      .addParam("id", "The swapId")
+      .setAction(async (args: SwapIdArgs, hre) => {
+        const client = await connectClient(hre, args);
+
+        const swap = await resolveSwap(hre, client, args);
+        const result = await explainRevert(swap, () => client.completeSwap(args.id, swap));
+
+        console.log(`Completed swap ${result.swapId} in transaction ${result.receipt.hash}`);
+
+        return result;
+      }),
+  ),
+);
+
+addSwapParams(
+  addSwapperParams(
+    task("swap:remove", "Removes a swap, reading it from the SwapInitiated event unless a swap file is given")
+      .addParam("id", "The swapId")
+      .setAction(async (args: SwapIdArgs, hre) => {
+        const client = await connectClient(hre, args);
+
+        const swap = await resolveSwap(hre, client, args);
+        const result = await explainRevert(swap, () => client.removeSwap(args.id, swap));
+
+        console.log(`Removed swap ${result.swapId} in transaction ${result.receipt.hash}`);
+
+        return result;
+      }),
+  ),
+);
+
+addSwapParams(
+  addSwapperParams(
+    task("swap:status", "Prints the ownership and approval status of both parties")
+      .addParam("id", "The swapId")
+      .setAction(async (args: SwapIdArgs, hre) => {
+        const client = await connectClient(hre, args);
+
+        const status = await client.getSwapStatus(args.id, await resolveSwap(hre, client, args));
+
+        for (const [field, value] of Object.entries(status)) {
+          console.log(`${field}: ${value}`);
+        }
+
+        return status;
+      }),
+  ),
+);
+
+addSwapParams(
+  addSwapperParams(
+    task("swap:describe", "Prints a swap as a sentence with the token names, symbols and amounts")
+      .addParam("id", "The swapId")
+      .setAction(async (args: SwapIdArgs, hre) => {
+        const { describeSwap } = await import("../sdk/SwapFormatter");
+
+        const client = await connectClient(hre, args);
+        const latestBlock = await hre.ethers.provider.getBlock("latest");
+
+        const description = await describeSwap(hre.ethers.provider, await resolveSwap(hre, client, args), {
+          now: latestBlock?.timestamp,
+        });
+
+        console.log(`Swap ${args.id}: ${description.text}`);
+
+        return description;
+      }),
+  ),
+);
+
+addSwapParams(
+  addSwapperParams(
+    task("swap:scan", "Prints the risk report of the token contracts of a swap")
+      .addParam("id", "The swapId")
+      .addFlag("snapshot", "Check for fee-on-transfer tokens with a transfer on a Hardhat snapshot"),
+  ),
+).setAction(async (args: SwapIdArgs & { snapshot: boolean }, hre) => {
+  const { scanSwapRisks } = await import("../sdk/SwapRiskScanner");
+
+  const client = await connectClient(hre, args);
+
+  const report = await scanSwapRisks(
+    hre.ethers.provider,
+    await client.contract.getAddress(),
+    await resolveSwap(hre, client, args),
+    { snapshot: args.snapshot },
+  );
+
+  console.log(`Swap ${args.id} risk: ${report.level ?? "none"}`);
+
+  for (const tokenReport of [report.initiator, report.acceptor]) {
+    for (const { level, code, message } of tokenReport?.findings ?? []) {
+      console.log(`${tokenReport?.side} ${level} ${code}: ${message}`);
+    }
+  }
+
+  return report;
+});
+
+addSwapParams(
+  addSwapperParams(
+    task("swap:export", "Prints or writes the canonical swap document of a swap")
+      .addParam("id", "The swapId")
+      .addOptionalParam("out", "The file to write the swap document to"),
+  ),
+).setAction(async (args: ExportArgs, hre) => {
+  const { stringifySwapDocument } = await import("../sdk/SwapDocument");
+
+  const client = await connectClient(hre, args);
+
+  const document = stringifySwapDocument({
+    chainId: (await hre.ethers.provider.getNetwork()).chainId,
+    swapperAddress: await client.contract.getAddress(),
+    swapId: args.id,
+    swap: await resolveSwap(hre, client, args),
+  });
+
+  if (args.out) {
+    writeFileSync(args.out, document);
+    console.log(`Wrote swap ${args.id} to ${args.out}`);
+  } else {
+    console.log(document);
+  }
+
+  return document;
+});
+
+addSwapperParams(
+  task("swap:revoke-approvals", "Revokes the approvals granted to the swapper that no open swap of the signer needs")
+    .addOptionalParam("index", "The SQLite swap index, synced before scanning", "swapIndex.db")
+    .addFlag("resetToZeroFirst", "Zero stale allowances before lowering them, for tokens like USDT")
+    .addFlag("dryRun", "Only print the approvals"),
+).setAction(async (args: RevokeApprovalsArgs, hre) => {
+  const { SqliteSwapStore } = await import("../sdk/SqliteSwapStore");
+  const { SwapIndexer } = await import("../sdk/SwapIndexer");
+  const { revokeApprovals, scanApprovals } = await import("../sdk/SwapRevocations");
+
+  const swapperAddress = args.swapper ?? process.env.SWAPPER_ADDRESS;
+
+  if (!swapperAddress) {
+    throw new Error("--swapper or SWAPPER_ADDRESS is required");
+  }
+
+  const signer = await getSigner(hre, args.signer ?? "0");
+  const store = new SqliteSwapStore(args.index);
+
+  try {
+    const indexer = new SwapIndexer(hre.ethers.provider, swapperAddress, store, {
+      deploymentBlock: await getFromBlock(hre, swapperAddress, args),
+    });
+
+    await indexer.sync();
+
+    const approvals = await scanApprovals(swapperAddress, signer.address, await indexer.getSwaps(), signer);
+
+    for (const { kind, contract, tokenId, amount, neededBy, stale } of approvals) {
+      const token = tokenId === undefined ? contract : `${contract} #${tokenId}`;
+      const detail = amount === undefined ? "" : ` of ${amount}`;
+      const need = stale ? "stale" : `needed by swaps ${neededBy.join(", ")}`;
+
+      console.log(`${kind}${detail} on ${token}: ${need}`);
+    }
+
+    const receipts = args.dryRun ? [] : await revokeApprovals(swapperAddress, approvals, signer, args.resetToZeroFirst);
+
+    console.log(`Sent ${receipts.length} revocation transactions`);
+
+    return { approvals, receipts };
+  } finally {
+    store.close();
+  }
+});
+
+addSwapperParams(
+  task("swap:keeper", "Removes the expired swaps of the signer, refunding their initiator ETH portion")
+    .addOptionalParam("index", "The SQLite swap index, synced before each run", "swapIndex.db")
+    .addFlag("dryRun", "Only print the swaps that would be removed")
+    .addFlag("includeWithoutEth", "Also remove expired swaps without an initiator ETH portion")
+    .addOptionalParam("gasLimit", "The gas limit of each removeSwap transaction")
+    .addOptionalParam("maxFeePerGas", "The max fee per gas in wei of each removeSwap transaction")
+    .addOptionalParam("interval", "Seconds between runs until interrupted, 0 runs once", 0, types.int),
+).setAction(async (args: KeeperArgs, hre) => {
+  const { SqliteSwapStore } = await import("../sdk/SqliteSwapStore");
+  const { SwapIndexer } = await import("../sdk/SwapIndexer");
+  const { SwapKeeper } = await import("../sdk/SwapKeeper");
+
+  const client = await connectClient(hre, args);
+  const store = new SqliteSwapStore(args.index);
+
+  const indexer = new SwapIndexer(hre.ethers.provider, await client.contract.getAddress(), store, {
+    deploymentBlock: client.deploymentBlock,
+  });
+  const keeper = new SwapKeeper(indexer, client, {
+    dryRun: args.dryRun,
+    includeWithoutEth: args.includeWithoutEth,
+    gasLimit: args.gasLimit,
+    maxFeePerGas: args.maxFeePerGas,
+  });
+
+  const printRemovals = (removals: KeeperRemoval[]) => {
+    for (const { swapId, refund, receipt, error } of removals) {
+      if (error) {
+        console.log(`Failed to remove swap ${swapId}: ${error.message}`);
+      } else if (receipt) {
+        console.log(`Removed swap ${swapId} refunding ${refund} wei in transaction ${receipt.hash}`);
+      } else {
+        console.log(`Would remove swap ${swapId} refunding ${refund} wei`);
+      }
+    }
+  };
+
+  try {
+    if (args.interval === 0) {
+      const removals = await keeper.run();
+
+      printRemovals(removals);
+
+      return removals;
+    }
+
+    keeper.start(args.interval * 1000, printRemovals, (error) => console.error(error));
+
+    await new Promise((resolve) => process.once("SIGINT", resolve));
+
+    await keeper.stop();
+  } finally {
+    store.close();
+  }
+});
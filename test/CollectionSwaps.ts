@@ -0,0 +1,220 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { My1155Token, MyToken, TokenSwapperBase, TokenSwapperBase__factory } from "../typechain-types";
+import { ANY_TOKEN_ID, chooseAcceptorTokenId, findOwnedTokenIds, isCollectionSwap } from "../sdk/CollectionSwaps";
+import { signSwap } from "../sdk/SignedSwaps";
+import { SwapBuilder, SwapBuilderError } from "../sdk/SwapBuilder";
+import { describeSwap } from "../sdk/SwapFormatter";
+import { SwapValidationError } from "../sdk/SwapValidation";
+import { SwapperVariant, TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("CollectionSwaps sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+  const DAY = 86400n;
+
+  for (const variant of [SwapperVariant.TokenSwapper, SwapperVariant.NonCancunTokenSwapper]) {
+    describe(variant, function () {
+      let tokenSwapper: TokenSwapperBase;
+      let tokenSwapperAddress: string;
+      let myToken: MyToken;
+      let myTokenAddress: string;
+      let my1155Token: My1155Token;
+      let my1155TokenAddress: string;
+
+      let owner: SignerWithAddress;
+      let swapper1: SignerWithAddress;
+      let swapper2: SignerWithAddress;
+
+      let client: TokenSwapperClient;
+      let collectionSwap: Swap;
+
+      async function deployContractsFixture() {
+        tokenSwapperAddress = await (await ethers.deployContract(variant)).getAddress();
+        tokenSwapper = TokenSwapperBase__factory.connect(tokenSwapperAddress, swapper2);
+
+        myToken = await ethers.deployContract("MyToken", [owner]);
+        myTokenAddress = await myToken.getAddress();
+
+        my1155Token = await ethers.deployContract("My1155Token", [owner, tokenSwapperAddress]);
+        my1155TokenAddress = await my1155Token.getAddress();
+
+        // swapper2 holds tokenIds 0 and 2, tokenId 1 is held by the owner
+        await myToken.safeMint(swapper2.address);
+        await myToken.safeMint(owner.address);
+        await myToken.safeMint(swapper2.address);
+        await myToken.safeMint(swapper2.address);
+        await myToken.connect(swapper2).transferFrom(swapper2.address, owner.address, 3n);
+
+        await my1155Token.safeMintById(swapper2.address, 7n);
+        await my1155Token.safeMintById(swapper2.address, 4n);
+        await my1155Token.safeMintById(swapper2.address, 4n);
+      }
+
+      before(async () => {
+        [owner, swapper1, swapper2] = await ethers.getSigners();
+      });
+
+      this.beforeEach(async () => {
+        await loadFixture(deployContractsFixture);
+
+        client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+        collectionSwap = {
+          expiryDate: BigInt(await networkTime.latest()) + DAY,
+          initiatorERCContract: ethers.ZeroAddress,
+          acceptorERCContract: myTokenAddress,
+          initiator: swapper1.address,
+          initiatorTokenId: 0n,
+          initiatorTokenQuantity: 0n,
+          acceptor: ethers.ZeroAddress,
+          acceptorTokenId: ANY_TOKEN_ID,
+          acceptorTokenQuantity: 0n,
+          initiatorETHPortion: GENERIC_SWAP_ETH,
+          acceptorETHPortion: 0n,
+          initiatorTokenType: TokenType.NONE,
+          acceptorTokenType: TokenType.ERC721,
+        };
+      });
+
+      it("Completes an open ERC721 collection swap with the tokenId the acceptor chooses", async function () {
+        const { swapId } = await client.initiateSwap(collectionSwap);
+
+        expect(isCollectionSwap(collectionSwap)).true;
+
+        await myToken.connect(swapper2).approve(tokenSwapperAddress, 2n);
+
+        await expect(tokenSwapper.completeSwap(swapId, collectionSwap)).to.be.revertedWithCustomError(
+          tokenSwapper,
+          "AcceptorTokenIdNotChosen",
+        );
+        await expect(
+          tokenSwapper.completeCollectionSwap(swapId, collectionSwap, ANY_TOKEN_ID),
+        ).to.be.revertedWithCustomError(tokenSwapper, "AcceptorTokenIdNotChosen");
+
+        await expect(tokenSwapper.completeCollectionSwap(swapId, collectionSwap, 2n))
+          .to.emit(tokenSwapper, "AcceptorTokenIdChosen")
+          .withArgs(swapId, 2n)
+          .and.to.emit(tokenSwapper, "SwapComplete");
+
+        expect(await myToken.ownerOf(2n)).equal(swapper1.address);
+        expect(await tokenSwapper.swapHashes(swapId)).equal(ethers.ZeroHash);
+      });
+
+      it("Rejects choosing another tokenId than a pinned swap accepts", async function () {
+        const pinnedSwap = { ...collectionSwap, acceptor: swapper2.address, acceptorTokenId: 0n };
+        const { swapId } = await client.initiateSwap(pinnedSwap);
+
+        await expect(tokenSwapper.completeCollectionSwap(swapId, pinnedSwap, 2n)).to.be.revertedWithCustomError(
+          tokenSwapper,
+          "NotCollectionSwap",
+        );
+        await expect(client.completeCollectionSwap(swapId, pinnedSwap)).to.be.rejectedWith(
+          "The swap accepts a single tokenId, use completeSwap",
+        );
+      });
+
+      it("Reports the status of a collection swap from the held tokens and approval for all", async function () {
+        const setAcceptorSwap = { ...collectionSwap, acceptor: swapper2.address };
+        const { swapId: openSwapId } = await client.initiateSwap(collectionSwap);
+        const { swapId } = await client.initiateSwap(setAcceptorSwap);
+
+        expect((await tokenSwapper.getSwapStatus(openSwapId, collectionSwap)).acceptorNeedsToOwnToken).true;
+
+        let status = await tokenSwapper.getSwapStatus(swapId, setAcceptorSwap);
+
+        expect(status.acceptorNeedsToOwnToken).false;
+        expect(status.acceptorTokenRequiresApproval).true;
+        expect(status.isReadyForSwapping).false;
+
+        await myToken.connect(swapper2).setApprovalForAll(tokenSwapperAddress, true);
+
+        status = await tokenSwapper.getSwapStatus(swapId, setAcceptorSwap);
+
+        expect(status.acceptorTokenRequiresApproval).false;
+        expect(status.isReadyForSwapping).true;
+
+        await myToken.connect(swapper2).transferFrom(swapper2.address, owner.address, 0n);
+        await myToken.connect(swapper2).transferFrom(swapper2.address, owner.address, 2n);
+
+        expect((await tokenSwapper.getSwapStatus(swapId, setAcceptorSwap)).acceptorNeedsToOwnToken).true;
+      });
+
+      it("Completes an ERC1155 collection swap with a tokenId held in the quantity", async function () {
+        const erc1155Swap = {
+          ...collectionSwap,
+          acceptorERCContract: my1155TokenAddress,
+          acceptorTokenQuantity: 2n,
+          acceptorTokenType: TokenType.ERC1155,
+        };
+        const { swapId } = await client.initiateSwap(erc1155Swap);
+
+        expect((await tokenSwapper.getSwapStatus(swapId, erc1155Swap)).acceptorNeedsToOwnToken).false;
+        expect(
+          await findOwnedTokenIds(ethers.provider, TokenType.ERC1155, my1155TokenAddress, swapper2.address),
+        ).deep.equal([4n, 7n]);
+
+        await my1155Token.connect(swapper2).setApprovalForAll(tokenSwapperAddress, true);
+
+        const result = await (
+          await TokenSwapperClient.connect(tokenSwapperAddress, swapper2)
+        ).completeCollectionSwap(swapId, erc1155Swap);
+
+        expect(result.acceptorTokenId).equal(4n);
+        expect(await my1155Token.balanceOf(swapper1.address, 4n)).equal(2n);
+      });
+
+      it("Chooses an owned tokenId the swapper is approved for", async function () {
+        expect(await findOwnedTokenIds(ethers.provider, TokenType.ERC721, myTokenAddress, swapper2.address)).deep.equal(
+          [0n, 2n],
+        );
+        expect(
+          await chooseAcceptorTokenId(ethers.provider, tokenSwapperAddress, collectionSwap, swapper2.address),
+        ).equal(0n);
+        expect(await chooseAcceptorTokenId(ethers.provider, tokenSwapperAddress, collectionSwap, swapper1.address))
+          .undefined;
+
+        await myToken.connect(swapper2).approve(tokenSwapperAddress, 2n);
+
+        expect(
+          await chooseAcceptorTokenId(ethers.provider, tokenSwapperAddress, collectionSwap, swapper2.address),
+        ).equal(2n);
+
+        const { swapId } = await client.initiateSwap(collectionSwap);
+
+        await expect(client.completeCollectionSwap(swapId, collectionSwap)).to.be.rejectedWith(
+          `${swapper1.address} holds no token of ${myTokenAddress}`,
+        );
+
+        const acceptorClient = await TokenSwapperClient.connect(tokenSwapperAddress, swapper2);
+        const result = await acceptorClient.completeCollectionSwap(swapId, collectionSwap);
+
+        expect(result.acceptorTokenId).equal(2n);
+        expect(result.acceptor).equal(swapper2.address);
+        expect(await myToken.ownerOf(2n)).equal(swapper1.address);
+      });
+
+      it("Builds, describes and refuses to sign collection swaps", async function () {
+        const { swap } = new SwapBuilder()
+          .give()
+          .eth(GENERIC_SWAP_ETH)
+          .want()
+          .anyErc721(myTokenAddress)
+          .from(swapper1.address)
+          .expiresAt(collectionSwap.expiryDate)
+          .build(await networkTime.latest());
+
+        expect(swap).deep.equal(collectionSwap);
+        expect(() => new SwapBuilder().give().anyErc721(myTokenAddress)).to.throw(SwapBuilderError);
+        expect((await describeSwap(ethers.provider, swap)).text).contain("for any MyToken,");
+
+        await expect(signSwap(swapper1, tokenSwapperAddress, swap, 1n)).to.be.rejectedWith(
+          SwapValidationError,
+          "A signed swap cannot accept any tokenId of a collection.",
+        );
+      });
+    });
+  }
+});
@@ -0,0 +1,249 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC1271Wallet, ERC20A, MyToken, TokenSwapperBase, TokenSwapperBase__factory } from "../typechain-types";
+import {
+  SIGNED_SWAP_TYPES,
+  SignedSwap,
+  getSignedSwapDomain,
+  getSignedSwapStatus,
+  hashSignedSwap,
+  recoverSwapSigner,
+  signSwap,
+} from "../sdk/SignedSwaps";
+import { SwapValidationError } from "../sdk/SwapValidation";
+import { SwapperVariant, TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SignedSwaps sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+  const DAY = 86400n;
+
+  for (const variant of [SwapperVariant.TokenSwapper, SwapperVariant.NonCancunTokenSwapper]) {
+    describe(variant, function () {
+      let tokenSwapper: TokenSwapperBase;
+      let tokenSwapperAddress: string;
+      let erc20A: ERC20A;
+      let erc20AAddress: string;
+      let myToken: MyToken;
+      let myTokenAddress: string;
+      let chainId: bigint;
+
+      let owner: SignerWithAddress;
+      let swapper1: SignerWithAddress;
+      let swapper2: SignerWithAddress;
+
+      let defaultSwap: Swap;
+
+      async function deployContractsFixture() {
+        tokenSwapperAddress = await (await ethers.deployContract(variant)).getAddress();
+        tokenSwapper = TokenSwapperBase__factory.connect(tokenSwapperAddress, owner);
+
+        erc20A = await ethers.deployContract("ERC20A");
+        erc20AAddress = await erc20A.getAddress();
+
+        myToken = await ethers.deployContract("MyToken", [owner]);
+        myTokenAddress = await myToken.getAddress();
+
+        await erc20A.safeMint(swapper2.address, 1000n);
+        await myToken.safeMint(swapper1.address);
+
+        await myToken.connect(swapper1).approve(tokenSwapperAddress, 0n);
+        await erc20A.connect(swapper2).approve(tokenSwapperAddress, 1000n);
+      }
+
+      before(async () => {
+        [owner, swapper1, swapper2] = await ethers.getSigners();
+        chainId = (await ethers.provider.getNetwork()).chainId;
+      });
+
+      this.beforeEach(async () => {
+        await loadFixture(deployContractsFixture);
+
+        defaultSwap = {
+          expiryDate: BigInt(await networkTime.latest()) + DAY,
+          initiatorERCContract: myTokenAddress,
+          acceptorERCContract: erc20AAddress,
+          initiator: swapper1.address,
+          initiatorTokenId: 0n,
+          initiatorTokenQuantity: 0n,
+          acceptor: ethers.ZeroAddress,
+          acceptorTokenId: 0n,
+          acceptorTokenQuantity: 500n,
+          initiatorETHPortion: 0n,
+          acceptorETHPortion: 0n,
+          initiatorTokenType: TokenType.ERC721,
+          acceptorTokenType: TokenType.ERC20,
+        };
+      });
+
+      function sign(swap: Swap, nonce: bigint): Promise<SignedSwap> {
+        return signSwap(swapper1, tokenSwapperAddress, swap, nonce);
+      }
+
+      function complete({ swap, nonce, signature }: SignedSwap, value = swap.acceptorETHPortion) {
+        return tokenSwapper.connect(swapper2).completeSignedSwap(swap, nonce, signature, { value });
+      }
+
+      it("Completes a swap the initiator only signed", async function () {
+        const initiatorNonce = await ethers.provider.getTransactionCount(swapper1.address);
+        const signedSwap = await sign(defaultSwap, 1n);
+
+        expect(recoverSwapSigner(signedSwap)).equal(swapper1.address);
+        expect(await tokenSwapper.hashSignedSwap(defaultSwap, 1n)).equal(
+          hashSignedSwap(chainId, tokenSwapperAddress, defaultSwap, 1n),
+        );
+        expect(await getSignedSwapStatus(ethers.provider, signedSwap)).equal("fillable");
+
+        const result = await (
+          await TokenSwapperClient.connect(tokenSwapperAddress, swapper2)
+        ).completeSignedSwap(signedSwap);
+
+        expect(result.acceptor).equal(swapper2.address);
+        expect(result.nonce).equal(1n);
+        expect(await myToken.ownerOf(0n)).equal(swapper2.address);
+        expect(await erc20A.balanceOf(swapper1.address)).equal(500n);
+        expect(await ethers.provider.getTransactionCount(swapper1.address)).equal(initiatorNonce);
+        expect(await tokenSwapper.isSignedSwapNonceUsed(swapper1.address, 1n)).true;
+      });
+
+      it("Rejects replaying a completed signed swap", async function () {
+        const signedSwap = await sign({ ...defaultSwap, acceptorTokenQuantity: 100n }, 1n);
+
+        await complete(signedSwap);
+
+        await expect(complete(signedSwap))
+          .to.be.revertedWithCustomError(tokenSwapper, "SignedSwapNonceUsed")
+          .withArgs(swapper1.address, 1n);
+        expect(await getSignedSwapStatus(ethers.provider, signedSwap)).equal("nonceUsed");
+      });
+
+      it("Rejects an expired signed swap", async function () {
+        const expiredSwap = { ...defaultSwap, expiryDate: BigInt(await networkTime.latest()) - 1n };
+
+        await expect(sign(expiredSwap, 1n)).to.be.rejectedWith(SwapValidationError, "The expiry date is in the past.");
+
+        const signature = await swapper1.signTypedData(
+          getSignedSwapDomain(chainId, tokenSwapperAddress),
+          SIGNED_SWAP_TYPES,
+          { swap: expiredSwap, nonce: 1n },
+        );
+        const signedSwap = { chainId, swapperAddress: tokenSwapperAddress, swap: expiredSwap, nonce: 1n, signature };
+
+        expect(await getSignedSwapStatus(ethers.provider, signedSwap)).equal("expired");
+        await expect(complete(signedSwap)).to.be.revertedWithCustomError(tokenSwapper, "SwapHasExpired");
+      });
+
+      it("Rejects a signed swap whose nonce was cancelled", async function () {
+        const signedSwap = await sign(defaultSwap, 7n);
+
+        await expect(tokenSwapper.connect(swapper1).cancelSignedSwapNonce(7n))
+          .to.emit(tokenSwapper, "SignedSwapNonceCancelled")
+          .withArgs(swapper1.address, 7n);
+
+        await expect(complete(signedSwap))
+          .to.be.revertedWithCustomError(tokenSwapper, "SignedSwapNonceUsed")
+          .withArgs(swapper1.address, 7n);
+        await expect(tokenSwapper.connect(swapper1).cancelSignedSwapNonce(7n)).to.be.revertedWithCustomError(
+          tokenSwapper,
+          "SignedSwapNonceUsed",
+        );
+        expect(await tokenSwapper.isSignedSwapNonceUsed(swapper2.address, 7n)).false;
+      });
+
+      it("Rejects signatures of another deployment, a changed swap or another signer", async function () {
+        const otherSwapperAddress = await (await ethers.deployContract(variant)).getAddress();
+        const otherSwapper = TokenSwapperBase__factory.connect(otherSwapperAddress, owner);
+        const otherDeploymentSwap = await signSwap(swapper1, otherSwapperAddress, defaultSwap, 1n);
+
+        expect(await tokenSwapper.DOMAIN_SEPARATOR()).not.equal(await otherSwapper.DOMAIN_SEPARATOR());
+        await expect(complete(otherDeploymentSwap)).to.be.revertedWithCustomError(tokenSwapper, "InvalidSignature");
+
+        const signedSwap = await sign(defaultSwap, 1n);
+        const changedSwap = { ...signedSwap, swap: { ...defaultSwap, acceptorTokenQuantity: 1n } };
+
+        expect(await getSignedSwapStatus(ethers.provider, changedSwap)).equal("invalidSignature");
+        await expect(complete(changedSwap)).to.be.revertedWithCustomError(tokenSwapper, "InvalidSignature");
+
+        await expect(signSwap(swapper2, tokenSwapperAddress, defaultSwap, 1n)).to.be.rejectedWith(
+          SwapValidationError,
+          "is not the sender",
+        );
+        expect(await getSignedSwapStatus(ethers.provider, { ...signedSwap, chainId: 1n })).equal("wrongChain");
+      });
+
+      it("Checks the signature of a contract wallet initiator with ERC-1271", async function () {
+        const wallet: ERC1271Wallet = await ethers.deployContract("ERC1271Wallet", [swapper1.address]);
+        const walletAddress = await wallet.getAddress();
+        const walletSwap = {
+          ...defaultSwap,
+          initiatorERCContract: erc20AAddress,
+          initiator: walletAddress,
+          initiatorTokenQuantity: 100n,
+          acceptorTokenQuantity: 0n,
+          acceptorETHPortion: GENERIC_SWAP_ETH,
+          initiatorTokenType: TokenType.ERC20,
+          acceptorTokenType: TokenType.NONE,
+        };
+
+        await erc20A.safeMint(walletAddress, 100n);
+        await wallet.connect(swapper1).approveERC20(erc20AAddress, tokenSwapperAddress, 100n);
+
+        const signedBy = async (signer: SignerWithAddress) => ({
+          chainId,
+          swapperAddress: tokenSwapperAddress,
+          swap: walletSwap,
+          nonce: 1n,
+          signature: await signer.signTypedData(getSignedSwapDomain(chainId, tokenSwapperAddress), SIGNED_SWAP_TYPES, {
+            swap: walletSwap,
+            nonce: 1n,
+          }),
+        });
+        const signedSwap = await signedBy(swapper1);
+        const foreignSwap = await signedBy(swapper2);
+
+        expect(await getSignedSwapStatus(ethers.provider, foreignSwap)).equal("invalidSignature");
+        await expect(complete(foreignSwap)).to.be.revertedWithCustomError(tokenSwapper, "InvalidSignature");
+
+        expect(await getSignedSwapStatus(ethers.provider, signedSwap)).equal("fillable");
+        await expect(complete(signedSwap)).to.changeEtherBalances(
+          [walletAddress, swapper2],
+          [GENERIC_SWAP_ETH, -GENERIC_SWAP_ETH],
+        );
+        expect(await erc20A.balanceOf(swapper2.address)).equal(1100n);
+      });
+
+      it("Only lets the acceptor sweeten a signed swap with ETH", async function () {
+        const signedSwap = await sign(
+          { ...defaultSwap, acceptor: swapper2.address, acceptorETHPortion: GENERIC_SWAP_ETH },
+          1n,
+        );
+
+        await expect(complete(signedSwap, 0n))
+          .to.be.revertedWithCustomError(tokenSwapper, "IncorrectOrMissingAcceptorETH")
+          .withArgs(GENERIC_SWAP_ETH);
+        await expect(
+          tokenSwapper
+            .connect(owner)
+            .completeSignedSwap(signedSwap.swap, 1n, signedSwap.signature, { value: GENERIC_SWAP_ETH }),
+        ).to.be.revertedWithCustomError(tokenSwapper, "NotAcceptor");
+        await expect(complete(signedSwap)).to.changeEtherBalances(
+          [swapper1, swapper2],
+          [GENERIC_SWAP_ETH, -GENERIC_SWAP_ETH],
+        );
+
+        const initiatorEthSwap = { ...defaultSwap, initiatorETHPortion: GENERIC_SWAP_ETH };
+
+        await expect(sign(initiatorEthSwap, 2n)).to.be.rejectedWith(
+          SwapValidationError,
+          "A signed swap cannot have an initiator ETH portion.",
+        );
+        await expect(complete({ ...signedSwap, swap: initiatorEthSwap, nonce: 2n })).to.be.revertedWithCustomError(
+          tokenSwapper,
+          "SignedSwapInitiatorETHDisallowed",
+        );
+      });
+    });
+  }
+});
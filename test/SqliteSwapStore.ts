@@ -0,0 +1,253 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, MyToken, TokenSwapper } from "../typechain-types";
+import { ANY_TOKEN_ID } from "../sdk/CollectionSwaps";
+import { SWAP_STORE_MIGRATIONS, SqliteSwapStore } from "../sdk/SqliteSwapStore";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { SwapState } from "../sdk/SwapStore";
+import { TokenIdMerkleTree } from "../sdk/TraitSwaps";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SqliteSwapStore sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let deploymentBlock: number;
+
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+  let swapper3: SignerWithAddress;
+
+  let defaultSwap: Swap;
+  let store: SqliteSwapStore;
+  let directory: string;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+    deploymentBlock = (await tokenSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [swapper1.address]);
+    myTokenAddress = await myToken.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20A.connect(swapper1).approve(tokenSwapperAddress, 1000);
+  }
+
+  before(async () => {
+    [, swapper1, swapper2, swapper3] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    directory = mkdtempSync(join(tmpdir(), "sqlite-swap-store-"));
+    store = new SqliteSwapStore(join(directory, "swapIndex.db"));
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: ethers.ZeroAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 100n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: GENERIC_SWAP_ETH,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.NONE,
+    };
+  });
+
+  this.afterEach(() => {
+    store.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function createIndexer(swapStore = store) {
+    return new SwapIndexer(ethers.provider, tokenSwapperAddress, swapStore, { deploymentBlock });
+  }
+
+  async function querySwapIds(...parameters: Parameters<SqliteSwapStore["querySwaps"]>) {
+    return (await store.querySwaps(...parameters)).map((indexedSwap) => indexedSwap.swapId);
+  }
+
+  describe("Migrations", function () {
+    it("Sets the schema version on a new database", async function () {
+      expect(store.database.pragma("user_version", { simple: true })).equal(SWAP_STORE_MIGRATIONS.length);
+    });
+
+    it("Reopens an existing database without reapplying migrations", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await createIndexer().sync();
+      store.close();
+
+      store = new SqliteSwapStore(join(directory, "swapIndex.db"));
+
+      expect(await store.getCheckpoint()).equal(await ethers.provider.getBlockNumber());
+      expect((await store.getSwap(1n))?.swap).deep.equal(defaultSwap);
+    });
+  });
+
+  describe("Persistence", function () {
+    it("Round trips a completed swap with its ETH transfers", async function () {
+      defaultSwap.acceptor = ethers.ZeroAddress;
+      defaultSwap.expiryDate = ethers.MaxUint256;
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      const completeTx = await tokenSwapper
+        .connect(swapper3)
+        .completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+
+      await createIndexer().sync();
+
+      const indexedSwap = await store.getSwap(1n);
+
+      expect(indexedSwap?.swap).deep.equal(defaultSwap);
+      expect(indexedSwap?.state).equal(SwapState.Completed);
+      expect(indexedSwap?.acceptor).equal(swapper3.address);
+      expect(indexedSwap?.closedTransactionHash).equal(completeTx.hash);
+      expect(indexedSwap?.ethPortionTransfers.map(({ user, amount }) => [user, amount])).deep.equal([
+        [swapper1.address, GENERIC_SWAP_ETH],
+      ]);
+    });
+
+    it("Resumes indexing from the persisted checkpoint", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await createIndexer().sync();
+      store.close();
+
+      await tokenSwapper.connect(swapper2).completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+
+      store = new SqliteSwapStore(join(directory, "swapIndex.db"));
+      await createIndexer().sync();
+
+      expect((await store.getSwap(1n))?.state).equal(SwapState.Completed);
+      expect((await store.getSwap(1n))?.ethPortionTransfers).to.have.length(1);
+    });
+
+    it("Round trips the root of a trait swap and the tokenId chosen to complete it", async function () {
+      const tree = TokenIdMerkleTree.fromTokenIds([0n, 1n]);
+      const traitSwap = {
+        ...defaultSwap,
+        initiatorERCContract: ethers.ZeroAddress,
+        initiatorTokenQuantity: 0n,
+        initiatorETHPortion: GENERIC_SWAP_ETH,
+        initiatorTokenType: TokenType.NONE,
+        acceptorERCContract: myTokenAddress,
+        acceptorTokenId: ANY_TOKEN_ID,
+        acceptorETHPortion: 0n,
+        acceptorTokenType: TokenType.ERC721,
+      };
+
+      await myToken.connect(swapper1).safeMint(swapper2.address);
+      await myToken.connect(swapper1).safeMint(swapper2.address);
+      await myToken.connect(swapper2).setApprovalForAll(tokenSwapperAddress, true);
+
+      await tokenSwapper.connect(swapper1).initiateTraitSwap(traitSwap, tree.root, { value: GENERIC_SWAP_ETH });
+      await createIndexer().sync();
+
+      expect((await store.getSwap(1n))?.tokenIdsRoot).equal(tree.root);
+      expect((await store.getSwap(1n))?.acceptorTokenId).undefined;
+
+      await tokenSwapper.connect(swapper2).completeTraitSwap(1n, traitSwap, 1n, tree.getProof(1n));
+      await createIndexer().sync();
+
+      const indexedSwap = await store.getSwap(1n);
+
+      expect(indexedSwap?.swap).deep.equal(traitSwap);
+      expect(indexedSwap?.tokenIdsRoot).equal(tree.root);
+      expect(indexedSwap?.acceptorTokenId).equal(1n);
+      expect(await querySwapIds({ ercContract: myTokenAddress, tokenId: 1n })).deep.equal([1n]);
+      expect(await querySwapIds({ tokenId: 0n })).to.be.empty;
+    });
+
+    it("Cancels the open swaps of the initiator raising the nonce", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper2).completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+      await createIndexer().sync();
+
+      expect((await store.getOpenSwapsOf(swapper1.address)).map(({ swapId }) => swapId)).deep.equal([2n]);
+      expect(await store.getOpenSwapsOf(swapper2.address)).to.be.empty;
+
+      await tokenSwapper.connect(swapper1).incrementNonce();
+      await createIndexer().sync();
+
+      expect((await store.getSwap(1n))?.state).equal(SwapState.Completed);
+      expect((await store.getSwap(2n))?.state).equal(SwapState.Cancelled);
+      expect(await store.getOpenSwapsOf(swapper1.address)).to.be.empty;
+    });
+  });
+
+  describe("Querying", function () {
+    let nftSwap: Swap;
+
+    this.beforeEach(async () => {
+      nftSwap = {
+        ...defaultSwap,
+        initiatorERCContract: myTokenAddress,
+        initiatorTokenId: 12n,
+        initiatorTokenQuantity: 0n,
+        initiatorTokenType: TokenType.ERC721,
+        acceptor: swapper3.address,
+      };
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper1).initiateSwap(nftSwap);
+      await tokenSwapper.connect(swapper1).initiateSwap({ ...defaultSwap, acceptor: ethers.ZeroAddress });
+      await tokenSwapper.connect(swapper2).completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+      await tokenSwapper
+        .connect(swapper3)
+        .completeSwap(3n, { ...defaultSwap, acceptor: ethers.ZeroAddress }, { value: GENERIC_SWAP_ETH });
+
+      await createIndexer().sync();
+    });
+
+    it("Filters by initiator", async function () {
+      expect(await querySwapIds({ initiator: swapper1.address })).deep.equal([1n, 2n, 3n]);
+      expect(await querySwapIds({ initiator: swapper2.address.toLowerCase() })).to.be.empty;
+    });
+
+    it("Filters by the designated or real acceptor", async function () {
+      expect(await querySwapIds({ acceptor: swapper2.address })).deep.equal([1n]);
+      expect(await querySwapIds({ acceptor: swapper3.address })).deep.equal([2n, 3n]);
+    });
+
+    it("Filters by ERC contract and tokenId", async function () {
+      expect(await querySwapIds({ ercContract: erc20AAddress })).deep.equal([1n, 3n]);
+      expect(await querySwapIds({ ercContract: myTokenAddress, tokenId: 12n })).deep.equal([2n]);
+      expect(await querySwapIds({ ercContract: erc20AAddress, tokenId: 12n })).to.be.empty;
+      expect(await querySwapIds({ tokenId: 12n })).deep.equal([2n]);
+    });
+
+    it("Filters open swaps for a collection", async function () {
+      expect(await querySwapIds({ ercContract: myTokenAddress, state: SwapState.Open })).deep.equal([2n]);
+      expect(await querySwapIds({ ercContract: erc20AAddress, state: SwapState.Open })).to.be.empty;
+      expect(await querySwapIds({ state: SwapState.Completed })).deep.equal([1n, 3n]);
+    });
+
+    it("Derives the expired state from the given timestamp", async function () {
+      const afterExpiry = Number(defaultSwap.expiryDate) + 1;
+
+      expect(await querySwapIds({ state: SwapState.Open }, afterExpiry)).to.be.empty;
+      expect(await querySwapIds({ state: SwapState.Expired }, afterExpiry)).deep.equal([2n]);
+      expect((await store.querySwaps({ initiator: swapper1.address }, afterExpiry))[1].state).equal(SwapState.Expired);
+    });
+  });
+});
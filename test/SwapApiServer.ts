@@ -0,0 +1,230 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, MyToken, TokenSwapper } from "../typechain-types";
+import { SqliteSwapStore } from "../sdk/SqliteSwapStore";
+import { SwapApiServer } from "../sdk/SwapApiServer";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { SwapState } from "../sdk/SwapStore";
+import { TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapApiServer sdk testing", function () {
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let deploymentBlock: number;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+  let swapper3: SignerWithAddress;
+
+  let defaultSwap: Swap;
+  let store: SqliteSwapStore;
+  let indexer: SwapIndexer;
+  let server: SwapApiServer;
+  let baseUrl: string;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+    deploymentBlock = (await tokenSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await myToken.safeMint(swapper2.address);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2, swapper3] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: myTokenAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 500n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.ERC721,
+    };
+
+    store = new SqliteSwapStore(":memory:");
+    indexer = new SwapIndexer(ethers.provider, tokenSwapperAddress, store, { deploymentBlock });
+    server = new SwapApiServer(store, await TokenSwapperClient.connect(tokenSwapperAddress, ethers.provider));
+    baseUrl = `http://127.0.0.1:${await server.listen()}`;
+  });
+
+  this.afterEach(async () => {
+    await server.close();
+    store.close();
+  });
+
+  async function get(path: string) {
+    const response = await fetch(`${baseUrl}${path}`);
+
+    return { status: response.status, body: await response.json() };
+  }
+
+  describe("Swaps", function () {
+    it("Returns an indexed swap with uint256 values as strings", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await indexer.sync();
+
+      const { status, body } = await get("/swaps/1");
+
+      expect(status).equal(200);
+      expect(body.swapId).equal("1");
+      expect(body.state).equal(SwapState.Open);
+      expect(body.swap.initiator).equal(swapper1.address);
+      expect(body.swap.initiatorTokenQuantity).equal("500");
+      expect(body.swap.expiryDate).equal(defaultSwap.expiryDate.toString());
+    });
+
+    it("Returns 404 for an unknown swap and 400 for an invalid id", async function () {
+      expect((await get("/swaps/1")).status).equal(404);
+      expect(await get("/swaps/abc")).deep.equal({ status: 400, body: { error: "Invalid swap id: abc" } });
+      expect((await get("/unknown")).status).equal(404);
+    });
+
+    it("Hides the details of unexpected errors", async function () {
+      const consoleError = console.error;
+      const errors: unknown[] = [];
+      console.error = (error: unknown) => errors.push(error);
+      store.getSwap = async () => {
+        throw new Error("missing response from https://rpc.example/secret-key");
+      };
+
+      try {
+        expect(await get("/swaps/1")).deep.equal({ status: 500, body: { error: "Internal server error" } });
+        expect(errors).length(1);
+      } finally {
+        console.error = consoleError;
+      }
+    });
+
+    it("Filters swaps by initiator, acceptor, collection and status", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper1).initiateSwap({
+        ...defaultSwap,
+        acceptor: swapper3.address,
+        acceptorERCContract: erc20AAddress,
+        acceptorTokenQuantity: 1n,
+        acceptorTokenType: TokenType.ERC20,
+      });
+      await tokenSwapper.connect(swapper1).removeSwap(1n, defaultSwap);
+      await indexer.sync();
+
+      const swapIds = async (query: string) =>
+        (await get(`/swaps?${query}`)).body.map((indexedSwap: { swapId: string }) => indexedSwap.swapId);
+
+      expect(await swapIds(`initiator=${swapper1.address}`)).deep.equal(["1", "2"]);
+      expect(await swapIds(`acceptor=${swapper3.address}`)).deep.equal(["2"]);
+      expect(await swapIds(`collection=${myTokenAddress}`)).deep.equal(["1"]);
+      expect(await swapIds(`collection=${erc20AAddress}&status=open`)).deep.equal(["2"]);
+      expect(await swapIds("status=removed")).deep.equal(["1"]);
+    });
+
+    it("Rejects invalid filters", async function () {
+      expect((await get("/swaps?initiator=0x1234")).status).equal(400);
+      expect(await get("/swaps?status=pending")).deep.equal({
+        status: 400,
+        body: { error: "Invalid status: pending" },
+      });
+    });
+
+    it("Derives the expired state from the latest block", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await indexer.sync();
+
+      await networkTime.increaseTo(defaultSwap.expiryDate + 1n);
+
+      expect((await get("/swaps/1")).body.state).equal(SwapState.Expired);
+      expect((await get("/swaps?status=expired")).body).to.have.length(1);
+    });
+  });
+
+  describe("Status", function () {
+    it("Proxies getSwapStatus for an open swap", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await indexer.sync();
+
+      expect((await get("/swaps/1/status")).body).deep.equal({
+        initiatorNeedsToOwnToken: false,
+        acceptorNeedsToOwnToken: false,
+        initiatorTokenRequiresApproval: true,
+        acceptorTokenRequiresApproval: true,
+        isReadyForSwapping: false,
+      });
+
+      await erc20A.connect(swapper1).approve(tokenSwapperAddress, 500);
+      await myToken.connect(swapper2).approve(tokenSwapperAddress, 0);
+
+      expect((await get("/swaps/1/status")).body.isReadyForSwapping).true;
+    });
+
+    it("Returns 409 once the swap is closed", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper1).removeSwap(1n, defaultSwap);
+      await indexer.sync();
+
+      expect(await get("/swaps/1/status")).deep.equal({ status: 409, body: { error: "Swap 1 is removed" } });
+    });
+  });
+
+  describe("GraphQL", function () {
+    it("Executes queries posted to /graphql", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await indexer.sync();
+
+      const response = await fetch(`${baseUrl}/graphql`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query: "query ($id: Uint256!) { swap(id: $id) { id state } }", variables: { id: "1" } }),
+      });
+
+      expect(response.status).equal(200);
+      expect(await response.json()).deep.equal({ data: { swap: { id: "1", state: "OPEN" } } });
+    });
+
+    it("Rejects requests without a query", async function () {
+      const response = await fetch(`${baseUrl}/graphql`, { method: "POST", body: "{}" });
+
+      expect(response.status).equal(400);
+      expect((await get("/graphql")).status).equal(405);
+    });
+  });
+
+  describe("Health", function () {
+    it("Reports the indexed checkpoint", async function () {
+      expect((await get("/health")).body.checkpoint).equal(null);
+
+      await indexer.sync();
+
+      expect((await get("/health")).body.checkpoint).equal(await ethers.provider.getBlockNumber());
+    });
+
+    it("Rejects other methods", async function () {
+      expect((await fetch(`${baseUrl}/swaps`, { method: "POST" })).status).equal(405);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, ERC20C, My1155Token, MyToken, TokenSwapper } from "../typechain-types";
+import { ANY_TOKEN_ID } from "../sdk/CollectionSwaps";
+import { ensureApprovals, getSideStatus } from "../sdk/SwapApprovals";
+import { TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import { TokenIdMerkleTree } from "../sdk/TraitSwaps";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapApprovals testing", function () {
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let erc20C: ERC20C;
+  let erc20CAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let my1155Token: My1155Token;
+  let my1155TokenAddress: string;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let defaultSwap: Swap;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    erc20C = await ethers.deployContract("ERC20C");
+    erc20CAddress = await erc20C.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    my1155Token = await ethers.deployContract("My1155Token", [owner, tokenSwapperAddress]);
+    my1155TokenAddress = await my1155Token.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20C.safeMint(swapper1.address, 1000);
+    await myToken.safeMint(swapper2.address);
+    await my1155Token.safeMint(swapper2.address);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(Math.floor(Date.now() / 1000)) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: myTokenAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 500n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.ERC721,
+    };
+  });
+
+  describe("ERC20", function () {
+    it("Approves the exact quantity", async function () {
+      const { receipts } = await ensureApprovals(tokenSwapperAddress, defaultSwap, "initiator", swapper1);
+
+      expect(receipts).length(1);
+      expect(await erc20A.allowance(swapper1.address, tokenSwapperAddress)).equal(500n);
+    });
+
+    it("Sends nothing when the allowance already covers the quantity", async function () {
+      await erc20A.connect(swapper1).approve(tokenSwapperAddress, 600);
+
+      const { receipts } = await ensureApprovals(tokenSwapperAddress, defaultSwap, "initiator", swapper1);
+
+      expect(receipts).length(0);
+      expect(await erc20A.allowance(swapper1.address, tokenSwapperAddress)).equal(600n);
+    });
+
+    it("Resets a USDT style allowance to zero first", async function () {
+      const swap = { ...defaultSwap, initiatorERCContract: erc20CAddress };
+
+      await erc20C.connect(swapper1).approve(tokenSwapperAddress, 100);
+
+      await expect(ensureApprovals(tokenSwapperAddress, swap, "initiator", swapper1)).to.be.rejected;
+
+      const { receipts } = await ensureApprovals(tokenSwapperAddress, swap, "initiator", swapper1, {
+        resetToZeroFirst: true,
+      });
+
+      expect(receipts).length(2);
+      expect(await erc20C.allowance(swapper1.address, tokenSwapperAddress)).equal(500n);
+    });
+
+    it("Revokes the allowance", async function () {
+      const { revoke } = await ensureApprovals(tokenSwapperAddress, defaultSwap, "initiator", swapper1);
+
+      expect(await revoke()).length(1);
+      expect(await erc20A.allowance(swapper1.address, tokenSwapperAddress)).equal(0n);
+      expect(await revoke()).length(0);
+    });
+  });
+
+  describe("ERC721", function () {
+    it("Approves the single tokenId", async function () {
+      const { receipts } = await ensureApprovals(tokenSwapperAddress, defaultSwap, "acceptor", swapper2);
+
+      expect(receipts).length(1);
+      expect(await myToken.getApproved(0)).equal(tokenSwapperAddress);
+      expect(await myToken.isApprovedForAll(swapper2.address, tokenSwapperAddress)).false;
+    });
+
+    it("Approves all when asked and revokes it", async function () {
+      const { revoke } = await ensureApprovals(tokenSwapperAddress, defaultSwap, "acceptor", swapper2, {
+        approveAll: true,
+      });
+
+      expect(await myToken.isApprovedForAll(swapper2.address, tokenSwapperAddress)).true;
+
+      await revoke();
+
+      expect(await myToken.isApprovedForAll(swapper2.address, tokenSwapperAddress)).false;
+    });
+
+    it("Sends nothing when approved for all", async function () {
+      await myToken.connect(swapper2).setApprovalForAll(tokenSwapperAddress, true);
+
+      const { receipts } = await ensureApprovals(tokenSwapperAddress, defaultSwap, "acceptor", swapper2);
+
+      expect(receipts).length(0);
+    });
+  });
+
+  describe("ERC1155", function () {
+    it("Sets approval for all and revokes it", async function () {
+      const swap = {
+        ...defaultSwap,
+        acceptorERCContract: my1155TokenAddress,
+        acceptorTokenId: 1n,
+        acceptorTokenQuantity: 1n,
+        acceptorTokenType: TokenType.ERC1155,
+      };
+
+      const { receipts, revoke } = await ensureApprovals(tokenSwapperAddress, swap, "acceptor", swapper2);
+
+      expect(receipts).length(1);
+      expect(await my1155Token.isApprovedForAll(swapper2.address, tokenSwapperAddress)).true;
+
+      await revoke();
+
+      expect(await my1155Token.isApprovedForAll(swapper2.address, tokenSwapperAddress)).false;
+    });
+  });
+
+  describe("Collection and trait swaps", function () {
+    it("Sets approval for all on the collection and revokes it", async function () {
+      const swap = { ...defaultSwap, acceptor: ethers.ZeroAddress, acceptorTokenId: ANY_TOKEN_ID };
+
+      expect(await getSideStatus(tokenSwapperAddress, swap, "acceptor", swapper2.address, swapper2)).deep.equal({
+        needsToOwnToken: false,
+        tokenRequiresApproval: true,
+      });
+      expect((await getSideStatus(tokenSwapperAddress, swap, "acceptor", swapper1.address, swapper1)).needsToOwnToken)
+        .true;
+      expect((await getSideStatus(tokenSwapperAddress, swap, "acceptor", ethers.ZeroAddress, swapper1)).needsToOwnToken)
+        .true;
+
+      const { receipts, revoke } = await ensureApprovals(tokenSwapperAddress, swap, "acceptor", swapper2);
+
+      expect(receipts).length(1);
+      expect(await myToken.isApprovedForAll(swapper2.address, tokenSwapperAddress)).true;
+      expect(await myToken.getApproved(0)).equal(ethers.ZeroAddress);
+
+      expect(await revoke()).length(1);
+      expect(await myToken.isApprovedForAll(swapper2.address, tokenSwapperAddress)).false;
+      expect(await revoke()).length(0);
+    });
+
+    it("Only needs the approval for an ERC1155 collection side", async function () {
+      const swap = {
+        ...defaultSwap,
+        acceptorERCContract: my1155TokenAddress,
+        acceptorTokenId: ANY_TOKEN_ID,
+        acceptorTokenQuantity: 1n,
+        acceptorTokenType: TokenType.ERC1155,
+      };
+
+      expect(await getSideStatus(tokenSwapperAddress, swap, "acceptor", swapper2.address, swapper2)).deep.equal({
+        needsToOwnToken: false,
+        tokenRequiresApproval: true,
+      });
+    });
+
+    it("Matches getSwapStatus for a trait swap side", async function () {
+      const client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+      const { swapId, swap } = await client.initiateTraitSwap(
+        {
+          ...defaultSwap,
+          initiatorERCContract: ethers.ZeroAddress,
+          initiatorTokenQuantity: 0n,
+          initiatorETHPortion: 1n,
+          initiatorTokenType: TokenType.NONE,
+          acceptorTokenId: ANY_TOKEN_ID,
+        },
+        TokenIdMerkleTree.fromTokenIds([0n]),
+      );
+
+      expect((await client.getSwapStatus(swapId, swap)).acceptorTokenRequiresApproval).true;
+
+      await client.ensureApprovals(swap, "acceptor", swapper2);
+
+      const status = await client.getSwapStatus(swapId, swap);
+      const acceptorStatus = await getSideStatus(tokenSwapperAddress, swap, "acceptor", swapper2.address, swapper2);
+
+      expect(status.isReadyForSwapping).true;
+      expect(acceptorStatus).deep.equal({
+        needsToOwnToken: status.acceptorNeedsToOwnToken,
+        tokenRequiresApproval: status.acceptorTokenRequiresApproval,
+      });
+    });
+  });
+
+  it("Sends nothing for a side without a token", async function () {
+    const swap = { ...defaultSwap, acceptorERCContract: ethers.ZeroAddress, acceptorTokenType: TokenType.NONE };
+
+    const { receipts } = await ensureApprovals(tokenSwapperAddress, swap, "acceptor", swapper2);
+
+    expect(receipts).length(0);
+  });
+
+  it("Fails when the signer is not the side's party", async function () {
+    await expect(ensureApprovals(tokenSwapperAddress, defaultSwap, "initiator", swapper2)).to.be.rejectedWith(
+      `Signer ${swapper2.address} is not the initiator ${swapper1.address}`,
+    );
+  });
+
+  it("Approves any signer for a swap anyone can accept", async function () {
+    await myToken.safeMint(owner.address);
+
+    const swap = { ...defaultSwap, acceptor: ethers.ZeroAddress, acceptorTokenId: 1n };
+
+    await ensureApprovals(tokenSwapperAddress, swap, "acceptor", owner);
+
+    expect(await myToken.getApproved(1)).equal(tokenSwapperAddress);
+  });
+
+  it("Matches getSwapStatus once both sides are approved", async function () {
+    const client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+    const { swapId, swap } = await client.initiateSwap(defaultSwap);
+
+    expect((await client.getSwapStatus(swapId, swap)).isReadyForSwapping).false;
+
+    await client.ensureApprovals(swap, "initiator");
+    await client.ensureApprovals(swap, "acceptor", swapper2);
+
+    const status = await client.getSwapStatus(swapId, swap);
+    const acceptorStatus = await getSideStatus(tokenSwapperAddress, swap, "acceptor", swapper2.address, swapper2);
+
+    expect(status.isReadyForSwapping).true;
+    expect(acceptorStatus.tokenRequiresApproval).equal(status.acceptorTokenRequiresApproval);
+  });
+});
@@ -0,0 +1,202 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, My1155Token, MyToken, TokenSwapper } from "../typechain-types";
+import { SwapBuilder, SwapBuilderError } from "../sdk/SwapBuilder";
+import { hashSwap } from "../sdk/SwapHashing";
+import { SwapValidationError } from "../sdk/SwapValidation";
+import { TokenType } from "../sdk/types";
+
+describe("SwapBuilder sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+  const DAY = 86400n;
+
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let my1155Token: My1155Token;
+  let my1155TokenAddress: string;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let now: bigint;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    my1155Token = await ethers.deployContract("My1155Token", [owner, tokenSwapperAddress]);
+    my1155TokenAddress = await my1155Token.getAddress();
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    now = BigInt(await networkTime.latest());
+  });
+
+  it("Builds an ERC721 plus ETH for ERC20 swap", function () {
+    const { swap, value } = new SwapBuilder()
+      .give()
+      .erc721(myTokenAddress, 3n)
+      .plusEth(GENERIC_SWAP_ETH)
+      .want()
+      .erc20(erc20AAddress, 500n)
+      .from(swapper1.address)
+      .expiresIn("2d")
+      .build(now);
+
+    expect(value).equal(GENERIC_SWAP_ETH);
+    expect(swap).deep.equal({
+      expiryDate: now + 2n * DAY,
+      initiatorERCContract: myTokenAddress,
+      acceptorERCContract: erc20AAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 3n,
+      initiatorTokenQuantity: 0n,
+      acceptor: ethers.ZeroAddress,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 500n,
+      initiatorETHPortion: GENERIC_SWAP_ETH,
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.ERC721,
+      acceptorTokenType: TokenType.ERC20,
+    });
+  });
+
+  it("Builds an ERC20 for ETH swap the contract accepts as is", async function () {
+    const { swap, value } = new SwapBuilder()
+      .give()
+      .erc20(erc20AAddress, 500n)
+      .want()
+      .eth(GENERIC_SWAP_ETH)
+      .from(swapper1.address)
+      .expiresIn(3600)
+      .build(now);
+
+    await tokenSwapper.connect(swapper1).initiateSwap(swap, { value });
+
+    expect(value).equal(0n);
+    expect(await tokenSwapper.swapHashes(1n)).equal(hashSwap(swap));
+  });
+
+  it("Builds an ERC1155 plus ETH for ERC721 swap restricted to an acceptor", function () {
+    const { swap, value } = new SwapBuilder()
+      .want()
+      .erc721(myTokenAddress, 0n)
+      .give()
+      .erc1155(my1155TokenAddress, 1n, 4n)
+      .plusEth(1n)
+      .from(swapper1.address)
+      .to(swapper2.address)
+      .expiresAt(now + 60n)
+      .build(now);
+
+    expect(value).equal(1n);
+    expect(swap).deep.include({
+      acceptor: swapper2.address,
+      expiryDate: now + 60n,
+      initiatorTokenId: 1n,
+      initiatorTokenQuantity: 4n,
+      initiatorTokenType: TokenType.ERC1155,
+      acceptorTokenType: TokenType.ERC721,
+    });
+  });
+
+  it("Clears the token of a side switched to ETH only", function () {
+    const { swap } = new SwapBuilder()
+      .give()
+      .erc20(erc20AAddress, 500n)
+      .want()
+      .erc20(erc20AAddress, 1n)
+      .eth(GENERIC_SWAP_ETH)
+      .from(swapper1.address)
+      .expiresIn("1w")
+      .build(now);
+
+    expect(swap).deep.include({
+      acceptorERCContract: ethers.ZeroAddress,
+      acceptorTokenQuantity: 0n,
+      acceptorTokenType: TokenType.NONE,
+      acceptorETHPortion: GENERIC_SWAP_ETH,
+    });
+  });
+
+  it("Rejects both sides sweetening with ETH", function () {
+    const builder = new SwapBuilder()
+      .give()
+      .erc20(erc20AAddress, 500n)
+      .plusEth(1n)
+      .want()
+      .erc1155(my1155TokenAddress, 1n, 1n)
+      .plusEth(1n)
+      .from(swapper1.address)
+      .expiresIn("1h");
+
+    expect(() => builder.build(now))
+      .to.throw(SwapValidationError, "Only one side can provide ETH.")
+      .with.property("violations")
+      .with.length(1);
+  });
+
+  it("Rejects an ERC721 acceptor side open to anyone", function () {
+    const builder = new SwapBuilder()
+      .give()
+      .eth(GENERIC_SWAP_ETH)
+      .want()
+      .erc721(myTokenAddress, 0n)
+      .from(swapper1.address)
+      .expiresIn("1d");
+
+    expect(() => builder.build(now)).to.throw(
+      SwapValidationError,
+      "An ERC721 acceptor side requires an acceptor address.",
+    );
+  });
+
+  it("Rejects the other initiateSwap rules", function () {
+    const builder = new SwapBuilder()
+      .give()
+      .erc1155(my1155TokenAddress, 1n, 0n)
+      .from(swapper1.address)
+      .expiresAt(now - 1n);
+
+    expect(() => builder.build(now))
+      .to.throw(SwapValidationError)
+      .with.property("violations")
+      .that.satisfies((violations: { error: string }[]) =>
+        ["SwapIsInThePast", "TokenQuantityMissing", "ValueOrTokenMissing"].every((error) =>
+          violations.some((violation) => violation.error === error),
+        ),
+      );
+  });
+
+  it("Requires a side to be selected, an initiator and an expiry", function () {
+    expect(() => new SwapBuilder().erc20(erc20AAddress, 1n)).to.throw(
+      SwapBuilderError,
+      "give() or want() must be called before erc20()",
+    );
+    expect(() => new SwapBuilder().give().eth(1n).expiresIn("1d").build()).to.throw(SwapBuilderError, "from()");
+    expect(() => new SwapBuilder().give().eth(1n).from(swapper1.address).build()).to.throw(
+      SwapBuilderError,
+      "expiresIn()",
+    );
+    expect(() => new SwapBuilder().expiresIn("2 days")).to.throw(SwapBuilderError, "Unknown duration 2 days");
+  });
+});
@@ -0,0 +1,118 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+  SwapDocumentError,
+  fromSwapDocument,
+  parseSwapDocument,
+  stringifySwapDocument,
+  toSwapDocument,
+  validateSwapDocument,
+} from "../sdk/SwapDocument";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapDocument sdk testing", function () {
+  const initiatorERCContract = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const acceptorERCContract = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+  const initiator = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+  const swapperAddress = "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0";
+
+  const swap: Swap = {
+    expiryDate: 1700000000n,
+    initiatorERCContract,
+    acceptorERCContract,
+    initiator,
+    initiatorTokenId: 0n,
+    initiatorTokenQuantity: ethers.MaxUint256,
+    acceptor: ethers.ZeroAddress,
+    acceptorTokenId: 7n,
+    acceptorTokenQuantity: 0n,
+    initiatorETHPortion: 0n,
+    acceptorETHPortion: ethers.parseEther("1"),
+    initiatorTokenType: TokenType.ERC20,
+    acceptorTokenType: TokenType.ERC721,
+  };
+
+  const contents = { chainId: 31337n, swapperAddress, swapId: 3n, swap };
+
+  it("Writes uint256 values as decimal strings and token types by name", function () {
+    const document = toSwapDocument(contents);
+
+    expect(document).deep.include({ version: 1, chainId: "31337", swapper: swapperAddress, swapId: "3" });
+    expect(document.swap).deep.include({
+      initiatorTokenQuantity: ethers.MaxUint256.toString(),
+      acceptorETHPortion: "1000000000000000000",
+      initiatorTokenType: "ERC20",
+      acceptorTokenType: "ERC721",
+    });
+  });
+
+  it("Round trips through JSON to the ISwapTokens.Swap struct", function () {
+    expect(parseSwapDocument(stringifySwapDocument(contents))).deep.equal(contents);
+  });
+
+  it("Omits the swapId of a swap not yet initiated", function () {
+    const document = toSwapDocument({ chainId: 1, swapperAddress, swap });
+
+    expect(document).not.have.property("swapId");
+    expect(fromSwapDocument(document)).not.have.property("swapId");
+  });
+
+  it("Serializes equal swaps identically whatever their representation", function () {
+    const looseSwap = {
+      ...swap,
+      initiator: initiator.toLowerCase(),
+      expiryDate: Number(swap.expiryDate),
+      initiatorTokenType: "ERC20",
+      acceptorTokenType: 3,
+    };
+
+    expect(stringifySwapDocument({ ...contents, chainId: "31337", swap: looseSwap })).equal(
+      stringifySwapDocument(contents),
+    );
+  });
+
+  it("Lists every schema violation", function () {
+    const document = toSwapDocument(contents);
+
+    const issues = validateSwapDocument({
+      ...document,
+      version: 2,
+      swapper: "0x1234",
+      extra: true,
+      swap: {
+        ...document.swap,
+        expiryDate: 1700000000,
+        initiatorTokenId: "01",
+        acceptorTokenId: (ethers.MaxUint256 + 1n).toString(),
+        initiator: initiator.replace("C8", "c8"),
+        acceptorTokenType: "ERC999",
+        acceptorETHPortion: undefined,
+      },
+    });
+
+    expect(issues).deep.equal([
+      "/extra is not allowed",
+      "/version must be 1",
+      "/swapper must be an address",
+      "/swap/expiryDate must be a uint256 decimal string",
+      "/swap/initiator has an invalid checksum",
+      "/swap/initiatorTokenId must be a uint256 decimal string",
+      "/swap/acceptorTokenId must be a uint256 decimal string",
+      "/swap/acceptorTokenType must be one of NONE, ERC20, ERC777, ERC721, ERC1155",
+    ]);
+  });
+
+  it("Requires every field", function () {
+    expect(validateSwapDocument({ version: 1, swap: {} })).include.members([
+      "/chainId is required",
+      "/swapper is required",
+      "/swap/expiryDate is required",
+      "/swap/acceptorTokenType is required",
+    ]);
+  });
+
+  it("Throws a SwapDocumentError for invalid JSON or documents", function () {
+    expect(() => parseSwapDocument("{")).to.throw(SwapDocumentError);
+    expect(() => fromSwapDocument([])).to.throw(SwapDocumentError, "/ must be an object");
+  });
+});
@@ -0,0 +1,219 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, ERC20B, MyToken, TokenSwapper } from "../typechain-types";
+import { SWAP_ERRORS_INTERFACE, decodeSwapError, decodeSwapErrorFrom, formatSwapError } from "../sdk/SwapErrors";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapErrors sdk testing", function () {
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let erc20B: ERC20B;
+  let erc20BAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let defaultSwap: Swap;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    erc20B = await ethers.deployContract("ERC20B", [swapper2.address]);
+    erc20BAddress = await erc20B.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20A.connect(swapper1).approve(tokenSwapperAddress, 1000);
+    await erc20B.safeMint(swapper1.address, 1000);
+    await erc20B.connect(swapper1).approve(tokenSwapperAddress, 1000);
+    await myToken.safeMint(swapper2.address);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: myTokenAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 500n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.ERC721,
+    };
+  });
+
+  async function catchError(transaction: Promise<unknown>): Promise<unknown> {
+    try {
+      await transaction;
+    } catch (error) {
+      return error;
+    }
+
+    throw new Error("Transaction did not revert");
+  }
+
+  describe("decodeSwapError", function () {
+    it("Decodes an ISwapTokens error with its arguments", function () {
+      const data = SWAP_ERRORS_INTERFACE.encodeErrorResult("InitiatorNotMatched", [swapper1.address, swapper2.address]);
+
+      const decoded = decodeSwapError(data)!;
+
+      expect(decoded.name).equal("InitiatorNotMatched");
+      expect(decoded.selector).equal(data.slice(0, 10));
+      expect(decoded.args).deep.equal({ expected: swapper1.address, actual: swapper2.address });
+      expect(decoded.explanation).equal(
+        `The swap initiator ${swapper1.address} is not the sender ${swapper2.address}.`,
+      );
+    });
+
+    it("Describes an ERC721 swap without an acceptor", function () {
+      const decoded = decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("ZeroAddressDisallowed"));
+
+      expect(decoded?.explanation).equal(
+        "An ERC721 acceptor side requires an acceptor address, the acceptor is the zero address.",
+      );
+      expect(decoded?.suggestion).contain("Set acceptor");
+    });
+
+    it("Decodes the bundle swap errors", function () {
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("NoneTokenTypeInBundle"))?.suggestion).equal(
+        "Remove the item, an ETH only side has no items.",
+      );
+    });
+
+    it("Decodes the signed swap errors", function () {
+      const data = SWAP_ERRORS_INTERFACE.encodeErrorResult("SignedSwapNonceUsed", [swapper1.address, 3n]);
+
+      expect(decodeSwapError(data)?.explanation).equal(
+        `Nonce 3 of ${swapper1.address} was already used to complete a swap or was cancelled.`,
+      );
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("InvalidSignature"))?.name).equal(
+        "InvalidSignature",
+      );
+      expect(
+        decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("SignedSwapInitiatorETHDisallowed"))?.suggestion,
+      ).equal("Set initiatorETHPortion to zero, or initiate the swap on-chain.");
+    });
+
+    it("Decodes the swap nonce errors", function () {
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("SwapCancelled", [4n]))?.explanation).equal(
+        "Swap 4 was initiated before the initiator raised the minimum nonce, which cancelled it.",
+      );
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("NonceNotIncreased", [2n]))?.suggestion).equal(
+        "Cancel up to a nonce above 2, or call incrementNonce.",
+      );
+    });
+
+    it("Decodes the collection swap errors", function () {
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("NotCollectionSwap"))?.suggestion).equal(
+        "Complete the swap with completeSwap, or set acceptorTokenId to the maximum uint256 for a collection swap.",
+      );
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("AcceptorTokenIdNotChosen"))?.explanation).equal(
+        "The swap asks for any tokenId of the collection, but none was chosen.",
+      );
+    });
+
+    it("Decodes the trait swap errors", function () {
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("TokenIdNotInRoot", [9n]))?.explanation).equal(
+        "TokenId 9 is not proven to be one of the tokenIds the trait swap accepts.",
+      );
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("EmptyTokenIdsRoot"))?.name).equal(
+        "EmptyTokenIdsRoot",
+      );
+    });
+
+    it("Decodes the revert reason and panic errors", function () {
+      const reason = ethers.concat(["0x08c379a0", ethers.AbiCoder.defaultAbiCoder().encode(["string"], ["denied"])]);
+      const panic = ethers.concat(["0x4e487b71", ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [0x11])]);
+
+      expect(decodeSwapError(reason)?.explanation).equal('Reverted with the reason "denied".');
+      expect(decodeSwapError(panic)?.explanation).equal("Panicked with code 0x11.");
+    });
+
+    it("Returns undefined for empty or unknown revert data", function () {
+      expect(decodeSwapError("0x")).undefined;
+      expect(decodeSwapError("0xdeadbeef")).undefined;
+    });
+
+    it("Describes OpenZeppelin dependency errors", function () {
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("ReentrancyGuardReentrantCall"))?.name).equal(
+        "ReentrancyGuardReentrantCall",
+      );
+      expect(decodeSwapError(SWAP_ERRORS_INTERFACE.encodeErrorResult("FailedCall"))?.suggestion).equal(
+        "Make sure the receiving account or contract accepts ETH.",
+      );
+    });
+  });
+
+  describe("decodeSwapErrorFrom", function () {
+    it("Decodes a reverted initiateSwap", async function () {
+      const error = await catchError(tokenSwapper.connect(swapper2).initiateSwap(defaultSwap));
+
+      expect(decodeSwapErrorFrom(error)?.name).equal("InitiatorNotMatched");
+    });
+
+    it("Decodes the acceptor ETH error with the expected portion", async function () {
+      const swap = { ...defaultSwap, acceptorETHPortion: ethers.parseEther("1") };
+
+      await tokenSwapper.connect(swapper1).initiateSwap(swap);
+
+      const decoded = decodeSwapErrorFrom(await catchError(tokenSwapper.connect(swapper2).completeSwap(1, swap)));
+
+      expect(decoded?.args).deep.equal({ expectedETHPortion: ethers.parseEther("1") });
+      expect(decoded?.suggestion).equal("Send exactly 1000000000000000000 wei with completeSwap.");
+    });
+
+    it("Names the token to approve from the swap", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const error = await catchError(tokenSwapper.connect(swapper2).completeSwap(1, defaultSwap));
+      const decoded = decodeSwapErrorFrom(error, defaultSwap)!;
+
+      expect(decoded.name).equal("ERC721InsufficientApproval");
+      expect(formatSwapError(decoded)).equal(
+        `ERC721InsufficientApproval: The swapper ${tokenSwapperAddress} is not approved for token #0.` +
+          ` Approve swapper for token #0 of token ${myTokenAddress}.`,
+      );
+    });
+
+    it("Decodes a token refusing the transfer", async function () {
+      const swap = { ...defaultSwap, initiatorERCContract: erc20BAddress };
+
+      await myToken.connect(swapper2).approve(tokenSwapperAddress, 0);
+      await tokenSwapper.connect(swapper1).initiateSwap(swap);
+
+      const decoded = decodeSwapErrorFrom(await catchError(tokenSwapper.connect(swapper2).completeSwap(1, swap)));
+
+      expect(decoded?.name).equal("SafeERC20FailedOperation");
+      expect(decoded?.args).deep.equal({ token: erc20BAddress });
+    });
+
+    it("Returns undefined for errors without revert data", function () {
+      expect(decodeSwapErrorFrom(new Error("network down"))).undefined;
+    });
+  });
+});
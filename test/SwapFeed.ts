@@ -0,0 +1,348 @@
+import { loadFixture, mine, takeSnapshot, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { WebSocket } from "ws";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, MyToken, TokenSwapper } from "../typechain-types";
+import { MemorySwapStore } from "../sdk/SwapStore";
+import { SwapEventMessage, SwapFeed, SwapFeedMessage, matchesFilter } from "../sdk/SwapFeed";
+import { SwapFeedServer } from "../sdk/SwapFeedServer";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapFeed sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let deploymentBlock: number;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+  let swapper3: SignerWithAddress;
+
+  let defaultSwap: Swap;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+    deploymentBlock = (await tokenSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20A.connect(swapper1).approve(tokenSwapperAddress, 1000);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2, swapper3] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: ethers.ZeroAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 100n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: GENERIC_SWAP_ETH,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.NONE,
+    };
+  });
+
+  function createFeed() {
+    return new SwapFeed(ethers.provider, tokenSwapperAddress, { fromBlock: deploymentBlock });
+  }
+
+  function types(messages: SwapFeedMessage[]) {
+    return messages.map((message) => (message.type === "retracted" ? `-${message.message.type}` : message.type));
+  }
+
+  describe("Messages", function () {
+    it("Sends initiated, completed and ethTransferred messages in order", async function () {
+      const feed = createFeed();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper2).completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+
+      const messages = await feed.poll();
+
+      expect(types(messages)).deep.equal(["initiated", "completed", "ethTransferred"]);
+      expect(messages[1]).to.include({ swapId: 1n, acceptor: swapper2.address });
+      expect(messages[2]).to.include({ swapId: 1n, user: swapper1.address, amount: GENERIC_SWAP_ETH });
+      expect(await feed.poll()).to.be.empty;
+    });
+
+    it("Sends removed messages with the swap details", async function () {
+      const feed = createFeed();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await feed.poll();
+      await tokenSwapper.connect(swapper1).removeSwap(1n, defaultSwap);
+
+      const [removed] = await feed.poll();
+
+      expect(removed.type).equal("removed");
+      expect(removed.type === "removed" && removed.swap).deep.equal(defaultSwap);
+    });
+
+    it("Sends an expired message once the head passes the expiry", async function () {
+      defaultSwap.expiryDate = BigInt(await networkTime.latest()) + 100n;
+
+      const feed = createFeed();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await feed.poll();
+
+      await networkTime.increase(200);
+      await mine();
+
+      expect(types(await feed.poll())).deep.equal(["expired"]);
+      expect(await feed.poll()).to.be.empty;
+    });
+
+    it("Starts after the indexed checkpoint and reports indexed swaps", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const store = new MemorySwapStore();
+      await new SwapIndexer(ethers.provider, tokenSwapperAddress, store, { deploymentBlock }).sync();
+
+      await tokenSwapper.connect(swapper1).removeSwap(1n, defaultSwap);
+
+      const messages = await new SwapFeed(ethers.provider, tokenSwapperAddress, { store }).poll();
+
+      expect(types(messages)).deep.equal(["removed"]);
+      expect(messages[0].type === "removed" && messages[0].swap).deep.equal(defaultSwap);
+    });
+  });
+
+  describe("Reorgs", function () {
+    it("Retracts messages from orphaned blocks newest first", async function () {
+      const feed = createFeed();
+      const snapshot = await takeSnapshot();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper2).completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+
+      const sent = await feed.poll();
+
+      await snapshot.restore();
+      await mine(3);
+
+      const messages = await feed.poll();
+
+      expect(types(messages)).deep.equal(["-ethTransferred", "-completed", "-initiated"]);
+      expect(messages.map((message) => message.type === "retracted" && message.id)).deep.equal(
+        sent.map((message) => message.type !== "retracted" && message.id).reverse(),
+      );
+    });
+
+    it("Reads the new branch after retracting", async function () {
+      const feed = createFeed();
+      const snapshot = await takeSnapshot();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper2).completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+      await feed.poll();
+
+      await snapshot.restore();
+      await tokenSwapper.connect(swapper1).initiateSwap({ ...defaultSwap, initiatorTokenQuantity: 50n });
+
+      const messages = await feed.poll();
+
+      expect(types(messages)).deep.equal(["-ethTransferred", "-completed", "-initiated", "initiated"]);
+      expect(messages[3]).to.include({ swapId: 1n });
+      expect(messages[3].type === "initiated" && messages[3].swap.initiatorTokenQuantity).equal(50n);
+    });
+
+    it("Reads the new branch below an orphaned head without messages", async function () {
+      const feed = createFeed();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await feed.poll();
+
+      const snapshot = await takeSnapshot();
+
+      await mine(3);
+      expect(await feed.poll()).length(0);
+
+      await snapshot.restore();
+      await mine();
+      await tokenSwapper.connect(swapper1).removeSwap(1n, defaultSwap);
+      await mine();
+
+      expect(types(await feed.poll())).deep.equal(["removed"]);
+    });
+
+    it("Keeps messages from blocks still on the canonical chain", async function () {
+      const feed = createFeed();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await feed.poll();
+
+      const snapshot = await takeSnapshot();
+
+      await tokenSwapper.connect(swapper1).removeSwap(1n, defaultSwap);
+      await feed.poll();
+
+      await snapshot.restore();
+      await mine(2);
+
+      expect(types(await feed.poll())).deep.equal(["-removed"]);
+    });
+
+    it("Sends the expiry again for a swap whose retracted removal reopened it", async function () {
+      defaultSwap.expiryDate = BigInt(await networkTime.latest()) + 100n;
+
+      const feed = createFeed();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await feed.poll();
+
+      const snapshot = await takeSnapshot();
+
+      await tokenSwapper.connect(swapper1).removeSwap(1n, defaultSwap);
+      await feed.poll();
+
+      await snapshot.restore();
+      await networkTime.increase(200);
+      await mine();
+
+      expect(types(await feed.poll())).deep.equal(["-removed", "expired"]);
+    });
+  });
+
+  describe("Filters", function () {
+    it("Matches by address, collection and swapId", async function () {
+      const feed = createFeed();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper2).completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+
+      const [initiated, completed, ethTransferred] = await feed.poll();
+
+      expect(matchesFilter(initiated, {})).true;
+      expect(matchesFilter(initiated, { address: swapper2.address.toLowerCase() })).true;
+      expect(matchesFilter(initiated, { address: swapper3.address })).false;
+      expect(matchesFilter(completed, { collection: erc20AAddress, swapId: 1n })).true;
+      expect(matchesFilter(completed, { collection: myTokenAddress })).false;
+      expect(matchesFilter(ethTransferred, { swapId: 2n })).false;
+
+      const retracted: SwapFeedMessage = { type: "retracted", id: "retracted", message: completed as SwapEventMessage };
+
+      expect(matchesFilter(retracted, { collection: erc20AAddress, address: swapper2.address })).true;
+      expect(matchesFilter(retracted, { swapId: 2n })).false;
+    });
+  });
+
+  describe("WebSocket server", function () {
+    let feed: SwapFeed;
+    let server: SwapFeedServer;
+    let socket: WebSocket;
+    let received: Record<string, unknown>[];
+
+    this.beforeEach(async () => {
+      feed = createFeed();
+      server = new SwapFeedServer(feed);
+      socket = new WebSocket(`ws://127.0.0.1:${await server.listen()}`);
+      received = [];
+
+      socket.on("message", (data) => received.push(JSON.parse(data.toString())));
+      await new Promise((resolve) => socket.once("open", resolve));
+    });
+
+    this.afterEach(async () => {
+      socket.close();
+      await server.close();
+    });
+
+    async function request(value: unknown) {
+      const count = received.length;
+
+      socket.send(JSON.stringify(value));
+
+      while (received.length === count) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      return received[count];
+    }
+
+    async function pollAndReceive() {
+      const count = received.length;
+
+      await feed.poll();
+      await request({ type: "unsubscribe", id: "sync" });
+
+      return received.slice(count, received.length - 1);
+    }
+
+    it("Pushes matching messages with the subscription ids", async function () {
+      expect(await request({ type: "subscribe", id: "swap1", filter: { swapId: "1" } })).deep.equal({
+        type: "subscribed",
+        id: "swap1",
+      });
+      await request({ type: "subscribe", id: "swapper3", filter: { address: swapper3.address } });
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper1).initiateSwap({ ...defaultSwap, acceptor: swapper3.address });
+
+      const messages = await pollAndReceive();
+
+      expect(messages.map(({ type, swapId, subscriptions }) => [type, swapId, subscriptions])).deep.equal([
+        ["initiated", "1", ["swap1"]],
+        ["initiated", "2", ["swapper3"]],
+      ]);
+    });
+
+    it("Pushes retractions and stops after unsubscribing", async function () {
+      await request({ type: "subscribe", id: "all" });
+
+      const snapshot = await takeSnapshot();
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      expect((await pollAndReceive()).map(({ type }) => type)).deep.equal(["initiated"]);
+
+      await snapshot.restore();
+      await mine(2);
+
+      const [retracted] = await pollAndReceive();
+
+      expect(retracted.type).equal("retracted");
+      expect((retracted.message as Record<string, unknown>).type).equal("initiated");
+
+      expect(await request({ type: "unsubscribe", id: "all" })).deep.equal({ type: "unsubscribed", id: "all" });
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      expect(await pollAndReceive()).to.be.empty;
+    });
+
+    it("Rejects invalid requests", async function () {
+      expect(await request({ type: "subscribe", id: "bad", filter: { address: "0x1234" } })).deep.equal({
+        type: "error",
+        id: "bad",
+        message: "Invalid address: 0x1234",
+      });
+      expect((await request({ type: "subscribe" })).message).equal("id is required");
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { TokenMetadata, describeSwap, fetchTokenMetadata, formatSwap, shortAddress } from "../sdk/SwapFormatter";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapFormatter sdk testing", function () {
+  const DAY = 86400n;
+
+  let tokenSwapperAddress: string;
+  let erc20AAddress: string;
+  let myTokenAddress: string;
+  let my1155TokenAddress: string;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let now: bigint;
+  let defaultSwap: Swap;
+
+  async function deployContractsFixture() {
+    const tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+
+    const erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    const myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    const my1155Token = await ethers.deployContract("My1155Token", [owner, tokenSwapperAddress]);
+    my1155TokenAddress = await my1155Token.getAddress();
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    now = BigInt(await networkTime.latest());
+
+    defaultSwap = {
+      expiryDate: now + 2n * DAY,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: myTokenAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: ethers.parseEther("3000"),
+      acceptor: ethers.ZeroAddress,
+      acceptorTokenId: 123n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: ethers.parseEther("1"),
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.ERC721,
+    };
+  });
+
+  it("Describes a swap with the token symbol, decimals and collection name", async function () {
+    const description = await describeSwap(ethers.provider, defaultSwap, { now });
+
+    expect(description.text).equal(
+      `${shortAddress(swapper1.address)} gives 3000 ERC20B + 1 ETH for MyToken #123, expires in 2 days, open to anyone`,
+    );
+    expect(description.gives.token).deep.include({ symbol: "ERC20B", decimals: 18n });
+  });
+
+  it("Describes ETH only sides, ERC1155 quantities and a set acceptor", async function () {
+    const description = await describeSwap(
+      ethers.provider,
+      {
+        ...defaultSwap,
+        initiatorERCContract: ethers.ZeroAddress,
+        initiatorTokenQuantity: 0n,
+        initiatorTokenType: TokenType.NONE,
+        initiatorETHPortion: ethers.parseEther("0.25"),
+        acceptor: swapper2.address,
+        acceptorERCContract: my1155TokenAddress,
+        acceptorTokenId: 1n,
+        acceptorTokenQuantity: 4n,
+        acceptorTokenType: TokenType.ERC1155,
+        expiryDate: now + 90n,
+      },
+      { now },
+    );
+
+    expect(description.text).equal(
+      `${shortAddress(swapper1.address)} gives 0.25 ETH for 4 × ${shortAddress(my1155TokenAddress)} #1, ` +
+        `expires in 1 minute, only ${shortAddress(swapper2.address)} can accept`,
+    );
+    expect(description.wants.token?.uri).equal("http://uri.for.token");
+  });
+
+  it("Describes an expired swap", function () {
+    expect(formatSwap({ ...defaultSwap, expiryDate: now - 3n * 3600n }, undefined, undefined, now).expiry).equal(
+      "expired 3 hours ago",
+    );
+  });
+
+  it("Describes a swap at its expiry date as still open", function () {
+    expect(formatSwap({ ...defaultSwap, expiryDate: now }, undefined, undefined, now).expiry).equal(
+      "expires in 0 seconds",
+    );
+  });
+
+  it("Falls back to the contract address when metadata calls revert", async function () {
+    const metadata = await fetchTokenMetadata(ethers.provider, tokenSwapperAddress, TokenType.ERC20, 0n);
+
+    expect(metadata.symbol).undefined;
+    expect(metadata.decimals).undefined;
+    expect(formatSwap({ ...defaultSwap, initiatorTokenQuantity: 7n }, metadata, undefined, now).gives.text).equal(
+      `7 ${shortAddress(tokenSwapperAddress)} + 1 ETH`,
+    );
+  });
+
+  it("Fetches each token once with a shared cache", async function () {
+    const cache = new Map<string, Promise<TokenMetadata>>();
+
+    await describeSwap(ethers.provider, defaultSwap, { now, cache });
+    await describeSwap(ethers.provider, { ...defaultSwap, initiatorTokenQuantity: 1n }, { now, cache });
+
+    expect(cache.size).equal(2);
+  });
+});
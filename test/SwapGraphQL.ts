@@ -0,0 +1,284 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, MyToken, TokenSwapper } from "../typechain-types";
+import { ANY_TOKEN_ID } from "../sdk/CollectionSwaps";
+import { SqliteSwapStore } from "../sdk/SqliteSwapStore";
+import { SwapGraphQL } from "../sdk/SwapGraphQL";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapGraphQL sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let deploymentBlock: number;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+  let swapper3: SignerWithAddress;
+
+  let defaultSwap: Swap;
+  let openSwap: Swap;
+  let store: SqliteSwapStore;
+  let client: TokenSwapperClient;
+  let swapGraphQL: SwapGraphQL;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+    deploymentBlock = (await tokenSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20A.connect(swapper1).approve(tokenSwapperAddress, 1000);
+    await myToken.safeMint(swapper2.address);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2, swapper3] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: myTokenAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 500n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.ERC721,
+    };
+
+    openSwap = {
+      ...defaultSwap,
+      expiryDate: defaultSwap.expiryDate + 86400n,
+      acceptorERCContract: ethers.ZeroAddress,
+      acceptor: ethers.ZeroAddress,
+      initiatorTokenQuantity: 100n,
+      acceptorETHPortion: GENERIC_SWAP_ETH,
+      acceptorTokenType: TokenType.NONE,
+    };
+
+    await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+    await tokenSwapper.connect(swapper1).initiateSwap(openSwap);
+    await tokenSwapper.connect(swapper1).initiateSwap(openSwap);
+    await tokenSwapper.connect(swapper3).completeSwap(3n, openSwap, { value: GENERIC_SWAP_ETH });
+
+    store = new SqliteSwapStore(":memory:");
+    await new SwapIndexer(ethers.provider, tokenSwapperAddress, store, { deploymentBlock }).sync();
+
+    client = await TokenSwapperClient.connect(tokenSwapperAddress, ethers.provider);
+    swapGraphQL = new SwapGraphQL(store, client);
+  });
+
+  this.afterEach(() => {
+    store.close();
+  });
+
+  async function execute(source: string, variableValues?: Record<string, unknown>) {
+    const result = await swapGraphQL.execute(source, variableValues);
+
+    expect(result.errors).undefined;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return result.data as any;
+  }
+
+  async function swapIds(filter: Record<string, unknown>) {
+    const data = await execute("query ($filter: SwapFilter) { swaps(filter: $filter) { nodes { id } } }", { filter });
+
+    return data.swaps.nodes.map((node: { id: string }) => node.id);
+  }
+
+  describe("Swaps", function () {
+    it("Resolves a swap with its sides and participants", async function () {
+      const data = await execute(`{
+        swap(id: "3") {
+          id
+          state
+          initiator { address }
+          acceptor { address }
+          completedBy { address }
+          initiatorSide { tokenType contract quantity ethPortion }
+          acceptorSide { tokenType ethPortion }
+          ethPortionTransfers { recipient { address } amount }
+        }
+      }`);
+
+      expect(data.swap).deep.equal({
+        id: "3",
+        state: "COMPLETED",
+        initiator: { address: swapper1.address },
+        acceptor: null,
+        completedBy: { address: swapper3.address },
+        initiatorSide: { tokenType: "ERC20", contract: erc20AAddress, quantity: "100", ethPortion: "0" },
+        acceptorSide: { tokenType: "NONE", ethPortion: GENERIC_SWAP_ETH.toString() },
+        ethPortionTransfers: [{ recipient: { address: swapper1.address }, amount: GENERIC_SWAP_ETH.toString() }],
+      });
+    });
+
+    it("Resolves the tokenId chosen to complete a collection swap", async function () {
+      const collectionSwap = {
+        ...openSwap,
+        acceptorERCContract: myTokenAddress,
+        acceptorTokenId: ANY_TOKEN_ID,
+        acceptorETHPortion: 0n,
+        acceptorTokenType: TokenType.ERC721,
+      };
+
+      await tokenSwapper.connect(swapper1).initiateSwap(collectionSwap);
+      await myToken.connect(swapper2).approve(tokenSwapperAddress, 0n);
+      await tokenSwapper.connect(swapper2).completeCollectionSwap(4n, collectionSwap, 0n);
+      await new SwapIndexer(ethers.provider, tokenSwapperAddress, store, { deploymentBlock }).sync();
+
+      const data = await execute('{ swap(id: "4") { acceptorSide { tokenId } chosenTokenId tokenIdsRoot } }');
+
+      expect(data.swap).deep.equal({
+        acceptorSide: { tokenId: ANY_TOKEN_ID.toString() },
+        chosenTokenId: "0",
+        tokenIdsRoot: null,
+      });
+      expect((await execute('{ swap(id: "1") { chosenTokenId } }')).swap.chosenTokenId).null;
+    });
+
+    it("Returns null for an unknown swap", async function () {
+      expect((await execute("{ swap(id: 99) { id } }")).swap).null;
+    });
+
+    it("Rejects invalid arguments", async function () {
+      const result = await swapGraphQL.execute('{ swaps(filter: { initiator: "0x1234" }) { totalCount } }');
+
+      expect(result.errors?.[0].message).equal("Invalid address: 0x1234");
+      expect((await swapGraphQL.execute('{ swap(id: "-1") { id } }')).errors).to.have.length(1);
+      expect((await swapGraphQL.execute('{ swaps(after: "abc") { totalCount } }')).errors?.[0].message).equal(
+        "Invalid Uint256: abc",
+      );
+    });
+
+    it("Hides the details of unexpected errors", async function () {
+      const providerError = new Error("missing response from https://rpc.example/secret-key");
+      client.getSwapStatus = async () => {
+        throw providerError;
+      };
+
+      const [error] = (await swapGraphQL.execute("{ swap(id: 1) { status { isReadyForSwapping } } }")).errors ?? [];
+
+      expect(error.message).equal("Internal server error");
+      expect(error.path).deep.equal(["swap", "status"]);
+      expect(error.originalError).equal(providerError);
+      expect(JSON.stringify(error)).not.include("secret-key");
+    });
+  });
+
+  describe("Filtering", function () {
+    it("Filters by token type on either side", async function () {
+      expect(await swapIds({ tokenType: "ERC721" })).deep.equal(["1"]);
+      expect(await swapIds({ tokenType: "NONE" })).deep.equal(["2", "3"]);
+      expect(await swapIds({ tokenType: "ERC1155" })).deep.equal([]);
+    });
+
+    it("Filters swaps open to anyone", async function () {
+      expect(await swapIds({ openToAnyone: true })).deep.equal(["2", "3"]);
+      expect(await swapIds({ openToAnyone: true, state: "OPEN" })).deep.equal(["2"]);
+      expect(await swapIds({ openToAnyone: false })).deep.equal(["1"]);
+    });
+
+    it("Filters by expiry window", async function () {
+      expect(await swapIds({ expiresBefore: defaultSwap.expiryDate.toString() })).deep.equal(["1"]);
+      expect(await swapIds({ expiresAfter: (defaultSwap.expiryDate + 1n).toString() })).deep.equal(["2", "3"]);
+      expect(
+        await swapIds({
+          expiresAfter: defaultSwap.expiryDate.toString(),
+          expiresBefore: openSwap.expiryDate.toString(),
+          state: "OPEN",
+        }),
+      ).deep.equal(["1", "2"]);
+    });
+
+    it("Paginates with a cursor", async function () {
+      const query =
+        "query ($after: String) { swaps(first: 2, after: $after) { totalCount nodes { id } pageInfo { hasNextPage endCursor } } }";
+
+      const firstPage = (await execute(query)).swaps;
+
+      expect(firstPage.totalCount).equal(3);
+      expect(firstPage.nodes).deep.equal([{ id: "1" }, { id: "2" }]);
+      expect(firstPage.pageInfo).deep.equal({ hasNextPage: true, endCursor: "2" });
+
+      const secondPage = (await execute(query, { after: firstPage.pageInfo.endCursor })).swaps;
+
+      expect(secondPage.nodes).deep.equal([{ id: "3" }]);
+      expect(secondPage.pageInfo).deep.equal({ hasNextPage: false, endCursor: "3" });
+    });
+  });
+
+  describe("Participants", function () {
+    it("Lists swaps as initiator and as acceptor", async function () {
+      const data = await execute(
+        `query ($address: String!) {
+          participant(address: $address) {
+            address
+            swapsAsInitiator { totalCount }
+            swapsAsAcceptor(filter: { state: COMPLETED }) { nodes { id } }
+          }
+        }`,
+        { address: swapper3.address.toLowerCase() },
+      );
+
+      expect(data.participant).deep.equal({
+        address: swapper3.address,
+        swapsAsInitiator: { totalCount: 0 },
+        swapsAsAcceptor: { nodes: [{ id: "3" }] },
+      });
+    });
+  });
+
+  describe("Live status", function () {
+    it("Only calls getSwapStatus when the status field is selected", async function () {
+      let calls = 0;
+      const getSwapStatus = client.getSwapStatus.bind(client);
+
+      client.getSwapStatus = (...args) => {
+        calls++;
+        return getSwapStatus(...args);
+      };
+
+      await execute("{ swaps { nodes { id state } } }");
+
+      expect(calls).equal(0);
+
+      const data = await execute(
+        "{ swaps { nodes { id status { initiatorTokenRequiresApproval isReadyForSwapping } } } }",
+      );
+
+      expect(calls).equal(2);
+      expect(data.swaps.nodes).deep.equal([
+        { id: "1", status: { initiatorTokenRequiresApproval: false, isReadyForSwapping: false } },
+        { id: "2", status: { initiatorTokenRequiresApproval: false, isReadyForSwapping: true } },
+        { id: "3", status: null },
+      ]);
+    });
+  });
+});
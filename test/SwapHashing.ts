@@ -0,0 +1,172 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ISwapTokens__factory, TokenSwapper } from "../typechain-types";
+import { SWAP_FIELDS, hashSwap, normalizeSwap, toSwap, toTokenType, verifySwapAgainstChain } from "../sdk/SwapHashing";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapHashing sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+
+  let tokenSwapper: TokenSwapper;
+
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let defaultSwap: Swap;
+
+  async function deploytokenSwapperFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+  }
+
+  before(async () => {
+    [, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deploytokenSwapperFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(Math.floor(Date.now() / 1000)) + 86400n,
+      initiatorERCContract: ethers.Wallet.createRandom().address,
+      acceptorERCContract: ethers.Wallet.createRandom().address,
+      initiator: swapper1.address,
+      initiatorTokenId: 12n,
+      initiatorTokenQuantity: 1n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 500n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: GENERIC_SWAP_ETH,
+      initiatorTokenType: TokenType.ERC721,
+      acceptorTokenType: TokenType.ERC1155,
+    };
+  });
+
+  describe("Canonical field order", function () {
+    it("Matches the ISwapTokens.Swap struct components", async function () {
+      const initiateSwap = ISwapTokens__factory.createInterface().getFunction("initiateSwap");
+
+      const components = initiateSwap.inputs[0].components!.map((component) => component.name);
+
+      expect(SWAP_FIELDS.map(([fieldName]) => fieldName)).deep.equal(components);
+    });
+  });
+
+  describe("Token type normalization", function () {
+    it("Accepts enum values, names, numbers and bigints", async function () {
+      expect(toTokenType(TokenType.ERC777)).equal(TokenType.ERC777);
+      expect(toTokenType("ERC1155")).equal(TokenType.ERC1155);
+      expect(toTokenType(3)).equal(TokenType.ERC721);
+      expect(toTokenType(1n)).equal(TokenType.ERC20);
+      expect(toTokenType("0")).equal(TokenType.NONE);
+    });
+
+    it("Fails on unknown token types", async function () {
+      expect(() => toTokenType(5)).to.throw("Unknown token type: 5");
+      expect(() => toTokenType("ERC404")).to.throw();
+    });
+
+    it("Hashes the same regardless of token type representation", async function () {
+      const namedSwap = { ...defaultSwap, initiatorTokenType: "ERC721", acceptorTokenType: 4n };
+
+      expect(hashSwap(namedSwap)).equal(hashSwap(defaultSwap));
+    });
+
+    it("Checksums lowercase addresses", async function () {
+      const lowercaseSwap = { ...defaultSwap, initiator: defaultSwap.initiator.toLowerCase() };
+
+      expect(toSwap(lowercaseSwap).initiator).equal(defaultSwap.initiator);
+    });
+  });
+
+  describe("On-chain parity", function () {
+    it("Matches swapHashes for every token type pairing", async function () {
+      const tokenTypes = [TokenType.ERC20, TokenType.ERC777, TokenType.ERC721, TokenType.ERC1155];
+      let swapId = 1n;
+
+      for (const initiatorTokenType of tokenTypes) {
+        for (const acceptorTokenType of tokenTypes) {
+          const swap = { ...defaultSwap, initiatorTokenType, acceptorTokenType };
+
+          await tokenSwapper.connect(swapper1).initiateSwap(swap);
+
+          expect(await tokenSwapper.swapHashes(swapId)).equal(hashSwap(swap));
+          swapId++;
+        }
+      }
+    });
+
+    it("Matches swapHashes with an initiator ETH portion and open acceptor", async function () {
+      defaultSwap.acceptor = ethers.ZeroAddress;
+      defaultSwap.acceptorTokenType = TokenType.ERC20;
+      defaultSwap.acceptorETHPortion = 0n;
+      defaultSwap.initiatorETHPortion = GENERIC_SWAP_ETH;
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap, { value: GENERIC_SWAP_ETH });
+
+      expect(await tokenSwapper.swapHashes(1n)).equal(hashSwap(defaultSwap));
+    });
+  });
+
+  describe("Normalization", function () {
+    it("Zeroes the initiator NONE side as initiateSwap does", async function () {
+      defaultSwap.initiatorTokenType = TokenType.NONE;
+      defaultSwap.initiatorETHPortion = GENERIC_SWAP_ETH;
+      defaultSwap.acceptorETHPortion = 0n;
+
+      const tx = await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap, { value: GENERIC_SWAP_ETH });
+      const normalizedSwap = normalizeSwap(defaultSwap);
+
+      await expect(tx)
+        .to.emit(tokenSwapper, "SwapInitiated")
+        .withArgs(1n, swapper1.address, swapper2.address, Object.values(normalizedSwap));
+
+      expect(normalizedSwap.initiatorERCContract).equal(ethers.ZeroAddress);
+      expect(normalizedSwap.initiatorTokenId).equal(0n);
+      expect(normalizedSwap.initiatorTokenQuantity).equal(0n);
+      expect(await tokenSwapper.swapHashes(1n)).equal(hashSwap(normalizedSwap));
+      expect(await tokenSwapper.swapHashes(1n)).not.equal(hashSwap(defaultSwap));
+    });
+
+    it("Zeroes the acceptor NONE side as initiateSwap does", async function () {
+      defaultSwap.acceptorTokenType = TokenType.NONE;
+      defaultSwap.acceptorTokenId = 7n;
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      expect(await verifySwapAgainstChain(tokenSwapper, 1n, normalizeSwap(defaultSwap))).true;
+      expect(await verifySwapAgainstChain(tokenSwapper, 1n, defaultSwap)).false;
+    });
+
+    it("Leaves token sides unchanged", async function () {
+      expect(normalizeSwap(defaultSwap)).deep.equal(defaultSwap);
+    });
+  });
+
+  describe("Verifying against chain", function () {
+    it("Returns true for a live matching swap", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      expect(await verifySwapAgainstChain(tokenSwapper, 1n, defaultSwap)).true;
+    });
+
+    it("Returns false when a field differs", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      expect(await verifySwapAgainstChain(tokenSwapper, 1n, { ...defaultSwap, acceptorTokenId: 1n })).false;
+    });
+
+    it("Returns false when the swap does not exist", async function () {
+      expect(await verifySwapAgainstChain(tokenSwapper, 1n, defaultSwap)).false;
+    });
+
+    it("Returns false once the swap is removed", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper1).removeSwap(1n, defaultSwap);
+
+      expect(await verifySwapAgainstChain(tokenSwapper, 1n, defaultSwap)).false;
+    });
+  });
+});
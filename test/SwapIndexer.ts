@@ -0,0 +1,225 @@
+import { loadFixture, mine, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, TokenSwapper } from "../typechain-types";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { JsonFileSwapStore, MemorySwapStore, SwapState } from "../sdk/SwapStore";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapIndexer sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let deploymentBlock: number;
+
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+  let swapper3: SignerWithAddress;
+
+  let defaultSwap: Swap;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+    deploymentBlock = (await tokenSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20A.connect(swapper1).approve(tokenSwapperAddress, 1000);
+  }
+
+  before(async () => {
+    [, swapper1, swapper2, swapper3] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: ethers.ZeroAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 100n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: GENERIC_SWAP_ETH,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.NONE,
+    };
+  });
+
+  function createIndexer(store = new MemorySwapStore(), batchSize?: number) {
+    return new SwapIndexer(ethers.provider, tokenSwapperAddress, store, { deploymentBlock, batchSize });
+  }
+
+  describe("Indexing", function () {
+    it("Indexes an initiated swap as open", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const indexer = createIndexer();
+      await indexer.sync();
+
+      const indexedSwap = await indexer.getSwap(1n);
+
+      expect(indexedSwap?.state).equal(SwapState.Open);
+      expect(indexedSwap?.swap).deep.equal(defaultSwap);
+      expect(indexedSwap?.acceptor).undefined;
+    });
+
+    it("Indexes a completed swap with the real acceptor and ETH transfers", async function () {
+      defaultSwap.acceptor = ethers.ZeroAddress;
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      const completeTx = await tokenSwapper
+        .connect(swapper3)
+        .completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+
+      const indexer = createIndexer();
+      await indexer.sync();
+
+      const indexedSwap = await indexer.getSwap(1n);
+
+      expect(indexedSwap?.state).equal(SwapState.Completed);
+      expect(indexedSwap?.acceptor).equal(swapper3.address);
+      expect(indexedSwap?.closedTransactionHash).equal(completeTx.hash);
+      expect(indexedSwap?.ethPortionTransfers.map(({ user, amount }) => [user, amount])).deep.equal([
+        [swapper1.address, GENERIC_SWAP_ETH],
+      ]);
+    });
+
+    it("Indexes a removed swap with the refunded ETH portion", async function () {
+      defaultSwap.initiatorETHPortion = GENERIC_SWAP_ETH;
+      defaultSwap.acceptorTokenType = TokenType.ERC20;
+      defaultSwap.acceptorERCContract = erc20AAddress;
+      defaultSwap.acceptorTokenQuantity = 1n;
+      defaultSwap.acceptorETHPortion = 0n;
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap, { value: GENERIC_SWAP_ETH });
+      await tokenSwapper.connect(swapper1).removeSwap(1n, defaultSwap);
+
+      const indexer = createIndexer();
+      await indexer.sync();
+
+      const indexedSwap = await indexer.getSwap(1n);
+
+      expect(indexedSwap?.state).equal(SwapState.Removed);
+      expect(indexedSwap?.ethPortionTransfers.map(({ user, amount }) => [user, amount])).deep.equal([
+        [swapper1.address, GENERIC_SWAP_ETH],
+      ]);
+    });
+
+    it("Derives the expired state from the latest block", async function () {
+      defaultSwap.expiryDate = BigInt(await networkTime.latest()) + 100n;
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const indexer = createIndexer();
+      await indexer.sync();
+
+      expect((await indexer.getSwap(1n))?.state).equal(SwapState.Open);
+
+      await networkTime.increase(200);
+
+      expect((await indexer.getSwap(1n))?.state).equal(SwapState.Expired);
+      expect(await indexer.getSwaps(SwapState.Open)).to.be.empty;
+      expect(await indexer.getSwaps(SwapState.Expired)).to.have.length(1);
+    });
+
+    it("Filters swaps by state across batches", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper2).completeSwap(2n, defaultSwap, { value: GENERIC_SWAP_ETH });
+      await tokenSwapper.connect(swapper1).removeSwap(3n, defaultSwap);
+
+      const indexer = createIndexer(new MemorySwapStore(), 2);
+      await indexer.sync();
+
+      expect((await indexer.getSwaps()).map((indexedSwap) => indexedSwap.state)).deep.equal([
+        SwapState.Open,
+        SwapState.Completed,
+        SwapState.Removed,
+      ]);
+      expect((await indexer.getSwaps(SwapState.Completed)).map((indexedSwap) => indexedSwap.swapId)).deep.equal([2n]);
+    });
+
+    it("Ignores blocks within the confirmation depth", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const indexer = new SwapIndexer(ethers.provider, tokenSwapperAddress, new MemorySwapStore(), {
+        deploymentBlock,
+        confirmations: 2,
+      });
+      await indexer.sync();
+
+      expect(await indexer.getSwap(1n)).undefined;
+
+      await mine(2);
+      await indexer.sync();
+
+      expect((await indexer.getSwap(1n))?.state).equal(SwapState.Open);
+    });
+  });
+
+  describe("Resuming", function () {
+    let directory: string;
+
+    this.beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), "swap-indexer-"));
+    });
+
+    this.afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("Resumes from the persisted checkpoint after a restart", async function () {
+      const path = join(directory, "swapIndex.json");
+
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const firstCheckpoint = await createIndexer(new JsonFileSwapStore(path)).sync();
+
+      await tokenSwapper.connect(swapper2).completeSwap(1n, defaultSwap, { value: GENERIC_SWAP_ETH });
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const restartedStore = new JsonFileSwapStore(path);
+
+      expect(await restartedStore.getCheckpoint()).equal(firstCheckpoint);
+      expect((await restartedStore.getSwap(1n))?.state).equal(SwapState.Open);
+
+      const restartedIndexer = createIndexer(restartedStore);
+      const secondCheckpoint = await restartedIndexer.sync();
+
+      expect(secondCheckpoint).equal(await ethers.provider.getBlockNumber());
+
+      const completedSwap = await restartedIndexer.getSwap(1n);
+
+      expect(completedSwap?.state).equal(SwapState.Completed);
+      expect(completedSwap?.swap).deep.equal(defaultSwap);
+      expect(completedSwap?.ethPortionTransfers).to.have.length(1);
+      expect((await restartedIndexer.getSwap(2n))?.state).equal(SwapState.Open);
+    });
+
+    it("Does nothing when already at the latest block", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const indexer = createIndexer();
+      const checkpoint = await indexer.sync();
+
+      expect(await indexer.sync()).equal(checkpoint);
+    });
+  });
+});
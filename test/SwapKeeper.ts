@@ -0,0 +1,237 @@
+import {
+  SnapshotRestorer,
+  loadFixture,
+  takeSnapshot,
+  time as networkTime,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import hre, { ethers } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, TokenSwapper } from "../typechain-types";
+import { KeeperRemoval, SwapKeeper, SwapKeeperOptions } from "../sdk/SwapKeeper";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { MemorySwapStore } from "../sdk/SwapStore";
+import { TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapKeeper sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+  const DAY = 86400;
+
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let deploymentBlock: number;
+
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let client: TokenSwapperClient;
+  let ethSwap: Swap;
+  let initialSnapshot: SnapshotRestorer;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+    deploymentBlock = (await tokenSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+  }
+
+  before(async () => {
+    [, swapper1, swapper2] = await ethers.getSigners();
+    initialSnapshot = await takeSnapshot();
+  });
+
+  // Rewinds the expiry time increases, which the next test file's fixture would otherwise start from
+  after(async () => {
+    await initialSnapshot.restore();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+    ethSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + BigInt(DAY),
+      initiatorERCContract: ethers.ZeroAddress,
+      acceptorERCContract: erc20AAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 0n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 500n,
+      initiatorETHPortion: GENERIC_SWAP_ETH,
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.NONE,
+      acceptorTokenType: TokenType.ERC20,
+    };
+  });
+
+  function createKeeper(options: SwapKeeperOptions = {}): SwapKeeper {
+    const indexer = new SwapIndexer(ethers.provider, tokenSwapperAddress, new MemorySwapStore(), { deploymentBlock });
+
+    return new SwapKeeper(indexer, client, options);
+  }
+
+  function swapIds(removals: KeeperRemoval[]): bigint[] {
+    return removals.map(({ swapId }) => swapId);
+  }
+
+  it("Leaves swaps that have not expired", async function () {
+    await client.initiateSwap(ethSwap);
+
+    expect(await createKeeper().run()).length(0);
+  });
+
+  it("Removes an expired swap and refunds the initiator ETH portion", async function () {
+    const { swapId } = await client.initiateSwap(ethSwap);
+
+    await networkTime.increase(DAY + 1);
+
+    const balanceBefore = await ethers.provider.getBalance(swapper1.address);
+
+    const [removal] = await createKeeper().run();
+
+    expect(removal.swapId).equal(swapId);
+    expect(removal.refund).equal(GENERIC_SWAP_ETH);
+    expect(await tokenSwapper.swapHashes(swapId)).equal(ethers.ZeroHash);
+    expect(await ethers.provider.getBalance(tokenSwapperAddress)).equal(0n);
+    expect(await ethers.provider.getBalance(swapper1.address)).equal(
+      balanceBefore + GENERIC_SWAP_ETH - removal.receipt!.fee,
+    );
+  });
+
+  it("Removes a swap cancelled by a nonce increment before it expires", async function () {
+    const { swapId } = await client.initiateSwap(ethSwap);
+
+    await client.incrementNonce();
+
+    const [removal] = await createKeeper().run();
+
+    expect(removal.swapId).equal(swapId);
+    expect(removal.refund).equal(GENERIC_SWAP_ETH);
+    expect(await ethers.provider.getBalance(tokenSwapperAddress)).equal(0n);
+  });
+
+  it("Only reports the swaps in dry run mode", async function () {
+    const { swapId } = await client.initiateSwap(ethSwap);
+
+    await networkTime.increase(DAY + 1);
+
+    const removals = await createKeeper({ dryRun: true }).run();
+
+    expect(swapIds(removals)).deep.equal([swapId]);
+    expect(removals[0].receipt).undefined;
+    expect(await client.verifySwapAgainstChain(swapId, ethSwap)).true;
+  });
+
+  it("Skips swaps without ETH, of other wallets and already removed", async function () {
+    const { swapId: tokenOnlySwapId } = await client.initiateSwap({
+      ...ethSwap,
+      initiatorERCContract: erc20AAddress,
+      initiatorTokenQuantity: 1n,
+      initiatorTokenType: TokenType.ERC20,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: 1n,
+      acceptorTokenType: TokenType.NONE,
+    });
+    await (
+      await TokenSwapperClient.connect(tokenSwapperAddress, swapper2)
+    ).initiateSwap({
+      ...ethSwap,
+      initiator: swapper2.address,
+      acceptor: swapper1.address,
+    });
+
+    await networkTime.increase(DAY + 1);
+
+    expect(await createKeeper().run()).length(0);
+
+    const keeper = createKeeper({ includeWithoutEth: true });
+
+    expect(swapIds(await keeper.run())).deep.equal([tokenOnlySwapId]);
+    expect(await keeper.run()).length(0);
+  });
+
+  it("Applies the gas limit and reports a failed removal", async function () {
+    const { swapId } = await client.initiateSwap(ethSwap);
+
+    await networkTime.increase(DAY + 1);
+
+    const [removal] = await createKeeper({ gasLimit: 21000 }).run();
+
+    expect(removal.error).not.undefined;
+    expect(await tokenSwapper.swapHashes(swapId)).not.equal(ethers.ZeroHash);
+
+    const [retried] = await createKeeper({ gasLimit: 100000 }).run();
+
+    expect((await ethers.provider.getTransaction(retried.receipt!.hash))?.gasLimit).equal(100000n);
+  });
+
+  it("Waits for the run in progress when stopped and reports failed runs", async function () {
+    const { swapId } = await client.initiateSwap(ethSwap);
+
+    await networkTime.increase(DAY + 1);
+
+    const keeper = createKeeper();
+    const runs: KeeperRemoval[][] = [];
+    const errors: Error[] = [];
+
+    keeper.start(DAY * 1000, (removals) => runs.push(removals));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await keeper.stop();
+
+    expect(runs.map(swapIds)).deep.equal([[swapId]]);
+
+    keeper.indexer.sync = async () => {
+      throw new Error("missing response");
+    };
+    keeper.start(
+      DAY * 1000,
+      (removals) => runs.push(removals),
+      (error) => errors.push(error),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await keeper.stop();
+
+    expect(runs).length(1);
+    expect(errors.map(({ message }) => message)).deep.equal(["missing response"]);
+  });
+
+  it("Removes expired swaps with the swap:keeper task", async function () {
+    const directory = mkdtempSync(join(tmpdir(), "swap-keeper-"));
+    const consoleLog = console.log;
+    console.log = () => undefined;
+
+    try {
+      const { swapId } = await client.initiateSwap(ethSwap);
+
+      await networkTime.increase(DAY + 1);
+
+      const args = {
+        swapper: tokenSwapperAddress,
+        signer: swapper1.address,
+        fromBlock: deploymentBlock,
+        index: join(directory, "swapIndex.db"),
+      };
+
+      expect(swapIds(await hre.run("swap:keeper", { ...args, dryRun: true }))).deep.equal([swapId]);
+
+      const [removal]: KeeperRemoval[] = await hre.run("swap:keeper", { ...args, maxFeePerGas: "100000000000" });
+
+      expect(removal.receipt?.status).equal(1);
+      expect(await tokenSwapper.swapHashes(swapId)).equal(ethers.ZeroHash);
+    } finally {
+      console.log = consoleLog;
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
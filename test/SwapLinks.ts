@@ -0,0 +1,155 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, MyToken, TokenSwapper } from "../typechain-types";
+import { SwapLinkError, decodeSwapLink, encodeSwapLink, toSwapLinkUrl, verifySwapLink } from "../sdk/SwapLinks";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapLinks sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let chainId: bigint;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let defaultSwap: Swap;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+    chainId = (await ethers.provider.getNetwork()).chainId;
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: myTokenAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 500n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: GENERIC_SWAP_ETH,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.ERC721,
+    };
+  });
+
+  function link(swap: Swap = defaultSwap, swapId = 1n) {
+    return { chainId, swapperAddress: tokenSwapperAddress, swapId, swap };
+  }
+
+  describe("encodeSwapLink", function () {
+    it("Round trips a swap", function () {
+      expect(decodeSwapLink(encodeSwapLink(link()))).deep.equal(link());
+    });
+
+    it("Round trips zero addresses and maximum values", function () {
+      const swap = {
+        ...defaultSwap,
+        acceptor: ethers.ZeroAddress,
+        acceptorERCContract: ethers.ZeroAddress,
+        acceptorTokenType: TokenType.NONE,
+        initiatorTokenQuantity: ethers.MaxUint256,
+      };
+
+      expect(decodeSwapLink(encodeSwapLink(link(swap, ethers.MaxUint256)))).deep.equal(link(swap, ethers.MaxUint256));
+    });
+
+    it("Is URL safe and compact", function () {
+      const encoded = encodeSwapLink(link());
+
+      expect(encoded).match(/^[A-Za-z0-9_-]+$/);
+      expect(encoded.length).lessThan(200);
+    });
+
+    it("Builds and reads a link URL", function () {
+      const url = toSwapLinkUrl("https://example.com/accept", link());
+
+      expect(url.startsWith("https://example.com/accept?swap=")).true;
+      expect(decodeSwapLink(url)).deep.equal(link());
+    });
+  });
+
+  describe("decodeSwapLink", function () {
+    it("Rejects an altered link", function () {
+      const encoded = encodeSwapLink(link());
+      const altered = `${encoded.slice(0, 10)}${encoded[10] === "A" ? "B" : "A"}${encoded.slice(11)}`;
+
+      expect(() => decodeSwapLink(altered)).to.throw(SwapLinkError, "checksum mismatch");
+    });
+
+    it("Rejects a truncated link", function () {
+      expect(() => decodeSwapLink(encodeSwapLink(link()).slice(0, -8))).to.throw(SwapLinkError);
+    });
+
+    it("Rejects characters outside base64url", function () {
+      expect(() => decodeSwapLink("not a link!")).to.throw(SwapLinkError, "not base64url");
+    });
+
+    it("Rejects a malformed URL or one without the swap parameter", function () {
+      expect(() => decodeSwapLink("https://example.com/accept?id=1")).to.throw(SwapLinkError, "no swap parameter");
+      expect(() => decodeSwapLink("https://[example.com/accept?swap=1")).to.throw(SwapLinkError, "malformed URL");
+    });
+  });
+
+  describe("verifySwapLink", function () {
+    it("Accepts a link to an open swap", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      expect(await verifySwapLink(encodeSwapLink(link()), ethers.provider)).deep.equal(link());
+    });
+
+    it("Rejects a link to a removed swap", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+      await tokenSwapper.connect(swapper1).removeSwap(1, defaultSwap);
+
+      await expect(verifySwapLink(encodeSwapLink(link()), ethers.provider)).to.be.rejectedWith(
+        SwapLinkError,
+        "swap 1 is not open",
+      );
+    });
+
+    it("Rejects a link whose swap differs from swapHashes", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const encoded = encodeSwapLink(link({ ...defaultSwap, acceptorETHPortion: 1n }));
+
+      await expect(verifySwapLink(encoded, ethers.provider)).to.be.rejectedWith(SwapLinkError);
+    });
+
+    it("Rejects a link for another chain", async function () {
+      await tokenSwapper.connect(swapper1).initiateSwap(defaultSwap);
+
+      const encoded = encodeSwapLink({ ...link(), chainId: 1n });
+
+      await expect(verifySwapLink(encoded, ethers.provider)).to.be.rejectedWith(SwapLinkError, "it is for chain 1");
+    });
+  });
+});
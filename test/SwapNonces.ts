@@ -0,0 +1,197 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, TokenSwapperBase, TokenSwapperBase__factory } from "../typechain-types";
+import { SignedSwap, getSignedSwapStatus, signSwap } from "../sdk/SignedSwaps";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { getInvalidatedOffers } from "../sdk/SwapNonces";
+import { MemorySwapStore, SwapState } from "../sdk/SwapStore";
+import { SwapperVariant, TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapNonces sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+  const DAY = 86400n;
+
+  for (const variant of [SwapperVariant.TokenSwapper, SwapperVariant.NonCancunTokenSwapper]) {
+    describe(variant, function () {
+      let tokenSwapper: TokenSwapperBase;
+      let tokenSwapperAddress: string;
+      let erc20A: ERC20A;
+      let erc20AAddress: string;
+      let deploymentBlock: number;
+
+      let swapper1: SignerWithAddress;
+      let swapper2: SignerWithAddress;
+
+      let client: TokenSwapperClient;
+      let ethSwap: Swap;
+      let tokenSwap: Swap;
+
+      async function deployContractsFixture() {
+        const deployedSwapper = await ethers.deployContract(variant);
+        tokenSwapperAddress = await deployedSwapper.getAddress();
+        tokenSwapper = TokenSwapperBase__factory.connect(tokenSwapperAddress, swapper1);
+        deploymentBlock = (await deployedSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+        erc20A = await ethers.deployContract("ERC20A");
+        erc20AAddress = await erc20A.getAddress();
+
+        await erc20A.safeMint(swapper1.address, 1000n);
+        await erc20A.safeMint(swapper2.address, 1000n);
+
+        await erc20A.connect(swapper1).approve(tokenSwapperAddress, 1000n);
+        await erc20A.connect(swapper2).approve(tokenSwapperAddress, 1000n);
+      }
+
+      before(async () => {
+        [, swapper1, swapper2] = await ethers.getSigners();
+      });
+
+      this.beforeEach(async () => {
+        await loadFixture(deployContractsFixture);
+
+        client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+        ethSwap = {
+          expiryDate: BigInt(await networkTime.latest()) + DAY,
+          initiatorERCContract: ethers.ZeroAddress,
+          acceptorERCContract: erc20AAddress,
+          initiator: swapper1.address,
+          initiatorTokenId: 0n,
+          initiatorTokenQuantity: 0n,
+          acceptor: swapper2.address,
+          acceptorTokenId: 0n,
+          acceptorTokenQuantity: 500n,
+          initiatorETHPortion: GENERIC_SWAP_ETH,
+          acceptorETHPortion: 0n,
+          initiatorTokenType: TokenType.NONE,
+          acceptorTokenType: TokenType.ERC20,
+        };
+
+        tokenSwap = {
+          ...ethSwap,
+          initiatorERCContract: erc20AAddress,
+          initiatorTokenQuantity: 100n,
+          initiatorETHPortion: 0n,
+          initiatorTokenType: TokenType.ERC20,
+        };
+      });
+
+      it("Cancels every swap the initiator initiated with one transaction", async function () {
+        const { swapId: ethSwapId } = await client.initiateSwap(ethSwap);
+        const { swapId: tokenSwapId } = await client.initiateSwap(tokenSwap);
+        const { swapId: otherSwapId, swap: otherSwap } = await (
+          await TokenSwapperClient.connect(tokenSwapperAddress, swapper2)
+        ).initiateSwap({ ...tokenSwap, initiator: swapper2.address, acceptor: swapper1.address });
+
+        await expect(tokenSwapper.incrementNonce())
+          .to.emit(tokenSwapper, "NonceIncremented")
+          .withArgs(swapper1.address, 1n, otherSwapId + 1n);
+
+        for (const [swapId, swap] of [
+          [ethSwapId, ethSwap],
+          [tokenSwapId, tokenSwap],
+        ] as const) {
+          await expect(tokenSwapper.connect(swapper2).completeSwap(swapId, swap))
+            .to.be.revertedWithCustomError(tokenSwapper, "SwapCancelled")
+            .withArgs(swapId);
+          await expect(tokenSwapper.getSwapStatus(swapId, swap))
+            .to.be.revertedWithCustomError(tokenSwapper, "SwapCancelled")
+            .withArgs(swapId);
+        }
+
+        await tokenSwapper.connect(swapper1).completeSwap(otherSwapId, otherSwap);
+
+        const { swapId: newSwapId } = await client.initiateSwap(tokenSwap);
+
+        await tokenSwapper.connect(swapper2).completeSwap(newSwapId, tokenSwap);
+        expect(await tokenSwapper.getMinSwapId(swapper1.address)).equal(otherSwapId + 1n);
+        expect(await tokenSwapper.getMinSwapId(swapper2.address)).equal(0n);
+      });
+
+      it("Refunds the initiator ETH portion of a cancelled swap", async function () {
+        const { swapId } = await client.initiateSwap(ethSwap);
+
+        await client.incrementNonce();
+
+        await expect(tokenSwapper.removeSwap(swapId, ethSwap)).to.changeEtherBalances(
+          [swapper1, tokenSwapperAddress],
+          [GENERIC_SWAP_ETH, -GENERIC_SWAP_ETH],
+        );
+      });
+
+      it("Cancels the signed swaps below the new minimum nonce", async function () {
+        const sign = (nonce: bigint): Promise<SignedSwap> =>
+          signSwap(swapper1, tokenSwapperAddress, { ...tokenSwap, acceptor: ethers.ZeroAddress }, nonce);
+
+        const signedSwaps = [await sign(3n), await sign(9n), await sign(10n)];
+
+        await expect(tokenSwapper.cancelUpTo(10n))
+          .to.emit(tokenSwapper, "NonceIncremented")
+          .withArgs(swapper1.address, 10n, 1n);
+
+        await expect(
+          tokenSwapper.connect(swapper2).completeSignedSwap(signedSwaps[1].swap, 9n, signedSwaps[1].signature),
+        )
+          .to.be.revertedWithCustomError(tokenSwapper, "SignedSwapNonceUsed")
+          .withArgs(swapper1.address, 9n);
+        expect(await getSignedSwapStatus(ethers.provider, signedSwaps[0])).equal("nonceUsed");
+        expect(await tokenSwapper.isSignedSwapNonceUsed(swapper1.address, 9n)).true;
+        expect(await tokenSwapper.isSignedSwapNonceUsed(swapper1.address, 10n)).false;
+        await expect(tokenSwapper.cancelSignedSwapNonce(3n)).to.be.revertedWithCustomError(
+          tokenSwapper,
+          "SignedSwapNonceUsed",
+        );
+
+        await tokenSwapper.connect(swapper2).completeSignedSwap(signedSwaps[2].swap, 10n, signedSwaps[2].signature);
+
+        await expect(tokenSwapper.cancelUpTo(10n))
+          .to.be.revertedWithCustomError(tokenSwapper, "NonceNotIncreased")
+          .withArgs(10n);
+        await expect(tokenSwapper.incrementNonce())
+          .to.emit(tokenSwapper, "NonceIncremented")
+          .withArgs(swapper1.address, 11n, 1n);
+        expect(await client.getMinNonce()).equal(11n);
+      });
+
+      it("Tracks the offers a nonce increment invalidated", async function () {
+        const indexer = new SwapIndexer(ethers.provider, tokenSwapperAddress, new MemorySwapStore(), {
+          deploymentBlock,
+        });
+
+        const { swapId: cancelledSwapId } = await client.initiateSwap(ethSwap);
+        await indexer.sync();
+        const { swapId: removedSwapId } = await client.initiateSwap(tokenSwap);
+        await client.removeSwap(removedSwapId, tokenSwap);
+        const { swapId: laterCancelledSwapId } = await client.initiateSwap(tokenSwap);
+        const signedSwaps = [await client.signSwap(tokenSwap, 1n), await client.signSwap(tokenSwap, 5n)];
+        await indexer.sync();
+        const openSwaps = await indexer.getSwaps(SwapState.Open);
+
+        const increment = await client.cancelUpTo(5n);
+
+        const { swapId: openSwapId } = await client.initiateSwap(tokenSwap);
+        await indexer.sync();
+
+        const invalidated = getInvalidatedOffers(increment, { swaps: openSwaps, signedSwaps });
+
+        expect(invalidated.swaps.map(({ swapId }) => swapId)).deep.equal([cancelledSwapId, laterCancelledSwapId]);
+        expect(invalidated.signedSwaps).deep.equal([signedSwaps[0]]);
+        expect((await indexer.getSwaps()).map(({ swapId, state }) => [swapId, state])).deep.equal([
+          [cancelledSwapId, SwapState.Cancelled],
+          [removedSwapId, SwapState.Removed],
+          [laterCancelledSwapId, SwapState.Cancelled],
+          [openSwapId, SwapState.Open],
+        ]);
+        expect((await indexer.getSwap(cancelledSwapId))?.closedTransactionHash).equal(increment.transactionHash);
+
+        await client.removeSwap(cancelledSwapId, ethSwap);
+        await indexer.sync();
+
+        expect((await indexer.getSwap(cancelledSwapId))?.state).equal(SwapState.Removed);
+      });
+    });
+  }
+});
@@ -0,0 +1,266 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import hre, { ethers } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, My1155Token, MyToken, TokenSwapper } from "../typechain-types";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { MemorySwapStore } from "../sdk/SwapStore";
+import { ApprovalKind, GrantedApproval, revokeApprovals, scanApprovals } from "../sdk/SwapRevocations";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapRevocations sdk testing", function () {
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let my1155Token: My1155Token;
+  let my1155TokenAddress: string;
+  let deploymentBlock: number;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let erc721Swap: Swap;
+  let erc1155Swap: Swap;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+    deploymentBlock = (await tokenSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    my1155Token = await ethers.deployContract("My1155Token", [owner, tokenSwapperAddress]);
+    my1155TokenAddress = await my1155Token.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20A.connect(swapper1).approve(tokenSwapperAddress, ethers.MaxUint256);
+    await myToken.safeMint(swapper2.address);
+    await myToken.safeMint(swapper2.address);
+    await myToken.connect(swapper2).setApprovalForAll(tokenSwapperAddress, true);
+    await my1155Token.safeMint(swapper2.address);
+    await my1155Token.connect(swapper2).setApprovalForAll(tokenSwapperAddress, true);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    erc721Swap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: myTokenAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 500n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.ERC721,
+    };
+
+    erc1155Swap = {
+      ...erc721Swap,
+      initiatorTokenQuantity: 100n,
+      acceptorERCContract: my1155TokenAddress,
+      acceptorTokenId: 1n,
+      acceptorTokenQuantity: 1n,
+      acceptorTokenType: TokenType.ERC1155,
+    };
+  });
+
+  async function initiateSwap(swap: Swap): Promise<bigint> {
+    const swapId = await tokenSwapper.swapId();
+
+    await tokenSwapper.connect(swapper1).initiateSwap(swap);
+
+    return swapId;
+  }
+
+  async function getSwaps() {
+    const indexer = new SwapIndexer(ethers.provider, tokenSwapperAddress, new MemorySwapStore(), { deploymentBlock });
+
+    await indexer.sync();
+
+    return indexer.getSwaps();
+  }
+
+  function findApproval(approvals: GrantedApproval[], contract: string, kind: ApprovalKind) {
+    return approvals.find((approval) => approval.contract === contract && approval.kind === kind);
+  }
+
+  describe("scanApprovals", function () {
+    it("Flags approvals for all that no open swap needs", async function () {
+      const erc721SwapId = await initiateSwap(erc721Swap);
+      const erc1155SwapId = await initiateSwap(erc1155Swap);
+
+      await tokenSwapper.connect(swapper2).completeSwap(erc721SwapId, erc721Swap);
+
+      const approvals = await scanApprovals(tokenSwapperAddress, swapper2.address, await getSwaps(), ethers.provider);
+
+      expect(findApproval(approvals, myTokenAddress, ApprovalKind.ApprovalForAll)).deep.include({
+        neededBy: [],
+        stale: true,
+      });
+      expect(findApproval(approvals, my1155TokenAddress, ApprovalKind.ApprovalForAll)).deep.include({
+        neededBy: [erc1155SwapId],
+        stale: false,
+      });
+    });
+
+    it("Flags the allowance above what the open swaps transfer", async function () {
+      const erc721SwapId = await initiateSwap(erc721Swap);
+      const erc1155SwapId = await initiateSwap(erc1155Swap);
+
+      await tokenSwapper.connect(swapper1).removeSwap(erc721SwapId, erc721Swap);
+
+      const approvals = await scanApprovals(tokenSwapperAddress, swapper1.address, await getSwaps(), ethers.provider);
+
+      expect(approvals).length(1);
+      expect(approvals[0]).deep.include({
+        kind: ApprovalKind.Allowance,
+        amount: ethers.MaxUint256,
+        neededAmount: 100n,
+        neededBy: [erc1155SwapId],
+        stale: true,
+      });
+    });
+
+    it("Treats expired swaps as not needing approvals", async function () {
+      await initiateSwap(erc1155Swap);
+      await networkTime.increaseTo(erc1155Swap.expiryDate + 1n);
+
+      const approvals = await scanApprovals(tokenSwapperAddress, swapper2.address, await getSwaps(), ethers.provider);
+
+      expect(findApproval(approvals, my1155TokenAddress, ApprovalKind.ApprovalForAll)?.stale).true;
+    });
+
+    it("Flags a single token approval of a removed swap", async function () {
+      await myToken.connect(swapper2).setApprovalForAll(tokenSwapperAddress, false);
+      await myToken.connect(swapper2).approve(tokenSwapperAddress, 1);
+
+      const swap = { ...erc721Swap, acceptorTokenId: 1n };
+      const swapId = await initiateSwap(swap);
+
+      let approvals = await scanApprovals(tokenSwapperAddress, swapper2.address, await getSwaps(), ethers.provider);
+
+      expect(findApproval(approvals, myTokenAddress, ApprovalKind.TokenApproval)).deep.include({
+        tokenId: 1n,
+        neededBy: [swapId],
+        stale: false,
+      });
+
+      await tokenSwapper.connect(swapper1).removeSwap(swapId, swap);
+
+      approvals = await scanApprovals(tokenSwapperAddress, swapper2.address, await getSwaps(), ethers.provider);
+
+      expect(findApproval(approvals, myTokenAddress, ApprovalKind.TokenApproval)?.stale).true;
+    });
+
+    it("Ignores contracts outside the wallet's swaps", async function () {
+      await initiateSwap(erc721Swap);
+
+      expect(await scanApprovals(tokenSwapperAddress, owner.address, await getSwaps(), ethers.provider)).length(0);
+    });
+  });
+
+  describe("revokeApprovals", function () {
+    it("Revokes only the stale approvals", async function () {
+      const erc721SwapId = await initiateSwap(erc721Swap);
+      await initiateSwap(erc1155Swap);
+
+      await tokenSwapper.connect(swapper2).completeSwap(erc721SwapId, erc721Swap);
+
+      const swaps = await getSwaps();
+
+      const acceptorReceipts = await revokeApprovals(
+        tokenSwapperAddress,
+        await scanApprovals(tokenSwapperAddress, swapper2.address, swaps, ethers.provider),
+        swapper2,
+      );
+      const initiatorReceipts = await revokeApprovals(
+        tokenSwapperAddress,
+        await scanApprovals(tokenSwapperAddress, swapper1.address, swaps, ethers.provider),
+        swapper1,
+      );
+
+      expect(acceptorReceipts).length(1);
+      expect(initiatorReceipts).length(1);
+      expect(await myToken.isApprovedForAll(swapper2.address, tokenSwapperAddress)).false;
+      expect(await my1155Token.isApprovedForAll(swapper2.address, tokenSwapperAddress)).true;
+      expect(await erc20A.allowance(swapper1.address, tokenSwapperAddress)).equal(100n);
+    });
+
+    it("Revokes a single token approval", async function () {
+      await myToken.connect(swapper2).approve(tokenSwapperAddress, 1);
+
+      const swap = { ...erc721Swap, acceptorTokenId: 1n };
+      const swapId = await initiateSwap(swap);
+
+      await tokenSwapper.connect(swapper1).removeSwap(swapId, swap);
+
+      const approvals = await scanApprovals(tokenSwapperAddress, swapper2.address, await getSwaps(), ethers.provider);
+
+      await revokeApprovals(tokenSwapperAddress, approvals, swapper2);
+
+      expect(await myToken.getApproved(1)).equal(ethers.ZeroAddress);
+    });
+  });
+
+  describe("swap:revoke-approvals", function () {
+    let directory: string;
+    let consoleLog: typeof console.log;
+
+    this.beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), "swap-revocations-"));
+
+      consoleLog = console.log;
+      console.log = () => undefined;
+    });
+
+    this.afterEach(() => {
+      console.log = consoleLog;
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("Syncs the index and revokes the stale approvals", async function () {
+      const swapId = await initiateSwap(erc721Swap);
+
+      await tokenSwapper.connect(swapper2).completeSwap(swapId, erc721Swap);
+
+      const args = {
+        swapper: tokenSwapperAddress,
+        signer: swapper2.address,
+        fromBlock: deploymentBlock,
+        index: join(directory, "swapIndex.db"),
+      };
+
+      const dryRun = await hre.run("swap:revoke-approvals", { ...args, dryRun: true });
+
+      expect(dryRun.approvals).length(1);
+      expect(dryRun.receipts).length(0);
+      expect(await myToken.isApprovedForAll(swapper2.address, tokenSwapperAddress)).true;
+
+      const { receipts } = await hre.run("swap:revoke-approvals", args);
+
+      expect(receipts).length(1);
+      expect(await myToken.isApprovedForAll(swapper2.address, tokenSwapperAddress)).false;
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import hre, { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20D, TokenSwapper } from "../typechain-types";
+import { RiskCode, RiskLevel, SwapRiskReport, scanSwapRisks } from "../sdk/SwapRiskScanner";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapRiskScanner sdk testing", function () {
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20AAddress: string;
+  let erc20BAddress: string;
+  let erc20D: ERC20D;
+  let erc20DAddress: string;
+  let myTokenAddress: string;
+  let my1155TokenAddress: string;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let defaultSwap: Swap;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+
+    const erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    const erc20B = await ethers.deployContract("ERC20B", [swapper2.address]);
+    erc20BAddress = await erc20B.getAddress();
+
+    erc20D = await ethers.deployContract("ERC20D");
+    erc20DAddress = await erc20D.getAddress();
+
+    const myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    const my1155Token = await ethers.deployContract("My1155Token", [owner, tokenSwapperAddress]);
+    my1155TokenAddress = await my1155Token.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20A.connect(swapper1).approve(tokenSwapperAddress, 1000);
+    await erc20D.safeMint(swapper1.address, 1000);
+    await myToken.safeMint(swapper2.address);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: myTokenAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 500n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.ERC721,
+    };
+  });
+
+  function findingCodes(report: SwapRiskReport): RiskCode[] {
+    return [report.initiator, report.acceptor].flatMap((tokenReport) =>
+      (tokenReport?.findings ?? []).map(({ code }) => code),
+    );
+  }
+
+  it("Reports nothing for well behaved tokens", async function () {
+    const report = await scanSwapRisks(ethers.provider, tokenSwapperAddress, defaultSwap, { snapshot: true });
+
+    expect(report.level).undefined;
+    expect(report.initiator).deep.include({ hasBytecode: true, returnsBool: true, feeOnTransfer: false });
+    expect(report.acceptor).deep.include({ supportsERC165: true, interfaceMatches: true, callsSwapper: false });
+  });
+
+  it("Skips sides without a token", async function () {
+    const report = await scanSwapRisks(ethers.provider, tokenSwapperAddress, {
+      ...defaultSwap,
+      acceptorERCContract: ethers.ZeroAddress,
+      acceptorTokenType: TokenType.NONE,
+      acceptorETHPortion: 1n,
+    });
+
+    expect(report.acceptor).undefined;
+  });
+
+  it("Flags an address without bytecode", async function () {
+    const report = await scanSwapRisks(ethers.provider, tokenSwapperAddress, {
+      ...defaultSwap,
+      initiatorERCContract: owner.address,
+    });
+
+    expect(report.level).equal(RiskLevel.High);
+    expect(findingCodes(report)).deep.equal([RiskCode.NoBytecode]);
+  });
+
+  it("Scans bytecode ending in a PUSH opcode", async function () {
+    const truncatedAddress = ethers.Wallet.createRandom().address;
+
+    await ethers.provider.send("hardhat_setCode", [truncatedAddress, "0x600060"]);
+
+    const report = await scanSwapRisks(ethers.provider, tokenSwapperAddress, {
+      ...defaultSwap,
+      initiatorERCContract: truncatedAddress,
+    });
+
+    expect(report.initiator).deep.include({ hasBytecode: true, callsSwapper: false });
+  });
+
+  it("Flags a TokenType that ERC165 contradicts", async function () {
+    const erc1155Report = await scanSwapRisks(ethers.provider, tokenSwapperAddress, {
+      ...defaultSwap,
+      acceptorTokenType: TokenType.ERC1155,
+      acceptorTokenQuantity: 1n,
+    });
+    const erc20Report = await scanSwapRisks(ethers.provider, tokenSwapperAddress, {
+      ...defaultSwap,
+      initiatorERCContract: myTokenAddress,
+    });
+
+    expect(erc1155Report.acceptor?.findings[0].message).equal(
+      `${myTokenAddress} is declared ERC1155 but reports ERC721 through ERC165.`,
+    );
+    expect(findingCodes(erc20Report)).include(RiskCode.InterfaceMismatch);
+  });
+
+  it("Flags an ERC20 whose transferFrom returns false", async function () {
+    const report = await scanSwapRisks(ethers.provider, tokenSwapperAddress, {
+      ...defaultSwap,
+      initiatorERCContract: erc20BAddress,
+    });
+
+    expect(report.level).equal(RiskLevel.High);
+    expect(report.initiator?.returnsBool).true;
+    expect(findingCodes(report)).deep.equal([RiskCode.TransferReturnsFalse]);
+  });
+
+  it("Flags a fee-on-transfer token on a snapshot and leaves balances unchanged", async function () {
+    const swap = { ...defaultSwap, initiatorERCContract: erc20DAddress };
+
+    expect((await scanSwapRisks(ethers.provider, tokenSwapperAddress, swap)).initiator?.feeOnTransfer).undefined;
+
+    const report = await scanSwapRisks(ethers.provider, tokenSwapperAddress, swap, { snapshot: true });
+
+    expect(report.initiator?.feeOnTransfer).true;
+    expect(findingCodes(report)).deep.equal([RiskCode.FeeOnTransfer]);
+    expect(await erc20D.balanceOf(swapper1.address)).equal(1000n);
+  });
+
+  it("Flags transfer hooks calling back into the swapper", async function () {
+    const report = await scanSwapRisks(ethers.provider, tokenSwapperAddress, {
+      ...defaultSwap,
+      acceptorERCContract: my1155TokenAddress,
+      acceptorTokenId: 1n,
+      acceptorTokenQuantity: 1n,
+      acceptorTokenType: TokenType.ERC1155,
+    });
+
+    expect(report.level).equal(RiskLevel.Medium);
+    expect(report.acceptor?.callsSwapper).true;
+    expect(findingCodes(report)).deep.equal([RiskCode.CallsSwapper]);
+  });
+
+  it("Scans an initiated swap with the swap:scan task", async function () {
+    await tokenSwapper.connect(swapper1).initiateSwap({ ...defaultSwap, initiatorERCContract: erc20BAddress });
+
+    const consoleLog = console.log;
+    console.log = () => undefined;
+
+    try {
+      const report: SwapRiskReport = await hre.run("swap:scan", { swapper: tokenSwapperAddress, id: "1" });
+
+      expect(report.level).equal(RiskLevel.High);
+    } finally {
+      console.log = consoleLog;
+    }
+  });
+});
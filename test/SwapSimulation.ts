@@ -0,0 +1,206 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, ERC20B, My1155Token, MyToken, TokenSwapper } from "../typechain-types";
+import { ANY_TOKEN_ID } from "../sdk/CollectionSwaps";
+import { SimulationMode } from "../sdk/SwapSimulation";
+import { TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import { TokenIdMerkleTree } from "../sdk/TraitSwaps";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("SwapSimulation sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let erc20B: ERC20B;
+  let erc20BAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let my1155Token: My1155Token;
+  let my1155TokenAddress: string;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let client: TokenSwapperClient;
+  let defaultSwap: Swap;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    erc20B = await ethers.deployContract("ERC20B", [swapper2.address]);
+    erc20BAddress = await erc20B.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    my1155Token = await ethers.deployContract("My1155Token", [owner, tokenSwapperAddress]);
+    my1155TokenAddress = await my1155Token.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20A.connect(swapper1).approve(tokenSwapperAddress, 1000);
+    await erc20B.safeMint(swapper1.address, 1000);
+    await erc20B.connect(swapper1).approve(tokenSwapperAddress, 1000);
+    await myToken.safeMint(swapper2.address);
+    await myToken.connect(swapper2).approve(tokenSwapperAddress, 0);
+    await my1155Token.safeMint(swapper2.address);
+    await my1155Token.connect(swapper2).setApprovalForAll(tokenSwapperAddress, true);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: myTokenAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 500n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: GENERIC_SWAP_ETH,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.ERC721,
+    };
+  });
+
+  function delta(account: string, tokenType: TokenType, contract: string, tokenId: bigint, amount: bigint) {
+    return { account, tokenType, contract, tokenId, amount };
+  }
+
+  for (const mode of [SimulationMode.Call, SimulationMode.Snapshot]) {
+    describe(mode, function () {
+      it("Reports the token and ETH deltas of both parties", async function () {
+        const { swapId, swap } = await client.initiateSwap(defaultSwap);
+
+        const simulation = await client.simulateComplete(swapId, swap, swapper2.address, mode);
+
+        expect(simulation.success).true;
+        expect(simulation.deltas).deep.members([
+          delta(swapper1.address, TokenType.NONE, ethers.ZeroAddress, 0n, GENERIC_SWAP_ETH),
+          delta(swapper2.address, TokenType.NONE, ethers.ZeroAddress, 0n, -GENERIC_SWAP_ETH),
+          delta(swapper1.address, TokenType.ERC20, erc20AAddress, 0n, -500n),
+          delta(swapper2.address, TokenType.ERC20, erc20AAddress, 0n, 500n),
+          delta(swapper1.address, TokenType.ERC721, myTokenAddress, 0n, 1n),
+          delta(swapper2.address, TokenType.ERC721, myTokenAddress, 0n, -1n),
+        ]);
+        expect(simulation.ethPortionTransfers).deep.equal([{ user: swapper1.address, amount: GENERIC_SWAP_ETH }]);
+      });
+
+      it("Pays the initiator ETH portion to whoever accepts an open swap", async function () {
+        const { swapId, swap } = await client.initiateSwap({
+          ...defaultSwap,
+          acceptor: ethers.ZeroAddress,
+          acceptorERCContract: my1155TokenAddress,
+          acceptorTokenId: 1n,
+          acceptorTokenQuantity: 1n,
+          acceptorTokenType: TokenType.ERC1155,
+          initiatorETHPortion: GENERIC_SWAP_ETH,
+          acceptorETHPortion: 0n,
+        });
+
+        const simulation = await client.simulateComplete(swapId, swap, swapper2.address, mode);
+
+        expect(simulation.acceptor).equal(swapper2.address);
+        expect(simulation.ethPortionTransfers).deep.equal([{ user: swapper2.address, amount: GENERIC_SWAP_ETH }]);
+        expect(simulation.deltas).deep.include(delta(swapper1.address, TokenType.ERC1155, my1155TokenAddress, 1n, 1n));
+      });
+
+      it("Surfaces a token refusing the transfer", async function () {
+        const { swapId, swap } = await client.initiateSwap({ ...defaultSwap, initiatorERCContract: erc20BAddress });
+
+        const simulation = await client.simulateComplete(swapId, swap, swapper2.address, mode);
+
+        expect(simulation.success).false;
+        expect(simulation.deltas).length(0);
+        expect(simulation.error?.name).equal("SafeERC20FailedOperation");
+        expect(simulation.error?.args).deep.equal({ token: erc20BAddress });
+      });
+
+      it("Surfaces the swapper errors", async function () {
+        const { swapId, swap } = await client.initiateSwap(defaultSwap);
+
+        const simulation = await client.simulateComplete(swapId, swap, owner.address, mode);
+
+        expect(simulation.error?.name).equal("NotAcceptor");
+      });
+
+      it("Reports the deltas of the tokenId chosen for a collection swap", async function () {
+        const { swapId, swap } = await client.initiateSwap({
+          ...defaultSwap,
+          initiatorERCContract: ethers.ZeroAddress,
+          initiatorTokenQuantity: 0n,
+          initiatorETHPortion: GENERIC_SWAP_ETH,
+          initiatorTokenType: TokenType.NONE,
+          acceptor: ethers.ZeroAddress,
+          acceptorTokenId: ANY_TOKEN_ID,
+          acceptorETHPortion: 0n,
+        });
+
+        expect((await client.simulateComplete(swapId, swap, swapper2.address, mode)).success).false;
+
+        const simulation = await client.simulateComplete(swapId, swap, swapper2.address, mode, 0n);
+
+        expect(simulation.success).true;
+        expect(simulation.deltas).deep.members([
+          delta(swapper2.address, TokenType.NONE, ethers.ZeroAddress, 0n, GENERIC_SWAP_ETH),
+          delta(swapper1.address, TokenType.ERC721, myTokenAddress, 0n, 1n),
+          delta(swapper2.address, TokenType.ERC721, myTokenAddress, 0n, -1n),
+        ]);
+      });
+
+      it("Completes a trait swap with the proof of the chosen tokenId", async function () {
+        const tree = TokenIdMerkleTree.fromTokenIds([0n, 5n]);
+        const { swapId, swap } = await client.initiateTraitSwap(
+          { ...defaultSwap, acceptor: ethers.ZeroAddress, acceptorTokenId: ANY_TOKEN_ID },
+          tree,
+        );
+
+        expect((await client.simulateComplete(swapId, swap, swapper2.address, mode, 0n)).success).false;
+        expect((await client.simulateComplete(swapId, swap, swapper2.address, mode, 0n, tree.getProof(5n))).success)
+          .false;
+
+        const simulation = await client.simulateComplete(swapId, swap, swapper2.address, mode, 0n, tree.getProof(0n));
+
+        expect(simulation.success).true;
+        expect(simulation.deltas).deep.include(delta(swapper1.address, TokenType.ERC721, myTokenAddress, 0n, 1n));
+        expect(await client.getTokenIdsRoot(swapId)).equal(tree.root);
+      });
+
+      it("Leaves the swap open", async function () {
+        const { swapId, swap } = await client.initiateSwap(defaultSwap);
+
+        await client.simulateComplete(swapId, swap, swapper2.address, mode);
+
+        expect(await myToken.ownerOf(0)).equal(swapper2.address);
+        expect((await client.getSwapStatus(swapId, swap)).isReadyForSwapping).true;
+      });
+    });
+  }
+
+  it("Reports the gas used in snapshot mode", async function () {
+    const { swapId, swap } = await client.initiateSwap(defaultSwap);
+
+    const simulation = await client.simulateComplete(swapId, swap, swapper2.address, SimulationMode.Snapshot);
+
+    expect(simulation.gasUsed).greaterThan(0n);
+  });
+});
@@ -0,0 +1,258 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import hre, { ethers } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, MyToken, TokenSwapper } from "../typechain-types";
+import { parseSwapDocument, stringifySwapDocument } from "../sdk/SwapDocument";
+import { hashSwap } from "../sdk/SwapHashing";
+import { CompleteSwapResult, InitiateSwapResult, RemoveSwapResult } from "../sdk/TokenSwapperClient";
+import { SwapStatus } from "../sdk/types";
+
+describe("Swap tasks testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+
+  let tokenSwapper: TokenSwapper;
+  let tokenSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let directory: string;
+  let consoleLog: typeof console.log;
+
+  async function deployContractsFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+    tokenSwapperAddress = await tokenSwapper.getAddress();
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000);
+    await erc20A.connect(swapper1).approve(tokenSwapperAddress, 1000);
+    await myToken.safeMint(swapper2.address);
+    await myToken.connect(swapper2).approve(tokenSwapperAddress, 0);
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    directory = mkdtempSync(join(tmpdir(), "swap-tasks-"));
+
+    consoleLog = console.log;
+    console.log = () => undefined;
+  });
+
+  this.afterEach(() => {
+    console.log = consoleLog;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function initiateFromFlags(): Promise<InitiateSwapResult> {
+    return hre.run("swap:initiate", {
+      swapper: tokenSwapperAddress,
+      signer: swapper1.address,
+      initiatorContract: erc20AAddress,
+      initiatorTokenQuantity: "500",
+      initiatorTokenType: "ERC20",
+      acceptor: swapper2.address,
+      acceptorContract: myTokenAddress,
+      acceptorTokenType: "ERC721",
+    });
+  }
+
+  describe("swap:initiate", function () {
+    it("Initiates a swap from flags with defaults for the rest", async function () {
+      const { swapId, swap } = await initiateFromFlags();
+
+      expect(swapId).equal(1n);
+      expect(swap.initiator).equal(swapper1.address);
+      expect(swap.expiryDate - BigInt(await networkTime.latest())).within(86398n, 86400n);
+      expect(await tokenSwapper.swapHashes(1n)).equal(hashSwap(swap));
+    });
+
+    it("Initiates a swap from a JSON file with flags overriding it", async function () {
+      const swapFile = join(directory, "swap.json");
+
+      writeFileSync(
+        swapFile,
+        JSON.stringify({
+          expiryDate: (await networkTime.latest()) + 3600,
+          initiatorERCContract: erc20AAddress,
+          acceptorERCContract: ethers.ZeroAddress,
+          initiator: swapper1.address,
+          initiatorTokenId: 0,
+          initiatorTokenQuantity: "100",
+          acceptor: ethers.ZeroAddress,
+          acceptorTokenId: 0,
+          acceptorTokenQuantity: 0,
+          initiatorETHPortion: 0,
+          acceptorETHPortion: GENERIC_SWAP_ETH.toString(),
+          initiatorTokenType: 1,
+          acceptorTokenType: "NONE",
+        }),
+      );
+
+      const { swap } = await hre.run("swap:initiate", {
+        swapper: tokenSwapperAddress,
+        signer: "1",
+        swapFile,
+        initiatorTokenQuantity: "200",
+      });
+
+      expect(swap.initiatorTokenQuantity).equal(200n);
+      expect(swap.acceptorETHPortion).equal(GENERIC_SWAP_ETH);
+    });
+
+    it("Fails before sending when the swap is invalid", async function () {
+      await expect(
+        hre.run("swap:initiate", { swapper: tokenSwapperAddress, signer: swapper1.address }),
+      ).to.be.rejectedWith("Swap is invalid");
+    });
+
+    it("Fails without a swapper address", async function () {
+      await expect(hre.run("swap:initiate", {})).to.be.rejectedWith("--swapper or SWAPPER_ADDRESS is required");
+    });
+  });
+
+  describe("swap:status", function () {
+    it("Reads the swap from the SwapInitiated event", async function () {
+      await initiateFromFlags();
+
+      const status: SwapStatus = await hre.run("swap:status", { swapper: tokenSwapperAddress, id: "1" });
+
+      expect(status.isReadyForSwapping).true;
+    });
+
+    it("Fails for an unknown swapId", async function () {
+      await expect(hre.run("swap:status", { swapper: tokenSwapperAddress, id: "7" })).to.be.rejectedWith(
+        "No SwapInitiated event found for swap 7",
+      );
+    });
+  });
+
+  describe("swap:complete", function () {
+    it("Completes a swap by id", async function () {
+      await initiateFromFlags();
+
+      const result: CompleteSwapResult = await hre.run("swap:complete", {
+        swapper: tokenSwapperAddress,
+        signer: "2",
+        id: "1",
+      });
+
+      expect(result.acceptor).equal(swapper2.address);
+      expect(await myToken.ownerOf(0)).equal(swapper1.address);
+      expect(await erc20A.balanceOf(swapper2.address)).equal(500n);
+    });
+
+    it("Explains a revert with the decoded swap error", async function () {
+      await initiateFromFlags();
+      await myToken.connect(swapper2).approve(ethers.ZeroAddress, 0);
+
+      await expect(hre.run("swap:complete", { swapper: tokenSwapperAddress, signer: "2", id: "1" })).to.be.rejectedWith(
+        `Approve swapper for token #0 of token ${myTokenAddress}`,
+      );
+    });
+  });
+
+  describe("swap:remove", function () {
+    it("Removes a swap by id", async function () {
+      await initiateFromFlags();
+
+      const result: RemoveSwapResult = await hre.run("swap:remove", {
+        swapper: tokenSwapperAddress,
+        signer: swapper1.address,
+        id: "1",
+      });
+
+      expect(result.initiator).equal(swapper1.address);
+      expect(await tokenSwapper.swapHashes(1n)).equal(ethers.ZeroHash);
+    });
+
+    it("Removes a swap from a swap file", async function () {
+      const { swap } = await initiateFromFlags();
+      const swapFile = join(directory, "swap.json");
+
+      writeFileSync(
+        swapFile,
+        JSON.stringify(swap, (_key, value) => (typeof value === "bigint" ? `${value}` : value)),
+      );
+
+      await hre.run("swap:remove", { swapper: tokenSwapperAddress, signer: "1", id: "1", swapFile });
+
+      expect(await tokenSwapper.swapHashes(1n)).equal(ethers.ZeroHash);
+    });
+
+    it("Names the fields a swap file is missing", async function () {
+      const swapFile = join(directory, "swap.json");
+
+      await initiateFromFlags();
+
+      writeFileSync(swapFile, JSON.stringify({ initiator: swapper1.address }));
+      await expect(
+        hre.run("swap:remove", { swapper: tokenSwapperAddress, signer: "1", id: "1", swapFile, expiryDate: "1" }),
+      ).to.be.rejectedWith("The swap file is missing initiatorERCContract, acceptorERCContract, initiatorTokenId");
+
+      writeFileSync(swapFile, "[]");
+      await expect(
+        hre.run("swap:remove", { swapper: tokenSwapperAddress, signer: "1", id: "1", swapFile }),
+      ).to.be.rejectedWith("must hold a JSON object");
+    });
+  });
+
+  describe("swap:export", function () {
+    it("Writes a swap document the other tasks accept", async function () {
+      const { swap } = await initiateFromFlags();
+      const swapFile = join(directory, "swap.json");
+
+      await hre.run("swap:export", { swapper: tokenSwapperAddress, id: "1", out: swapFile });
+
+      expect(parseSwapDocument(readFileSync(swapFile, "utf8"))).deep.equal({
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        swapperAddress: tokenSwapperAddress,
+        swapId: 1n,
+        swap,
+      });
+
+      await hre.run("swap:complete", { swapper: tokenSwapperAddress, signer: "2", id: "1", swapFile });
+
+      expect(await myToken.ownerOf(0)).equal(swapper1.address);
+    });
+
+    it("Rejects a swap document for another chain", async function () {
+      const { swap } = await initiateFromFlags();
+      const swapFile = join(directory, "swap.json");
+
+      writeFileSync(swapFile, stringifySwapDocument({ chainId: 1n, swapperAddress: tokenSwapperAddress, swap }));
+
+      await expect(
+        hre.run("swap:remove", { swapper: tokenSwapperAddress, signer: "1", id: "1", swapFile }),
+      ).to.be.rejectedWith("The swap file is for chain 1");
+    });
+  });
+
+  describe("swap:describe", function () {
+    it("Describes a swap by id", async function () {
+      await initiateFromFlags();
+
+      const { text } = await hre.run("swap:describe", { swapper: tokenSwapperAddress, id: "1" });
+
+      expect(text).match(/ gives 0.0000000000000005 ERC20B for MyToken #0, expires in 23 hours, only 0x.+ can accept$/);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { TokenSwapper } from "../typechain-types";
+import { validateSwap } from "../sdk/SwapValidation";
+import { Swap, TokenType } from "../sdk/types";
+
+type ValidationCase = {
+  name: string;
+  mutate: (swap: Swap) => void;
+  sender?: () => SignerWithAddress;
+  value?: bigint;
+};
+
+describe("SwapValidation sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+  const initiatorERCContract = ethers.Wallet.createRandom().address;
+  const acceptorERCContract = ethers.Wallet.createRandom().address;
+
+  let tokenSwapper: TokenSwapper;
+
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let defaultSwap: Swap;
+
+  async function deploytokenSwapperFixture() {
+    tokenSwapper = await ethers.deployContract("TokenSwapper");
+  }
+
+  before(async () => {
+    [, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deploytokenSwapperFixture);
+
+    defaultSwap = {
+      expiryDate: BigInt(await networkTime.latest()) + 86400n,
+      initiatorERCContract: initiatorERCContract,
+      acceptorERCContract: acceptorERCContract,
+      initiator: swapper1.address,
+      initiatorTokenId: 1n,
+      initiatorTokenQuantity: 0n,
+      acceptor: swapper2.address,
+      acceptorTokenId: 1n,
+      acceptorTokenQuantity: 5n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: 0n,
+      initiatorTokenType: TokenType.ERC721,
+      acceptorTokenType: TokenType.ERC1155,
+    };
+  });
+
+  async function nextBlockTimestamp(): Promise<number> {
+    return (await networkTime.latest()) + 1;
+  }
+
+  const invalidCases: ValidationCase[] = [
+    {
+      name: "expiry in the past",
+      mutate: (swap) => (swap.expiryDate = 1n),
+    },
+    {
+      name: "open ERC721 acceptor",
+      mutate: (swap) => {
+        swap.acceptor = ethers.ZeroAddress;
+        swap.acceptorTokenType = TokenType.ERC721;
+      },
+    },
+    {
+      name: "sender is not the initiator",
+      mutate: () => {},
+      sender: () => swapper2,
+    },
+    {
+      name: "value does not match the initiator ETH portion",
+      mutate: (swap) => (swap.initiatorETHPortion = GENERIC_SWAP_ETH),
+    },
+    {
+      name: "both sides provide ETH",
+      mutate: (swap) => {
+        swap.initiatorETHPortion = GENERIC_SWAP_ETH;
+        swap.acceptorETHPortion = GENERIC_SWAP_ETH;
+      },
+      value: GENERIC_SWAP_ETH,
+    },
+    {
+      name: "both sides are ETH only",
+      mutate: (swap) => {
+        swap.initiatorTokenType = TokenType.NONE;
+        swap.acceptorTokenType = TokenType.NONE;
+        swap.initiatorETHPortion = GENERIC_SWAP_ETH;
+      },
+      value: GENERIC_SWAP_ETH,
+    },
+    {
+      name: "initiator ERC20 without a contract",
+      mutate: (swap) => {
+        swap.initiatorTokenType = TokenType.ERC20;
+        swap.initiatorTokenQuantity = 5n;
+        swap.initiatorERCContract = ethers.ZeroAddress;
+      },
+    },
+    {
+      name: "initiator ERC777 without a quantity",
+      mutate: (swap) => (swap.initiatorTokenType = TokenType.ERC777),
+    },
+    {
+      name: "initiator ERC721 without a contract",
+      mutate: (swap) => (swap.initiatorERCContract = ethers.ZeroAddress),
+    },
+    {
+      name: "initiator ERC1155 without a quantity",
+      mutate: (swap) => (swap.initiatorTokenType = TokenType.ERC1155),
+    },
+    {
+      name: "initiator NONE without ETH",
+      mutate: (swap) => (swap.initiatorTokenType = TokenType.NONE),
+    },
+    {
+      name: "acceptor ERC20 without a quantity",
+      mutate: (swap) => {
+        swap.acceptorTokenType = TokenType.ERC20;
+        swap.acceptorTokenQuantity = 0n;
+      },
+    },
+    {
+      name: "acceptor ERC721 without a contract",
+      mutate: (swap) => {
+        swap.acceptorTokenType = TokenType.ERC721;
+        swap.acceptorERCContract = ethers.ZeroAddress;
+      },
+    },
+    {
+      name: "acceptor ERC1155 without a contract",
+      mutate: (swap) => (swap.acceptorERCContract = ethers.ZeroAddress),
+    },
+    {
+      name: "acceptor NONE without ETH",
+      mutate: (swap) => (swap.acceptorTokenType = TokenType.NONE),
+    },
+  ];
+
+  describe("Contract parity", function () {
+    for (const validationCase of invalidCases) {
+      it(`Reports the contract revert for ${validationCase.name}`, async function () {
+        validationCase.mutate(defaultSwap);
+        const sender = validationCase.sender?.() ?? swapper1;
+        const value = validationCase.value ?? 0n;
+
+        const violations = validateSwap(defaultSwap, sender.address, value, await nextBlockTimestamp());
+
+        expect(violations).to.not.be.empty;
+
+        await expect(tokenSwapper.connect(sender).initiateSwap(defaultSwap, { value }))
+          .to.be.revertedWithCustomError(tokenSwapper, violations[0].error)
+          .withArgs(...violations[0].args);
+      });
+    }
+
+    it("Reports an invalid token type the contract rejects", async function () {
+      const invalidSwap = { ...defaultSwap, acceptorTokenType: 5 };
+
+      const violations = validateSwap(invalidSwap, swapper1.address, 0n, await nextBlockTimestamp());
+
+      expect(violations.map((violation) => violation.error)).deep.equal(["InvalidTokenType"]);
+      await expect(tokenSwapper.connect(swapper1).initiateSwap(invalidSwap)).to.be.reverted;
+    });
+
+    it("Accepts a valid ERC721 for ERC1155 swap", async function () {
+      expect(validateSwap(defaultSwap, swapper1.address, 0n, await nextBlockTimestamp())).to.be.empty;
+
+      await expect(tokenSwapper.connect(swapper1).initiateSwap(defaultSwap)).to.emit(tokenSwapper, "SwapInitiated");
+    });
+
+    it("Accepts a valid ETH for open ERC20 swap", async function () {
+      defaultSwap.initiatorTokenType = TokenType.NONE;
+      defaultSwap.initiatorERCContract = ethers.ZeroAddress;
+      defaultSwap.initiatorETHPortion = GENERIC_SWAP_ETH;
+      defaultSwap.acceptorTokenType = TokenType.ERC20;
+      defaultSwap.acceptor = ethers.ZeroAddress;
+
+      expect(validateSwap(defaultSwap, swapper1.address, GENERIC_SWAP_ETH, await nextBlockTimestamp())).to.be.empty;
+
+      await expect(tokenSwapper.connect(swapper1).initiateSwap(defaultSwap, { value: GENERIC_SWAP_ETH })).to.emit(
+        tokenSwapper,
+        "SwapInitiated",
+      );
+    });
+  });
+
+  describe("Reporting all violations", function () {
+    it("Lists every violation in contract order", async function () {
+      defaultSwap.expiryDate = 1n;
+      defaultSwap.initiatorERCContract = ethers.ZeroAddress;
+      defaultSwap.acceptorTokenType = TokenType.ERC20;
+      defaultSwap.acceptorERCContract = ethers.ZeroAddress;
+      defaultSwap.acceptorTokenQuantity = 0n;
+
+      const violations = validateSwap(defaultSwap, swapper2.address, 1n, await nextBlockTimestamp());
+
+      expect(violations.map((violation) => [violation.error, violation.side])).deep.equal([
+        ["SwapIsInThePast", undefined],
+        ["InitiatorNotMatched", "initiator"],
+        ["InitiatorEthPortionNotMatched", "initiator"],
+        ["ZeroAddressSetForValidTokenType", "initiator"],
+        ["ZeroAddressSetForValidTokenType", "acceptor"],
+        ["TokenQuantityMissing", "acceptor"],
+      ]);
+    });
+
+    it("Accepts symbolic token type names", async function () {
+      const namedSwap = { ...defaultSwap, initiatorTokenType: "ERC721", acceptorTokenType: "NONE" };
+
+      const violations = validateSwap(namedSwap, swapper1.address, 0n, await nextBlockTimestamp());
+
+      expect(violations.map((violation) => violation.error)).deep.equal(["ValueOrTokenMissing"]);
+    });
+  });
+});
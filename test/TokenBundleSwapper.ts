@@ -0,0 +1,359 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, My1155Token, MyToken, TokenBundleSwapper } from "../typechain-types";
+import { BundleSwapBuilder } from "../sdk/SwapBuilder";
+import { hashBundleSwap, verifyBundleSwapAgainstChain } from "../sdk/SwapHashing";
+import { SqliteSwapStore } from "../sdk/SqliteSwapStore";
+import { SwapIndexer } from "../sdk/SwapIndexer";
+import { MemorySwapStore, SwapState } from "../sdk/SwapStore";
+import { SwapValidationError } from "../sdk/SwapValidation";
+import { BundleSwap, TokenType } from "../sdk/types";
+
+describe("tokenBundleSwapper testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+  const GAME_TOKEN_ID = 7n;
+
+  let tokenBundleSwapper: TokenBundleSwapper;
+  let tokenBundleSwapperAddress: string;
+  let erc20A: ERC20A;
+  let erc20AAddress: string;
+  let myToken: MyToken;
+  let myTokenAddress: string;
+  let my1155Token: My1155Token;
+  let my1155TokenAddress: string;
+  let deploymentBlock: number;
+
+  let owner: SignerWithAddress;
+  let swapper1: SignerWithAddress;
+  let swapper2: SignerWithAddress;
+
+  let now: bigint;
+  let mixedSwap: BundleSwap;
+
+  // swapper 1 has 1000 ERC20A and MyToken 0 and 1
+  // swapper 2 has 500 ERC20A, MyToken 2 and 3 of My1155Token 7
+  async function deployContractsFixture() {
+    tokenBundleSwapper = await ethers.deployContract("TokenBundleSwapper");
+    tokenBundleSwapperAddress = await tokenBundleSwapper.getAddress();
+    deploymentBlock = (await tokenBundleSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+    erc20A = await ethers.deployContract("ERC20A");
+    erc20AAddress = await erc20A.getAddress();
+
+    myToken = await ethers.deployContract("MyToken", [owner]);
+    myTokenAddress = await myToken.getAddress();
+
+    my1155Token = await ethers.deployContract("My1155Token", [owner, tokenBundleSwapperAddress]);
+    my1155TokenAddress = await my1155Token.getAddress();
+
+    await erc20A.safeMint(swapper1.address, 1000n);
+    await erc20A.safeMint(swapper2.address, 500n);
+    await myToken.connect(owner).safeMint(swapper1.address);
+    await myToken.connect(owner).safeMint(swapper1.address);
+    await myToken.connect(owner).safeMint(swapper2.address);
+
+    for (let i = 0; i < 3; i++) {
+      await my1155Token.safeMintById(swapper2.address, GAME_TOKEN_ID);
+    }
+
+    for (const swapper of [swapper1, swapper2]) {
+      await erc20A.connect(swapper).approve(tokenBundleSwapperAddress, 1000n);
+      await myToken.connect(swapper).setApprovalForAll(tokenBundleSwapperAddress, true);
+      await my1155Token.connect(swapper).setApprovalForAll(tokenBundleSwapperAddress, true);
+    }
+  }
+
+  before(async () => {
+    [owner, swapper1, swapper2] = await ethers.getSigners();
+  });
+
+  this.beforeEach(async () => {
+    await loadFixture(deployContractsFixture);
+
+    now = BigInt(await networkTime.latest());
+
+    mixedSwap = new BundleSwapBuilder()
+      .give()
+      .erc20(erc20AAddress, 300n)
+      .erc721(myTokenAddress, 0n)
+      .erc721(myTokenAddress, 1n)
+      .want()
+      .erc1155(my1155TokenAddress, GAME_TOKEN_ID, 3n)
+      .erc721(myTokenAddress, 2n)
+      .erc20(erc20AAddress, 100n)
+      .from(swapper1.address)
+      .to(swapper2.address)
+      .expiresIn("1d")
+      .build(now).swap;
+  });
+
+  async function initiate(swap: BundleSwap, value = swap.initiatorETHPortion): Promise<bigint> {
+    const swapId = await tokenBundleSwapper.swapId();
+
+    await tokenBundleSwapper.connect(swapper1).initiateBundleSwap(swap, { value });
+
+    return swapId;
+  }
+
+  it("Swaps mixed ERC20, ERC721 and ERC1155 baskets", async function () {
+    const swapId = await initiate(mixedSwap);
+
+    expect(await tokenBundleSwapper.swapHashes(swapId)).equal(hashBundleSwap(mixedSwap));
+
+    await expect(tokenBundleSwapper.connect(swapper2).completeBundleSwap(swapId, mixedSwap))
+      .to.emit(tokenBundleSwapper, "BundleSwapComplete")
+      .withArgs(swapId, swapper1.address, swapper2.address, Object.values(mixedSwap).map(toTuple));
+
+    expect(await erc20A.balanceOf(swapper1.address)).equal(800n);
+    expect(await erc20A.balanceOf(swapper2.address)).equal(700n);
+    expect(await myToken.ownerOf(0n)).equal(swapper2.address);
+    expect(await myToken.ownerOf(1n)).equal(swapper2.address);
+    expect(await myToken.ownerOf(2n)).equal(swapper1.address);
+    expect(await my1155Token.balanceOf(swapper1.address, GAME_TOKEN_ID)).equal(3n);
+    expect(await tokenBundleSwapper.swapHashes(swapId)).equal(ethers.ZeroHash);
+  });
+
+  it("Sends the acceptor ETH portion of an ETH only side to the initiator", async function () {
+    const swap = {
+      ...mixedSwap,
+      acceptor: ethers.ZeroAddress,
+      acceptorItems: [],
+      acceptorETHPortion: GENERIC_SWAP_ETH,
+    };
+    const swapId = await initiate(swap);
+
+    await expect(
+      tokenBundleSwapper.connect(swapper2).completeBundleSwap(swapId, swap, { value: GENERIC_SWAP_ETH }),
+    ).to.changeEtherBalances([swapper1, swapper2], [GENERIC_SWAP_ETH, -GENERIC_SWAP_ETH]);
+
+    expect(await myToken.ownerOf(1n)).equal(swapper2.address);
+  });
+
+  it("Validates every item of both sides", async function () {
+    const noneItem = { tokenType: TokenType.NONE, ercContract: erc20AAddress, tokenId: 0n, tokenQuantity: 1n };
+
+    await expect(
+      initiate({ ...mixedSwap, initiatorItems: [...mixedSwap.initiatorItems, noneItem] }),
+    ).to.be.revertedWithCustomError(tokenBundleSwapper, "NoneTokenTypeInBundle");
+
+    await expect(
+      initiate({
+        ...mixedSwap,
+        acceptorItems: [mixedSwap.acceptorItems[0], { ...mixedSwap.acceptorItems[2], tokenQuantity: 0n }],
+      }),
+    ).to.be.revertedWithCustomError(tokenBundleSwapper, "TokenQuantityMissing");
+
+    await expect(initiate({ ...mixedSwap, acceptor: ethers.ZeroAddress })).to.be.revertedWithCustomError(
+      tokenBundleSwapper,
+      "ZeroAddressDisallowed",
+    );
+
+    await expect(initiate({ ...mixedSwap, acceptorItems: [] })).to.be.revertedWithCustomError(
+      tokenBundleSwapper,
+      "ValueOrTokenMissing",
+    );
+
+    await expect(
+      initiate({ ...mixedSwap, initiatorItems: [], acceptorItems: [], initiatorETHPortion: GENERIC_SWAP_ETH }),
+    ).to.be.revertedWithCustomError(tokenBundleSwapper, "TwoWayEthPortionsDisallowed");
+  });
+
+  it("Removes a bundle swap refunding the initiator ETH portion", async function () {
+    const swap = { ...mixedSwap, initiatorETHPortion: GENERIC_SWAP_ETH };
+    const swapId = await initiate(swap);
+
+    await expect(tokenBundleSwapper.connect(swapper2).removeBundleSwap(swapId, swap)).to.be.revertedWithCustomError(
+      tokenBundleSwapper,
+      "NotInitiator",
+    );
+
+    const removal = tokenBundleSwapper.connect(swapper1).removeBundleSwap(swapId, swap);
+
+    await expect(removal).to.emit(tokenBundleSwapper, "SwapRemoved").withArgs(swapId, swapper1.address);
+    await expect(removal).to.changeEtherBalance(swapper1, GENERIC_SWAP_ETH);
+
+    await expect(tokenBundleSwapper.connect(swapper2).completeBundleSwap(swapId, swap)).to.be.revertedWithCustomError(
+      tokenBundleSwapper,
+      "SwapCompleteOrDoesNotExist",
+    );
+  });
+
+  it("Cancels bundle swaps with a nonce increment and still refunds them", async function () {
+    const swap = { ...mixedSwap, initiatorETHPortion: GENERIC_SWAP_ETH };
+    const swapId = await initiate(swap);
+
+    await tokenBundleSwapper.connect(swapper1).incrementNonce();
+
+    await expect(tokenBundleSwapper.connect(swapper2).completeBundleSwap(swapId, swap))
+      .to.be.revertedWithCustomError(tokenBundleSwapper, "SwapCancelled")
+      .withArgs(swapId);
+    await expect(tokenBundleSwapper.getBundleSwapStatus(swapId, swap)).to.be.revertedWithCustomError(
+      tokenBundleSwapper,
+      "SwapCancelled",
+    );
+
+    const indexer = new SwapIndexer(ethers.provider, tokenBundleSwapperAddress, new MemorySwapStore(), {
+      deploymentBlock,
+    });
+    await indexer.sync();
+
+    expect((await indexer.getBundleSwaps()).map(({ state }) => state)).deep.equal([SwapState.Cancelled]);
+    await expect(tokenBundleSwapper.connect(swapper1).removeBundleSwap(swapId, swap)).to.changeEtherBalance(
+      swapper1,
+      GENERIC_SWAP_ETH,
+    );
+  });
+
+  it("Rejects completing with a changed item", async function () {
+    const swapId = await initiate(mixedSwap);
+    const changedSwap = {
+      ...mixedSwap,
+      acceptorItems: [{ ...mixedSwap.acceptorItems[0], tokenQuantity: 1n }, ...mixedSwap.acceptorItems.slice(1)],
+    };
+
+    await expect(
+      tokenBundleSwapper.connect(swapper2).completeBundleSwap(swapId, changedSwap),
+    ).to.be.revertedWithCustomError(tokenBundleSwapper, "SwapCompleteOrDoesNotExist");
+    expect(await verifyBundleSwapAgainstChain(tokenBundleSwapper, swapId, changedSwap)).false;
+    expect(await verifyBundleSwapAgainstChain(tokenBundleSwapper, swapId, mixedSwap)).true;
+  });
+
+  it("Reports a side as not ready when any item is not approved", async function () {
+    const swapId = await initiate(mixedSwap);
+
+    expect((await tokenBundleSwapper.getBundleSwapStatus(swapId, mixedSwap)).isReadyForSwapping).true;
+
+    await my1155Token.connect(swapper2).setApprovalForAll(tokenBundleSwapperAddress, false);
+
+    const swapStatus = await tokenBundleSwapper.getBundleSwapStatus(swapId, mixedSwap);
+
+    expect(swapStatus.acceptorTokenRequiresApproval).true;
+    expect(swapStatus.acceptorNeedsToOwnToken).false;
+    expect(swapStatus.initiatorTokenRequiresApproval).false;
+    expect(swapStatus.isReadyForSwapping).false;
+  });
+
+  it("Shares swap IDs with single token swaps", async function () {
+    const bundleSwapId = await initiate(mixedSwap);
+
+    await tokenBundleSwapper.connect(swapper1).initiateSwap({
+      expiryDate: mixedSwap.expiryDate,
+      initiatorERCContract: erc20AAddress,
+      acceptorERCContract: ethers.ZeroAddress,
+      initiator: swapper1.address,
+      initiatorTokenId: 0n,
+      initiatorTokenQuantity: 10n,
+      acceptor: ethers.ZeroAddress,
+      acceptorTokenId: 0n,
+      acceptorTokenQuantity: 0n,
+      initiatorETHPortion: 0n,
+      acceptorETHPortion: 1n,
+      initiatorTokenType: TokenType.ERC20,
+      acceptorTokenType: TokenType.NONE,
+    });
+
+    expect(await tokenBundleSwapper.swapId()).equal(bundleSwapId + 2n);
+  });
+
+  it("Reports every violated item when building", function () {
+    const builder = new BundleSwapBuilder()
+      .give()
+      .erc20(erc20AAddress, 0n)
+      .erc721(myTokenAddress, 0n)
+      .want()
+      .erc721(myTokenAddress, 2n)
+      .from(swapper1.address)
+      .expiresIn(60);
+
+    expect(() => builder.build(now))
+      .to.throw(SwapValidationError)
+      .with.property("violations")
+      .that.deep.equals([
+        {
+          error: "ZeroAddressDisallowed",
+          side: "acceptor",
+          args: [],
+          message: "An ERC721 acceptor item requires an acceptor address.",
+        },
+        {
+          error: "TokenQuantityMissing",
+          side: "initiator",
+          item: 0,
+          args: [],
+          message: "The initiator item 0 token quantity is zero.",
+        },
+      ]);
+  });
+
+  it("Decodes bundle swaps with the indexer", async function () {
+    const completedSwapId = await initiate(mixedSwap);
+    await tokenBundleSwapper.connect(swapper2).completeBundleSwap(completedSwapId, mixedSwap);
+
+    const ethSwap = {
+      ...mixedSwap,
+      initiatorItems: [],
+      initiatorETHPortion: GENERIC_SWAP_ETH,
+      acceptorItems: [mixedSwap.acceptorItems[2]],
+    };
+    const removedSwapId = await initiate(ethSwap);
+    await tokenBundleSwapper.connect(swapper1).removeBundleSwap(removedSwapId, ethSwap);
+
+    const openSwapId = await initiate({ ...mixedSwap, initiatorItems: [mixedSwap.initiatorItems[0]] });
+
+    const indexer = new SwapIndexer(ethers.provider, tokenBundleSwapperAddress, new MemorySwapStore(), {
+      deploymentBlock,
+      batchSize: 2,
+    });
+    await indexer.sync();
+
+    const bundleSwaps = await indexer.getBundleSwaps();
+
+    expect(bundleSwaps.map(({ swapId, state }) => [swapId, state])).deep.equal([
+      [completedSwapId, SwapState.Completed],
+      [removedSwapId, SwapState.Removed],
+      [openSwapId, SwapState.Open],
+    ]);
+    expect(bundleSwaps[0].swap).deep.equal(mixedSwap);
+    expect(bundleSwaps[0].acceptor).equal(swapper2.address);
+    expect(bundleSwaps[1].ethPortionTransfers.map(({ user, amount }) => [user, amount])).deep.equal([
+      [swapper1.address, GENERIC_SWAP_ETH],
+    ]);
+    expect(await indexer.getBundleSwaps(SwapState.Open)).length(1);
+    expect(hashBundleSwap(bundleSwaps[2].swap)).equal(await tokenBundleSwapper.swapHashes(openSwapId));
+  });
+
+  it("Resumes indexing bundle swaps from the store checkpoint", async function () {
+    const swapId = await initiate(mixedSwap);
+    const store = new SqliteSwapStore(":memory:");
+    const indexer = new SwapIndexer(ethers.provider, tokenBundleSwapperAddress, store, { deploymentBlock });
+
+    await indexer.sync();
+
+    expect((await store.getBundleSwap(swapId))?.swap).deep.equal(mixedSwap);
+    expect(await store.getSwap(swapId)).undefined;
+
+    const completeTx = await tokenBundleSwapper.connect(swapper2).completeBundleSwap(swapId, mixedSwap);
+    const checkpoint = await indexer.sync();
+
+    expect(checkpoint).equal(completeTx.blockNumber);
+
+    const bundleSwap = await indexer.getBundleSwap(swapId);
+
+    expect(bundleSwap?.state).equal(SwapState.Completed);
+    expect(bundleSwap?.acceptor).equal(swapper2.address);
+    expect(bundleSwap?.closedTransactionHash).equal(completeTx.hash);
+    expect(bundleSwap?.swap).deep.equal(mixedSwap);
+
+    store.close();
+  });
+});
+
+function toTuple(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => Object.values(item).map(toTuple));
+  }
+
+  return value;
+}
@@ -0,0 +1,235 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ERC20A, MyToken } from "../typechain-types";
+import { SwapperVariant, TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import { SwapValidationError } from "../sdk/SwapValidation";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("TokenSwapperClient testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+
+  for (const variant of [SwapperVariant.TokenSwapper, SwapperVariant.NonCancunTokenSwapper]) {
+    describe(variant, function () {
+      let tokenSwapperAddress: string;
+      let deploymentBlock: number;
+      let erc20A: ERC20A;
+      let erc20AAddress: string;
+      let myToken: MyToken;
+      let myTokenAddress: string;
+
+      let owner: SignerWithAddress;
+      let swapper1: SignerWithAddress;
+      let swapper2: SignerWithAddress;
+
+      let defaultSwap: Swap;
+
+      async function deployContractsFixture() {
+        const tokenSwapper = await ethers.deployContract(variant);
+        tokenSwapperAddress = await tokenSwapper.getAddress();
+        deploymentBlock = (await tokenSwapper.deploymentTransaction()!.wait())!.blockNumber;
+
+        erc20A = await ethers.deployContract("ERC20A");
+        erc20AAddress = await erc20A.getAddress();
+
+        myToken = await ethers.deployContract("MyToken", [owner]);
+        myTokenAddress = await myToken.getAddress();
+
+        await erc20A.safeMint(swapper1.address, 1000);
+        await myToken.safeMint(swapper2.address);
+      }
+
+      before(async () => {
+        [owner, swapper1, swapper2] = await ethers.getSigners();
+      });
+
+      this.beforeEach(async () => {
+        await loadFixture(deployContractsFixture);
+
+        defaultSwap = {
+          expiryDate: BigInt(Math.floor(Date.now() / 1000)) + 86400n,
+          initiatorERCContract: erc20AAddress,
+          acceptorERCContract: myTokenAddress,
+          initiator: swapper1.address,
+          initiatorTokenId: 0n,
+          initiatorTokenQuantity: 500n,
+          acceptor: swapper2.address,
+          acceptorTokenId: 0n,
+          acceptorTokenQuantity: 0n,
+          initiatorETHPortion: GENERIC_SWAP_ETH,
+          acceptorETHPortion: 0n,
+          initiatorTokenType: TokenType.ERC20,
+          acceptorTokenType: TokenType.ERC721,
+        };
+      });
+
+      it("Detects the deployed variant", async function () {
+        const client = await TokenSwapperClient.connect(tokenSwapperAddress, ethers.provider);
+
+        expect(client.variant).equal(variant);
+      });
+
+      it("Fails to connect when nothing is deployed", async function () {
+        await expect(TokenSwapperClient.connect(swapper1.address, ethers.provider)).to.be.rejectedWith(
+          "No swapper contract deployed",
+        );
+      });
+
+      it("Finds the deployment block", async function () {
+        expect(await TokenSwapperClient.findDeploymentBlock(tokenSwapperAddress, ethers.provider)).equal(
+          deploymentBlock,
+        );
+        await expect(TokenSwapperClient.findDeploymentBlock(swapper1.address, ethers.provider)).to.be.rejectedWith(
+          "No swapper contract deployed",
+        );
+      });
+
+      it("Uses the supplied variant without detecting", async function () {
+        const client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1, {
+          variant: SwapperVariant.TokenSwapper,
+        });
+
+        expect(client.variant).equal(SwapperVariant.TokenSwapper);
+      });
+
+      it("Initiates a swap and returns the swapId and emitted swap", async function () {
+        const client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+        const first = await client.initiateSwap(defaultSwap);
+        const second = await client.initiateSwap(defaultSwap);
+
+        expect(first.swapId).equal(1n);
+        expect(second.swapId).equal(2n);
+        expect(first.swap).deep.equal(defaultSwap);
+        expect(first.receipt.status).equal(1);
+      });
+
+      it("Fetches a swap by id", async function () {
+        const client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+        const { swapId } = await client.initiateSwap(defaultSwap);
+
+        expect(await client.getSwap(swapId)).deep.equal(defaultSwap);
+        expect(await client.getSwap(swapId + 1n)).undefined;
+      });
+
+      it("Verifies a held swap against the chain", async function () {
+        const client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+        const { swapId, swap } = await client.initiateSwap(defaultSwap);
+
+        expect(await client.verifySwapAgainstChain(swapId, swap)).true;
+
+        await client.removeSwap(swapId, swap);
+
+        expect(await client.verifySwapAgainstChain(swapId, swap)).false;
+      });
+
+      it("Returns the swap status", async function () {
+        const client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+        const { swapId, swap } = await client.initiateSwap(defaultSwap);
+
+        expect(await client.getSwapStatus(swapId, swap)).deep.equal({
+          initiatorNeedsToOwnToken: false,
+          acceptorNeedsToOwnToken: false,
+          initiatorTokenRequiresApproval: true,
+          acceptorTokenRequiresApproval: true,
+          isReadyForSwapping: false,
+        });
+      });
+
+      it("Completes a swap with the real acceptor", async function () {
+        const initiatorClient = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+        const acceptorClient = await TokenSwapperClient.connect(tokenSwapperAddress, swapper2);
+
+        const { swapId, swap } = await initiatorClient.initiateSwap(defaultSwap);
+
+        await erc20A.connect(swapper1).approve(tokenSwapperAddress, 500n);
+        await myToken.connect(swapper2).approve(tokenSwapperAddress, 0n);
+
+        const result = await acceptorClient.completeSwap(swapId, swap);
+
+        expect(result.swapId).equal(swapId);
+        expect(result.initiator).equal(swapper1.address);
+        expect(result.acceptor).equal(swapper2.address);
+        expect(await myToken.ownerOf(0n)).equal(swapper1.address);
+        expect(await erc20A.balanceOf(swapper2.address)).equal(500n);
+      });
+
+      it("Completes a swap sending the acceptor ETH portion", async function () {
+        defaultSwap.initiatorETHPortion = 0n;
+        defaultSwap.acceptorETHPortion = GENERIC_SWAP_ETH;
+
+        const initiatorClient = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+        const acceptorClient = await TokenSwapperClient.connect(tokenSwapperAddress, swapper2);
+
+        const { swapId, swap } = await initiatorClient.initiateSwap(defaultSwap);
+
+        await erc20A.connect(swapper1).approve(tokenSwapperAddress, 500n);
+        await myToken.connect(swapper2).approve(tokenSwapperAddress, 0n);
+
+        const balanceBefore = await ethers.provider.getBalance(swapper1.address);
+
+        await acceptorClient.completeSwap(swapId, swap);
+
+        expect(await ethers.provider.getBalance(swapper1.address)).equal(balanceBefore + GENERIC_SWAP_ETH);
+      });
+
+      it("Completes and removes with a swap kept as submitted", async function () {
+        defaultSwap.acceptorTokenType = TokenType.NONE;
+        defaultSwap.acceptorTokenId = 3n;
+        defaultSwap.initiatorETHPortion = 0n;
+        defaultSwap.acceptorETHPortion = GENERIC_SWAP_ETH;
+
+        const initiatorClient = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+        const acceptorClient = await TokenSwapperClient.connect(tokenSwapperAddress, swapper2);
+
+        const first = await initiatorClient.initiateSwap(defaultSwap);
+        const second = await initiatorClient.initiateSwap(defaultSwap);
+
+        expect(first.swap.acceptorERCContract).equal(ethers.ZeroAddress);
+        expect(await initiatorClient.verifySwapAgainstChain(first.swapId, defaultSwap)).true;
+
+        await erc20A.connect(swapper1).approve(tokenSwapperAddress, 500n);
+
+        await acceptorClient.completeSwap(first.swapId, defaultSwap);
+        await initiatorClient.removeSwap(second.swapId, defaultSwap);
+
+        expect(await erc20A.balanceOf(swapper2.address)).equal(500n);
+      });
+
+      it("Removes a swap and refunds the initiator ETH portion", async function () {
+        const client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+        const { swapId, swap } = await client.initiateSwap(defaultSwap);
+
+        const result = await client.removeSwap(swapId, swap);
+
+        expect(result.swapId).equal(swapId);
+        expect(result.initiator).equal(swapper1.address);
+        expect(await ethers.provider.getBalance(tokenSwapperAddress)).equal(0n);
+      });
+
+      it("Fails validation before initiating an invalid swap", async function () {
+        const client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper2);
+
+        await expect(client.initiateSwap(defaultSwap)).to.be.rejectedWith(SwapValidationError, "is not the sender");
+        expect(await client.contract.swapId()).equal(1n);
+      });
+
+      it("Surfaces the contract revert", async function () {
+        const initiatorClient = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+        const otherClient = await TokenSwapperClient.connect(tokenSwapperAddress, owner);
+
+        const { swapId, swap } = await initiatorClient.initiateSwap(defaultSwap);
+
+        await expect(otherClient.completeSwap(swapId, swap)).to.be.revertedWithCustomError(
+          otherClient.contract,
+          "NotAcceptor",
+        );
+      });
+    });
+  }
+});
@@ -0,0 +1,221 @@
+import { loadFixture, time as networkTime } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { MyToken, TokenSwapperBase, TokenSwapperBase__factory } from "../typechain-types";
+import { ANY_TOKEN_ID } from "../sdk/CollectionSwaps";
+import { SwapValidationError } from "../sdk/SwapValidation";
+import { SwapperVariant, TokenSwapperClient } from "../sdk/TokenSwapperClient";
+import {
+  TokenIdMerkleTree,
+  fetchCollectionMetadata,
+  hasTraits,
+  hashTokenIdLeaf,
+  verifyTokenIdProof,
+} from "../sdk/TraitSwaps";
+import { Swap, TokenType } from "../sdk/types";
+
+describe("TraitSwaps sdk testing", function () {
+  const GENERIC_SWAP_ETH = ethers.parseEther("1");
+  const DAY = 86400n;
+
+  describe("TokenIdMerkleTree", function () {
+    it("Proves every tokenId of a tree with an odd node out", function () {
+      const tree = TokenIdMerkleTree.fromTokenIds([9n, 3n, 5n, 1n, 7n, 3n]);
+
+      expect(tree.tokenIds).deep.equal([1n, 3n, 5n, 7n, 9n]);
+      expect(TokenIdMerkleTree.fromTokenIds([1n, 9n, 7n, 5n, 3n]).root).equal(tree.root);
+
+      for (const tokenId of tree.tokenIds) {
+        expect(verifyTokenIdProof(tree.root, tokenId, tree.getProof(tokenId))).true;
+      }
+
+      expect(tree.has(2n)).false;
+      expect(verifyTokenIdProof(tree.root, 2n, tree.getProof(1n))).false;
+      expect(() => tree.getProof(2n)).to.throw("TokenId 2 is not in the tree");
+    });
+
+    it("Uses the leaf as the root of a single tokenId tree", function () {
+      const tree = TokenIdMerkleTree.fromTokenIds([42n]);
+
+      expect(tree.root).equal(hashTokenIdLeaf(42n));
+      expect(tree.getProof(42n)).deep.equal([]);
+      expect(() => TokenIdMerkleTree.fromTokenIds([])).to.throw("A trait swap must accept at least one tokenId");
+    });
+  });
+
+  for (const variant of [SwapperVariant.TokenSwapper, SwapperVariant.NonCancunTokenSwapper]) {
+    describe(variant, function () {
+      let tokenSwapper: TokenSwapperBase;
+      let tokenSwapperAddress: string;
+      let myToken: MyToken;
+      let myTokenAddress: string;
+
+      let owner: SignerWithAddress;
+      let swapper1: SignerWithAddress;
+      let swapper2: SignerWithAddress;
+
+      let client: TokenSwapperClient;
+      let traitSwap: Swap;
+      let tree: TokenIdMerkleTree;
+
+      async function deployContractsFixture() {
+        tokenSwapperAddress = await (await ethers.deployContract(variant)).getAddress();
+        tokenSwapper = TokenSwapperBase__factory.connect(tokenSwapperAddress, swapper2);
+
+        myToken = await ethers.deployContract("MyToken", [owner]);
+        myTokenAddress = await myToken.getAddress();
+
+        // swapper2 holds tokenIds 0 and 2, tokenIds 1 and 3 are held by the owner
+        await myToken.safeMint(swapper2.address);
+        await myToken.safeMint(owner.address);
+        await myToken.safeMint(swapper2.address);
+        await myToken.safeMint(owner.address);
+
+        await myToken.connect(swapper2).setApprovalForAll(tokenSwapperAddress, true);
+      }
+
+      before(async () => {
+        [owner, swapper1, swapper2] = await ethers.getSigners();
+      });
+
+      this.beforeEach(async () => {
+        await loadFixture(deployContractsFixture);
+
+        client = await TokenSwapperClient.connect(tokenSwapperAddress, swapper1);
+
+        traitSwap = {
+          expiryDate: BigInt(await networkTime.latest()) + DAY,
+          initiatorERCContract: ethers.ZeroAddress,
+          acceptorERCContract: myTokenAddress,
+          initiator: swapper1.address,
+          initiatorTokenId: 0n,
+          initiatorTokenQuantity: 0n,
+          acceptor: ethers.ZeroAddress,
+          acceptorTokenId: ANY_TOKEN_ID,
+          acceptorTokenQuantity: 0n,
+          initiatorETHPortion: GENERIC_SWAP_ETH,
+          acceptorETHPortion: 0n,
+          initiatorTokenType: TokenType.NONE,
+          acceptorTokenType: TokenType.ERC721,
+        };
+
+        tree = TokenIdMerkleTree.fromTokenIds([1n, 2n, 3n]);
+      });
+
+      it("Completes a trait swap with a proven tokenId only", async function () {
+        const { swapId, tokenIdsRoot } = await client.initiateTraitSwap(traitSwap, tree);
+
+        expect(tokenIdsRoot).equal(tree.root);
+        expect(await client.getTokenIdsRoot(swapId)).equal(tree.root);
+
+        await expect(tokenSwapper.completeCollectionSwap(swapId, traitSwap, 0n))
+          .to.be.revertedWithCustomError(tokenSwapper, "TokenIdNotInRoot")
+          .withArgs(0n);
+        await expect(tokenSwapper.completeTraitSwap(swapId, traitSwap, 0n, tree.getProof(2n)))
+          .to.be.revertedWithCustomError(tokenSwapper, "TokenIdNotInRoot")
+          .withArgs(0n);
+
+        await expect(tokenSwapper.completeTraitSwap(swapId, traitSwap, 2n, tree.getProof(2n)))
+          .to.emit(tokenSwapper, "AcceptorTokenIdChosen")
+          .withArgs(swapId, 2n);
+
+        expect(await myToken.ownerOf(2n)).equal(swapper1.address);
+        expect(await tokenSwapper.getTokenIdsRoot(swapId)).equal(ethers.ZeroHash);
+      });
+
+      it("Only initiates trait swaps accepting any tokenId with a root", async function () {
+        await expect(
+          tokenSwapper.connect(swapper1).initiateTraitSwap(traitSwap, ethers.ZeroHash, { value: GENERIC_SWAP_ETH }),
+        ).to.be.revertedWithCustomError(tokenSwapper, "EmptyTokenIdsRoot");
+        await expect(
+          tokenSwapper
+            .connect(swapper1)
+            .initiateTraitSwap({ ...traitSwap, acceptorTokenId: 2n }, tree.root, { value: GENERIC_SWAP_ETH }),
+        ).to.be.revertedWithCustomError(tokenSwapper, "NotCollectionSwap");
+
+        await expect(client.initiateTraitSwap({ ...traitSwap, acceptorTokenId: 2n }, ethers.ZeroHash))
+          .to.be.rejectedWith(SwapValidationError)
+          .and.eventually.have.nested.property("violations[1].error", "NotCollectionSwap");
+
+        await expect(
+          tokenSwapper.connect(swapper1).initiateTraitSwap(traitSwap, tree.root, { value: GENERIC_SWAP_ETH }),
+        )
+          .to.emit(tokenSwapper, "TokenIdsRootSet")
+          .withArgs(1n, tree.root);
+      });
+
+      it("Removes the root with the swap", async function () {
+        const { swapId } = await client.initiateTraitSwap(traitSwap, tree.root);
+
+        await expect(tokenSwapper.connect(swapper1).removeSwap(swapId, traitSwap)).to.changeEtherBalance(
+          swapper1,
+          GENERIC_SWAP_ETH,
+        );
+
+        expect(await client.getTokenIdsRoot(swapId)).equal(ethers.ZeroHash);
+      });
+
+      it("Chooses a held tokenId of the tree and attaches its proof", async function () {
+        const { swapId } = await client.initiateTraitSwap(traitSwap, tree);
+        const acceptorClient = await TokenSwapperClient.connect(tokenSwapperAddress, swapper2);
+
+        await expect(
+          acceptorClient.completeTraitSwap(swapId, traitSwap, TokenIdMerkleTree.fromTokenIds([0n, 2n])),
+        ).to.be.rejectedWith("does not match the root");
+        await expect(client.completeTraitSwap(swapId, traitSwap, tree)).to.be.rejectedWith(
+          `${swapper1.address} holds no token of the tree of swap ${swapId}`,
+        );
+
+        const result = await acceptorClient.completeTraitSwap(swapId, traitSwap, tree);
+
+        expect(result.acceptorTokenId).equal(2n);
+        expect(result.acceptor).equal(swapper2.address);
+        expect(await myToken.ownerOf(2n)).equal(swapper1.address);
+        expect(await myToken.ownerOf(0n)).equal(swapper2.address);
+      });
+
+      it("Builds the tree of the tokens with a trait from their metadata", async function () {
+        const fur = ["Gold", "Grey", "Gold", "Gold"];
+        const requestedUris: string[] = [];
+
+        const metadata = await fetchCollectionMetadata(
+          ethers.provider,
+          TokenType.ERC721,
+          myTokenAddress,
+          [0n, 1n, 2n, 3n],
+          {
+            fetchJson: async (uri, tokenId) => {
+              requestedUris.push(uri);
+
+              return {
+                name: `MyToken #${tokenId}`,
+                attributes: [
+                  { trait_type: "Fur", value: fur[Number(tokenId)] },
+                  { trait_type: "Eyes", value: tokenId === 3n ? "Laser" : "Blue" },
+                ],
+              };
+            },
+          },
+        );
+
+        expect(requestedUris).deep.equal(["", "", "", ""]);
+        expect(metadata[1]).deep.include({ tokenId: 1n, name: "MyToken #1" });
+
+        const goldTree = TokenIdMerkleTree.fromMetadata(metadata, hasTraits({ Fur: "Gold" }));
+
+        expect(goldTree.tokenIds).deep.equal([0n, 2n, 3n]);
+        expect(TokenIdMerkleTree.fromMetadata(metadata, hasTraits({ Fur: "Gold", Eyes: "Laser" })).tokenIds).deep.equal(
+          [3n],
+        );
+
+        const { swapId } = await client.initiateTraitSwap(traitSwap, goldTree);
+        const result = await (
+          await TokenSwapperClient.connect(tokenSwapperAddress, swapper2)
+        ).completeTraitSwap(swapId, traitSwap, goldTree);
+
+        expect(result.acceptorTokenId).equal(0n);
+      });
+    });
+  }
+});